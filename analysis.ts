@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { verifyAgainstCatalogue } from './catalogue/verify';
+import { EmptyResultError, InvalidJsonError, RateLimitError, classifyError } from './errors';
+import type { AnalysisError, AnalysisErrorKind } from './errors';
+import { parsePartialJson } from './partialJson';
+import type { CourseMatchProvider, CourseMatchRequest, FindCoursesOptions } from './providers';
+import { wait } from './timing';
+import type { AnalysisRun } from './types';
+import { isEmptyAnalysis, validateAnalysis } from './validation';
+
+// --- Analysis Request with Retries ---
+// Wraps `findCourses` with retries for transient failures and a repair path
+// for malformed JSON. Every failed attempt is reported through `onFailure`.
+
+export const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+export type AttemptOutcome = 'retried' | 'repaired' | 'salvaged' | 'gave_up';
+
+export interface FailedAttempt {
+    attempt: number;
+    /** ISO timestamp. */
+    at: string;
+    kind: AnalysisErrorKind;
+    errorName: string;
+    message: string;
+    outcome: AttemptOutcome;
+    /** Wait before the next attempt, when retried. */
+    delayMs?: number;
+    /** Length of the response text that failed to parse, if any. */
+    responseChars?: number;
+}
+
+export interface AnalysisRequestOptions extends FindCoursesOptions {
+    onFailure?: (failure: FailedAttempt) => void;
+    /** Called before each retry, e.g. to reset a streaming preview. */
+    onRetry?: (attempt: number, delayMs: number) => void;
+}
+
+export interface AnalysisResponse {
+    raw: unknown;
+    /** True when the JSON had to be repaired or salvaged from a partial response. */
+    repaired: boolean;
+    attempts: number;
+}
+
+/**
+ * Fixes the usual ways model JSON goes wrong: markdown fences, text around the
+ * object and trailing commas. Returns undefined when it still doesn't parse.
+ */
+export function repairJson(text: string): unknown {
+    const unfenced = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    if (start < 0 || end <= start) return undefined;
+    const candidate = unfenced.slice(start, end + 1).replace(/,(\s*[}\]])/g, '$1');
+    try {
+        return JSON.parse(candidate);
+    } catch {
+        return undefined;
+    }
+}
+
+/** Whatever complete members a cut-off response holds, or undefined if none. */
+function salvageJson(text: string): unknown {
+    try {
+        const { value } = parsePartialJson(text.slice(text.indexOf('{')));
+        return value && typeof value === 'object' && Object.keys(value).length > 0 ? value : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function retryDelay(attempt: number, error: AnalysisError): number {
+    const backoff = BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 250;
+    const suggested = error instanceof RateLimitError && error.retryAfterMs !== null ? error.retryAfterMs : 0;
+    return Math.min(Math.max(backoff, suggested), MAX_DELAY_MS);
+}
+
+export async function requestAnalysis(
+    provider: CourseMatchProvider,
+    request: CourseMatchRequest,
+    { signal, onText, onFailure, onRetry }: AnalysisRequestOptions = {},
+): Promise<AnalysisResponse> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return { raw: await provider.findCourses(request, { signal, onText }), repaired: false, attempts: attempt };
+        } catch (caught) {
+            if (signal?.aborted) throw caught;
+            const error = classifyError(caught);
+            const text = error instanceof InvalidJsonError ? error.text : '';
+            const report = (outcome: AttemptOutcome, delayMs?: number) => onFailure?.({
+                attempt,
+                at: new Date().toISOString(),
+                kind: error.kind,
+                errorName: error.name,
+                message: error.message,
+                outcome,
+                delayMs,
+                responseChars: text ? text.length : undefined,
+            });
+
+            const repaired = text ? repairJson(text) : undefined;
+            if (repaired !== undefined) {
+                report('repaired');
+                return { raw: repaired, repaired: true, attempts: attempt };
+            }
+            if (error.retryable && attempt < MAX_ATTEMPTS) {
+                const delayMs = retryDelay(attempt, error);
+                report('retried', delayMs);
+                onRetry?.(attempt + 1, delayMs);
+                await wait(delayMs, signal);
+                continue;
+            }
+            // Out of retries: a cut-off response still beats nothing.
+            const salvaged = text ? salvageJson(text) : undefined;
+            if (salvaged !== undefined) {
+                report('salvaged');
+                return { raw: salvaged, repaired: true, attempts: attempt };
+            }
+            report('gave_up');
+            throw error;
+        }
+    }
+}
+
+// --- Complete Analysis ---
+
+/**
+ * Requests an analysis and turns the response into a run: validated, checked
+ * against the course index and stamped with what produced it. Throws
+ * EmptyResultError when nothing usable came back.
+ */
+export async function analyseCv(
+    provider: CourseMatchProvider,
+    request: CourseMatchRequest,
+    options: AnalysisRequestOptions = {},
+): Promise<AnalysisRun> {
+    const response = await requestAnalysis(provider, request, options);
+    const { data, issues } = validateAnalysis(response.raw);
+    if (response.repaired) {
+        issues.unshift({ key: 'results.repaired' });
+    }
+    if (issues.length > 0) {
+        console.warn("Response failed schema validation:", issues);
+    }
+    const result = verifyAgainstCatalogue(data);
+    if (isEmptyAnalysis(result)) {
+        throw new EmptyResultError();
+    }
+    return {
+        result,
+        issues,
+        inputs: request.inputs,
+        generatedAt: new Date().toISOString(),
+        provider: provider.id,
+        model: provider.model,
+        promptVersion: request.prompt.version,
+    };
+}
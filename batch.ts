@@ -0,0 +1,286 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { analyseCv } from './analysis';
+import type { FailedAttempt } from './analysis';
+import { parseCsv } from './catalogue/import';
+import { cvFormat, extractCvText } from './cv/extract';
+import { checkWorkExperience, parseCv } from './cv/profile';
+import type { CvProfile, ExperienceCheck } from './cv/profile';
+import type { EligibilityStatus } from './eligibility';
+import { classifyError } from './errors';
+import type { AnalysisError } from './errors';
+import type { Message } from './i18n';
+import type { PromptInputs } from './prompt';
+import { CURRENT_PROMPT } from './prompts';
+import { fileToGenerativePart } from './providers';
+import type { CourseMatchProvider } from './providers';
+import { buildCandidates, checkTrio, initialTrio } from './trio';
+import type { TrioCandidate } from './trio';
+import type { AnalysisRun } from './types';
+
+// --- Adviser Batch Mode ---
+// Analyses a cohort of CVs, each with its own form inputs, and summarises the
+// results for the cohort report. Candidates come from uploaded files, a CSV
+// manifest, or both, matched on file name.
+
+/** Analyses run at the same time; retries in `requestAnalysis` absorb the odd rate limit. */
+export const BATCH_CONCURRENCY = 2;
+/** Gaps listed per candidate in the cohort report. */
+export const TOP_GAPS = 3;
+
+export type BatchStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type MissingDetail = 'file' | 'fields' | 'impact';
+
+export interface BatchCandidate {
+    id: number;
+    name: string;
+    fileName: string;
+    /** Null while the CV named in the manifest has not been uploaded. */
+    file: File | null;
+    inputs: PromptInputs;
+    /** Null until the candidate is first included in a batch. */
+    status: BatchStatus | null;
+    run?: AnalysisRun;
+    /** From the CV as read in the browser; null when it had no readable text. */
+    experience?: ExperienceCheck | null;
+    error?: AnalysisError;
+}
+
+export interface ManifestRow {
+    file: string;
+    name: string;
+    fields: string;
+    locations: string;
+    impact: string;
+    year: number | null;
+}
+
+export interface CohortSummary {
+    trio: { university: string; programme: string; eligibility: EligibilityStatus }[];
+    /** Trio checks that did not pass, and the work experience check when it did not. */
+    issues: Message[];
+    gaps: string[];
+}
+
+// --- Candidates ---
+
+const MANIFEST_COLUMNS: Record<keyof ManifestRow, string[]> = {
+    file: ['file', 'cv', 'cv_file', 'filename', 'file_name'],
+    name: ['name', 'candidate', 'applicant'],
+    fields: ['fields', 'target_fields'],
+    locations: ['locations', 'preferred_locations', 'location'],
+    impact: ['impact', 'country_impact', 'impact_line'],
+    year: ['year', 'start_year', 'target_year'],
+};
+
+function sameFile(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** "jane_doe-cv.pdf" → "jane doe cv" */
+export function nameFromFileName(fileName: string): string {
+    return fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || fileName;
+}
+
+export function missingDetails(candidate: BatchCandidate): MissingDetail[] {
+    const missing: MissingDetail[] = [];
+    if (!candidate.file) missing.push('file');
+    if (!candidate.inputs.fields.trim()) missing.push('fields');
+    if (!candidate.inputs.impact.trim()) missing.push('impact');
+    return missing;
+}
+
+/** Marks a candidate as pending again, e.g. after its inputs changed. */
+export function clearResult(candidate: BatchCandidate) {
+    candidate.status = null;
+    delete candidate.run;
+    delete candidate.experience;
+    delete candidate.error;
+}
+
+/** Candidates with every detail filled in and no result yet. */
+export function pendingCandidates(candidates: BatchCandidate[]): BatchCandidate[] {
+    return candidates.filter(candidate => candidate.status !== 'done' && missingDetails(candidate).length === 0);
+}
+
+/**
+ * Parses a manifest with a header row. Column names are matched loosely
+ * ("Target fields", "target_fields"); rows without a file name are skipped.
+ */
+export function parseManifest(text: string): { rows: ManifestRow[]; warnings: Message[] } {
+    const [header = [], ...body] = parseCsv(text.replace(/^\uFEFF/, ''));
+    const keys = header.map(column => column.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+    const column = (field: keyof ManifestRow) => keys.findIndex(key => MANIFEST_COLUMNS[field].includes(key));
+    const warnings: Message[] = [];
+    const rows: ManifestRow[] = [];
+
+    if (column('file') < 0) {
+        return { rows, warnings: [{ key: 'batch.noFileColumn', params: { columns: MANIFEST_COLUMNS.file.join(', ') } }] };
+    }
+    body.forEach((cells, index) => {
+        // Line 1 is the header.
+        const line = index + 2;
+        const cell = (field: keyof ManifestRow) => (column(field) >= 0 ? cells[column(field)] ?? '' : '').trim();
+        const file = cell('file');
+        if (!file) {
+            warnings.push({ key: 'batch.rowNoFile', params: { row: line } });
+            return;
+        }
+        const yearText = cell('year');
+        const year = /^\d{4}$/.test(yearText) ? Number(yearText) : null;
+        if (yearText && year === null) {
+            warnings.push({ key: 'batch.rowBadYear', params: { row: line, year: yearText } });
+        }
+        rows.push({ file, name: cell('name'), fields: cell('fields'), locations: cell('locations'), impact: cell('impact'), year });
+    });
+    return { rows, warnings };
+}
+
+/**
+ * Attaches uploaded files to candidates named in the manifest, adding a new
+ * candidate for each file that is not. Unsupported files are reported and left out.
+ */
+export function addFiles(candidates: BatchCandidate[], files: File[], defaultYear: number, nextId: () => number): Message[] {
+    const warnings: Message[] = [];
+    files.forEach(file => {
+        if (!cvFormat(file)) {
+            warnings.push({ key: 'batch.unsupportedFile', params: { fileName: file.name } });
+            return;
+        }
+        const existing = candidates.find(candidate => sameFile(candidate.fileName, file.name));
+        if (existing) {
+            existing.file = file;
+            clearResult(existing);
+            return;
+        }
+        candidates.push({
+            id: nextId(),
+            name: nameFromFileName(file.name),
+            fileName: file.name,
+            file,
+            inputs: { fields: '', locations: '', impact: '', year: defaultYear },
+            status: null,
+        });
+    });
+    return warnings;
+}
+
+/** Fills in candidates from manifest rows, adding those whose CV is not uploaded yet. */
+export function applyManifest(candidates: BatchCandidate[], rows: ManifestRow[], defaultYear: number, nextId: () => number) {
+    rows.forEach(row => {
+        const inputs = { fields: row.fields, locations: row.locations, impact: row.impact, year: row.year ?? defaultYear };
+        const existing = candidates.find(candidate => sameFile(candidate.fileName, row.file));
+        if (existing) {
+            existing.name = row.name || existing.name;
+            if (JSON.stringify(existing.inputs) !== JSON.stringify(inputs)) clearResult(existing);
+            existing.inputs = inputs;
+            return;
+        }
+        candidates.push({
+            id: nextId(),
+            name: row.name || nameFromFileName(row.file),
+            fileName: row.file,
+            file: null,
+            inputs,
+            status: null,
+        });
+    });
+}
+
+// --- Running ---
+
+export interface BatchOptions {
+    signal?: AbortSignal;
+    /** Called whenever a candidate's status changes. */
+    onUpdate?: (candidate: BatchCandidate) => void;
+    onFailure?: (failure: FailedAttempt) => void;
+}
+
+/** Runs `worker` over `items`, at most `limit` at a time, in order. Stops starting new items once aborted. */
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>, signal?: AbortSignal): Promise<void> {
+    let next = 0;
+    const lane = async () => {
+        while (next < items.length && !signal?.aborted) {
+            await worker(items[next++]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+}
+
+async function readCvProfile(file: File): Promise<CvProfile | null> {
+    try {
+        const { text } = await extractCvText(file);
+        return text ? parseCv(text) : null;
+    } catch (error) {
+        console.warn(`Could not read ${file.name} in the browser:`, error);
+        return null;
+    }
+}
+
+/**
+ * Analyses the pending candidates. Results and errors are stored on the
+ * candidates; this never rejects.
+ */
+export async function runBatch(provider: CourseMatchProvider, candidates: BatchCandidate[], { signal, onUpdate, onFailure }: BatchOptions = {}): Promise<void> {
+    const ready = pendingCandidates(candidates);
+    ready.forEach(candidate => {
+        clearResult(candidate);
+        candidate.status = 'queued';
+        onUpdate?.(candidate);
+    });
+
+    await runWithConcurrency(ready, BATCH_CONCURRENCY, async (candidate) => {
+        const file = candidate.file as File;
+        candidate.status = 'running';
+        onUpdate?.(candidate);
+        try {
+            const [cv, cvProfile] = await Promise.all([fileToGenerativePart(file), readCvProfile(file)]);
+            candidate.experience = cvProfile ? checkWorkExperience(cvProfile) : null;
+            candidate.run = await analyseCv(provider, {
+                cv,
+                cvProfile: cvProfile ?? undefined,
+                inputs: candidate.inputs,
+                prompt: CURRENT_PROMPT,
+            }, { signal, onFailure });
+            candidate.status = 'done';
+        } catch (error) {
+            if (signal?.aborted) {
+                candidate.status = 'cancelled';
+            } else {
+                console.error(`Batch analysis of ${candidate.fileName} failed:`, error);
+                candidate.status = 'failed';
+                candidate.error = classifyError(error);
+            }
+        }
+        onUpdate?.(candidate);
+    }, signal);
+
+    // Cancelled before they started.
+    ready.filter(candidate => candidate.status === 'queued').forEach(candidate => {
+        candidate.status = 'cancelled';
+        onUpdate?.(candidate);
+    });
+}
+
+// --- Cohort Report ---
+
+/** The model's trio with rule-checked eligibility, what to fix, and the top CV gaps. */
+export function summariseCandidate(run: AnalysisRun, experience: ExperienceCheck | null = null): CohortSummary {
+    const candidates = buildCandidates(run.result, run.inputs.year);
+    const byKey = new Map(candidates.map(candidate => [candidate.key, candidate]));
+    const picks = initialTrio(run.result, candidates)
+        .map(key => byKey.get(key))
+        .filter((pick): pick is TrioCandidate => !!pick);
+    const issues = checkTrio(picks).filter(check => check.severity !== 'ok').map(check => check.message);
+    if (experience && experience.status !== 'pass') {
+        issues.unshift(experience.message);
+    }
+    return {
+        trio: picks.map(pick => ({ university: pick.course.university, programme: pick.course.programme, eligibility: pick.eligibility.status })),
+        issues,
+        gaps: run.result.profile.gaps.slice(0, TOP_GAPS),
+    };
+}
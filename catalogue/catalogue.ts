@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Course Catalogue ---
+// A bundled snapshot of the Chevening-eligible course index. Used to search
+// courses offline and to check that every model recommendation actually exists.
+
+/** "unknown" when the index does not say; it never counts as full-time. */
+export type StudyMode = 'full-time' | 'part-time' | 'distance' | 'blended' | 'unknown';
+
+export interface CatalogueCourse {
+    id: string;
+    university: string;
+    programme: string;
+    city: string;
+    url: string;
+    mode: StudyMode;
+    /** Award type, e.g. "MSc", "MA", "LLM", "MBA". */
+    award: string;
+    duration_months: number | null;
+    /** Calendar months (1–12) in which the course starts. */
+    start_months: number[];
+    /** Annual international tuition fee; null when the index does not list one. */
+    fee_gbp: number | null;
+    is_mba: boolean;
+}
+
+export interface Catalogue {
+    /** Bumped on every re-import so results can record which snapshot they were checked against. */
+    version: string;
+    source: string;
+    generated_at: string;
+    courses: CatalogueCourse[];
+}
+
+export interface CatalogueQuery {
+    text?: string;
+    city?: string;
+    award?: string;
+    mbaOnly?: boolean;
+    /** Only full-time, 9–12 month courses starting in September or October. */
+    cheveningRulesOnly?: boolean;
+    maxFeeGbp?: number;
+}
+
+export interface CatalogueMatch {
+    course: CatalogueCourse;
+    /** 0–1 similarity between the recommendation and the catalogue entry. */
+    score: number;
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+/** e.g. [9, 1] → "September / January". */
+export function formatStartMonths(months: number[]): string {
+    return months.map(month => MONTH_NAMES[month - 1]).join(' / ');
+}
+
+/** The mode as a course's `study_mode`, or undefined when the index does not know it. */
+export function studyModeLabel(mode: StudyMode): string | undefined {
+    if (mode === 'unknown') return undefined;
+    return mode === 'full-time' ? 'Full-time' : mode;
+}
+
+// --- Normalisation ---
+
+const UNIVERSITY_ALIASES: Record<string, string> = {
+    lse: 'london school of economics and political science',
+    ucl: 'university college london',
+    kcl: "king's college london",
+    soas: 'soas university of london',
+    uea: 'university of east anglia',
+    lshtm: 'london school of hygiene and tropical medicine',
+};
+
+const AWARD_WORDS = /\b(msc|ma|llm|mba|mpa|mph|med|mfa|march|meng|mlitt|mst|mpp|mfin|mim|mres|mphil)\b/g;
+const UNIVERSITY_STOPWORDS = /\b(the|of|university|univ|college|at)\b/g;
+const MODE_WORDS = /\b(full|part) time\b/g;
+
+function normalise(text: string): string {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/['’]/g, '')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+function normaliseUniversity(university: string): string {
+    const base = normalise(university);
+    const expanded = UNIVERSITY_ALIASES[base] ? normalise(UNIVERSITY_ALIASES[base]) : base;
+    return expanded.replace(UNIVERSITY_STOPWORDS, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function normaliseProgramme(programme: string): string {
+    return normalise(programme).replace(AWARD_WORDS, ' ').replace(MODE_WORDS, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    const padded = ` ${text} `;
+    for (let i = 0; i < padded.length - 1; i++) {
+        const gram = padded.slice(i, i + 2);
+        counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    }
+    return counts;
+}
+
+/** Sørensen–Dice coefficient over character bigrams; tolerant of typos and word order. */
+export function similarity(a: string, b: string): number {
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+    const gramsA = bigrams(a);
+    const gramsB = bigrams(b);
+    let overlap = 0;
+    let total = 0;
+    gramsA.forEach((count, gram) => {
+        overlap += Math.min(count, gramsB.get(gram) ?? 0);
+        total += count;
+    });
+    gramsB.forEach(count => { total += count; });
+    return (2 * overlap) / total;
+}
+
+// --- Search ---
+
+function meetsCheveningRules(course: CatalogueCourse): boolean {
+    return course.mode === 'full-time'
+        && course.duration_months !== null && course.duration_months >= 9 && course.duration_months <= 12
+        && course.start_months.some(month => month === 9 || month === 10);
+}
+
+export function searchCatalogue(catalogue: Catalogue, query: CatalogueQuery): CatalogueCourse[] {
+    const terms = normalise(query.text ?? '').split(' ').filter(Boolean);
+    const city = normalise(query.city ?? '');
+    const award = normalise(query.award ?? '');
+
+    return catalogue.courses.filter(course => {
+        if (city && !normalise(course.city).includes(city)) return false;
+        if (award && normalise(course.award) !== award) return false;
+        if (query.mbaOnly && !course.is_mba) return false;
+        if (query.cheveningRulesOnly && !meetsCheveningRules(course)) return false;
+        if (query.maxFeeGbp !== undefined && course.fee_gbp !== null && course.fee_gbp > query.maxFeeGbp) return false;
+        if (terms.length > 0) {
+            const haystack = normalise(`${course.university} ${course.programme} ${course.award} ${course.city}`);
+            return terms.every(term => haystack.includes(term));
+        }
+        return true;
+    });
+}
+
+// --- Matching Model Recommendations ---
+
+const MIN_UNIVERSITY_SCORE = 0.8;
+const MIN_PROGRAMME_SCORE = 0.55;
+const MIN_MATCH_SCORE = 0.7;
+
+/**
+ * Finds the catalogue entry a recommendation most likely refers to, or null
+ * if nothing is close enough to count as "verified in index".
+ */
+export function matchCourse(catalogue: Catalogue, university: string, programme: string): CatalogueMatch | null {
+    const wantedUniversity = normaliseUniversity(university);
+    const wantedProgramme = normaliseProgramme(programme);
+    const wantedAward = normalise(programme).match(AWARD_WORDS)?.[0];
+
+    let best: CatalogueMatch | null = null;
+    for (const course of catalogue.courses) {
+        const universityScore = similarity(wantedUniversity, normaliseUniversity(course.university));
+        if (universityScore < MIN_UNIVERSITY_SCORE) continue;
+
+        // "MBA" on its own normalises to an empty programme name.
+        const candidateProgramme = normaliseProgramme(course.programme);
+        let programmeScore = wantedProgramme || candidateProgramme
+            ? similarity(wantedProgramme, candidateProgramme)
+            : 1;
+        if (programmeScore < MIN_PROGRAMME_SCORE) continue;
+        if (wantedAward && normalise(course.award) !== wantedAward) {
+            programmeScore *= 0.85;
+        }
+
+        const score = 0.4 * universityScore + 0.6 * programmeScore;
+        if (score >= MIN_MATCH_SCORE && (!best || score > best.score)) {
+            best = { course, score };
+        }
+    }
+    return best;
+}
@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { isMba, parseFeeGbp } from '../fees';
+import type { Catalogue, CatalogueCourse, StudyMode } from './catalogue';
+
+// --- Catalogue Importer ---
+// Turns CSV or JSON exports of the course index into the bundled catalogue
+// format. Column names vary between exports, so each field accepts aliases.
+
+export interface ImportResult {
+    courses: CatalogueCourse[];
+    /** Rows that were skipped or only partly understood. */
+    warnings: string[];
+}
+
+type Row = Record<string, string>;
+
+const COLUMN_ALIASES: Record<Exclude<keyof CatalogueCourse, 'id'>, string[]> = {
+    university: ['university', 'institution', 'provider', 'university_name'],
+    programme: ['programme', 'program', 'course', 'course_name', 'title'],
+    city: ['city', 'location', 'campus', 'town'],
+    url: ['url', 'link', 'course_url', 'website'],
+    mode: ['mode', 'study_mode', 'attendance'],
+    award: ['award', 'qualification', 'award_type', 'degree'],
+    duration_months: ['duration_months', 'duration', 'length'],
+    start_months: ['start_months', 'start', 'start_date', 'intake', 'start_cycle'],
+    fee_gbp: ['fee_gbp', 'fee', 'fees', 'tuition', 'international_fee'],
+    is_mba: ['is_mba', 'mba'],
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function pick(row: Row, field: keyof typeof COLUMN_ALIASES): string {
+    for (const alias of COLUMN_ALIASES[field]) {
+        const value = row[alias];
+        if (value !== undefined && value.trim() !== '') return value.trim();
+    }
+    return '';
+}
+
+/** A full-time option wins, so "Full-time / Part-time" is full-time. */
+function parseMode(value: string): StudyMode {
+    if (/full/i.test(value)) return 'full-time';
+    if (/part/i.test(value)) return 'part-time';
+    if (/distance|online/i.test(value)) return 'distance';
+    if (/blended/i.test(value)) return 'blended';
+    return 'unknown';
+}
+
+/** Accepts "12", "12 months", "1 year", "18 months part-time". */
+function parseDuration(value: string): number | null {
+    const match = value.match(/(\d+(?:\.\d+)?)\s*(years?|yrs?|months?)?/i);
+    if (!match) return null;
+    const amount = parseFloat(match[1]);
+    return /^y/i.test(match[2] ?? '') ? Math.round(amount * 12) : Math.round(amount);
+}
+
+/** Accepts "9;10", "September, January", "Sep/Oct". */
+function parseStartMonths(value: string): number[] {
+    const months = new Set<number>();
+    for (const token of value.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)) {
+        const numeric = parseInt(token, 10);
+        if (!Number.isNaN(numeric) && numeric >= 1 && numeric <= 12 && String(numeric) === token) {
+            months.add(numeric);
+            continue;
+        }
+        const index = MONTHS.indexOf(token.slice(0, 3));
+        if (index >= 0) months.add(index + 1);
+        if (token === 'autumn' || token === 'fall') months.add(9);
+    }
+    return [...months].sort((a, b) => a - b);
+}
+
+function parseBoolean(value: string): boolean | null {
+    if (/^(1|true|yes|y)$/i.test(value)) return true;
+    if (/^(0|false|no|n)$/i.test(value)) return false;
+    return null;
+}
+
+function slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function toCourse(row: Row, line: number, warnings: string[]): CatalogueCourse | null {
+    const university = pick(row, 'university');
+    const programme = pick(row, 'programme');
+    if (!university || !programme) {
+        warnings.push(`Row ${line}: missing university or programme, skipped.`);
+        return null;
+    }
+    const award = pick(row, 'award') || (programme.match(/^(M[A-Za-z]{1,4}|LLM)\b/)?.[0] ?? '');
+    const duration = parseDuration(pick(row, 'duration_months'));
+    const feeText = pick(row, 'fee_gbp');
+    const fee = parseFeeGbp(feeText);
+    const mode = parseMode(pick(row, 'mode'));
+    if (mode === 'unknown') warnings.push(`Row ${line}: no study mode for ${programme}.`);
+    if (duration === null) warnings.push(`Row ${line}: no duration for ${programme}.`);
+    if (feeText && fee === null) warnings.push(`Row ${line}: could not read fee "${feeText}" for ${programme}.`);
+
+    return {
+        id: slugify(`${university} ${programme}`),
+        university,
+        programme,
+        city: pick(row, 'city'),
+        url: pick(row, 'url'),
+        mode,
+        award,
+        duration_months: duration,
+        start_months: parseStartMonths(pick(row, 'start_months')),
+        fee_gbp: fee,
+        is_mba: parseBoolean(pick(row, 'is_mba')) ?? (isMba(programme) || isMba(award)),
+    };
+}
+
+/** Minimal RFC 4180 parser: quoted fields, escaped quotes and embedded newlines. */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+function importRows(rows: Row[], firstLine: number): ImportResult {
+    const warnings: string[] = [];
+    const seen = new Set<string>();
+    const courses: CatalogueCourse[] = [];
+    rows.forEach((row, index) => {
+        const course = toCourse(row, index + firstLine, warnings);
+        if (!course) return;
+        if (seen.has(course.id)) {
+            warnings.push(`Row ${index + firstLine}: duplicate of ${course.university} ${course.programme}, skipped.`);
+            return;
+        }
+        seen.add(course.id);
+        courses.push(course);
+    });
+    return { courses, warnings };
+}
+
+export function importCatalogueCsv(text: string): ImportResult {
+    const [header = [], ...body] = parseCsv(text.replace(/^\uFEFF/, ''));
+    const keys = header.map(column => column.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+    const rows = body.map(cells => Object.fromEntries(keys.map((key, i) => [key, cells[i] ?? ''])));
+    // Line 1 is the header.
+    return importRows(rows, 2);
+}
+
+export function importCatalogueJson(text: string): ImportResult {
+    const parsed: unknown = JSON.parse(text);
+    const list = Array.isArray(parsed)
+        ? parsed
+        : (parsed as { courses?: unknown })?.courses;
+    if (!Array.isArray(list)) {
+        throw new Error('Expected a JSON array of courses or an object with a "courses" array.');
+    }
+    const rows = list.map(item => Object.fromEntries(
+        Object.entries(item ?? {}).map(([key, value]) => [
+            key.toLowerCase(),
+            Array.isArray(value) ? value.join(';') : value === null || value === undefined ? '' : String(value),
+        ]),
+    ));
+    return importRows(rows, 1);
+}
+
+export function buildCatalogue(courses: CatalogueCourse[], version: string, source: string, now = new Date()): Catalogue {
+    return {
+        version,
+        source,
+        generated_at: now.toISOString(),
+        courses: [...courses].sort((a, b) => a.university.localeCompare(b.university) || a.programme.localeCompare(b.programme)),
+    };
+}
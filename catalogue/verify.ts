@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import catalogueData from './data/catalogue.json';
+import { formatStartMonths, matchCourse, studyModeLabel } from './catalogue';
+import { parseFeeGbp } from '../fees';
+import type { Catalogue, CatalogueCourse } from './catalogue';
+import type { Alternative, AnalysisResult, CatalogueVerification, RankedCourse } from '../types';
+
+export const bundledCatalogue = catalogueData as Catalogue;
+
+/** Fills gaps in the model's course data from the catalogue; values the model gave are kept. */
+function fillFromCatalogue(course: RankedCourse, entry: CatalogueCourse): { course: RankedCourse; filled: string[] } {
+    const filled: string[] = [];
+    const next = { ...course };
+
+    if (entry.duration_months !== null && course.duration_months === undefined) {
+        next.duration_months = entry.duration_months;
+        filled.push('duration_months');
+    }
+    if (entry.fee_gbp !== null && parseFeeGbp(course.fee_gbp) === null) {
+        next.fee_gbp = `£${entry.fee_gbp.toLocaleString('en-GB')}`;
+        filled.push('fee_gbp');
+    }
+    const mode = studyModeLabel(entry.mode);
+    if (!course.study_mode && mode) {
+        next.study_mode = mode;
+        filled.push('study_mode');
+    }
+    if (!course.award && entry.award) {
+        next.award = entry.award;
+        filled.push('award');
+    }
+    if (!course.city && entry.city) {
+        next.city = entry.city;
+        filled.push('city');
+    }
+    if (!course.url && entry.url) {
+        next.url = entry.url;
+        filled.push('url');
+    }
+    if ((!course.start_cycle || /verify/i.test(course.start_cycle)) && entry.start_months.length > 0) {
+        next.start_cycle = formatStartMonths(entry.start_months);
+        filled.push('start_cycle');
+    }
+    return { course: next, filled };
+}
+
+function verification(catalogue: Catalogue, entry: CatalogueCourse | undefined, filled: string[] = []): CatalogueVerification {
+    return entry
+        ? { status: 'verified', course_id: entry.id, catalogue_version: catalogue.version, filled_fields: filled }
+        : { status: 'not_found', catalogue_version: catalogue.version, filled_fields: [] };
+}
+
+/**
+ * Matches every recommendation against the catalogue, marks it "verified" or
+ * "not_found" and fills missing fees, durations and similar fields from the
+ * matched entry.
+ */
+export function verifyAgainstCatalogue(data: AnalysisResult, catalogue: Catalogue = bundledCatalogue): AnalysisResult {
+    const ranked_courses = data.ranked_courses.map(course => {
+        const entry = matchCourse(catalogue, course.university, course.programme)?.course;
+        if (!entry) return { ...course, catalogue: verification(catalogue, undefined) };
+        const { course: filledCourse, filled } = fillFromCatalogue(course, entry);
+        return { ...filledCourse, catalogue: verification(catalogue, entry, filled) };
+    });
+    const alternatives = data.alternatives.map((alternative): Alternative => {
+        const entry = matchCourse(catalogue, alternative.university, alternative.programme)?.course;
+        return {
+            ...alternative,
+            url: alternative.url || entry?.url || '',
+            catalogue: verification(catalogue, entry),
+        };
+    });
+    return { ...data, ranked_courses, alternatives };
+}
+
+export function findCatalogueCourse(id: string | undefined, catalogue: Catalogue = bundledCatalogue): CatalogueCourse | undefined {
+    return id ? catalogue.courses.find(course => course.id === id) : undefined;
+}
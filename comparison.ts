@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describeGap, estimateCosts } from './costs';
+import { checkEligibility } from './eligibility';
+import type { EligibilityReport } from './eligibility';
+import { MBA_FEE_CAP_GBP, isMba, parseFeeGbp } from './fees';
+import { formatGbp, formatNumber, t, tMessage } from './i18n';
+import type { MessageKey } from './i18n';
+import { MAX_TOTAL_SCORE, rankCourses } from './scoring';
+import type { ScoreWeights } from './scoring';
+import type { RankedCourse } from './types';
+
+// --- Course Comparison ---
+// Side-by-side rows for 2–4 ranked courses. Courses are identified by the
+// rank the model gave them, which stays fixed when the user re-weights scores,
+// so a selection survives re-ranking, saved runs and the URL.
+
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 4;
+
+export type ComparisonRowId = 'city' | 'start' | 'duration' | 'fee' | 'eligibility' | 'mba' | 'cost_gap' | 'score' | 'rationale';
+
+export interface ComparisonRow {
+    id: ComparisonRowId;
+    label: string;
+    /** One entry per compared course, in column order; lists for the rationale row. */
+    values: string[][];
+    /** True when the courses do not all share the same value. */
+    differs: boolean;
+}
+
+export interface ComparedCourse {
+    course: RankedCourse;
+    /** Rank after the user's score weights are applied. */
+    rank: number;
+    eligibility: EligibilityReport;
+}
+
+export interface CourseComparison {
+    courses: ComparedCourse[];
+    rows: ComparisonRow[];
+}
+
+const ELIGIBILITY_LABELS: Record<EligibilityReport['status'], MessageKey> = {
+    eligible: 'compare.eligible',
+    ineligible: 'compare.ineligible',
+    unverified: 'compare.unverified',
+};
+
+/** Drops unknown and repeated ranks and keeps at most `MAX_COMPARED`. */
+export function normaliseSelection(courses: RankedCourse[], ranks: number[]): number[] {
+    const known = new Set(courses.map(course => course.rank));
+    return [...new Set(ranks)].filter(rank => known.has(rank)).slice(0, MAX_COMPARED);
+}
+
+function mbaImpact(course: RankedCourse): string {
+    if (!isMba(course.programme) && !isMba(course.award)) return t('compare.notMba');
+    const fee = parseFeeGbp(course.fee_gbp);
+    const cap = formatGbp(MBA_FEE_CAP_GBP);
+    if (fee === null) return t('compare.mbaFeeUnknown', { cap });
+    return fee > MBA_FEE_CAP_GBP
+        ? t('compare.mbaAboveCap', { amount: formatGbp(fee - MBA_FEE_CAP_GBP), cap })
+        : t('compare.mbaWithinCap', { cap });
+}
+
+function eligibilitySummary(report: EligibilityReport): string {
+    const failed = report.rules.filter(rule => rule.blocking && rule.status === 'fail');
+    return failed.length > 0
+        ? `${t(ELIGIBILITY_LABELS[report.status])}: ${failed.map(rule => tMessage(rule.label)).join(', ')}`
+        : t(ELIGIBILITY_LABELS[report.status]);
+}
+
+function row(id: ComparisonRowId, values: string[][]): ComparisonRow {
+    const normalised = values.map(value => value.join('\n').trim().toLowerCase());
+    return { id, label: t(`compare.row.${id}`), values, differs: new Set(normalised).size > 1 };
+}
+
+/**
+ * Builds the comparison for the selected model ranks, in the order the user
+ * picked them. Returns null when fewer than `MIN_COMPARED` are selected.
+ */
+export function compareCourses(courses: RankedCourse[], ranks: number[], targetYear: number, weights: ScoreWeights): CourseComparison | null {
+    const scored = rankCourses(courses, weights);
+    const selected = normaliseSelection(courses, ranks)
+        .map(rank => scored.find(entry => entry.modelRank === rank))
+        .filter(entry => entry !== undefined);
+    if (selected.length < MIN_COMPARED) return null;
+
+    const compared = selected.map(({ course, modelRank }) => ({
+        // Keep the model's rank on the course; `rank` holds the weighted one.
+        course: { ...course, rank: modelRank },
+        rank: course.rank,
+        eligibility: checkEligibility(course, targetYear),
+    }));
+    const totals = selected.map(({ total }) => total);
+
+    return {
+        courses: compared,
+        rows: [
+            row('city', compared.map(({ course }) => [course.city || '—'])),
+            row('start', compared.map(({ course }) => [course.start_cycle || '—'])),
+            row('duration', compared.map(({ course }) => [course.duration_months ? t('results.months', { months: course.duration_months }) : '?'])),
+            row('fee', compared.map(({ course }) => [course.fee_gbp || t('results.feeNA')])),
+            row('eligibility', compared.map(({ eligibility }) => [eligibilitySummary(eligibility)])),
+            row('mba', compared.map(({ course }) => [mbaImpact(course)])),
+            row('cost_gap', compared.map(({ course }) => [describeGap(estimateCosts(course))])),
+            row('score', totals.map(total => [total !== null ? `${formatNumber(total, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} / ${MAX_TOTAL_SCORE}` : '—'])),
+            row('rationale', compared.map(({ course }) => course.chevening_rationale)),
+        ],
+    };
+}
@@ -0,0 +1,265 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { FailedAttempt } from '../analysis';
+import { addFiles, applyManifest, clearResult, missingDetails, parseManifest, pendingCandidates, runBatch, summariseCandidate } from '../batch';
+import type { BatchCandidate } from '../batch';
+import { targetStartYear } from '../cycles';
+import type { EligibilityStatus } from '../eligibility';
+import { cohortFileName, downloadFile, toCohortCsv } from '../export';
+import { html, setHtml } from '../html';
+import type { SafeHtml } from '../html';
+import { onLocaleChange, t, tMessage, tPlural } from '../i18n';
+import type { Message } from '../i18n';
+import type { CourseMatchProvider } from '../providers';
+import type { AnalysisRun } from '../types';
+
+// --- Adviser Batch Panel ---
+// Collects a cohort of CVs with per-candidate inputs, runs them through the
+// provider a few at a time and shows the cohort report as results arrive.
+// Nothing here is saved. Markup lives in index.html.
+
+export interface BatchPanelOptions {
+    provider: CourseMatchProvider;
+    /** Shows one candidate's full results in the main results view. */
+    onOpen: (run: AnalysisRun) => void;
+    onFailure: (failure: FailedAttempt) => void;
+}
+
+const STATUS_ICONS: Record<EligibilityStatus, string> = { eligible: '✅', ineligible: '❌', unverified: '⚠️' };
+
+function statusText(candidate: BatchCandidate): string {
+    if (candidate.status === 'failed') return t('batch.status.failed', { error: candidate.error?.title ?? '' });
+    if (candidate.status) return t(`batch.status.${candidate.status}`);
+    const missing = missingDetails(candidate);
+    return missing.length > 0
+        ? t('batch.missing', { details: missing.map(detail => t(`batch.missing.${detail}`)).join(', ') })
+        : t('batch.ready');
+}
+
+function renderCandidateRow(candidate: BatchCandidate, locked: boolean): SafeHtml {
+    const disabled = locked ? 'disabled' : '';
+    return html`
+      <tr data-id="${candidate.id}">
+        <td><input type="text" data-field="name" value="${candidate.name}" aria-label="${t('batch.col.candidate')}" ${disabled}></td>
+        <td class="batch-file${candidate.file ? '' : ' missing'}">${candidate.fileName}</td>
+        <td><input type="text" data-field="fields" value="${candidate.inputs.fields}" aria-label="${t('batch.col.fields')}" ${disabled}></td>
+        <td><input type="text" data-field="locations" value="${candidate.inputs.locations}" aria-label="${t('batch.col.locations')}" ${disabled}></td>
+        <td><input type="text" data-field="impact" value="${candidate.inputs.impact}" aria-label="${t('batch.col.impact')}" ${disabled}></td>
+        <td><input type="number" data-field="year" value="${candidate.inputs.year}" aria-label="${t('batch.col.year')}" ${disabled}></td>
+        <td class="batch-status ${candidate.status ?? ''}">${statusText(candidate)}</td>
+        <td><button type="button" class="link-button danger" data-action="remove" aria-label="${t('batch.remove', { name: candidate.name })}" ${disabled}>✕</button></td>
+      </tr>
+    `;
+}
+
+function renderCandidateTable(candidates: BatchCandidate[], locked: boolean): SafeHtml {
+    if (candidates.length === 0) return html`<p class="batch-empty">${t('batch.empty')}</p>`;
+    return html`
+      <div class="batch-scroll">
+        <table class="batch-table">
+          <thead>
+            <tr>
+              <th>${t('batch.col.candidate')}</th><th>${t('batch.col.cv')}</th><th>${t('batch.col.fields')}</th>
+              <th>${t('batch.col.locations')}</th><th>${t('batch.col.impact')}</th><th>${t('batch.col.year')}</th>
+              <th>${t('batch.col.status')}</th><th></th>
+            </tr>
+          </thead>
+          <tbody>${candidates.map(candidate => renderCandidateRow(candidate, locked))}</tbody>
+        </table>
+      </div>
+    `;
+}
+
+function renderList(items: string[]): SafeHtml {
+    return html`<ul>${items.map(item => html`<li>${item}</li>`)}</ul>`;
+}
+
+function renderCohortRow(candidate: BatchCandidate): SafeHtml {
+    const name = html`<th scope="row">${candidate.name}<small>${candidate.inputs.fields}</small></th>`;
+    if (!candidate.run) {
+        return html`
+          <tr data-id="${candidate.id}">
+            ${name}
+            <td colspan="3" class="batch-failed">${candidate.error?.title}. ${candidate.error?.guidance}</td>
+            <td></td>
+          </tr>
+        `;
+    }
+    const summary = summariseCandidate(candidate.run, candidate.experience);
+    return html`
+      <tr data-id="${candidate.id}">
+        ${name}
+        <td>
+          <ol>${summary.trio.map(pick => html`
+            <li><span class="mini-badge ${pick.eligibility}" title="${t(`compare.${pick.eligibility}`)}">${STATUS_ICONS[pick.eligibility]}</span> ${pick.programme}, ${pick.university}</li>
+          `)}</ol>
+        </td>
+        <td>${summary.issues.length > 0 ? renderList(summary.issues.map(tMessage)) : t('batch.noIssues')}</td>
+        <td>${renderList(summary.gaps)}</td>
+        <td><button type="button" class="link-button" data-action="open">${t('batch.open')}</button></td>
+      </tr>
+    `;
+}
+
+function renderCohort(candidates: BatchCandidate[]): SafeHtml {
+    const reported = candidates.filter(candidate => candidate.status === 'done' || candidate.status === 'failed');
+    if (reported.length === 0) return html``;
+    return html`
+      <h3>${t('batch.cohortHeading')}</h3>
+      <div class="batch-scroll">
+        <table class="batch-cohort-table">
+          <thead>
+            <tr>
+              <th>${t('batch.col.candidate')}</th><th>${t('batch.col.trio')}</th>
+              <th>${t('batch.col.issues')}</th><th>${t('batch.col.gaps')}</th><th></th>
+            </tr>
+          </thead>
+          <tbody>${reported.map(renderCohortRow)}</tbody>
+        </table>
+      </div>
+      <button type="button" class="button-secondary" data-action="export">${t('batch.exportCsv')}</button>
+    `;
+}
+
+export function initBatchPanel({ provider, onOpen, onFailure }: BatchPanelOptions) {
+    const section = document.getElementById('batch-section') as HTMLElement;
+    const filesInput = document.getElementById('batch-files-input') as HTMLInputElement;
+    const manifestInput = document.getElementById('batch-manifest-input') as HTMLInputElement;
+    const warningList = document.getElementById('batch-warnings') as HTMLUListElement;
+    const table = document.getElementById('batch-candidates') as HTMLElement;
+    const runButton = document.getElementById('batch-run-button') as HTMLButtonElement;
+    const cancelButton = document.getElementById('batch-cancel-button') as HTMLButtonElement;
+    const progress = document.getElementById('batch-progress') as HTMLElement;
+    const cohort = document.getElementById('batch-cohort') as HTMLElement;
+    const candidates: BatchCandidate[] = [];
+    let lastId = 0;
+    const nextId = () => ++lastId;
+    let warnings: Message[] = [];
+    // The candidates in the latest batch, and its controller while it runs.
+    let batch: BatchCandidate[] = [];
+    let controller: AbortController | null = null;
+
+    function updateControls() {
+        const running = controller !== null;
+        const pending = pendingCandidates(candidates).length;
+        runButton.textContent = tPlural('batch.run', pending);
+        runButton.disabled = running || pending === 0;
+        cancelButton.classList.toggle('hidden', !running);
+        filesInput.disabled = running;
+        manifestInput.disabled = running;
+
+        const finished = batch.filter(candidate => candidate.status !== 'queued' && candidate.status !== 'running').length;
+        if (batch.length === 0) {
+            progress.textContent = '';
+        } else if (running) {
+            progress.textContent = t('batch.progress', { finished, total: batch.length });
+        } else if (batch.some(candidate => candidate.status === 'cancelled')) {
+            progress.textContent = t('batch.cancelled', { finished: batch.filter(candidate => candidate.status !== 'cancelled').length, total: batch.length });
+        } else {
+            progress.textContent = t('batch.finished', {
+                done: batch.filter(candidate => candidate.status === 'done').length,
+                failed: batch.filter(candidate => candidate.status === 'failed').length,
+            });
+        }
+    }
+
+    function render() {
+        setHtml(warningList, html`${warnings.map(warning => html`<li>${tMessage(warning)}</li>`)}`);
+        setHtml(table, renderCandidateTable(candidates, controller !== null));
+        setHtml(cohort, renderCohort(candidates));
+        updateControls();
+    }
+
+    const candidateFor = (element: HTMLElement) => {
+        const id = Number(element.closest<HTMLElement>('[data-id]')?.dataset.id);
+        return candidates.find(candidate => candidate.id === id);
+    };
+
+    filesInput.addEventListener('change', () => {
+        warnings = addFiles(candidates, [...filesInput.files ?? []], targetStartYear(), nextId);
+        filesInput.value = '';
+        render();
+    });
+
+    manifestInput.addEventListener('change', async () => {
+        const file = manifestInput.files?.[0];
+        manifestInput.value = '';
+        if (!file) return;
+        try {
+            const manifest = parseManifest(await file.text());
+            applyManifest(candidates, manifest.rows, targetStartYear(), nextId);
+            warnings = manifest.warnings;
+        } catch (error) {
+            console.warn("Manifest import failed:", error);
+            warnings = [{ key: 'batch.manifestFailed', params: { fileName: file.name } }];
+        }
+        render();
+    });
+
+    table.addEventListener('input', (e) => {
+        const input = e.target as HTMLInputElement;
+        const candidate = candidateFor(input);
+        const field = input.dataset.field;
+        if (!candidate || !field) return;
+        if (field === 'name') {
+            candidate.name = input.value;
+            return;
+        }
+        if (field === 'year') {
+            candidate.inputs.year = parseInt(input.value, 10) || candidate.inputs.year;
+        } else {
+            candidate.inputs[field as 'fields' | 'locations' | 'impact'] = input.value;
+        }
+        // Changed inputs make an earlier result stale; the candidate is pending again.
+        const hadResult = candidate.status === 'done' || candidate.status === 'failed';
+        clearResult(candidate);
+        const status = input.closest('tr')?.querySelector('.batch-status');
+        if (status) {
+            status.className = 'batch-status';
+            status.textContent = statusText(candidate);
+        }
+        if (hadResult) setHtml(cohort, renderCohort(candidates));
+        updateControls();
+    });
+
+    table.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action="remove"]');
+        const candidate = button && candidateFor(button);
+        if (!candidate) return;
+        candidates.splice(candidates.indexOf(candidate), 1);
+        batch = batch.filter(existing => existing !== candidate);
+        render();
+    });
+
+    runButton.addEventListener('click', async () => {
+        controller = new AbortController();
+        warnings = [];
+        batch = pendingCandidates(candidates);
+        try {
+            await runBatch(provider, candidates, { signal: controller.signal, onUpdate: render, onFailure });
+        } finally {
+            controller = null;
+            render();
+        }
+    });
+
+    cancelButton.addEventListener('click', () => {
+        controller?.abort();
+    });
+
+    cohort.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+        if (button?.dataset.action === 'export') {
+            downloadFile(cohortFileName(), toCohortCsv(candidates), 'text/csv');
+        } else if (button?.dataset.action === 'open') {
+            const run = candidateFor(button)?.run;
+            if (run) onOpen(run);
+        }
+    });
+
+    onLocaleChange(render);
+    section.classList.remove('hidden');
+    render();
+}
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { searchCatalogue } from '../catalogue/catalogue';
+import { bundledCatalogue } from '../catalogue/verify';
+import type { CatalogueCourse } from '../catalogue/catalogue';
+import { appendHtml, html, setHtml } from '../html';
+import type { SafeHtml } from '../html';
+import { formatDate, formatGbp, onLocaleChange, t, tPlural } from '../i18n';
+
+// --- Course Index Browser ---
+// Offline search over the bundled catalogue. Markup lives in index.html.
+
+const MAX_RESULTS = 50;
+
+function monthAbbreviation(month: number): string {
+    return formatDate(`2000-${String(month).padStart(2, '0')}-01T00:00:00Z`, { month: 'short', timeZone: 'UTC' });
+}
+
+function courseTitle(course: CatalogueCourse): string {
+    return course.programme === course.award ? course.programme : `${course.award} ${course.programme}`.trim();
+}
+
+function renderCatalogueCourse(course: CatalogueCourse): SafeHtml {
+    const starts = course.start_months.map(monthAbbreviation).join('/') || '?';
+    const fee = course.fee_gbp !== null ? formatGbp(course.fee_gbp) : t('catalogue.feeUnknown');
+    return html`
+      <li class="catalogue-course">
+        <strong>${courseTitle(course)}</strong> — ${course.university}
+        <div class="details">
+          <span>📍 ${course.city}</span>
+          <span>🗓️ ${starts}</span>
+          <span>⏳ ${t('results.months', { months: course.duration_months ?? '?' })}</span>
+          <span>💷 ${fee}</span>
+          <span>${course.mode === 'unknown' ? '?' : course.mode}</span>
+        </div>
+        <a href="${course.url}" target="_blank" rel="noopener noreferrer">${t('catalogue.coursePage')}</a>
+      </li>
+    `;
+}
+
+export function initCatalogueBrowser() {
+    const searchInput = document.getElementById('catalogue-search-input') as HTMLInputElement;
+    const cityInput = document.getElementById('catalogue-city-input') as HTMLInputElement;
+    const awardSelect = document.getElementById('catalogue-award-select') as HTMLSelectElement;
+    const rulesCheckbox = document.getElementById('catalogue-rules-checkbox') as HTMLInputElement;
+    const mbaCheckbox = document.getElementById('catalogue-mba-checkbox') as HTMLInputElement;
+    const meta = document.getElementById('catalogue-meta') as HTMLParagraphElement;
+    const count = document.getElementById('catalogue-count') as HTMLParagraphElement;
+    const results = document.getElementById('catalogue-results') as HTMLUListElement;
+
+    const awards = [...new Set(bundledCatalogue.courses.map(course => course.award).filter(Boolean))].sort();
+    appendHtml(awardSelect, html`${awards.map(award => html`<option value="${award}">${award}</option>`)}`);
+
+    function renderMeta() {
+        meta.textContent = t('catalogue.meta', {
+            version: String(bundledCatalogue.version),
+            count: bundledCatalogue.courses.length,
+            source: bundledCatalogue.source,
+        });
+    }
+
+    function update() {
+        const matches = searchCatalogue(bundledCatalogue, {
+            text: searchInput.value,
+            city: cityInput.value,
+            award: awardSelect.value,
+            mbaOnly: mbaCheckbox.checked,
+            cheveningRulesOnly: rulesCheckbox.checked,
+        });
+        count.textContent = matches.length > MAX_RESULTS
+            ? t('catalogue.showing', { shown: MAX_RESULTS, count: matches.length })
+            : tPlural('catalogue.count', matches.length);
+        setHtml(results, html`${matches.slice(0, MAX_RESULTS).map(renderCatalogueCourse)}`);
+    }
+
+    [searchInput, cityInput].forEach(input => input.addEventListener('input', update));
+    [awardSelect, rulesCheckbox, mbaCheckbox].forEach(input => input.addEventListener('change', update));
+    onLocaleChange(() => {
+        renderMeta();
+        update();
+    });
+    renderMeta();
+    update();
+}
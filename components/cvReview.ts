@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { extractCvText } from '../cv/extract';
+import { checkWorkExperience, parseCv } from '../cv/profile';
+import type { CvEducation, CvProfile, CvRole, ExperienceCheck } from '../cv/profile';
+import { html, setHtml } from '../html';
+import type { SafeHtml } from '../html';
+import { onLocaleChange, t, tMessage } from '../i18n';
+import type { Message } from '../i18n';
+
+// --- CV Review Panel ---
+// Shows the structured CV read from the selected file and lets the user
+// correct it before anything is sent. Markup lives in index.html.
+
+export interface CvReview {
+    /** Extracts and parses the file; resolves once the panel is filled. */
+    load: (file: File) => Promise<void>;
+    clear: () => void;
+    /** The corrected model, or null when nothing could be read. */
+    profile: () => CvProfile | null;
+    experience: () => ExperienceCheck | null;
+}
+
+const EXPERIENCE_ICONS = { pass: '✅', fail: '❌', unknown: '⚠️' };
+
+function renderRole(role: CvRole, index: number): SafeHtml {
+    return html`
+      <div class="cv-review-row" data-kind="roles" data-index="${index}">
+        <input type="text" data-field="title" value="${role.title}" placeholder="${t('cv.jobTitle')}" aria-label="${t('cv.jobTitle')}">
+        <input type="text" data-field="organisation" value="${role.organisation}" placeholder="${t('cv.organisation')}" aria-label="${t('cv.organisation')}">
+        <input type="month" data-field="start" value="${role.start}" aria-label="${t('cv.startMonth')}">
+        <input type="month" data-field="end" value="${role.end}" aria-label="${t('cv.endMonth')}" ${role.current ? 'disabled' : ''}>
+        <label class="cv-current"><input type="checkbox" data-field="current" ${role.current ? 'checked' : ''}> ${t('cv.current')}</label>
+        <button type="button" class="link-button danger" data-cv-remove aria-label="${t('cv.removeRole')}">✕</button>
+      </div>
+    `;
+}
+
+function renderEducation(entry: CvEducation, index: number): SafeHtml {
+    return html`
+      <div class="cv-review-row" data-kind="education" data-index="${index}">
+        <input type="text" data-field="qualification" value="${entry.qualification}" placeholder="${t('cv.qualification')}" aria-label="${t('cv.qualification')}">
+        <input type="text" data-field="institution" value="${entry.institution}" placeholder="${t('cv.institution')}" aria-label="${t('cv.institution')}">
+        <input type="text" data-field="year" value="${entry.year}" placeholder="${t('cv.year')}" aria-label="${t('cv.year')}" inputmode="numeric" maxlength="4">
+        <button type="button" class="link-button danger" data-cv-remove aria-label="${t('cv.removeEducation')}">✕</button>
+      </div>
+    `;
+}
+
+export function initCvReview(): CvReview {
+    const panel = document.getElementById('cv-review') as HTMLElement;
+    const status = document.getElementById('cv-review-status') as HTMLElement;
+    const warningList = document.getElementById('cv-review-warnings') as HTMLUListElement;
+    const experienceCheck = document.getElementById('cv-experience-check') as HTMLElement;
+    const rolesContainer = document.getElementById('cv-roles') as HTMLElement;
+    const educationContainer = document.getElementById('cv-education') as HTMLElement;
+    const leadershipInput = document.getElementById('cv-leadership-input') as HTMLTextAreaElement;
+    const rawText = document.getElementById('cv-raw-text') as HTMLElement;
+    let profile: CvProfile | null = null;
+    let warnings: Message[] = [];
+    // Kept as a function so the status can be re-rendered in a new language.
+    let statusText = () => '';
+    // Ignores results from a file the user has since replaced.
+    let loadId = 0;
+
+    function renderRows() {
+        if (!profile) return;
+        setHtml(rolesContainer, profile.roles.length > 0 ? html`${profile.roles.map(renderRole)}` : html`<p class="cv-review-empty">${t('cv.noRoles')}</p>`);
+        setHtml(educationContainer, profile.education.length > 0 ? html`${profile.education.map(renderEducation)}` : html`<p class="cv-review-empty">${t('cv.noEducation')}</p>`);
+        leadershipInput.value = profile.leadership.join('\n');
+        updateExperience();
+    }
+
+    function renderWarnings() {
+        setHtml(warningList, html`${warnings.map(warning => html`<li>${tMessage(warning)}</li>`)}`);
+    }
+
+    function setStatus(text: () => string) {
+        statusText = text;
+        status.textContent = text();
+    }
+
+    function updateExperience() {
+        if (!profile) return;
+        const check = checkWorkExperience(profile);
+        experienceCheck.className = `cv-experience-check ${check.status}`;
+        experienceCheck.textContent = `${EXPERIENCE_ICONS[check.status]} ${tMessage(check.message)}`;
+    }
+
+    function clear() {
+        loadId++;
+        profile = null;
+        warnings = [];
+        statusText = () => '';
+        panel.classList.add('hidden');
+        [status, warningList, experienceCheck, rolesContainer, educationContainer, rawText].forEach(element => element.replaceChildren());
+        leadershipInput.value = '';
+    }
+
+    async function load(file: File) {
+        clear();
+        const id = loadId;
+        panel.classList.remove('hidden');
+        setStatus(() => t('cv.reading'));
+        try {
+            const extracted = await extractCvText(file);
+            if (id !== loadId) return;
+            profile = parseCv(extracted.text);
+            const words = extracted.text.split(/\s+/).filter(Boolean).length;
+            setStatus(() => t('cv.read', { words, format: extracted.format.toUpperCase() }));
+            warnings = extracted.warnings;
+            renderWarnings();
+            rawText.textContent = extracted.text;
+            renderRows();
+        } catch (error) {
+            if (id !== loadId) return;
+            console.warn("CV extraction failed:", error);
+            profile = null;
+            setStatus(() => '');
+            warnings = [{ key: 'cv.unreadable' }];
+            renderWarnings();
+        }
+    }
+
+    panel.addEventListener('input', (e) => {
+        const input = e.target as HTMLInputElement;
+        if (!profile) return;
+        if (e.target === leadershipInput) {
+            profile.leadership = leadershipInput.value.split('\n').map(line => line.trim()).filter(Boolean);
+            return;
+        }
+        const row = input.closest<HTMLElement>('.cv-review-row');
+        const field = input.dataset.field;
+        if (!row || !field) return;
+        const index = Number(row.dataset.index);
+        if (row.dataset.kind === 'roles') {
+            const role = profile.roles[index];
+            if (field === 'current') {
+                role.current = input.checked;
+                if (role.current) role.end = '';
+                const end = row.querySelector<HTMLInputElement>('[data-field="end"]') as HTMLInputElement;
+                end.disabled = role.current;
+                end.value = role.end;
+            } else {
+                role[field as 'title' | 'organisation' | 'start' | 'end'] = input.value;
+            }
+            updateExperience();
+        } else if (row.dataset.kind === 'education') {
+            profile.education[index][field as keyof CvEducation] = input.value;
+        }
+    });
+
+    panel.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button');
+        if (!button || !profile) return;
+        if (button.dataset.cvAdd === 'role') {
+            profile.roles.push({ title: '', organisation: '', start: '', end: '', current: false });
+            renderRows();
+        } else if (button.dataset.cvAdd === 'education') {
+            profile.education.push({ qualification: '', institution: '', year: '' });
+            renderRows();
+        } else if (button.hasAttribute('data-cv-remove')) {
+            const row = button.closest<HTMLElement>('.cv-review-row') as HTMLElement;
+            const list = row.dataset.kind === 'roles' ? profile.roles : profile.education;
+            list.splice(Number(row.dataset.index), 1);
+            renderRows();
+        }
+    });
+
+    onLocaleChange(() => {
+        status.textContent = statusText();
+        renderWarnings();
+        renderRows();
+    });
+
+    return {
+        load,
+        clear,
+        profile: () => profile,
+        experience: () => (profile ? checkWorkExperience(profile) : null),
+    };
+}
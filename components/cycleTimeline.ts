@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { currentCycle, milestoneStatus, targetStartYear } from '../cycles';
+import type { Milestone } from '../cycles';
+import { html, setHtml } from '../html';
+import { formatDate as formatLocaleDate, t } from '../i18n';
+
+// --- Application Cycle Timeline ---
+// Shows the current cycle's milestones and where today falls among them.
+// Markup lives in index.html; call again to re-render after a language change.
+
+function formatDate(iso: string): string {
+    return formatLocaleDate(iso, { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'Europe/London' });
+}
+
+function formatMilestoneDates(milestone: Milestone): string {
+    return milestone.end ? `${formatDate(milestone.start)} – ${formatDate(milestone.end)}` : formatDate(milestone.start);
+}
+
+export function initCycleTimeline(now: Date = new Date()) {
+    const title = document.getElementById('cycle-timeline-title') as HTMLElement;
+    const list = document.getElementById('cycle-timeline') as HTMLOListElement;
+    const note = document.getElementById('cycle-timeline-note') as HTMLElement;
+    const cycle = currentCycle(now);
+    if (!cycle) {
+        title.textContent = t('timeline.unpublished', { year: String(targetStartYear(now)) });
+        list.replaceChildren();
+        note.textContent = t('deadline.none.text');
+        return;
+    }
+    const statuses = cycle.milestones.map(milestone => milestoneStatus(milestone, now));
+    // "You are here" sits on the milestone in progress, else before the first upcoming one.
+    const hereIndex = statuses.includes('current') ? statuses.indexOf('current') : statuses.indexOf('upcoming');
+
+    title.textContent = t('timeline.title', { cycle: cycle.id, year: String(cycle.courseStartYear) });
+    setHtml(list, html`${cycle.milestones.map((milestone, index) => html`
+      <li class="cycle-milestone ${statuses[index]}${index === hereIndex ? ' here' : ''}">
+        ${index === hereIndex ? html`<span class="cycle-here">${t(statuses[index] === 'current' ? 'timeline.now' : 'timeline.next')}</span>` : ''}
+        <strong>${t(`milestone.${milestone.id}`)}</strong>
+        <span class="cycle-date">${formatMilestoneDates(milestone)}</span>
+      </li>
+    `)}`);
+    note.textContent = cycle.provisional ? t('timeline.provisional') : '';
+}
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { upcomingMilestone } from '../cycles';
+import type { CheveningCycle } from '../cycles';
+import { formatCountdown, t } from '../i18n';
+
+// --- Deadline Countdown ---
+// The bar at the top of the page, counting down to the next milestone or to
+// the end of the one in progress. Markup lives in index.html; call
+// `initDeadlineCountdown` again to re-render after a language change.
+
+export interface DeadlineText {
+    label: string;
+    countdown: string;
+    /** False once the configured cycles have run out; the text then never changes. */
+    ticking: boolean;
+}
+
+export function describeDeadline(now: Date = new Date(), cycles?: CheveningCycle[]): DeadlineText {
+    const upcoming = upcomingMilestone(now, cycles);
+    if (!upcoming) {
+        return { label: t('deadline.none.label'), countdown: t('deadline.none.text'), ticking: false };
+    }
+
+    const { cycle, milestone, inProgress, target } = upcoming;
+    const label = inProgress
+        ? (cycle.provisional ? 'deadline.endingProvisional' : 'deadline.ending')
+        : (cycle.provisional ? 'deadline.upcomingProvisional' : 'deadline.upcoming');
+    return {
+        label: t(label, { milestone: t(`milestone.${milestone.id}`), cycle: cycle.id }),
+        countdown: formatCountdown(target.getTime() - now.getTime()),
+        ticking: true,
+    };
+}
+
+let countdownInterval: ReturnType<typeof setInterval> | undefined;
+
+export function initDeadlineCountdown() {
+    const deadlineLabel = document.getElementById('deadline-label') as HTMLSpanElement;
+    const deadlineCountdown = document.getElementById('deadline-countdown') as HTMLSpanElement;
+
+    function updateCountdown() {
+        const { label, countdown, ticking } = describeDeadline();
+        deadlineLabel.textContent = label;
+        deadlineCountdown.textContent = countdown;
+        if (!ticking) clearInterval(countdownInterval);
+    }
+
+    clearInterval(countdownInterval);
+    countdownInterval = setInterval(updateCountdown, 1000);
+    updateCountdown(); // Initial call
+}
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { FailedAttempt } from '../analysis';
+import { html, setHtml } from '../html';
+import { onLocaleChange, t, tPlural } from '../i18n';
+
+// --- Diagnostics Panel ---
+// Lists failed analysis attempts for this session and copies them as a
+// plain-text bug report. Never includes the CV or form inputs. Entries and the
+// report stay in English so they read the same in every bug report.
+// Markup lives in index.html.
+
+export interface DiagnosticsContext {
+    provider: string;
+    model: string;
+    promptVersion: string;
+}
+
+export interface DiagnosticsPanel {
+    record: (failure: FailedAttempt) => void;
+    show: () => void;
+}
+
+const OUTCOME_LABELS = {
+    retried: 'retried',
+    repaired: 'repaired locally',
+    salvaged: 'partial result kept',
+    gave_up: 'gave up',
+};
+
+function describe(failure: FailedAttempt): string {
+    const details = [
+        `attempt ${failure.attempt}`,
+        failure.kind,
+        OUTCOME_LABELS[failure.outcome],
+        failure.delayMs !== undefined ? `next try in ${(failure.delayMs / 1000).toFixed(1)}s` : '',
+        failure.responseChars !== undefined ? `${failure.responseChars} chars received` : '',
+    ].filter(Boolean);
+    return `${failure.at} ${failure.errorName}: ${failure.message} (${details.join(', ')})`;
+}
+
+export function formatDiagnosticsReport(failures: FailedAttempt[], context: DiagnosticsContext): string {
+    return [
+        'Chevening Course Matchmaker diagnostics',
+        `Generated: ${new Date().toISOString()}`,
+        `Provider: ${context.provider} (${context.model})`,
+        `Prompt version: ${context.promptVersion}`,
+        `Browser: ${navigator.userAgent}`,
+        `Page: ${location.origin}${location.pathname}`,
+        '',
+        `Failed attempts (${failures.length}):`,
+        ...failures.map(failure => `- ${describe(failure)}`),
+    ].join('\n');
+}
+
+export function initDiagnosticsPanel(context: DiagnosticsContext): DiagnosticsPanel {
+    const section = document.getElementById('diagnostics-section') as HTMLElement;
+    const details = section.querySelector('details') as HTMLDetailsElement;
+    const summary = document.getElementById('diagnostics-summary') as HTMLElement;
+    const list = document.getElementById('diagnostics-list') as HTMLOListElement;
+    const copyButton = document.getElementById('copy-diagnostics-button') as HTMLButtonElement;
+    const clearButton = document.getElementById('clear-diagnostics-button') as HTMLButtonElement;
+    const status = document.getElementById('diagnostics-status') as HTMLElement;
+    const failures: FailedAttempt[] = [];
+
+    function render() {
+        section.classList.toggle('hidden', failures.length === 0);
+        summary.textContent = tPlural('diagnostics.summary', failures.length);
+        setHtml(list, html`${failures.map(failure => html`<li class="diagnostics-entry ${failure.outcome}">${describe(failure)}</li>`)}`);
+        status.textContent = '';
+    }
+
+    copyButton.addEventListener('click', async () => {
+        try {
+            await navigator.clipboard.writeText(formatDiagnosticsReport(failures, context));
+            status.textContent = t('diagnostics.copied');
+        } catch (error) {
+            console.warn("Clipboard write failed:", error);
+            status.textContent = t('diagnostics.copyFailed');
+        }
+    });
+
+    clearButton.addEventListener('click', () => {
+        failures.length = 0;
+        render();
+    });
+
+    onLocaleChange(render);
+
+    return {
+        record(failure) {
+            failures.push(failure);
+            render();
+        },
+        show() {
+            if (failures.length === 0) return;
+            details.open = true;
+            section.scrollIntoView({ behavior: 'smooth' });
+        },
+    };
+}
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ESSAY_MAX_WORDS, ESSAY_MIN_WORDS, ESSAYS, countWords, loadDrafts, saveDrafts } from '../essays';
+import type { EssayDefinition, EssayFeedback, EssayId } from '../essays';
+import { html, setHtml } from '../html';
+import type { SafeHtml } from '../html';
+import { t } from '../i18n';
+import type { Message } from '../i18n';
+import type { CourseMatchProvider } from '../providers';
+import type { AnalysisRun } from '../types';
+import { validateEssayFeedback } from '../validation';
+
+// --- Personal Statement Workspace ---
+// One editor per Chevening essay, seeded with the generated talking points.
+// Drafts autosave to localStorage on every edit. Essay titles, questions and
+// review feedback stay in English, the language the essays are written in.
+
+function renderTalkingPoints(points: string[], impact: string): SafeHtml {
+    const items = points.map((point, index) => html`
+      <li>
+        <span>${point}</span>
+        <button type="button" class="link-button" data-action="insert-bullet" data-index="${index}">${t('essay.insert')}</button>
+      </li>
+    `);
+    return html`
+      <div class="essay-points personal-statement-bullets">
+        ${points.length > 0 ? html`<h4>${t('essay.talkingPoints')}</h4><ul>${items}</ul>` : ''}
+        ${impact ? html`<button type="button" class="link-button" data-action="insert-impact">${t('essay.insertImpact')}</button>` : ''}
+      </div>
+    `;
+}
+
+function renderEditor(essay: EssayDefinition, points: string[], impact: string, canReview: boolean, open: boolean): SafeHtml {
+    return html`
+      <details class="essay-editor" data-essay="${essay.id}" ${open ? 'open' : ''}>
+        <summary>
+          <span class="essay-title">${essay.title}</span>
+          <span class="essay-word-count" aria-live="polite"></span>
+        </summary>
+        <p class="essay-question">${essay.question}</p>
+        ${renderTalkingPoints(points, impact)}
+        <label class="visually-hidden" for="essay-${essay.id}">${t('essay.draftLabel', { title: essay.title })}</label>
+        <textarea id="essay-${essay.id}" class="essay-textarea" rows="12" placeholder="${t('essay.placeholder', { title: essay.title.toLowerCase() })}"></textarea>
+        <div class="essay-actions">
+          <span class="essay-save-status" aria-live="polite"></span>
+          ${canReview ? html`<button type="button" class="button-secondary" data-action="review">${t('essay.review')}</button>` : ''}
+        </div>
+        <div class="essay-feedback hidden" aria-live="polite"></div>
+      </details>
+    `;
+}
+
+function renderFeedback(feedback: EssayFeedback, issues: Message[]): SafeHtml {
+    return html`
+      <h4>${t('essay.feedbackHeading')}</h4>
+      ${feedback.overall ? html`<p>${feedback.overall}</p>` : ''}
+      <ul class="essay-feedback-list">
+        ${feedback.criteria.map(entry => html`
+          <li class="essay-feedback-item ${entry.rating}">
+            <strong>${entry.criterion}</strong>
+            <span class="essay-rating ${entry.rating}">${t(`essay.rating.${entry.rating}`)}</span>
+            <p>${entry.comment}</p>
+            ${entry.suggestions.length > 0 ? html`<ul>${entry.suggestions.map(suggestion => html`<li>${suggestion}</li>`)}</ul>` : ''}
+          </li>
+        `)}
+      </ul>
+      ${issues.length > 0 ? html`<p class="essay-feedback-note">${t('essay.incomplete', { count: issues.length })}</p>` : ''}
+    `;
+}
+
+export function mountEssayWorkspace(container: HTMLElement, run: AnalysisRun, provider: CourseMatchProvider | null) {
+    const drafts = loadDrafts();
+    const bullets = run.result.personal_statement_bullets;
+    const impact = run.inputs.impact.trim();
+    const pointsFor = (essay: EssayDefinition) => (essay.bulletsKey ? bullets[essay.bulletsKey] : []);
+
+    setHtml(container, html`
+      <h2>${t('essay.heading')}</h2>
+      <p class="essay-help">${t('essay.help', { limit: ESSAY_MAX_WORDS })}</p>
+      ${ESSAYS.map((essay, index) => renderEditor(essay, pointsFor(essay), impact, !!provider, index === 0))}
+    `);
+
+    const editorFor = (id: EssayId) => container.querySelector(`.essay-editor[data-essay="${id}"]`) as HTMLElement;
+
+    function updateCount(id: EssayId) {
+        const words = countWords(drafts[id]);
+        const counter = editorFor(id).querySelector('.essay-word-count') as HTMLElement;
+        counter.textContent = t('essay.words', { words, limit: ESSAY_MAX_WORDS });
+        counter.classList.toggle('over', words > ESSAY_MAX_WORDS);
+        counter.classList.toggle('under', words > 0 && words < ESSAY_MIN_WORDS);
+        const reviewButton = editorFor(id).querySelector<HTMLButtonElement>('[data-action="review"]');
+        if (reviewButton) reviewButton.disabled = words < ESSAY_MIN_WORDS;
+    }
+
+    function persist(id: EssayId, text: string) {
+        drafts[id] = text;
+        updateCount(id);
+        const status = editorFor(id).querySelector('.essay-save-status') as HTMLElement;
+        status.textContent = t(saveDrafts(drafts) ? 'essay.saved' : 'essay.notSaved');
+    }
+
+    /** Inserts at the caret, on its own paragraph when the caret is mid-text. */
+    function insertText(id: EssayId, text: string) {
+        const textarea = editorFor(id).querySelector('textarea') as HTMLTextAreaElement;
+        const before = textarea.value.slice(0, textarea.selectionStart);
+        const separator = before.trim() === '' || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+        textarea.setRangeText(`${separator}${text}`, textarea.selectionStart, textarea.selectionEnd, 'end');
+        textarea.focus();
+        persist(id, textarea.value);
+    }
+
+    async function review(id: EssayId, button: HTMLButtonElement) {
+        const essay = ESSAYS.find(definition => definition.id === id) as EssayDefinition;
+        const output = editorFor(id).querySelector('.essay-feedback') as HTMLElement;
+        if (!provider) return;
+        button.disabled = true;
+        button.textContent = t('essay.reviewing');
+        try {
+            const raw = await provider.reviewEssay({
+                title: essay.title,
+                question: essay.question,
+                criteria: essay.criteria,
+                draft: drafts[id],
+                wordLimit: ESSAY_MAX_WORDS,
+                profile: run.result.profile,
+            });
+            const { data, issues } = validateEssayFeedback(raw, essay.criteria);
+            if (issues.length > 0) console.warn(`Essay review for ${id} had issues:`, issues);
+            setHtml(output, renderFeedback(data, issues));
+        } catch (error) {
+            console.error("Essay review failed:", error);
+            setHtml(output, html`<p class="essay-feedback-note">${t('essay.failed')}</p>`);
+        } finally {
+            output.classList.remove('hidden');
+            button.textContent = t('essay.review');
+            updateCount(id);
+        }
+    }
+
+    ESSAYS.forEach(({ id }) => {
+        (editorFor(id).querySelector('textarea') as HTMLTextAreaElement).value = drafts[id];
+        updateCount(id);
+    });
+
+    container.addEventListener('input', (e) => {
+        const textarea = e.target as HTMLTextAreaElement;
+        const id = textarea.closest<HTMLElement>('.essay-editor')?.dataset.essay as EssayId | undefined;
+        if (id && textarea.classList.contains('essay-textarea')) persist(id, textarea.value);
+    });
+
+    container.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+        const id = button?.closest<HTMLElement>('.essay-editor')?.dataset.essay as EssayId | undefined;
+        if (!button || !id) return;
+        const essay = ESSAYS.find(definition => definition.id === id) as EssayDefinition;
+
+        if (button.dataset.action === 'insert-bullet') {
+            const point = pointsFor(essay)[Number(button.dataset.index)];
+            if (point) insertText(id, point);
+        } else if (button.dataset.action === 'insert-impact') {
+            insertText(id, impact);
+        } else if (button.dataset.action === 'review') {
+            review(id, button);
+        }
+    });
+}
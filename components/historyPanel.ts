@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { deleteRun, getRun, listRuns, renameRun } from '../history';
+import type { SavedRun } from '../history';
+import { html, setHtml } from '../html';
+import type { SafeHtml } from '../html';
+import { formatDate as formatLocaleDate, onLocaleChange, t, tPlural } from '../i18n';
+
+// --- Saved Analyses Panel ---
+// Lists past runs from IndexedDB. Markup lives in index.html.
+
+export interface HistoryPanelOptions {
+    onOpen: (run: SavedRun) => void;
+}
+
+export interface HistoryPanel {
+    refresh: () => Promise<void>;
+    /** Logs a failed storage operation and shows `message` under the list. */
+    reportFailure: (message: string, error: unknown) => void;
+}
+
+function formatDate(iso: string): string {
+    return formatLocaleDate(iso, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+type CourseIdentity = { university: string; programme: string };
+
+function courseKey(course: CourseIdentity): string {
+    return `${course.university}|${course.programme}`.toLowerCase();
+}
+
+function courseLabel(course: CourseIdentity): string {
+    return `${course.programme} — ${course.university}`;
+}
+
+function renderRunItem(run: SavedRun, selected: boolean): SafeHtml {
+    return html`
+      <li class="history-item" data-run-id="${run.id}">
+        <label class="history-select">
+          <input type="checkbox" class="history-compare-checkbox" ${selected ? 'checked' : ''} aria-label="${t('history.selectForComparison')}">
+        </label>
+        <div class="history-info">
+          <strong class="history-name">${run.name}</strong>
+          <span class="history-meta">${formatDate(run.createdAt)} · ${run.cv.fileName} · ${run.model} · ${tPlural('history.courses', run.result.ranked_courses.length)}</span>
+        </div>
+        <div class="history-actions">
+          <button type="button" class="link-button" data-action="open">${t('history.open')}</button>
+          <button type="button" class="link-button" data-action="rename">${t('history.rename')}</button>
+          <button type="button" class="link-button danger" data-action="delete">${t('history.delete')}</button>
+        </div>
+      </li>
+    `;
+}
+
+function renderCourseList(courses: CourseIdentity[], others: Set<string>): SafeHtml {
+    return html`<ol>${courses.map(course => html`
+      <li class="${others.has(courseKey(course)) ? '' : 'history-diff'}">${courseLabel(course)}</li>
+    `)}</ol>`;
+}
+
+function renderComparison(a: SavedRun, b: SavedRun): SafeHtml {
+    const keysA = new Set(a.result.ranked_courses.map(courseKey));
+    const keysB = new Set(b.result.ranked_courses.map(courseKey));
+    const trioA = new Set(a.result.chevening_trio.map(courseKey));
+    const trioB = new Set(b.result.chevening_trio.map(courseKey));
+    const row = (label: string, valueA: string, valueB: string) => html`
+      <tr class="${valueA === valueB ? '' : 'history-diff-row'}">
+        <th scope="row">${label}</th><td>${valueA}</td><td>${valueB}</td>
+      </tr>
+    `;
+
+    return html`
+      <h3>${t('history.compareHeading')}</h3>
+      <p class="history-help">${t('history.compareHelp')}</p>
+      <table class="history-compare-table">
+        <thead><tr><th></th><th>${a.name}</th><th>${b.name}</th></tr></thead>
+        <tbody>
+          ${row(t('history.row.date'), formatDate(a.createdAt), formatDate(b.createdAt))}
+          ${row(t('history.row.fields'), a.inputs.fields, b.inputs.fields)}
+          ${row(t('history.row.locations'), a.inputs.locations || '—', b.inputs.locations || '—')}
+          ${row(t('history.row.year'), String(a.inputs.year), String(b.inputs.year))}
+          ${row(t('history.row.cv'), a.cv.fileName, b.cv.fileName)}
+          ${row(t('history.row.model'), a.model, b.model)}
+          ${row(t('history.row.prompt'), a.promptVersion ?? '—', b.promptVersion ?? '—')}
+          <tr>
+            <th scope="row">${t('history.row.trio')}</th>
+            <td>${renderCourseList(a.result.chevening_trio, trioB)}</td>
+            <td>${renderCourseList(b.result.chevening_trio, trioA)}</td>
+          </tr>
+          <tr>
+            <th scope="row">${t('history.row.ranked')}</th>
+            <td>${renderCourseList(a.result.ranked_courses, keysB)}</td>
+            <td>${renderCourseList(b.result.ranked_courses, keysA)}</td>
+          </tr>
+        </tbody>
+      </table>
+      <button type="button" id="close-compare-button" class="button-secondary">${t('history.closeComparison')}</button>
+    `;
+}
+
+export function initHistoryPanel({ onOpen }: HistoryPanelOptions): HistoryPanel {
+    const section = document.getElementById('history-section') as HTMLElement;
+    const list = document.getElementById('history-list') as HTMLUListElement;
+    const compareButton = document.getElementById('compare-runs-button') as HTMLButtonElement;
+    const compareView = document.getElementById('history-compare') as HTMLElement;
+    const status = document.getElementById('history-status') as HTMLElement;
+    const selected = new Set<string>();
+    let runs: SavedRun[] = [];
+    let compared: [SavedRun, SavedRun] | null = null;
+
+    function updateCompareButton() {
+        compareButton.disabled = selected.size !== 2;
+        compareButton.textContent = selected.size === 2 ? t('history.compareSelected') : t('history.selectTwo', { selected: selected.size });
+    }
+
+    /** Storage can fail at any time (quota, private browsing, another tab blocking an upgrade). */
+    function reportFailure(message: string, error: unknown) {
+        console.warn(message, error);
+        status.textContent = message;
+        // Shown even with no saved runs, e.g. when the first save failed.
+        section.classList.remove('hidden');
+    }
+
+    async function refresh() {
+        try {
+            runs = await listRuns();
+        } catch (error) {
+            console.warn("Saved analyses are unavailable:", error);
+            section.classList.toggle('hidden', !status.textContent);
+            return;
+        }
+        [...selected].forEach(id => { if (!runs.some(run => run.id === id)) selected.delete(id); });
+        section.classList.toggle('hidden', runs.length === 0 && !status.textContent);
+        setHtml(list, html`${runs.map(run => renderRunItem(run, selected.has(run.id)))}`);
+        updateCompareButton();
+    }
+
+    function startRename(item: HTMLElement, run: SavedRun) {
+        const name = item.querySelector('.history-name') as HTMLElement;
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.className = 'history-rename-input';
+        input.value = run.name;
+        input.setAttribute('aria-label', t('history.nameLabel'));
+        name.replaceWith(input);
+        input.focus();
+        input.select();
+
+        let done = false;
+        const finish = async (save: boolean) => {
+            if (done) return;
+            done = true;
+            if (save && input.value.trim() && input.value.trim() !== run.name) {
+                try {
+                    await renameRun(run.id, input.value);
+                } catch (error) {
+                    reportFailure(t('history.renameFailed'), error);
+                }
+            }
+            await refresh();
+        };
+        input.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') finish(true);
+            if (e.key === 'Escape') finish(false);
+        });
+        input.addEventListener('blur', () => finish(true));
+    }
+
+    list.addEventListener('click', async (e) => {
+        const target = e.target as HTMLElement;
+        const item = target.closest<HTMLElement>('.history-item');
+        const action = target.dataset.action;
+        if (!item || !action) return;
+        const run = runs.find(candidate => candidate.id === item.dataset.runId);
+        if (!run) return;
+        status.textContent = '';
+
+        if (action === 'open') {
+            let latest: SavedRun | undefined;
+            try {
+                latest = await getRun(run.id);
+            } catch (error) {
+                reportFailure(t('history.openFailed'), error);
+                return;
+            }
+            if (latest) onOpen(latest);
+        } else if (action === 'rename') {
+            startRename(item, run);
+        } else if (action === 'delete' && confirm(t('history.confirmDelete', { name: run.name }))) {
+            try {
+                await deleteRun(run.id);
+                selected.delete(run.id);
+            } catch (error) {
+                reportFailure(t('history.deleteFailed', { name: run.name }), error);
+            }
+            await refresh();
+        }
+    });
+
+    list.addEventListener('change', (e) => {
+        const checkbox = e.target as HTMLInputElement;
+        const id = checkbox.closest<HTMLElement>('.history-item')?.dataset.runId;
+        if (!id || !checkbox.classList.contains('history-compare-checkbox')) return;
+        if (checkbox.checked) {
+            // Keep at most two selected; drop the oldest selection.
+            if (selected.size === 2) selected.delete(selected.values().next().value as string);
+            selected.add(id);
+        } else {
+            selected.delete(id);
+        }
+        list.querySelectorAll<HTMLInputElement>('.history-compare-checkbox').forEach(box => {
+            box.checked = selected.has(box.closest<HTMLElement>('.history-item')?.dataset.runId ?? '');
+        });
+        updateCompareButton();
+    });
+
+    compareButton.addEventListener('click', () => {
+        const [a, b] = [...selected].map(id => runs.find(run => run.id === id)).filter((run): run is SavedRun => !!run);
+        if (!a || !b) return;
+        // Oldest first reads more naturally as "before → after".
+        compared = a.createdAt <= b.createdAt ? [a, b] : [b, a];
+        setHtml(compareView, renderComparison(...compared));
+        compareView.classList.remove('hidden');
+        compareView.scrollIntoView({ behavior: 'smooth' });
+    });
+
+    compareView.addEventListener('click', (e) => {
+        if ((e.target as HTMLElement).id === 'close-compare-button') {
+            compared = null;
+            compareView.replaceChildren();
+            compareView.classList.add('hidden');
+        }
+    });
+
+    onLocaleChange(() => {
+        refresh();
+        if (compared) setHtml(compareView, renderComparison(...compared));
+    });
+
+    refresh();
+    return { refresh, reportFailure };
+}
@@ -0,0 +1,17 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { html, setHtml } from '../html';
+import { LOCALES, getLocale, setLocale } from '../i18n';
+import type { Locale } from '../i18n';
+
+// --- Language Switcher ---
+// Lists each language by its own name. Markup lives in index.html.
+
+export function initLanguageSwitcher() {
+    const select = document.getElementById('language-select') as HTMLSelectElement;
+    setHtml(select, html`${LOCALES.map(({ id, name }) => html`<option value="${id}" lang="${id}">${name}</option>`)}`);
+    select.value = getLocale();
+    select.addEventListener('change', () => setLocale(select.value as Locale));
+}
@@ -0,0 +1,389 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { MAX_COMPARED, MIN_COMPARED } from '../comparison';
+import type { ComparisonRow, CourseComparison } from '../comparison';
+import { COST_TABLE, describeGap, estimateCosts } from '../costs';
+import type { CostEstimate } from '../costs';
+import { checkEligibility } from '../eligibility';
+import type { EligibilityReport } from '../eligibility';
+import { MBA_FEE_CAP_GBP, isMba } from '../fees';
+import { html, safeUrl } from '../html';
+import { formatGbp, formatNumber, t, tMessage, tPlural } from '../i18n';
+import type { Message, MessageKey } from '../i18n';
+import { REGION_LABELS } from '../regions';
+import {
+    MAX_CRITERION_SCORE,
+    MAX_TOTAL_SCORE,
+    MAX_WEIGHT,
+    SCORING_CRITERIA,
+    isDefaultWeights,
+    rankCourses,
+    scoreContributions,
+} from '../scoring';
+import type { CriterionScores, ScoreWeights } from '../scoring';
+import type { Alternative, CatalogueVerification, Profile, RankedCourse, StatementBullets, TrioEntry } from '../types';
+
+// --- Result Renderers ---
+// Pure functions from validated run data to markup. index.tsx inserts them and
+// wires up the events; nothing here touches the DOM or module state.
+
+// --- Sections ---
+
+export function renderTalkingPointsPreview(bullets: StatementBullets) {
+    const sections: [string, string[]][] = [
+        [t('results.leadership'), bullets.leadership],
+        [t('results.networking'), bullets.networking],
+        [t('results.careerPlan'), bullets.career_plan],
+    ];
+    return html`
+        <div class="result-category personal-statement-bullets">
+            <h2>${t('results.talkingPoints')}</h2>
+            ${sections.filter(([, items]) => items.length > 0).map(([heading, items]) => html`
+            <h4>${heading}</h4>
+            <ul>${items.map(b => html`<li>${b}</li>`)}</ul>
+            `)}
+        </div>
+    `;
+}
+
+export function renderExportToolbar() {
+    return html`
+      <div class="export-toolbar" role="toolbar" aria-label="${t('results.export')}">
+        <span>${t('results.exportLabel')}</span>
+        <button type="button" class="button-secondary" data-export="pdf">${t('results.exportPdf')}</button>
+        <button type="button" class="button-secondary" data-export="markdown">${t('results.exportMarkdown')}</button>
+        <button type="button" class="button-secondary" data-export="copy-markdown">${t('results.exportCopy')}</button>
+        <button type="button" class="button-secondary" data-export="json">${t('results.exportJson')}</button>
+        <span id="export-status" class="export-status" aria-live="polite"></span>
+      </div>
+    `;
+}
+
+export function renderPartialResultBanner(issues: Message[]) {
+    return html`
+      <div class="partial-result-banner" role="status">
+        <p><strong>${t('results.partialTitle')}</strong> ${t('results.partialBody')}</p>
+        <details>
+          <summary>${tPlural('results.showIssues', issues.length)}</summary>
+          <ul>${issues.map(issue => html`<li>${tMessage(issue)}</li>`)}</ul>
+        </details>
+      </div>
+    `;
+}
+
+export function renderProfileAnalysis(profile: Profile) {
+    if (profile.strengths.length === 0 && profile.gaps.length === 0) return html``;
+    return html`
+      <div id="profile-analysis-section" class="result-category">
+        <h2>${t('results.profile')}</h2>
+        <div class="profile-columns">
+            <div class="profile-column">
+                <h3>${t('results.strengths')}</h3>
+                <ul>${profile.strengths.map(s => html`<li>${s}</li>`)}</ul>
+            </div>
+            <div class="profile-column">
+                <h3>${t('results.gaps')}</h3>
+                <ul>${profile.gaps.map(g => html`<li>${g}</li>`)}</ul>
+            </div>
+        </div>
+      </div>
+    `;
+}
+
+function renderMbaWarning() {
+    return html`<p class="mba-warning"><strong>${t('results.mbaLabel')}</strong> ${t('results.mbaWarning', { cap: formatGbp(MBA_FEE_CAP_GBP) })}</p>`;
+}
+
+export function renderTrio(trio: TrioEntry[]) {
+    const universities = new Set(trio.map(course => course.university));
+    const singleUniversityWarning = universities.size === 1 && trio.length > 1 ?
+        html`<p class="trio-warning"><strong>${t('results.noteLabel')}</strong> ${t('results.sameUniversity')}</p>` : '';
+
+    return html`
+      <div class="result-category">
+        <h2>${t('results.trio')}</h2>
+        ${singleUniversityWarning}
+        ${trio.map(course => {
+          const mbaWarning = isMba(course.programme) ? renderMbaWarning() : '';
+          return html`
+            <div class="trio-card">
+              <h3>${course.programme}</h3>
+              <p class="university">${course.university}</p>
+              <p>${course.why_this_trio}</p>
+              ${mbaWarning}
+            </div>
+          `
+        })}
+      </div>
+    `;
+}
+
+export function renderEligibility(report: EligibilityReport, modelReason: string | undefined) {
+    const statusLabels = {
+        eligible: html`<span class="eligibility-badge">${t('eligibility.eligible')}</span>`,
+        ineligible: html`<span class="eligibility-badge ineligible">${t('eligibility.ineligible')}</span>`,
+        unverified: html`<span class="eligibility-badge unverified">${t('eligibility.unverified')}</span>`,
+    };
+    const ruleIcons = { pass: '✅', fail: '❌', unknown: '❔' };
+
+    const disagreement = report.disagreesWithModel ?
+        html`<p class="eligibility-disagreement"><strong>${t('eligibility.checkLabel')}</strong> ${t(report.modelVerdict ? 'eligibility.disagreeEligible' : 'eligibility.disagreeIneligible', { status: t(`eligibility.status.${report.status}`) })}</p>` : '';
+    const failedRules = report.rules.filter(rule => rule.blocking && rule.status === 'fail');
+    const ineligibleReason = failedRules.length > 0 ?
+        html`<p class="ineligible-reason">${failedRules.map(rule => tMessage(rule.detail)).join(' ')}</p>` :
+        (report.modelVerdict === false && modelReason ? html`<p class="ineligible-reason">${modelReason}</p>` : '');
+
+    return html`
+      ${statusLabels[report.status]}
+      ${disagreement}
+      ${ineligibleReason}
+      <details class="eligibility-rules">
+        <summary>${t('eligibility.checks')}</summary>
+        <ul>
+          ${report.rules.map(rule => html`
+            <li class="rule-${rule.status}">${ruleIcons[rule.status]} <strong>${tMessage(rule.label)}:</strong> ${tMessage(rule.detail)}</li>
+          `)}
+        </ul>
+        ${modelReason ? html`<p class="model-reason">${t('eligibility.aiVerdict', { reason: modelReason })}</p>` : ''}
+      </details>
+    `;
+}
+
+// --- Course Cards ---
+
+const FILLED_FIELD_LABELS: Record<string, MessageKey> = {
+    duration_months: 'index.field.duration_months',
+    fee_gbp: 'index.field.fee_gbp',
+    study_mode: 'index.field.study_mode',
+    award: 'index.field.award',
+    city: 'index.field.city',
+    url: 'index.field.url',
+    start_cycle: 'index.field.start_cycle',
+};
+
+function renderIndexChip(verification: CatalogueVerification | undefined) {
+    if (!verification) return html``;
+    if (verification.status === 'not_found') {
+        return html`<span class="index-chip not-found" title="${t('index.notFoundTitle', { version: verification.catalogue_version })}">${t('index.notFound')}</span>`;
+    }
+    const filled = verification.filled_fields.map(field => (FILLED_FIELD_LABELS[field] ? t(FILLED_FIELD_LABELS[field]) : field));
+    return html`
+      <span class="index-chip verified" title="${t('index.verifiedTitle', { version: verification.catalogue_version })}">${t('index.verified')}</span>
+      ${filled.length > 0 ? html`<p class="index-filled">${t('index.filled', { fields: filled.join(', ') })}</p>` : ''}
+    `;
+}
+
+function renderWeightControls(weights: ScoreWeights) {
+    return html`
+      <details class="weight-controls" ${isDefaultWeights(weights) ? '' : html`open`}>
+        <summary>${t('scoring.adjust')}</summary>
+        <p class="weight-help">${t('scoring.help', { max: MAX_TOTAL_SCORE })}</p>
+        ${SCORING_CRITERIA.map(({ id }) => html`
+          <label class="weight-row">
+            <span>${t(`criterion.${id}`)}</span>
+            <input type="range" class="weight-slider" data-criterion="${id}" min="0" max="${MAX_WEIGHT}" step="1" value="${weights[id]}" aria-label="${t('scoring.weightAria', { criterion: t(`criterion.${id}`) })}">
+            <output class="weight-value" data-criterion="${id}">×${weights[id]}</output>
+          </label>
+        `)}
+        <button type="button" id="reset-weights-button" class="button-secondary">${t('scoring.reset')}</button>
+      </details>
+    `;
+}
+
+function formatScore(score: number): string {
+    return formatNumber(score, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+}
+
+function renderScoreChart(scores: CriterionScores, weights: ScoreWeights, total: number) {
+    const contributions = scoreContributions(scores, weights);
+    return html`
+      <div class="score-chart" aria-label="${t('scoring.breakdown')}">
+        <p class="score-total"><strong>${t('scoring.total', { total: formatScore(total) })}</strong> / ${MAX_TOTAL_SCORE}</p>
+        ${SCORING_CRITERIA.map(({ id }) => html`
+          <div class="score-row">
+            <span class="score-label">${t(`criterion.${id}`)} <small>×${weights[id]}</small></span>
+            <span class="score-bar"><span class="score-bar-fill" style="width: ${(scores[id] / MAX_CRITERION_SCORE) * 100}%"></span></span>
+            <span class="score-value">${scores[id]}/${MAX_CRITERION_SCORE} · ${t('scoring.points', { points: formatScore(contributions[id]) })}</span>
+          </div>
+        `)}
+      </div>
+    `;
+}
+
+/** `selection` adds the compare checkboxes; the streaming preview leaves it out. */
+export function renderRankedCourseCards(courses: RankedCourse[], targetYear: number, weights: ScoreWeights, selection?: number[]) {
+    return html`${rankCourses(courses, weights).map(({ course, total, modelRank }) => {
+        const { eligibility_check, score_breakdown, programme, fee_gbp } = course;
+        const report = checkEligibility(course, targetYear);
+        const mbaWarning = isMba(programme) ? renderMbaWarning() : '';
+    
+        const feeDisplay = fee_gbp && fee_gbp.toLowerCase().includes('verify') ? html`<span class="verify-chip">${fee_gbp}</span>` : `💷 ${fee_gbp || t('results.feeNA')}`;
+        const modelRankNote = modelRank !== course.rank ? html` <span class="model-rank">${t('results.aiRank', { rank: modelRank })}</span>` : '';
+
+        return html`
+          <div class="course-card${report.disagreesWithModel ? ' flagged' : ''}">
+            ${selection ? renderCompareToggle(modelRank, selection) : ''}
+            <h3>${course.rank}. ${course.programme}${modelRankNote}</h3>
+            <p class="university">${course.university}</p>
+            ${renderIndexChip(course.catalogue)}
+            ${renderEligibility(report, eligibility_check?.reason)}
+            ${mbaWarning}
+            <div class="details">
+              <span>📍 ${course.city}</span>
+              <span>🗓️ ${course.start_cycle}</span>
+              <span>⏳ ${t('results.months', { months: course.duration_months ?? '?' })}</span>
+              <span>${feeDisplay}</span>
+            </div>
+            ${renderCostEstimate(estimateCosts(course))}
+            ${course.scores && total !== null ? renderScoreChart(course.scores, weights, total) : ''}
+            ${score_breakdown ? html`
+            <details class="score-breakdown">
+                <summary>${t('results.whyRank')}</summary>
+                <p>${score_breakdown}</p>
+            </details>
+            ` : ''}
+            <div class="chevening-rationale">
+              <strong>${t('results.rationale')}</strong>
+              <ul>
+                ${course.chevening_rationale.map(r => html`<li>${r}</li>`)}
+              </ul>
+            </div>
+            ${renderCourseLink(course.url)}
+          </div>
+        `
+    })}`;
+}
+
+export function renderCostEstimate(estimate: CostEstimate) {
+    const place = t(estimate.region ? REGION_LABELS[estimate.region] : 'cost.ukAverage');
+    return html`
+      <details class="cost-estimate">
+        <summary>${t('cost.summary')} <strong>${describeGap(estimate)}</strong></summary>
+        <table class="cost-table">
+          <tbody>
+            <tr><th scope="row">${t('cost.tuition')}</th><td>${estimate.feeGbp !== null ? formatGbp(estimate.feeGbp) : t('cost.unknown')}</td></tr>
+            <tr><th scope="row">${t('cost.cheveningPays')}</th><td>${estimate.tuitionCoveredGbp !== null ? `−${formatGbp(estimate.tuitionCoveredGbp)}` : t('cost.fullFee')}</td></tr>
+            <tr><th scope="row">${t('cost.living', { months: estimate.months, place })}</th><td>${formatGbp(estimate.livingCostGbp)}</td></tr>
+            <tr><th scope="row">${t('cost.stipend')}</th><td>−${formatGbp(estimate.stipendGbp)}</td></tr>
+            <tr class="cost-gap"><th scope="row">${t('cost.youFund')}</th><td>${describeGap(estimate)}</td></tr>
+          </tbody>
+        </table>
+        ${estimate.assumptions.length > 0 ? html`<ul class="cost-notes">${estimate.assumptions.map(note => html`<li>${note}</li>`)}</ul>` : ''}
+        <p class="cost-notes">${t('cost.footnote', { year: COST_TABLE.year })}</p>
+      </details>
+    `;
+}
+
+export function renderRankedCourses(courses: RankedCourse[], targetYear: number, weights: ScoreWeights, selection: number[]) {
+    const hasScores = courses.some(course => course.scores);
+    return html`
+      <div class="result-category">
+        <h2>${t('results.ranked')}</h2>
+        ${hasScores ? renderWeightControls(weights) : ''}
+        ${courses.length >= MIN_COMPARED ? html`
+          <div id="compare-bar" class="compare-bar" role="toolbar" aria-label="${t('compare.toolbar')}">${renderCompareBar(selection)}</div>
+          <div id="course-comparison" class="course-comparison hidden" aria-live="polite"></div>
+        ` : ''}
+        <div id="ranked-courses-list">
+          ${renderRankedCourseCards(courses, targetYear, weights, selection)}
+        </div>
+      </div>
+    `;
+}
+
+// --- Course Comparison ---
+
+function renderCompareToggle(modelRank: number, selection: number[]) {
+    const checked = selection.includes(modelRank);
+    return html`
+      <label class="compare-toggle">
+        <input type="checkbox" class="compare-checkbox" data-rank="${modelRank}" ${checked ? 'checked' : ''} ${!checked && selection.length >= MAX_COMPARED ? 'disabled' : ''}>
+        ${t('compare.toggle')}
+      </label>
+    `;
+}
+
+export function renderCompareBar(selection: number[]) {
+    const hint = selection.length < MIN_COMPARED
+        ? t('compare.hint', { min: MIN_COMPARED, max: MAX_COMPARED })
+        : t('compare.selected', { count: selection.length, max: MAX_COMPARED });
+    return html`
+      <span class="compare-hint">${hint}</span>
+      <button type="button" class="button-secondary" data-compare="open" ${selection.length < MIN_COMPARED ? 'disabled' : ''}>${t('compare.open')}</button>
+      ${selection.length > 0 ? html`<button type="button" class="link-button" data-compare="clear">${t('compare.clear')}</button>` : ''}
+    `;
+}
+
+function renderComparisonCell(row: ComparisonRow, value: string[]) {
+    if (row.id === 'rationale') return html`<ul>${value.map(item => html`<li>${item}</li>`)}</ul>`;
+    if (row.id === 'fee' && value[0].toLowerCase().includes('verify')) return html`<span class="verify-chip">${value[0]}</span>`;
+    return html`${value[0]}`;
+}
+
+export function renderCourseComparison(comparison: CourseComparison) {
+    return html`
+      <div class="comparison-header">
+        <h3>${t('compare.heading', { count: comparison.courses.length })}</h3>
+        <button type="button" class="link-button" data-compare="close">${t('compare.close')}</button>
+      </div>
+      <p class="comparison-help">${t('compare.help')}</p>
+      <div class="comparison-scroll">
+        <table class="comparison-table">
+          <thead>
+            <tr>
+              <th scope="col"><span class="visually-hidden">${t('compare.criterion')}</span></th>
+              ${comparison.courses.map(({ course, rank }) => html`
+                <th scope="col">${rank}. ${course.programme}<small>${course.university}</small></th>
+              `)}
+            </tr>
+          </thead>
+          <tbody>
+            ${comparison.rows.map(row => html`
+              <tr class="${row.differs ? 'comparison-diff' : ''}">
+                <th scope="row">${row.label}</th>
+                ${row.values.map(value => html`<td>${renderComparisonCell(row, value)}</td>`)}
+              </tr>
+            `)}
+          </tbody>
+        </table>
+      </div>
+    `;
+}
+
+// --- Alternatives and Notes ---
+
+// Model-supplied links that are not plain http(s) URLs are left out rather than rendered.
+function renderCourseLink(url: string) {
+    const href = safeUrl(url);
+    return href ? html`<p><a href="${href}" target="_blank" rel="noopener noreferrer">${t('results.coursePage')}</a></p>` : '';
+}
+
+export function renderAlternatives(alternatives: Alternative[]) {
+    return html`
+      <div class="result-category">
+        <h2>${t('results.alternatives')}</h2>
+        ${alternatives.map(alt => html`
+          <div class="course-card">
+             <h3>${alt.programme}</h3>
+             <p class="university">${alt.university}</p>
+             ${renderIndexChip(alt.catalogue)}
+             <p>${alt.why_consider}</p>
+             ${renderCourseLink(alt.url)}
+          </div>
+        `)}
+      </div>
+    `;
+}
+
+export function renderNotes(notes: string[]) {
+    return html`
+        <div class="result-category">
+            <h2>${t('results.notes')}</h2>
+            <ul>
+                ${notes.map(note => html`<li>${note}</li>`)}
+            </ul>
+        </div>
+    `;
+}
@@ -0,0 +1,207 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describeGap, estimateCosts, summariseTrioCosts } from '../costs';
+import { TRIO_SIZE, buildCandidates, checkTrio, initialTrio } from '../trio';
+import type { TrioCandidate, TrioCheck } from '../trio';
+import { html, setHtml } from '../html';
+import { formatGbp, t, tMessage, tPlural } from '../i18n';
+import type { SafeHtml } from '../html';
+import type { MessageKey } from '../i18n';
+import type { AnalysisRun } from '../types';
+
+// --- Trio Builder ---
+// Lets users assemble their own three choices from the ranked courses and
+// alternatives, starting from the model's trio, with live constraint checks.
+
+const STATUS_BADGES: Record<TrioCandidate['eligibility']['status'], { icon: string; title: MessageKey }> = {
+    eligible: { icon: '✅', title: 'trio.passes' },
+    ineligible: { icon: '❌', title: 'trio.fails' },
+    unverified: { icon: '⚠️', title: 'trio.unconfirmed' },
+};
+const CHECK_ICONS: Record<TrioCheck['severity'], string> = { ok: '✅', warning: '⚠️', error: '❌' };
+
+function renderStatusBadge(candidate: TrioCandidate): SafeHtml {
+    const status = candidate.eligibility.status;
+    return html`<span class="mini-badge ${status}" title="${t(STATUS_BADGES[status].title)}">${STATUS_BADGES[status].icon}</span>`;
+}
+
+function renderPick(candidate: TrioCandidate, index: number, count: number): SafeHtml {
+    return html`
+      <li class="trio-pick" draggable="true" data-key="${candidate.key}">
+        <span class="drag-handle" aria-hidden="true">⠿</span>
+        <span class="trio-pick-label">
+          <strong>${t('trio.choice', { number: index + 1 })}</strong> ${candidate.course.programme}
+          <small>${candidate.course.university} · ${t('trio.youFund', { amount: describeGap(estimateCosts(candidate.course)) })}</small>
+        </span>
+        ${renderStatusBadge(candidate)}
+        <button type="button" class="link-button" data-action="up" ${index === 0 ? 'disabled' : ''} aria-label="${t('trio.moveUp')}">↑</button>
+        <button type="button" class="link-button" data-action="down" ${index === count - 1 ? 'disabled' : ''} aria-label="${t('trio.moveDown')}">↓</button>
+        <button type="button" class="link-button danger" data-action="remove" aria-label="${t('trio.remove')}">✕</button>
+      </li>
+    `;
+}
+
+function renderCandidate(candidate: TrioCandidate, picked: boolean, full: boolean): SafeHtml {
+    const origin = candidate.source === 'ranked' ? t('trio.rankedOrigin', { rank: String(candidate.course.rank) }) : t('trio.alternativeOrigin');
+    return html`
+      <li class="trio-candidate${picked ? ' picked' : ''}" data-key="${candidate.key}">
+        <span class="trio-pick-label">
+          ${candidate.course.programme}
+          <small>${candidate.course.university} · ${candidate.course.city || t('trio.cityUnknown')} · ${origin}</small>
+        </span>
+        ${renderStatusBadge(candidate)}
+        <button type="button" class="button-secondary" data-action="add" ${picked || full ? 'disabled' : ''}>${t(picked ? 'trio.added' : 'trio.add')}</button>
+      </li>
+    `;
+}
+
+function renderTrioCosts(picks: TrioCandidate[]): SafeHtml {
+    if (picks.length === 0) return html``;
+    const { lowestGapGbp, highestGapGbp, unknownFees } = summariseTrioCosts(picks.map(pick => estimateCosts(pick.course)));
+    const range = lowestGapGbp === null || highestGapGbp === null ? t('cost.unknown')
+        : lowestGapGbp === highestGapGbp ? formatGbp(lowestGapGbp)
+        : t('trio.costRange', { low: formatGbp(lowestGapGbp), high: formatGbp(highestGapGbp) });
+    return html`
+      <p class="trio-cost">
+        <strong>${t('cost.summary')}</strong> ${range}.
+        ${unknownFees > 0 ? tPlural('trio.unknownFees', unknownFees) : ''}
+      </p>
+    `;
+}
+
+// Stays in English: it is pasted into the Chevening application form.
+function summaryText(picks: TrioCandidate[]): string {
+    return picks
+        .map((pick, index) => `Choice ${index + 1}: ${pick.course.programme}, ${pick.course.university}${pick.course.url ? ` (${pick.course.url})` : ''}`)
+        .join('\n');
+}
+
+/**
+ * Edits are kept on `run.trio`, so they survive a re-render (e.g. a language
+ * switch) and go into saved analyses and exports; `onChange` runs after each.
+ */
+export function mountTrioBuilder(container: HTMLElement, run: AnalysisRun, onChange?: (run: AnalysisRun) => void) {
+    const candidates = buildCandidates(run.result, run.inputs.year);
+    const byKey = new Map(candidates.map(candidate => [candidate.key, candidate]));
+    const aiTrio = initialTrio(run.result, candidates);
+    let trio = run.trio ? run.trio.filter(key => byKey.has(key)) : [...aiTrio];
+    let dragKey: string | null = null;
+
+    if (candidates.length === 0) {
+        container.classList.add('hidden');
+        return;
+    }
+
+    function render() {
+        const picks = trio.map(key => byKey.get(key)).filter((pick): pick is TrioCandidate => !!pick);
+        const checks = checkTrio(picks);
+        const emptySlots = Array.from({ length: TRIO_SIZE - picks.length }, (_, i) => html`
+          <li class="trio-pick empty"><strong>${t('trio.choice', { number: picks.length + i + 1 })}</strong> ${t('trio.emptySlot')}</li>
+        `);
+
+        setHtml(container, html`
+          <h2>${t('trio.heading')}</h2>
+          <p class="trio-help">${t('trio.help')}</p>
+          <div class="trio-builder-columns">
+            <div class="trio-picks">
+              <h3>${t('trio.yourChoices')}</h3>
+              <ol class="trio-pick-list">
+                ${picks.map((pick, index) => renderPick(pick, index, picks.length))}
+                ${emptySlots}
+              </ol>
+              <button type="button" class="link-button" data-action="reset">${t('trio.reset')}</button>
+            </div>
+            <div class="trio-candidates">
+              <h3>${t('trio.available')}</h3>
+              <ul class="trio-candidate-list">
+                ${candidates.map(candidate => renderCandidate(candidate, trio.includes(candidate.key), trio.length >= TRIO_SIZE))}
+              </ul>
+            </div>
+          </div>
+          <ul class="trio-checks" aria-live="polite">
+            ${checks.map(check => html`<li class="trio-check ${check.severity}">${CHECK_ICONS[check.severity]} ${tMessage(check.message)}</li>`)}
+          </ul>
+          ${renderTrioCosts(picks)}
+          ${picks.length === TRIO_SIZE ? html`
+          <div class="trio-summary">
+            <h3>${t('trio.summaryHeading')}</h3>
+            <p class="trio-help">${t('trio.summaryHelp')}</p>
+            <pre>${summaryText(picks)}</pre>
+            <button type="button" class="button-secondary" data-action="copy-summary">${t('trio.copy')}</button>
+            <span class="trio-copy-status" aria-live="polite"></span>
+          </div>
+          ` : ''}
+        `);
+    }
+
+    function update(next: string[]) {
+        trio = next;
+        if (next.length === aiTrio.length && next.every((key, index) => key === aiTrio[index])) {
+            delete run.trio;
+        } else {
+            run.trio = [...next];
+        }
+        render();
+        onChange?.(run);
+    }
+
+    function move(key: string, toIndex: number) {
+        const next = trio.filter(existing => existing !== key);
+        next.splice(Math.max(0, Math.min(toIndex, next.length)), 0, key);
+        update(next);
+    }
+
+    container.addEventListener('click', async (e) => {
+        const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+        if (!button || button.disabled) return;
+        const key = button.closest<HTMLElement>('[data-key]')?.dataset.key;
+        const action = button.dataset.action;
+
+        if (action === 'add' && key && trio.length < TRIO_SIZE && !trio.includes(key)) {
+            update([...trio, key]);
+        } else if (action === 'remove' && key) {
+            update(trio.filter(existing => existing !== key));
+        } else if ((action === 'up' || action === 'down') && key) {
+            move(key, trio.indexOf(key) + (action === 'up' ? -1 : 1));
+        } else if (action === 'reset') {
+            update([...aiTrio]);
+        } else if (action === 'copy-summary') {
+            const status = container.querySelector('.trio-copy-status');
+            const picks = trio.map(existing => byKey.get(existing)).filter((pick): pick is TrioCandidate => !!pick);
+            try {
+                await navigator.clipboard.writeText(summaryText(picks));
+                if (status) status.textContent = t('trio.copied');
+            } catch (error) {
+                console.warn("Clipboard write failed:", error);
+                if (status) status.textContent = t('trio.copyFailed');
+            }
+        }
+    });
+
+    container.addEventListener('dragstart', (e) => {
+        const item = (e.target as HTMLElement).closest<HTMLElement>('.trio-pick[data-key]');
+        if (!item || !e.dataTransfer) return;
+        dragKey = item.dataset.key ?? null;
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', dragKey ?? '');
+        item.classList.add('dragging');
+    });
+    container.addEventListener('dragover', (e) => {
+        if (dragKey && (e.target as HTMLElement).closest('.trio-pick')) e.preventDefault();
+    });
+    container.addEventListener('drop', (e) => {
+        const target = (e.target as HTMLElement).closest<HTMLElement>('.trio-pick');
+        if (!dragKey || !target) return;
+        e.preventDefault();
+        const targetKey = target.dataset.key;
+        move(dragKey, targetKey ? trio.indexOf(targetKey) : trio.length);
+    });
+    container.addEventListener('dragend', () => {
+        dragKey = null;
+        container.querySelectorAll('.dragging').forEach(item => item.classList.remove('dragging'));
+    });
+
+    render();
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { MBA_FEE_CAP_GBP, isMba, parseFeeGbp } from './fees';
+import { formatGbp, t } from './i18n';
+import { regionForCity } from './regions';
+import type { UkRegion } from './regions';
+import type { RankedCourse } from './types';
+
+// --- Cost and Funding Gap ---
+// Estimates what a scholar pays out of pocket for a course: tuition Chevening
+// does not cover (only possible for MBAs, which are capped) plus living costs
+// above the monthly stipend. All figures are planning estimates.
+
+export interface CostTable {
+    /** Academic year the figures were checked for. */
+    year: string;
+    /** Chevening's monthly living allowance; London is paid at a higher rate. */
+    stipendGbp: { london: number; outsideLondon: number };
+    /** Typical monthly student living costs (rent, food, transport, bills). */
+    livingCostGbp: Record<UkRegion, number>;
+    /** Used when the course city is missing or not recognised. */
+    defaultLivingCostGbp: number;
+}
+
+// Update once a year from the Chevening award terms and university cost-of-living
+// pages. Keep `year` in step so the UI can say how current the figures are.
+export const COST_TABLE: CostTable = {
+    year: '2025/26',
+    stipendGbp: { london: 1652, outsideLondon: 1347 },
+    livingCostGbp: {
+        'London': 1900,
+        'South East': 1450,
+        'South West': 1350,
+        'East of England': 1400,
+        'Midlands': 1250,
+        'North': 1200,
+        'Scotland': 1250,
+        'Wales': 1150,
+        'Northern Ireland': 1100,
+    },
+    defaultLivingCostGbp: 1300,
+};
+
+// Chevening courses last a year; used when the course gives no duration.
+const DEFAULT_DURATION_MONTHS = 12;
+
+export interface CostEstimate {
+    /** Parsed tuition fee; null when `fee_gbp` gives no amount. */
+    feeGbp: number | null;
+    tuitionCoveredGbp: number | null;
+    tuitionGapGbp: number | null;
+    months: number;
+    region: UkRegion | null;
+    livingCostGbp: number;
+    stipendGbp: number;
+    livingGapGbp: number;
+    /** Tuition and living gaps together; null for an MBA whose fee is unknown. */
+    totalGapGbp: number | null;
+    /** Defaults that were used because the course data was incomplete. */
+    assumptions: string[];
+}
+
+type CostedCourse = Pick<RankedCourse, 'programme' | 'award' | 'fee_gbp' | 'city' | 'duration_months'>;
+
+export function estimateCosts(course: CostedCourse, table: CostTable = COST_TABLE): CostEstimate {
+    const assumptions: string[] = [];
+    const feeGbp = parseFeeGbp(course.fee_gbp);
+    const mba = isMba(course.programme) || isMba(course.award);
+    const tuitionCoveredGbp = feeGbp === null ? null : mba ? Math.min(feeGbp, MBA_FEE_CAP_GBP) : feeGbp;
+    // Non-MBA tuition is paid in full, so only an MBA's gap depends on the fee.
+    const tuitionGapGbp = !mba ? 0 : feeGbp === null ? null : Math.max(0, feeGbp - MBA_FEE_CAP_GBP);
+    if (mba && feeGbp === null) {
+        assumptions.push(t('cost.assumeMbaFee', { cap: formatGbp(MBA_FEE_CAP_GBP) }));
+    }
+
+    const months = course.duration_months && course.duration_months > 0 ? course.duration_months : DEFAULT_DURATION_MONTHS;
+    if (months !== course.duration_months) {
+        assumptions.push(t('cost.assumeDuration', { months: DEFAULT_DURATION_MONTHS }));
+    }
+
+    const region = regionForCity(course.city);
+    const monthlyCost = region ? table.livingCostGbp[region] : table.defaultLivingCostGbp;
+    if (!region) {
+        assumptions.push(t('cost.assumeCity'));
+    }
+    const monthlyStipend = region === 'London' ? table.stipendGbp.london : table.stipendGbp.outsideLondon;
+
+    const livingCostGbp = monthlyCost * months;
+    const stipendGbp = monthlyStipend * months;
+    const livingGapGbp = Math.max(0, livingCostGbp - stipendGbp);
+
+    return {
+        feeGbp,
+        tuitionCoveredGbp,
+        tuitionGapGbp,
+        months,
+        region,
+        livingCostGbp,
+        stipendGbp,
+        livingGapGbp,
+        totalGapGbp: tuitionGapGbp === null ? null : tuitionGapGbp + livingGapGbp,
+        assumptions,
+    };
+}
+
+/** Out-of-pocket gap as a short label, e.g. "£3,300" or "at least £2,400 (MBA fee unknown)". */
+export function describeGap(estimate: CostEstimate): string {
+    if (estimate.totalGapGbp !== null) return formatGbp(estimate.totalGapGbp);
+    return t('cost.atLeast', { amount: formatGbp(estimate.livingGapGbp) });
+}
+
+export interface TrioCostSummary {
+    /** Smallest and largest gap among the choices with a known fee. */
+    lowestGapGbp: number | null;
+    highestGapGbp: number | null;
+    /** MBA choices whose fee could not be read, so their gap is a lower bound. */
+    unknownFees: number;
+}
+
+/** Only one choice is taken up, so the trio's gap is a range rather than a sum. */
+export function summariseTrioCosts(estimates: CostEstimate[]): TrioCostSummary {
+    const known = estimates.map(estimate => estimate.totalGapGbp).filter(gap => gap !== null);
+    return {
+        lowestGapGbp: known.length > 0 ? Math.min(...known) : null,
+        highestGapGbp: known.length > 0 ? Math.max(...known) : null,
+        unknownFees: estimates.length - known.length,
+    };
+}
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { strFromU8, unzipSync } from 'fflate';
+import type { Message } from '../i18n';
+
+// --- CV Text Extraction ---
+// Reads the CV in the browser so the app can show what it parsed before any
+// API call. PDFs use their text layer (pdf.js, loaded on demand); DOCX files
+// are unzipped and their document XML walked paragraph by paragraph.
+// Warnings are messages for the user; thrown errors are only logged, since the
+// panel shows its own message for a file it cannot read.
+
+export const PDF_MIME_TYPE = 'application/pdf';
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/** Below this many characters per page a PDF is treated as scanned. */
+const MIN_CHARS_PER_PAGE = 100;
+
+export interface ExtractedCv {
+    text: string;
+    format: 'pdf' | 'docx';
+    /** Problems the user should know about, e.g. a PDF with no text layer. */
+    warnings: Message[];
+}
+
+export function cvFormat(file: File): ExtractedCv['format'] | null {
+    const name = file.name.toLowerCase();
+    if (file.type === PDF_MIME_TYPE || name.endsWith('.pdf')) return 'pdf';
+    if (file.type === DOCX_MIME_TYPE || name.endsWith('.docx')) return 'docx';
+    return null;
+}
+
+// --- PDF ---
+
+async function extractPdfText(data: ArrayBuffer): Promise<{ text: string; pageCount: number }> {
+    const pdfjs = await import('pdfjs-dist');
+    const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+    const pages: string[] = [];
+    try {
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            const content = await page.getTextContent();
+            let text = '';
+            let lastY: number | null = null;
+            let lastEnd = 0;
+            for (const item of content.items) {
+                if (!('str' in item)) continue;
+                const [, , , , x, y] = item.transform as number[];
+                if (lastY !== null && Math.abs(y - lastY) > 2) {
+                    text += '\n';
+                } else if (text && !/\s$/.test(text) && item.str && x - lastEnd > 1) {
+                    text += ' ';
+                }
+                text += item.str;
+                if (item.hasEOL) text += '\n';
+                lastY = item.hasEOL ? null : y;
+                lastEnd = x + item.width;
+            }
+            pages.push(text);
+        }
+    } finally {
+        await pdf.destroy();
+    }
+    return { text: pages.join('\n'), pageCount: pdf.numPages };
+}
+
+// --- DOCX ---
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/** Paragraph text from word/document.xml; tables become one line per cell. */
+export function docxXmlToText(xml: string): string {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error("The DOCX document XML could not be parsed.");
+    }
+    const paragraphs = Array.from(doc.getElementsByTagNameNS(WORD_NS, 'p'));
+    return paragraphs.map(paragraph => {
+        let text = '';
+        paragraph.querySelectorAll('*').forEach(node => {
+            if (node.namespaceURI !== WORD_NS) return;
+            if (node.localName === 't') text += node.textContent ?? '';
+            else if (node.localName === 'tab') text += '\t';
+            else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+        });
+        return text;
+    }).join('\n');
+}
+
+function extractDocxText(data: ArrayBuffer): string {
+    const files = unzipSync(new Uint8Array(data), { filter: file => file.name === 'word/document.xml' });
+    const documentXml = files['word/document.xml'];
+    if (!documentXml) {
+        throw new Error("This DOCX file has no document body.");
+    }
+    return docxXmlToText(strFromU8(documentXml));
+}
+
+// --- Entry Point ---
+
+export async function extractCvText(file: File): Promise<ExtractedCv> {
+    const format = cvFormat(file);
+    if (!format) {
+        throw new Error("Invalid file type. Please upload a PDF or DOCX file.");
+    }
+    const data = await file.arrayBuffer();
+    const warnings: Message[] = [];
+
+    if (format === 'pdf') {
+        const { text, pageCount } = await extractPdfText(data);
+        const trimmed = text.replace(/[ \t]+\n/g, '\n').trim();
+        if (trimmed.replace(/\s/g, '').length < MIN_CHARS_PER_PAGE * Math.max(1, pageCount) / 2) {
+            warnings.push({ key: 'cv.warning.scanned' });
+        }
+        return { text: trimmed, format, warnings };
+    }
+
+    const text = extractDocxText(data).trim();
+    if (!text) {
+        warnings.push({ key: 'cv.warning.emptyDocx' });
+    }
+    return { text, format, warnings };
+}
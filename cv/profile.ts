@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { nextApplicationDeadline } from '../cycles';
+import type { Message } from '../i18n';
+
+// --- Structured CV Model ---
+// A best-effort reading of the extracted CV text. It is a starting point the
+// user reviews and corrects in the form, not something sent unchecked.
+
+export interface CvRole {
+    title: string;
+    organisation: string;
+    /** "YYYY-MM", matching <input type="month">; empty when unknown. */
+    start: string;
+    /** "YYYY-MM"; empty when unknown or when `current` is set. */
+    end: string;
+    current: boolean;
+}
+
+export interface CvEducation {
+    qualification: string;
+    institution: string;
+    year: string;
+}
+
+export interface CvProfile {
+    roles: CvRole[];
+    education: CvEducation[];
+    leadership: string[];
+}
+
+export type CvSection = 'experience' | 'education' | 'leadership' | 'other';
+
+const SECTION_HEADINGS: [CvSection, RegExp][] = [
+    ['experience', /^(work |professional |employment |relevant |career )?(experience|employment( history)?|work history|career history)$/i],
+    ['education', /^(education( and training)?|academic (background|qualifications)|qualifications)$/i],
+    ['leadership', /^(leadership( experience)?|volunteer(ing)?( experience| work)?|extra-?curricular( activities)?|activities|community (service|involvement)|achievements|awards( and achievements)?)$/i],
+    ['other', /^(skills|key skills|languages|references|publications|certifications?|interests|projects|summary|profile|personal (statement|profile)|contact|training|memberships)$/i],
+];
+
+const MONTH_PATTERN = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DATE_PATTERN = `(?:${MONTH_PATTERN}\\.?,?\\s+(?:19|20)\\d{2}|(?:0?[1-9]|1[0-2])[/.](?:19|20)\\d{2}|(?:19|20)\\d{2}[/-](?:0?[1-9]|1[0-2])(?!\\d)|(?:19|20)\\d{2})`;
+const PRESENT_PATTERN = '(?:present|current(?:ly)?|now|to date|ongoing|date)';
+const DATE_RANGE = new RegExp(`(${DATE_PATTERN})\\s*(?:-|–|—|to|until)\\s*(${DATE_PATTERN}|${PRESENT_PATTERN})`, 'i');
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DEGREE_PATTERN = /\b(b\.?sc|b\.?a|b\.?eng|bachelor'?s?|m\.?sc|m\.?a|m\.?phil|mba|master'?s?|ph\.?d|doctorate|llb|llm|diploma|degree|certificate|high school|secondary school|a-levels?)\b/i;
+const INSTITUTION_PATTERN = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+const LEADERSHIP_VERBS = /^(led|lead|managed|founded|co-founded|coordinated|supervised|mentored|headed|organi[sz]ed|chaired|launched|initiated|directed|spearheaded|established|represented|trained)\b/i;
+const BULLET_PREFIX = /^[\s•●▪◦\-–*·]+/;
+const MAX_LEADERSHIP_ITEMS = 12;
+
+/** "YYYY-MM" for a matched date token. Year-only dates are read as January. */
+function toMonth(token: string): string {
+    const text = token.toLowerCase();
+    const year = text.match(/(?:19|20)\d{2}/)?.[0] ?? '';
+    let month = 1;
+    const name = MONTHS.findIndex(prefix => text.startsWith(prefix));
+    if (name >= 0) {
+        month = name + 1;
+    } else {
+        const numeric = text.replace(year, '').match(/\d{1,2}/);
+        if (numeric) month = Number(numeric[0]);
+    }
+    return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+function headingSection(line: string): CvSection | null {
+    const text = line.replace(/[:|]/g, '').trim();
+    if (text.length === 0 || text.length > 40) return null;
+    return SECTION_HEADINGS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+function splitParts(text: string): string[] {
+    return text
+        .split(/\s+(?:at|@)\s+|\s*[|,–—]\s*|\s+-\s+|\t+|\s{3,}/)
+        .map(part => part.replace(BULLET_PREFIX, '').replace(/[()]/g, '').trim())
+        .filter(part => part.length > 1);
+}
+
+function readRole(line: string, previous: string | undefined, match: RegExpMatchArray): CvRole {
+    const current = new RegExp(`^${PRESENT_PATTERN}$`, 'i').test(match[2].trim());
+    const parts = splitParts(line.replace(match[0], ' '));
+    const previousParts = previous ? splitParts(previous) : [];
+    let title = parts[0] ?? '';
+    let organisation = parts.slice(1).join(', ');
+    if (previousParts.length === 1 || (parts.length < 2 && previousParts.length > 0)) {
+        // Title on its own line above "Organisation, City   Jan 2020 – Present".
+        title = previousParts[0];
+        organisation = parts.length > 0 ? parts.join(', ') : previousParts.slice(1).join(', ');
+    }
+    return {
+        title,
+        organisation,
+        start: toMonth(match[1]),
+        end: current ? '' : toMonth(match[2]),
+        current,
+    };
+}
+
+function readEducation(line: string, next: string | undefined): CvEducation {
+    const withoutYears = (text: string) => splitParts(text.replace(DATE_RANGE, ' ').replace(/(?:19|20)\d{2}/g, ' '));
+    let years = line.match(/(?:19|20)\d{2}/g);
+    const parts = withoutYears(line);
+    const qualification = parts.find(part => DEGREE_PATTERN.test(part)) ?? parts[0] ?? '';
+    let institution = parts.find(part => part !== qualification && INSTITUTION_PATTERN.test(part))
+        ?? parts.find(part => part !== qualification) ?? '';
+    if (!institution && next && INSTITUTION_PATTERN.test(next) && !DEGREE_PATTERN.test(next)) {
+        // Institution on the line below the qualification.
+        institution = withoutYears(next)[0] ?? '';
+        years = years ?? next.match(/(?:19|20)\d{2}/g);
+    }
+    return { qualification, institution, year: years ? years[years.length - 1] : '' };
+}
+
+/** Splits CV text into roles, education and leadership items. Never throws. */
+export function parseCv(text: string): CvProfile {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const hasExperienceHeading = lines.some(line => headingSection(line) === 'experience');
+    const profile: CvProfile = { roles: [], education: [], leadership: [] };
+    let section: CvSection = 'other';
+
+    lines.forEach((line, index) => {
+        const heading = headingSection(line);
+        if (heading) {
+            section = heading;
+            return;
+        }
+        const range = line.match(DATE_RANGE);
+        const isBullet = BULLET_PREFIX.test(line);
+        const content = line.replace(BULLET_PREFIX, '').trim();
+
+        if (section === 'education') {
+            if (DEGREE_PATTERN.test(line)) profile.education.push(readEducation(line, lines[index + 1]));
+            return;
+        }
+        if (range && (section === 'experience' || (!hasExperienceHeading && section !== 'leadership'))) {
+            const previous = lines[index - 1];
+            const usablePrevious = previous && previous.length <= 60 && !/[.:]$/.test(previous)
+                && !headingSection(previous) && !DATE_RANGE.test(previous) && !BULLET_PREFIX.test(previous)
+                ? previous : undefined;
+            profile.roles.push(readRole(line, usablePrevious, range));
+            return;
+        }
+        if (section === 'leadership' && content.length > 10) {
+            profile.leadership.push(content);
+        } else if (section === 'experience' && isBullet && LEADERSHIP_VERBS.test(content)) {
+            profile.leadership.push(content);
+        }
+    });
+
+    profile.leadership = [...new Set(profile.leadership)].slice(0, MAX_LEADERSHIP_ITEMS);
+    return profile;
+}
+
+// --- Work Experience ---
+
+/** Chevening asks for at least two years (2,800 hours) of work experience by the application deadline. */
+export const REQUIRED_EXPERIENCE_MONTHS = 24;
+
+function monthIndex(month: string): number | null {
+    const match = month.match(/^(\d{4})-(\d{2})$/);
+    return match ? Number(match[1]) * 12 + Number(match[2]) - 1 : null;
+}
+
+/**
+ * Total months across roles, counting both the start and end month and
+ * overlapping roles once, so Sep 2022 to Aug 2024 is 24 months. Roles without
+ * a usable start are skipped; current roles run to `asOf`, by default the
+ * next application deadline.
+ */
+export function experienceMonths(roles: CvRole[], asOf: Date = nextApplicationDeadline()): number {
+    const now = asOf.getFullYear() * 12 + asOf.getMonth();
+    const intervals = roles
+        .map(role => {
+            const start = monthIndex(role.start);
+            const end = role.current ? now : monthIndex(role.end);
+            // Intervals are half-open: [first month, month after the last].
+            return start === null || end === null ? null : [start, Math.min(end, now) + 1] as [number, number];
+        })
+        .filter((interval): interval is [number, number] => interval !== null && interval[1] > interval[0])
+        .sort((a, b) => a[0] - b[0]);
+
+    let total = 0;
+    let coveredUntil = -Infinity;
+    intervals.forEach(([start, end]) => {
+        const from = Math.max(start, coveredUntil);
+        if (end > from) total += end - from;
+        coveredUntil = Math.max(coveredUntil, end);
+    });
+    return total;
+}
+
+export type ExperienceStatus = 'pass' | 'fail' | 'unknown';
+
+export interface ExperienceCheck {
+    status: ExperienceStatus;
+    months: number;
+    message: Message;
+}
+
+/** English, for the prompt; the interface uses `durationMessage`. */
+function formatMonths(months: number): string {
+    const years = Math.floor(months / 12);
+    const rest = months % 12;
+    return [years > 0 ? `${years} year${years === 1 ? '' : 's'}` : '', rest > 0 || years === 0 ? `${rest} month${rest === 1 ? '' : 's'}` : '']
+        .filter(Boolean).join(' ');
+}
+
+/** e.g. "2 years and 3 months" in the language current when it is shown. */
+function durationMessage(months: number): Message[] {
+    const years = Math.floor(months / 12);
+    const rest = months % 12;
+    return [
+        ...(years > 0 ? [{ pluralKey: 'cv.years', count: years } as const] : []),
+        ...(rest > 0 || years === 0 ? [{ pluralKey: 'cv.months', count: rest } as const] : []),
+    ];
+}
+
+export function checkWorkExperience(profile: CvProfile, asOf: Date = nextApplicationDeadline()): ExperienceCheck {
+    const months = experienceMonths(profile.roles, asOf);
+    if (profile.roles.length === 0 || profile.roles.every(role => monthIndex(role.start) === null)) {
+        return { status: 'unknown', months, message: { key: 'cv.experience.unknown' } };
+    }
+    const duration = durationMessage(months);
+    return months >= REQUIRED_EXPERIENCE_MONTHS
+        ? { status: 'pass', months, message: { key: 'cv.experience.pass', params: { duration } } }
+        : { status: 'fail', months, message: { key: 'cv.experience.fail', params: { duration } } };
+}
+
+/** Plain-text summary of the confirmed CV model, for the course-matching prompt. */
+export function summariseCvProfile(profile: CvProfile): string {
+    const roles = profile.roles.map(role =>
+        `- ${role.title || 'Untitled role'}${role.organisation ? `, ${role.organisation}` : ''} (${role.start || '?'} to ${role.current ? 'present' : role.end || '?'})`);
+    const education = profile.education.map(entry =>
+        `- ${entry.qualification}${entry.institution ? `, ${entry.institution}` : ''}${entry.year ? ` (${entry.year})` : ''}`);
+    const leadership = profile.leadership.map(item => `- ${item}`);
+    return [
+        `Work experience: ${formatMonths(experienceMonths(profile.roles))} in total`,
+        'Roles:', ...(roles.length > 0 ? roles : ['- none listed']),
+        'Education:', ...(education.length > 0 ? education : ['- none listed']),
+        'Leadership:', ...(leadership.length > 0 ? leadership : ['- none listed']),
+    ].join('\n');
+}
@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Chevening Application Cycles ---
+// Each cycle's milestones, newest last. Add the next cycle here when Chevening
+// publishes its timeline (https://www.chevening.org/scholarships/application-timeline/).
+// Times are UTC; Chevening's "12:00 UK time" deadlines fall in BST, i.e. 11:00 UTC.
+
+export type MilestoneId =
+    | 'applications_open'
+    | 'application_deadline'
+    | 'references_deadline'
+    | 'interviews'
+    | 'offer_deadline'
+    | 'course_start';
+
+export interface Milestone {
+    id: MilestoneId;
+    /** ISO date-time. */
+    start: string;
+    /** ISO date-time; set for windows such as interviews. */
+    end?: string;
+}
+
+export interface CheveningCycle {
+    /** e.g. "2026/27". */
+    id: string;
+    courseStartYear: number;
+    /** True until Chevening confirms the dates; they follow the usual pattern meanwhile. */
+    provisional: boolean;
+    milestones: Milestone[];
+}
+
+export const CYCLES: CheveningCycle[] = [
+    {
+        id: '2025/26',
+        courseStartYear: 2025,
+        provisional: false,
+        milestones: [
+            { id: 'applications_open', start: '2024-08-06T11:00:00Z' },
+            { id: 'application_deadline', start: '2024-10-08T11:00:00Z' },
+            { id: 'references_deadline', start: '2024-11-05T12:00:00Z' },
+            { id: 'interviews', start: '2025-02-17T00:00:00Z', end: '2025-04-30T23:59:00Z' },
+            { id: 'offer_deadline', start: '2025-07-10T11:00:00Z' },
+            { id: 'course_start', start: '2025-09-01T00:00:00Z' },
+        ],
+    },
+    {
+        id: '2026/27',
+        courseStartYear: 2026,
+        provisional: false,
+        milestones: [
+            { id: 'applications_open', start: '2025-08-05T11:00:00Z' },
+            { id: 'application_deadline', start: '2025-10-07T11:00:00Z' },
+            { id: 'references_deadline', start: '2025-11-04T12:00:00Z' },
+            { id: 'interviews', start: '2026-02-16T00:00:00Z', end: '2026-04-30T23:59:00Z' },
+            { id: 'offer_deadline', start: '2026-07-09T11:00:00Z' },
+            { id: 'course_start', start: '2026-09-01T00:00:00Z' },
+        ],
+    },
+    {
+        id: '2027/28',
+        courseStartYear: 2027,
+        provisional: true,
+        milestones: [
+            { id: 'applications_open', start: '2026-08-04T11:00:00Z' },
+            { id: 'application_deadline', start: '2026-10-06T11:00:00Z' },
+            { id: 'references_deadline', start: '2026-11-03T12:00:00Z' },
+            { id: 'interviews', start: '2027-02-15T00:00:00Z', end: '2027-04-30T23:59:00Z' },
+            { id: 'offer_deadline', start: '2027-07-08T11:00:00Z' },
+            { id: 'course_start', start: '2027-09-01T00:00:00Z' },
+        ],
+    },
+    {
+        id: '2028/29',
+        courseStartYear: 2028,
+        provisional: true,
+        milestones: [
+            { id: 'applications_open', start: '2027-08-03T11:00:00Z' },
+            { id: 'application_deadline', start: '2027-10-05T11:00:00Z' },
+            { id: 'references_deadline', start: '2027-11-02T12:00:00Z' },
+            { id: 'interviews', start: '2028-02-14T00:00:00Z', end: '2028-04-30T23:59:00Z' },
+            { id: 'offer_deadline', start: '2028-07-13T11:00:00Z' },
+            { id: 'course_start', start: '2028-09-01T00:00:00Z' },
+        ],
+    },
+];
+
+export interface UpcomingMilestone {
+    cycle: CheveningCycle;
+    milestone: Milestone;
+    /** True when `now` falls inside the milestone's window. */
+    inProgress: boolean;
+    /** What the countdown runs to: the window's end when in progress, otherwise its start. */
+    target: Date;
+}
+
+/**
+ * The next milestone of the cycle still taking applications (see
+ * `applicationCycle`) that has not finished yet, or null when the
+ * configuration has run out.
+ */
+export function upcomingMilestone(now: Date = new Date(), cycles: CheveningCycle[] = CYCLES): UpcomingMilestone | null {
+    const cycle = applicationCycle(now, cycles);
+    if (!cycle) return null;
+    const time = now.getTime();
+    const milestones = [...cycle.milestones].sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+    for (const milestone of milestones) {
+        const start = Date.parse(milestone.start);
+        const end = Date.parse(milestone.end ?? milestone.start);
+        if (end <= time) continue;
+        const inProgress = start <= time;
+        return { cycle, milestone, inProgress, target: new Date(inProgress ? end : start) };
+    }
+    return null;
+}
+
+function applicationDeadlineTime(cycle: CheveningCycle): number | null {
+    const deadline = cycle.milestones.find(milestone => milestone.id === 'application_deadline');
+    return deadline ? Date.parse(deadline.start) : null;
+}
+
+/** The cycle still taking applications: the first whose application deadline is ahead. */
+export function applicationCycle(now: Date = new Date(), cycles: CheveningCycle[] = CYCLES): CheveningCycle | null {
+    return [...cycles]
+        .sort((a, b) => a.courseStartYear - b.courseStartYear)
+        .find(cycle => (applicationDeadlineTime(cycle) ?? -Infinity) > now.getTime()) ?? null;
+}
+
+/**
+ * The application deadline of that cycle, which work experience is counted up
+ * to. `now` once the configured cycles have run out.
+ */
+export function nextApplicationDeadline(now: Date = new Date(), cycles: CheveningCycle[] = CYCLES): Date {
+    const cycle = applicationCycle(now, cycles);
+    const deadline = cycle ? applicationDeadlineTime(cycle) : null;
+    return deadline === null ? now : new Date(deadline);
+}
+
+/**
+ * The course start year to search for: that of the cycle still taking
+ * applications. Between one cycle's deadline and the next cycle's, the old
+ * cycle still has milestones ahead, but its intake is closed to new
+ * applicants. Past the last configured cycle, assumes the usual early-October
+ * deadline for the following year's intake.
+ */
+export function targetStartYear(now: Date = new Date(), cycles: CheveningCycle[] = CYCLES): number {
+    const cycle = applicationCycle(now, cycles);
+    if (cycle) return cycle.courseStartYear;
+    return now.getUTCMonth() < 9 ? now.getUTCFullYear() + 1 : now.getUTCFullYear() + 2;
+}
+
+export type MilestoneStatus = 'done' | 'current' | 'upcoming';
+
+export function milestoneStatus(milestone: Milestone, now: Date = new Date()): MilestoneStatus {
+    const time = now.getTime();
+    if (Date.parse(milestone.end ?? milestone.start) <= time) return 'done';
+    return Date.parse(milestone.start) <= time ? 'current' : 'upcoming';
+}
+
+/**
+ * The cycle the timeline shows: the one still taking applications, so it
+ * matches `targetStartYear` and the countdown. Null once the configured
+ * cycles have run out.
+ */
+export function currentCycle(now: Date = new Date(), cycles: CheveningCycle[] = CYCLES): CheveningCycle | null {
+    return applicationCycle(now, cycles);
+}
@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { MBA_FEE_CAP_GBP, isMba, parseFeeGbp } from './fees';
+import type { Message } from './i18n';
+import type { RankedCourse } from './types';
+
+// --- Chevening Eligibility Rules Engine ---
+// Re-checks every course the model returns against the rules in the system
+// prompt, so a wrong "is_eligible" from the model never reaches the user unflagged.
+
+export type RuleStatus = 'pass' | 'fail' | 'unknown';
+
+export type EligibilityRuleId =
+    | 'full_time'
+    | 'uk_based'
+    | 'taught'
+    | 'autumn_start'
+    | 'duration'
+    | 'mba_fee_cap';
+
+export interface RuleResult {
+    id: EligibilityRuleId;
+    label: Message;
+    status: RuleStatus;
+    detail: Message;
+    /** A failing blocking rule makes the course ineligible; non-blocking rules are advisory. */
+    blocking: boolean;
+}
+
+export type EligibilityStatus = 'eligible' | 'ineligible' | 'unverified';
+
+export interface EligibilityReport {
+    status: EligibilityStatus;
+    rules: RuleResult[];
+    /** The model's own `is_eligible` verdict, if it gave one. */
+    modelVerdict: boolean | null;
+    /** True when the model's verdict contradicts a definite result from the rules. */
+    disagreesWithModel: boolean;
+}
+
+export const MIN_DURATION_MONTHS = 9;
+export const MAX_DURATION_MONTHS = 12;
+
+const UK_PLACES = [
+    'united kingdom', 'uk', 'england', 'scotland', 'wales', 'northern ireland',
+    'london', 'birmingham', 'manchester', 'liverpool', 'leeds', 'sheffield', 'bristol',
+    'newcastle', 'nottingham', 'leicester', 'coventry', 'warwick', 'oxford', 'cambridge',
+    'brighton', 'falmer', 'sussex', 'southampton', 'portsmouth', 'bath', 'exeter', 'plymouth',
+    'york', 'durham', 'lancaster', 'norwich', 'reading', 'guildford', 'surrey', 'kent',
+    'canterbury', 'colchester', 'essex', 'loughborough', 'egham', 'cranfield', 'keele',
+    'hull', 'bradford', 'huddersfield', 'salford', 'sunderland', 'middlesbrough', 'derby',
+    'lincoln', 'bournemouth', 'winchester', 'chichester', 'hatfield', 'luton', 'milton keynes',
+    'cheltenham', 'gloucester', 'worcester', 'wolverhampton', 'stoke', 'chester', 'preston',
+    'bangor', 'aberystwyth', 'cardiff', 'swansea', 'newport', 'wrexham', 'edinburgh', 'glasgow',
+    'aberdeen', 'dundee', 'st andrews', 'stirling', 'inverness', 'paisley', 'belfast', 'coleraine',
+    'derry', 'londonderry', 'midlands', 'yorkshire',
+];
+
+const NON_UK_HINTS = [
+    'online', 'distance', 'remote', 'dubai', 'singapore', 'malaysia', 'kuala lumpur', 'ningbo',
+    'suzhou', 'china', 'hong kong', 'qatar', 'doha', 'mauritius', 'sri lanka', 'greece', 'athens',
+    'usa', 'united states', 'dublin',
+];
+
+const TAUGHT_AWARDS = /\b(msc|ma|llm|mba|mpa|mph|med|mfa|march|meng|mlitt|mst|mpp|mfin|mim)\b/i;
+const RESEARCH_AWARDS = /\b(mres|phd|dphil|by research|research master'?s)\b/i;
+/** Taught at Cambridge and Oxford, by research elsewhere; the award alone does not settle it. */
+const EITHER_AWARDS = /\b(mphil)\b/i;
+
+const MONTHS: Record<string, number> = {
+    jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+/**
+ * Full or abbreviated month names. "May" only counts next to a year, so the
+ * verb in "Start date may vary" is not read as a month.
+ */
+const MONTH_NAMES = /\b(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may(?=\s+20\d\d\b)|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\b/gi;
+
+function containsPlace(text: string, places: string[]): boolean {
+    return places.some(place => new RegExp(`\\b${place}\\b`, 'i').test(text));
+}
+
+function checkFullTime(course: RankedCourse): RuleResult {
+    const base = { id: 'full_time' as const, label: { key: 'rule.fullTime' } as const, blocking: true };
+    const mode = course.study_mode ?? '';
+    // Listings such as "Full-time / Part-time" offer a full-time option, which is all the rule needs.
+    if (/full[-\s]?time/i.test(`${mode} ${course.programme ?? ''}`)) {
+        return { ...base, status: 'pass', detail: { key: 'rule.fullTime.pass' } };
+    }
+    // Only "part-time" is read from the programme name: "MSc Online Safety" says nothing about delivery.
+    if (/part[-\s]?time|distance|online|blended/i.test(mode) || /part[-\s]?time/i.test(course.programme ?? '')) {
+        return { ...base, status: 'fail', detail: { key: 'rule.fullTime.fail', params: { mode: mode || course.programme } } };
+    }
+    return { ...base, status: 'unknown', detail: { key: 'rule.fullTime.unknown' } };
+}
+
+function checkUkBased(course: RankedCourse): RuleResult {
+    const base = { id: 'uk_based' as const, label: { key: 'rule.ukBased' } as const, blocking: true };
+    const city = course.city ?? '';
+    if (containsPlace(`${city} ${course.study_mode ?? ''}`, NON_UK_HINTS)) {
+        return { ...base, status: 'fail', detail: { key: 'rule.ukBased.fail', params: { place: city || (course.study_mode ?? '') } } };
+    }
+    if (containsPlace(city, UK_PLACES)) {
+        return { ...base, status: 'pass', detail: { key: 'rule.ukBased.pass', params: { city } } };
+    }
+    if (!city && /\.ac\.uk\b/i.test(course.url ?? '')) {
+        return { ...base, status: 'unknown', detail: { key: 'rule.ukBased.ukDomain' } };
+    }
+    return { ...base, status: 'unknown', detail: city ? { key: 'rule.ukBased.unconfirmed', params: { city } } : { key: 'rule.ukBased.noCity' } };
+}
+
+function checkTaught(course: RankedCourse): RuleResult {
+    const base = { id: 'taught' as const, label: { key: 'rule.taught' } as const, blocking: true };
+    const text = `${course.award ?? ''} ${course.programme ?? ''}`;
+    const research = text.match(RESEARCH_AWARDS);
+    if (research) {
+        return { ...base, status: 'fail', detail: { key: 'rule.taught.research', params: { award: research[0] } } };
+    }
+    const either = text.match(EITHER_AWARDS);
+    if (either) {
+        return { ...base, status: 'unknown', detail: { key: 'rule.taught.either', params: { award: either[0] } } };
+    }
+    const taught = text.match(TAUGHT_AWARDS);
+    if (taught) {
+        return { ...base, status: 'pass', detail: { key: 'rule.taught.pass', params: { award: taught[0] } } };
+    }
+    return { ...base, status: 'unknown', detail: { key: 'rule.taught.unknown' } };
+}
+
+function checkAutumnStart(course: RankedCourse, targetYear: number): RuleResult {
+    // Years are passed as text so they are not formatted like amounts ("2,030").
+    const base = { id: 'autumn_start' as const, label: { key: 'rule.autumnStart', params: { year: String(targetYear) } } as const, blocking: true };
+    const cycle = course.start_cycle ?? '';
+    if (!cycle || /verify/i.test(cycle)) {
+        return { ...base, status: 'unknown', detail: { key: 'rule.autumnStart.unconfirmed' } };
+    }
+    const months = [...cycle.matchAll(MONTH_NAMES)].map(match => MONTHS[match[1].slice(0, 3).toLowerCase()]);
+    const autumn = /\bautumn\b|\bfall\b/i.test(cycle) || months.some(month => month === 9 || month === 10);
+    if (!autumn) {
+        return months.length > 0
+            ? { ...base, status: 'fail', detail: { key: 'rule.autumnStart.notAutumn', params: { start: cycle } } }
+            : { ...base, status: 'unknown', detail: { key: 'rule.autumnStart.unreadable', params: { start: cycle } } };
+    }
+    const years = [...cycle.matchAll(/\b(20\d\d)\b/g)].map(match => parseInt(match[1], 10));
+    if (years.length === 0) {
+        return { ...base, status: 'unknown', detail: { key: 'rule.autumnStart.noYear' } };
+    }
+    if (!years.includes(targetYear)) {
+        return { ...base, status: 'fail', detail: { key: 'rule.autumnStart.wrongYear', params: { years: years.join('/'), year: String(targetYear) } } };
+    }
+    return { ...base, status: 'pass', detail: { key: 'rule.autumnStart.pass', params: { start: cycle } } };
+}
+
+function checkDuration(course: RankedCourse): RuleResult {
+    const limits = { min: MIN_DURATION_MONTHS, max: MAX_DURATION_MONTHS };
+    const base = { id: 'duration' as const, label: { key: 'rule.duration', params: limits } as const, blocking: true };
+    const months = course.duration_months;
+    if (typeof months !== 'number' || !Number.isFinite(months) || months <= 0) {
+        return { ...base, status: 'unknown', detail: { key: 'rule.duration.unknown' } };
+    }
+    if (months < MIN_DURATION_MONTHS || months > MAX_DURATION_MONTHS) {
+        return { ...base, status: 'fail', detail: { key: 'rule.duration.fail', params: { months, ...limits } } };
+    }
+    return { ...base, status: 'pass', detail: { key: 'rule.duration.pass', params: { months } } };
+}
+
+function checkMbaFeeCap(course: RankedCourse): RuleResult {
+    const base = { id: 'mba_fee_cap' as const, label: { key: 'rule.mbaFeeCap' } as const, blocking: false };
+    if (!isMba(course.programme) && !isMba(course.award)) {
+        return { ...base, status: 'pass', detail: { key: 'rule.mbaFeeCap.notMba' } };
+    }
+    const fee = parseFeeGbp(course.fee_gbp);
+    const cap = { gbp: MBA_FEE_CAP_GBP };
+    if (fee === null) {
+        return { ...base, status: 'unknown', detail: { key: 'rule.mbaFeeCap.unknown', params: { cap } } };
+    }
+    if (fee > MBA_FEE_CAP_GBP) {
+        return { ...base, status: 'fail', detail: { key: 'rule.mbaFeeCap.fail', params: { cap, gap: { gbp: fee - MBA_FEE_CAP_GBP } } } };
+    }
+    return { ...base, status: 'pass', detail: { key: 'rule.mbaFeeCap.pass' } };
+}
+
+/**
+ * Checks a single course against every Chevening rule. `targetYear` is the
+ * intended start year from the form.
+ */
+export function checkEligibility(course: RankedCourse, targetYear: number): EligibilityReport {
+    const rules = [
+        checkFullTime(course),
+        checkUkBased(course),
+        checkTaught(course),
+        checkAutumnStart(course, targetYear),
+        checkDuration(course),
+        checkMbaFeeCap(course),
+    ];
+
+    const blocking = rules.filter(rule => rule.blocking);
+    let status: EligibilityStatus = 'eligible';
+    if (blocking.some(rule => rule.status === 'fail')) {
+        status = 'ineligible';
+    } else if (blocking.some(rule => rule.status === 'unknown')) {
+        status = 'unverified';
+    }
+
+    const modelVerdict = typeof course.eligibility_check?.is_eligible === 'boolean'
+        ? course.eligibility_check.is_eligible
+        : null;
+    const disagreesWithModel = modelVerdict !== null && status !== 'unverified'
+        && modelVerdict !== (status === 'eligible');
+
+    return { status, rules, modelVerdict, disagreesWithModel };
+}
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { t } from './i18n';
+
+// --- Analysis Errors ---
+// Every failure the analysis can hit, with guidance the UI shows instead of a
+// raw message. `retryable` errors are retried automatically with backoff.
+// Text is in the language that was active when the error was raised.
+
+export type AnalysisErrorKind =
+    | 'invalid_file'
+    | 'network'
+    | 'rate_limit'
+    | 'auth'
+    | 'server'
+    | 'safety_block'
+    | 'empty_response'
+    | 'invalid_json'
+    | 'empty_result'
+    | 'unknown';
+
+export class AnalysisError extends Error {
+    readonly kind: AnalysisErrorKind;
+    /** Short heading for the error panel. */
+    readonly title: string;
+    /** What the user can do about it. */
+    readonly guidance: string;
+    readonly retryable: boolean;
+
+    constructor(kind: AnalysisErrorKind, title: string, message: string, guidance: string, retryable: boolean, options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'AnalysisError';
+        this.kind = kind;
+        this.title = title;
+        this.guidance = guidance;
+        this.retryable = retryable;
+    }
+}
+
+export class InvalidFileError extends AnalysisError {
+    constructor(message: string) {
+        super('invalid_file', t('error.invalidFile.title'), message, t('error.invalidFile.guidance'), false);
+        this.name = 'InvalidFileError';
+    }
+}
+
+export class NetworkError extends AnalysisError {
+    constructor(options?: ErrorOptions) {
+        super('network', t('error.network.title'), t('error.network.message'), t('error.network.guidance'), true, options);
+        this.name = 'NetworkError';
+    }
+}
+
+export class RateLimitError extends AnalysisError {
+    /** Server-suggested wait before retrying, when it sent one. */
+    readonly retryAfterMs: number | null;
+
+    constructor(retryAfterMs: number | null, options?: ErrorOptions) {
+        super('rate_limit', t('error.rateLimit.title'), t('error.rateLimit.message'), t('error.rateLimit.guidance'), true, options);
+        this.name = 'RateLimitError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+export class AuthError extends AnalysisError {
+    constructor(options?: ErrorOptions) {
+        super('auth', t('error.auth.title'), t('error.auth.message'), t('error.auth.guidance'), false, options);
+        this.name = 'AuthError';
+    }
+}
+
+export class ServerError extends AnalysisError {
+    constructor(status: number, options?: ErrorOptions) {
+        super('server', t('error.server.title'), t('error.server.message', { status: String(status) }), t('error.server.guidance'), true, options);
+        this.name = 'ServerError';
+    }
+}
+
+export class SafetyBlockError extends AnalysisError {
+    constructor(reason: string) {
+        super('safety_block', t('error.safety.title'), t('error.safety.message', { reason }), t('error.safety.guidance'), false);
+        this.name = 'SafetyBlockError';
+    }
+}
+
+export class EmptyResponseError extends AnalysisError {
+    constructor() {
+        super('empty_response', t('error.emptyResponse.title'), t('error.emptyResponse.message'), t('error.emptyResponse.guidance'), true);
+        this.name = 'EmptyResponseError';
+    }
+}
+
+export class InvalidJsonError extends AnalysisError {
+    /** The text that failed to parse, kept for repair and diagnostics. */
+    readonly text: string;
+    /** True when the model stopped at its output limit, so the JSON is cut off. */
+    readonly truncated: boolean;
+
+    constructor(text: string, truncated: boolean, options?: ErrorOptions) {
+        super('invalid_json', t('error.invalidJson.title'), t(truncated ? 'error.invalidJson.truncated' : 'error.invalidJson.message'), t('error.invalidJson.guidance'), true, options);
+        this.name = 'InvalidJsonError';
+        this.text = text;
+        this.truncated = truncated;
+    }
+}
+
+export class EmptyResultError extends AnalysisError {
+    constructor() {
+        super('empty_result', t('error.emptyResult.title'), t('error.emptyResult.message'), t('error.emptyResult.guidance'), false);
+        this.name = 'EmptyResultError';
+    }
+}
+
+function statusFromMessage(message: string): number | null {
+    const match = message.match(/got status: (\d{3})/);
+    return match ? Number(match[1]) : null;
+}
+
+/** Maps anything thrown during an analysis onto an `AnalysisError`. */
+export function classifyError(error: unknown): AnalysisError {
+    if (error instanceof AnalysisError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    const options = { cause: error };
+
+    const status = statusFromMessage(message);
+    if (status === 429 || /resource.?exhausted|quota/i.test(message)) {
+        const delay = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+        return new RateLimitError(delay ? Number(delay[1]) * 1000 : null, options);
+    }
+    if (status === 401 || status === 403 || /api key not valid|permission denied|unauthenticated/i.test(message)) {
+        return new AuthError(options);
+    }
+    if (status !== null && status >= 500) return new ServerError(status, options);
+    if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return new NetworkError(options);
+    if (error instanceof SyntaxError) return new InvalidJsonError('', false, options);
+
+    return new AnalysisError('unknown', t('error.unknown.title'), message || t('error.unknown.message'), t('error.unknown.guidance'), false, options);
+}
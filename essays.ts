@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { StatementBullets } from './types';
+
+// --- Chevening Essays ---
+// The four essay questions on the Chevening application, their word limits and
+// the criteria the "review this draft" feedback is structured around.
+
+export type EssayId = 'leadership' | 'networking' | 'study_uk' | 'career_plan';
+
+export interface EssayDefinition {
+    id: EssayId;
+    title: string;
+    question: string;
+    /** Which generated talking points feed this essay, if any. */
+    bulletsKey?: keyof StatementBullets;
+    criteria: string[];
+}
+
+export const ESSAY_MIN_WORDS = 50;
+export const ESSAY_MAX_WORDS = 500;
+
+export const ESSAYS: EssayDefinition[] = [
+    {
+        id: 'leadership',
+        title: 'Leadership and influence',
+        question: 'Chevening is looking for individuals with the potential to become future leaders or influencers. Explain how you meet this criterion, using examples of your leadership and influencing experience.',
+        bulletsKey: 'leadership',
+        criteria: ['Concrete leadership examples', 'Influence on others', 'Measurable outcomes', 'Reflection and growth'],
+    },
+    {
+        id: 'networking',
+        title: 'Networking',
+        question: 'Explain how you build and maintain relationships, and how you will use the skills and contacts from your Chevening experience in your future career.',
+        bulletsKey: 'networking',
+        criteria: ['Relationship-building examples', 'Using networks for impact', 'Engagement with the UK', 'Plans for the Chevening network'],
+    },
+    {
+        id: 'study_uk',
+        title: 'Studying in the UK',
+        question: 'Explain why you have chosen your three UK course choices and how they relate to your future career plans.',
+        criteria: ['Justification of each course', 'Link to career goals', 'Why the UK', 'Knowledge of the programmes'],
+    },
+    {
+        id: 'career_plan',
+        title: 'Career plan',
+        question: 'Outline your post-study plans: the job you want on your return home, your long-term ambitions, and how you will use your Chevening experience to achieve them.',
+        bulletsKey: 'career_plan',
+        criteria: ['Clear short-term plan', 'Long-term vision', 'Impact on home country', 'Realism and feasibility'],
+    },
+];
+
+export function countWords(text: string): number {
+    return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+// --- Drafts ---
+// Drafts belong to the applicant, not to a run, so they persist across analyses.
+
+export type EssayDrafts = Record<EssayId, string>;
+
+const DRAFTS_STORAGE_KEY = 'chevening-matchmaker:essay-drafts';
+
+export function loadDrafts(): EssayDrafts {
+    const drafts = Object.fromEntries(ESSAYS.map(({ id }) => [id, ''])) as EssayDrafts;
+    try {
+        const stored = JSON.parse(localStorage.getItem(DRAFTS_STORAGE_KEY) ?? 'null');
+        if (stored && typeof stored === 'object') {
+            ESSAYS.forEach(({ id }) => {
+                if (typeof stored[id] === 'string') drafts[id] = stored[id];
+            });
+        }
+    } catch (error) {
+        console.warn("Could not read saved essay drafts:", error);
+    }
+    return drafts;
+}
+
+/** Returns false when the browser refused the write (e.g. storage full or disabled). */
+export function saveDrafts(drafts: EssayDrafts): boolean {
+    try {
+        localStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(drafts));
+        return true;
+    } catch (error) {
+        console.warn("Could not save essay drafts:", error);
+        return false;
+    }
+}
+
+// --- Draft Review ---
+
+export type FeedbackRating = 'strong' | 'adequate' | 'weak';
+
+export interface CriterionFeedback {
+    criterion: string;
+    rating: FeedbackRating;
+    comment: string;
+    suggestions: string[];
+}
+
+export interface EssayFeedback {
+    overall: string;
+    criteria: CriterionFeedback[];
+}
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { analyseCv } from '../analysis';
+import { bundledCatalogue, findCatalogueCourse } from '../catalogue/verify';
+import type { Catalogue } from '../catalogue/catalogue';
+import { parseCv } from '../cv/profile';
+import { checkEligibility } from '../eligibility';
+import { classifyError } from '../errors';
+import { safeUrl } from '../html';
+import type { PromptInputs } from '../prompt';
+import type { PromptVersion } from '../prompts';
+import type { CourseMatchProvider, CvPart } from '../providers';
+import { candidateKey } from '../trio';
+import type { AnalysisRun, CatalogueVerification, RankedCourse } from '../types';
+
+// --- Prompt Evaluation ---
+// Runs anonymised CVs through a provider with a given prompt version and
+// scores the results on what the prompt promises: eligible courses only, links
+// from the course index, schema-compliant output and, between versions, a
+// stable ranking. Used by scripts/eval.ts; nothing here touches the file system.
+
+/** Courses compared per case for ranking stability. */
+export const STABILITY_TOP_K = 5;
+
+export interface EvalCase {
+    id: string;
+    /** One line on what the case exercises, e.g. "MBA with a fee gap". */
+    description: string;
+    /** Plain-text CV with names, contacts and employers replaced. */
+    cv: string;
+    inputs: PromptInputs;
+}
+
+export interface CaseOutcome {
+    caseId: string;
+    run?: AnalysisRun;
+    /** Why there is no run: no recording, or the analysis failed. */
+    error?: string;
+}
+
+export interface CaseMetrics {
+    caseId: string;
+    courses: number;
+    /** Ranked courses that fail a blocking eligibility rule. */
+    eligibilityViolations: string[];
+    links: number;
+    /** Links that do not lead to the matched catalogue entry's site. */
+    inventedUrls: string[];
+    /** Parsed without repair and passed validation without issues. */
+    schemaCompliant: boolean;
+}
+
+export interface EvalSummary {
+    promptVersion: string;
+    cases: number;
+    evaluated: number;
+    failed: { caseId: string; error: string }[];
+    /** Null when there was nothing to measure. */
+    eligibilityViolationRate: number | null;
+    inventedUrlRate: number | null;
+    schemaComplianceRate: number | null;
+}
+
+export interface BaselineComparison {
+    summary: EvalSummary;
+    stability: RankingStability[];
+}
+
+export interface RankingStability {
+    caseId: string;
+    /** Share of the top courses that appear in both top lists, 0–1. */
+    topOverlap: number;
+    /** Mean change in position of courses ranked by both; null when none are. */
+    meanRankShift: number | null;
+}
+
+// --- Running ---
+
+/** The CV as the model receives it: an inline plain-text part. */
+export function cvPart(text: string): CvPart {
+    return { inlineData: { data: Buffer.from(text, 'utf8').toString('base64'), mimeType: 'text/plain' } };
+}
+
+/**
+ * Analyses one case the way the app does, including the CV summary the
+ * browser would have extracted. Never rejects; failures become the outcome's error.
+ */
+export async function runCase(provider: CourseMatchProvider, prompt: PromptVersion, evalCase: EvalCase, onText?: (text: string) => void): Promise<CaseOutcome> {
+    try {
+        const run = await analyseCv(provider, {
+            cv: cvPart(evalCase.cv),
+            cvProfile: parseCv(evalCase.cv),
+            inputs: evalCase.inputs,
+            prompt,
+        }, { onText });
+        return { caseId: evalCase.id, run };
+    } catch (error) {
+        return { caseId: evalCase.id, error: classifyError(error).message };
+    }
+}
+
+// --- Scoring ---
+
+function hostOf(url: string): string | null {
+    const href = safeUrl(url);
+    return href ? new URL(href).hostname.replace(/^www\./, '') : null;
+}
+
+/** False for unsafe links, courses not in the index and links to another site than the index lists. */
+function linkMatchesCatalogue(url: string, verification: CatalogueVerification | undefined, catalogue: Catalogue): boolean {
+    const host = hostOf(url);
+    const entry = verification?.status === 'verified' ? findCatalogueCourse(verification.course_id, catalogue) : undefined;
+    return host !== null && entry !== undefined && host === hostOf(entry.url);
+}
+
+export function scoreRun(caseId: string, run: AnalysisRun, catalogue: Catalogue = bundledCatalogue): CaseMetrics {
+    const { ranked_courses: courses, alternatives } = run.result;
+    const linked = [...courses, ...alternatives].filter(course => course.url);
+    return {
+        caseId,
+        courses: courses.length,
+        eligibilityViolations: courses
+            .filter(course => checkEligibility(course, run.inputs.year).status === 'ineligible')
+            .map(course => `${course.programme}, ${course.university}`),
+        links: linked.length,
+        inventedUrls: linked
+            .filter(course => !linkMatchesCatalogue(course.url, course.catalogue, catalogue))
+            .map(course => course.url),
+        schemaCompliant: run.issues.length === 0,
+    };
+}
+
+function rate(count: number, total: number): number | null {
+    return total > 0 ? count / total : null;
+}
+
+export function summarise(promptVersion: string, outcomes: CaseOutcome[], metrics: CaseMetrics[]): EvalSummary {
+    const sum = (pick: (entry: CaseMetrics) => number) => metrics.reduce((total, entry) => total + pick(entry), 0);
+    return {
+        promptVersion,
+        cases: outcomes.length,
+        evaluated: metrics.length,
+        failed: outcomes.flatMap(outcome => (outcome.run ? [] : [{ caseId: outcome.caseId, error: outcome.error ?? 'No result.' }])),
+        eligibilityViolationRate: rate(sum(entry => entry.eligibilityViolations.length), sum(entry => entry.courses)),
+        inventedUrlRate: rate(sum(entry => entry.inventedUrls.length), sum(entry => entry.links)),
+        schemaComplianceRate: rate(metrics.filter(entry => entry.schemaCompliant).length, metrics.length),
+    };
+}
+
+// --- Ranking Stability ---
+
+function rankingKeys(courses: RankedCourse[]): string[] {
+    return [...courses]
+        .sort((a, b) => a.rank - b.rank)
+        .map(course => (course.catalogue?.status === 'verified' ? course.catalogue.course_id : candidateKey(course)));
+}
+
+/** How much the ranking for one case moved between a baseline and a candidate version. */
+export function compareRankings(caseId: string, baseline: RankedCourse[], candidate: RankedCourse[], k = STABILITY_TOP_K): RankingStability {
+    const before = rankingKeys(baseline);
+    const after = rankingKeys(candidate);
+    const topBefore = before.slice(0, k);
+    const topAfter = new Set(after.slice(0, k));
+    const size = Math.max(topBefore.length, topAfter.size);
+    const shared = before.filter(key => after.includes(key));
+    return {
+        caseId,
+        topOverlap: size === 0 ? 1 : topBefore.filter(key => topAfter.has(key)).length / size,
+        meanRankShift: shared.length === 0
+            ? null
+            : shared.reduce((total, key) => total + Math.abs(before.indexOf(key) - after.indexOf(key)), 0) / shared.length,
+    };
+}
+
+/** Stability for every case with a run in both versions. */
+export function compareOutcomes(baseline: CaseOutcome[], candidate: CaseOutcome[]): RankingStability[] {
+    return candidate.flatMap(outcome => {
+        const before = baseline.find(entry => entry.caseId === outcome.caseId)?.run;
+        return before && outcome.run ? [compareRankings(outcome.caseId, before.result.ranked_courses, outcome.run.result.ranked_courses)] : [];
+    });
+}
+
+// --- Report ---
+
+function percent(value: number | null): string {
+    return value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+}
+
+function mean(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+}
+
+/** Plain-text report; lower is better for violations and invented links, higher for the rest. */
+export function formatReport(summary: EvalSummary, metrics: CaseMetrics[], baseline?: BaselineComparison): string {
+    const row = (label: string, pick: (entry: EvalSummary) => number | null) =>
+        `${label.padEnd(26)}${percent(pick(summary)).padStart(8)}${baseline ? percent(pick(baseline.summary)).padStart(12) : ''}`;
+    const lines = [
+        `Prompt ${summary.promptVersion}: ${summary.evaluated} of ${summary.cases} cases evaluated`,
+        '',
+        `${'Metric'.padEnd(26)}${summary.promptVersion.padStart(8)}${baseline ? baseline.summary.promptVersion.padStart(12) : ''}`,
+        row('Eligibility violations', entry => entry.eligibilityViolationRate),
+        row('Invented URLs', entry => entry.inventedUrlRate),
+        row('Schema compliance', entry => entry.schemaComplianceRate),
+    ];
+    if (baseline) {
+        const shifts = baseline.stability.flatMap(entry => (entry.meanRankShift === null ? [] : [entry.meanRankShift]));
+        lines.push(
+            '',
+            `Ranking stability vs ${baseline.summary.promptVersion} (${baseline.stability.length} cases):`,
+            `  top-${STABILITY_TOP_K} overlap ${percent(mean(baseline.stability.map(entry => entry.topOverlap)))}, mean rank shift ${mean(shifts)?.toFixed(2) ?? 'n/a'}`,
+        );
+    }
+    const details = metrics.flatMap(entry => [
+        ...entry.eligibilityViolations.map(course => `  ${entry.caseId}: ineligible course ${course}`),
+        ...entry.inventedUrls.map(url => `  ${entry.caseId}: link not in the index ${url}`),
+        ...(entry.schemaCompliant ? [] : [`  ${entry.caseId}: response needed repair or failed validation`]),
+    ]);
+    if (details.length > 0) lines.push('', 'Findings:', ...details);
+    if (summary.failed.length > 0) {
+        lines.push('', 'Not evaluated:', ...summary.failed.map(({ caseId, error }) => `  ${caseId}: ${error}`));
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,312 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { summariseCandidate } from './batch';
+import type { BatchCandidate } from './batch';
+import { compareCourses } from './comparison';
+import type { CourseComparison } from './comparison';
+import { describeGap, estimateCosts } from './costs';
+import { checkEligibility } from './eligibility';
+import { MBA_FEE_CAP_GBP, isMba } from './fees';
+import { html, safeUrl } from './html';
+import type { SafeHtml } from './html';
+import { tMessage, withLocale } from './i18n';
+import { DEFAULT_WEIGHTS, MAX_TOTAL_SCORE, SCORING_CRITERIA, isDefaultWeights, rankCourses } from './scoring';
+import type { ScoreWeights } from './scoring';
+import { editedTrio } from './trio';
+import type { AnalysisRun } from './types';
+
+// --- Exports ---
+// Markdown, JSON and a print layout built from the same run data the results
+// view renders, never from the DOM, plus the adviser's cohort CSV. Each export records its inputs and
+// generation date so a shared document can be traced back to its run.
+// Documents are always in English, like the course data and the essays.
+
+const ELIGIBILITY_LABELS = { eligible: 'Eligible', ineligible: 'Ineligible', unverified: 'Unverified' };
+
+function formatDate(iso: string): string {
+    return new Date(iso).toLocaleString('en-GB', { dateStyle: 'long', timeStyle: 'short' });
+}
+
+function slug(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'analysis';
+}
+
+export function exportFileName(run: AnalysisRun, extension: string): string {
+    return `chevening-courses-${slug(run.inputs.fields)}-${run.generatedAt.slice(0, 10)}.${extension}`;
+}
+
+function parameterLines(run: AnalysisRun, weights: ScoreWeights): [string, string][] {
+    const lines: [string, string][] = [
+        ['Target fields', run.inputs.fields],
+        ['Preferred UK locations', run.inputs.locations || '—'],
+        ['Country-impact one-liner', run.inputs.impact],
+        ['Target start', `Sep/Oct ${run.inputs.year}`],
+        ['Generated', formatDate(run.generatedAt)],
+        ['Model', `${run.model} (${run.provider})`],
+    ];
+    if (run.promptVersion) {
+        lines.push(['Prompt version', run.promptVersion]);
+    }
+    if (!isDefaultWeights(weights)) {
+        lines.push(['Scoring weights', SCORING_CRITERIA.map(({ id, label }) => `${label} ×${weights[id]}`).join(', ')]);
+    }
+    return lines;
+}
+
+// --- Markdown ---
+
+// Links the model made up in another scheme (javascript:, data:, …) are dropped.
+function linkSuffix(url: string): string {
+    const href = safeUrl(url);
+    return href ? ` (${href})` : '';
+}
+
+function markdownList(items: string[]): string {
+    return items.map(item => `- ${item.replace(/\n+/g, ' ')}`).join('\n');
+}
+
+function markdownCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\s*\n+\s*/g, ' ');
+}
+
+function markdownComparison(comparison: CourseComparison): string {
+    const header = comparison.courses.map(({ course }) => markdownCell(`${course.programme}, ${course.university}`));
+    return [
+        `| | ${header.join(' | ')} |`,
+        `| --- |${' --- |'.repeat(header.length)}`,
+        ...comparison.rows.map(row => {
+            const label = row.differs ? `**${row.label}**` : row.label;
+            return `| ${label} | ${row.values.map(value => markdownCell(value.join('; '))).join(' | ')} |`;
+        }),
+    ].join('\n');
+}
+
+/** `compared` holds the model ranks of courses selected for side-by-side comparison. */
+export function toMarkdown(run: AnalysisRun, weights: ScoreWeights = DEFAULT_WEIGHTS, compared: number[] = []): string {
+    return withLocale('en', () => markdownDocument(run, weights, compared));
+}
+
+function markdownDocument(run: AnalysisRun, weights: ScoreWeights, compared: number[]): string {
+    const { result } = run;
+    const comparison = compareCourses(result.ranked_courses, compared, run.inputs.year, weights);
+    const sections: string[] = [
+        '# Chevening Course Matchmaker results',
+        parameterLines(run, weights).map(([label, value]) => `**${label}:** ${value}  `).join('\n'),
+    ];
+
+    if (run.issues.length > 0) {
+        sections.push(`> **Partial result:** the AI response had ${run.issues.length} schema issue(s); some sections may be incomplete.`);
+    }
+    if (result.profile.strengths.length > 0 || result.profile.gaps.length > 0) {
+        sections.push('## CV analysis', '### Strengths', markdownList(result.profile.strengths), '### Potential gaps', markdownList(result.profile.gaps));
+    }
+    if (result.chevening_trio.length > 0) {
+        sections.push('## Recommended Chevening trio', result.chevening_trio
+            .map((entry, index) => `${index + 1}. **${entry.programme}**, ${entry.university}: ${entry.why_this_trio}`)
+            .join('\n'));
+    }
+    const ownTrio = editedTrio(run);
+    if (ownTrio) {
+        sections.push('## Your Chevening trio', ownTrio
+            .map(({ course }, index) => `${index + 1}. **${course.programme}**, ${course.university}${linkSuffix(course.url)}`)
+            .join('\n') || '_No courses chosen._');
+    }
+    if (result.ranked_courses.length > 0) {
+        sections.push('## Ranked courses');
+        rankCourses(result.ranked_courses, weights).forEach(({ course, total }) => {
+            const report = checkEligibility(course, run.inputs.year);
+            const details = [
+                `- **City:** ${course.city || '—'}`,
+                `- **Start:** ${course.start_cycle}`,
+                `- **Duration:** ${course.duration_months ?? '?'} months`,
+                `- **Fee:** ${course.fee_gbp}`,
+                `- **Eligibility:** ${ELIGIBILITY_LABELS[report.status]}${report.disagreesWithModel ? ' (disagrees with the AI verdict)' : ''}`,
+            ];
+            if (total !== null) details.push(`- **Score:** ${total.toFixed(1)} / ${MAX_TOTAL_SCORE}`);
+            if (course.catalogue) details.push(`- **Course index:** ${course.catalogue.status === 'verified' ? 'verified' : 'not found'} (v${course.catalogue.catalogue_version})`);
+            if (isMba(course.programme)) details.push(`- **MBA fee cap:** Chevening covers up to £${MBA_FEE_CAP_GBP.toLocaleString('en-GB')}.`);
+            details.push(`- **Expected out-of-pocket:** ${describeGap(estimateCosts(course))} (estimate)`);
+            const url = safeUrl(course.url);
+            if (url) details.push(`- **Link:** ${url}`);
+            sections.push(
+                `### ${course.rank}. ${course.programme}, ${course.university}`,
+                details.join('\n'),
+                course.chevening_rationale.length > 0 ? `**Chevening rationale**\n\n${markdownList(course.chevening_rationale)}` : '',
+            );
+        });
+    }
+    if (comparison) {
+        sections.push('## Course comparison', markdownComparison(comparison), '_Rows in bold differ between the compared courses._');
+    }
+    const bullets = result.personal_statement_bullets;
+    const bulletSections: [string, string[]][] = [
+        ['Leadership', bullets.leadership],
+        ['Networking', bullets.networking],
+        ['Career plan', bullets.career_plan],
+    ];
+    if (bulletSections.some(([, items]) => items.length > 0)) {
+        sections.push('## Personal statement talking points');
+        bulletSections.filter(([, items]) => items.length > 0)
+            .forEach(([heading, items]) => sections.push(`### ${heading}`, markdownList(items)));
+    }
+    if (result.alternatives.length > 0) {
+        sections.push('## Alternative options', markdownList(result.alternatives
+            .map(alt => `**${alt.programme}**, ${alt.university}: ${alt.why_consider}${linkSuffix(alt.url)}`)));
+    }
+    if (result.notes.length > 0) {
+        sections.push('## Notes', markdownList(result.notes));
+    }
+    return `${sections.filter(Boolean).join('\n\n')}\n`;
+}
+
+// --- JSON ---
+
+export function toJson(run: AnalysisRun, weights: ScoreWeights = DEFAULT_WEIGHTS, compared: number[] = []): string {
+    return JSON.stringify({
+        meta: {
+            exportedAt: new Date().toISOString(),
+            generatedAt: run.generatedAt,
+            provider: run.provider,
+            model: run.model,
+            promptVersion: run.promptVersion ?? null,
+            inputs: run.inputs,
+            scoreWeights: weights,
+            comparedRanks: compareCourses(run.result.ranked_courses, compared, run.inputs.year, weights)?.courses.map(({ course }) => course.rank) ?? [],
+            issues: withLocale('en', () => run.issues.map(tMessage)),
+        },
+        result: run.result,
+        trio: editedTrio(run)?.map(({ course }) => ({ university: course.university, programme: course.programme, url: course.url })) ?? null,
+    }, null, 2);
+}
+
+// --- Print / PDF ---
+
+function htmlList(items: string[]): SafeHtml {
+    return html`<ul>${items.map(item => html`<li>${item}</li>`)}</ul>`;
+}
+
+function htmlComparison(comparison: CourseComparison): SafeHtml {
+    return html`
+      <table class="print-comparison">
+        <thead><tr><th></th>${comparison.courses.map(({ course }) => html`<th>${course.programme}, ${course.university}</th>`)}</tr></thead>
+        <tbody>
+          ${comparison.rows.map(row => html`
+            <tr class="${row.differs ? 'comparison-diff' : ''}">
+              <th scope="row">${row.label}</th>
+              ${row.values.map(value => html`<td>${value.length > 1 ? htmlList(value) : value[0]}</td>`)}
+            </tr>
+          `)}
+        </tbody>
+      </table>
+    `;
+}
+
+/** A print-only document; the browser's "Save as PDF" turns it into the PDF export. */
+export function toPrintHtml(run: AnalysisRun, weights: ScoreWeights = DEFAULT_WEIGHTS, compared: number[] = []): SafeHtml {
+    return withLocale('en', () => printDocument(run, weights, compared));
+}
+
+function printDocument(run: AnalysisRun, weights: ScoreWeights, compared: number[]): SafeHtml {
+    const { result } = run;
+    const ownTrio = editedTrio(run);
+    const comparison = compareCourses(result.ranked_courses, compared, run.inputs.year, weights);
+    const bullets = result.personal_statement_bullets;
+    return html`
+      <article class="print-document" lang="en" dir="ltr">
+        <h1>Chevening Course Matchmaker results</h1>
+        <dl class="print-parameters">
+          ${parameterLines(run, weights).map(([label, value]) => html`<dt>${label}</dt><dd>${value}</dd>`)}
+        </dl>
+        ${run.issues.length > 0 ? html`<p class="print-note">Partial result: the AI response had ${run.issues.length} schema issue(s).</p>` : ''}
+        <h2>CV analysis</h2>
+        <h3>Strengths</h3>${htmlList(result.profile.strengths)}
+        <h3>Potential gaps</h3>${htmlList(result.profile.gaps)}
+        <h2>Recommended Chevening trio</h2>
+        <ol>${result.chevening_trio.map(entry => html`
+          <li><strong>${entry.programme}</strong>, ${entry.university}: ${entry.why_this_trio}</li>
+        `)}</ol>
+        ${ownTrio ? html`
+        <h2>Your Chevening trio</h2>
+        <ol>${ownTrio.map(({ course }) => html`<li><strong>${course.programme}</strong>, ${course.university}${linkSuffix(course.url)}</li>`)}</ol>
+        ` : ''}
+        <h2>Ranked courses</h2>
+        ${rankCourses(result.ranked_courses, weights).map(({ course, total }) => {
+            const report = checkEligibility(course, run.inputs.year);
+            const url = safeUrl(course.url);
+            return html`
+              <section class="print-course">
+                <h3>${course.rank}. ${course.programme}, ${course.university}</h3>
+                <p>${course.city} · ${course.start_cycle} · ${course.duration_months ?? '?'} months · ${course.fee_gbp}</p>
+                <p>Expected out-of-pocket: ${describeGap(estimateCosts(course))} (estimate)</p>
+                <p>Eligibility: ${ELIGIBILITY_LABELS[report.status]}${total !== null ? ` · Score ${total.toFixed(1)} / ${MAX_TOTAL_SCORE}` : ''}${course.catalogue ? ` · ${course.catalogue.status === 'verified' ? 'Verified in index' : 'Not found in index'}` : ''}</p>
+                ${htmlList(course.chevening_rationale)}
+                ${url ? html`<p class="print-url">${url}</p>` : ''}
+              </section>
+            `;
+        })}
+        ${comparison ? html`<h2>Course comparison</h2>${htmlComparison(comparison)}` : ''}
+        <h2>Personal statement talking points</h2>
+        <h3>Leadership</h3>${htmlList(bullets.leadership)}
+        <h3>Networking</h3>${htmlList(bullets.networking)}
+        <h3>Career plan</h3>${htmlList(bullets.career_plan)}
+        <h2>Alternative options</h2>
+        ${htmlList(result.alternatives.map(alt => `${alt.programme}, ${alt.university}: ${alt.why_consider}${linkSuffix(alt.url)}`))}
+        ${result.notes.length > 0 ? html`<h2>Notes</h2>${htmlList(result.notes)}` : ''}
+      </article>
+    `;
+}
+
+// --- Cohort CSV ---
+
+const COHORT_COLUMNS = [
+    'Candidate', 'CV file', 'Target fields', 'Preferred UK locations', 'Start year', 'Status',
+    'Choice 1', 'Choice 2', 'Choice 3', 'Eligibility issues', 'Top gaps', 'Error',
+];
+
+/** Quotes when needed, and defuses values a spreadsheet would run as a formula. */
+function csvCell(value: string): string {
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function cohortFileName(date: Date = new Date()): string {
+    return `chevening-cohort-${date.toISOString().slice(0, 10)}.csv`;
+}
+
+/** One row per candidate in the batch, in the order they were added. */
+export function toCohortCsv(candidates: BatchCandidate[]): string {
+    const rows = candidates.map(candidate => {
+        const summary = candidate.run ? summariseCandidate(candidate.run, candidate.experience) : null;
+        const choices = Array.from({ length: 3 }, (_, index) => {
+            const pick = summary?.trio[index];
+            return pick ? `${pick.programme}, ${pick.university} (${ELIGIBILITY_LABELS[pick.eligibility].toLowerCase()})` : '';
+        });
+        return [
+            candidate.name,
+            candidate.fileName,
+            candidate.inputs.fields,
+            candidate.inputs.locations,
+            String(candidate.inputs.year),
+            candidate.status ?? 'not run',
+            ...choices,
+            withLocale('en', () => summary?.issues.map(tMessage).join('; ')) ?? '',
+            summary?.gaps.join('; ') ?? '',
+            candidate.error?.kind.replace(/_/g, ' ') ?? '',
+        ];
+    });
+    // CRLF line endings, as RFC 4180 and Excel expect.
+    return [COHORT_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Chevening covers MBA tuition only up to this amount; the scholar funds the rest.
+export const MBA_FEE_CAP_GBP = 22000;
+
+export function isMba(programme: string | undefined): boolean {
+    return !!programme && /\bmba\b/i.test(programme);
+}
+
+/**
+ * Reads a tuition fee out of the model's free-text `fee_gbp` field.
+ * Returns null when no amount is stated, e.g. "Verify on university site".
+ * Ranges such as "£21,000–£24,500" resolve to the upper bound.
+ */
+export function parseFeeGbp(fee: string | undefined): number | null {
+    if (!fee) return null;
+    const amounts = [...fee.matchAll(/(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(k\b)?/gi)]
+        // Skip bare years such as "2025/26"; fees are written with separators or a "k".
+        .filter(([, digits, thousands]) => thousands || !/^(19|20)\d\d$/.test(digits))
+        .map(([, digits, thousands]) => {
+            const value = parseFloat(digits.replace(/,/g, ''));
+            return thousands ? value * 1000 : value;
+        })
+        .filter(value => value >= 1000);
+    if (amounts.length === 0) return null;
+    return Math.max(...amounts);
+}
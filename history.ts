@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Message } from './i18n';
+import type { PromptInputs } from './prompt';
+import type { AnalysisResult } from './types';
+
+// --- Saved Analyses (IndexedDB) ---
+// Every completed run is stored in this browser so it can be reopened,
+// renamed or compared later without another API call. The CV itself is only
+// stored when the user opts in; otherwise we keep its name and hash.
+
+export interface SavedCv {
+    fileName: string;
+    mimeType: string;
+    size: number;
+    /** Hex SHA-256 of the file, to recognise re-uploads of the same CV. */
+    sha256: string;
+    /** Base64 file content; present only if the user chose to save their CV. */
+    content?: string;
+}
+
+export interface SavedRun {
+    id: string;
+    name: string;
+    /** ISO timestamp of when the analysis finished. */
+    createdAt: string;
+    inputs: PromptInputs;
+    cv: SavedCv;
+    provider: string;
+    model: string;
+    /** Absent on runs saved before prompts were versioned. */
+    promptVersion?: string;
+    result: AnalysisResult;
+    /** English text on runs saved before issues were translated. */
+    issues: (Message | string)[];
+    /** The user's own trio, as on `AnalysisRun`. */
+    trio?: string[];
+}
+
+const DB_NAME = 'chevening-matchmaker';
+const DB_VERSION = 1;
+const RUNS_STORE = 'runs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+                store.createIndex('createdAt', 'createdAt');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry, e.g. after the user leaves private browsing.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    return promisify(action(db.transaction(RUNS_STORE, mode).objectStore(RUNS_STORE)));
+}
+
+export async function hashFile(file: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function defaultRunName(inputs: PromptInputs): string {
+    const fields = inputs.fields.trim() || 'Untitled analysis';
+    return `${fields} · ${inputs.year}`;
+}
+
+export async function saveRun(run: Omit<SavedRun, 'id'>): Promise<SavedRun> {
+    const saved: SavedRun = { ...run, id: crypto.randomUUID() };
+    await withStore('readwrite', store => store.put(saved));
+    return saved;
+}
+
+/** All saved runs, newest first. */
+export async function listRuns(): Promise<SavedRun[]> {
+    const runs = await withStore<SavedRun[]>('readonly', store => store.index('createdAt').getAll());
+    return runs.reverse();
+}
+
+export async function getRun(id: string): Promise<SavedRun | undefined> {
+    return withStore<SavedRun | undefined>('readonly', store => store.get(id));
+}
+
+export async function renameRun(id: string, name: string): Promise<void> {
+    const run = await getRun(id);
+    if (!run) throw new Error('This saved analysis no longer exists.');
+    await withStore('readwrite', store => store.put({ ...run, name: name.trim() || run.name }));
+}
+
+export async function saveRunTrio(id: string, trio: string[] | undefined): Promise<void> {
+    const run = await getRun(id);
+    if (!run) throw new Error('This saved analysis no longer exists.');
+    await withStore('readwrite', store => store.put({ ...run, trio }));
+}
+
+export async function deleteRun(id: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+}
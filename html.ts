@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- HTML Helpers ---
+// Renderers build markup with the `html` tag, which escapes every interpolated
+// value and checks URLs in href/src attributes, then hand the result to
+// `setHtml`/`appendHtml` to turn it into DOM nodes. Model output and user input
+// therefore can never add elements, attributes or script.
+
+/** Escapes text for use in element content and quoted attribute values. */
+export function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char] as string));
+}
+
+const ALLOWED_URL_PROTOCOLS = ['http:', 'https:'];
+
+/** The URL if it is an absolute http(s) link, otherwise null. */
+export function safeUrl(url: string | null | undefined): string | null {
+    if (!url) return null;
+    try {
+        const parsed = new URL(url.trim());
+        return ALLOWED_URL_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+    } catch {
+        return null;
+    }
+}
+
+// Substituted for links that fail `safeUrl`; inert when clicked.
+const BLOCKED_URL = 'about:blank';
+
+const SAFE_HTML = Symbol('safeHtml');
+
+/** Markup produced by the `html` tag. Only this module can create one. */
+export interface SafeHtml {
+    readonly [SAFE_HTML]: string;
+}
+
+/** Anything a renderer may interpolate; arrays are concatenated and null, undefined and booleans render nothing. */
+export type HtmlValue = SafeHtml | string | number | boolean | null | undefined | HtmlValue[];
+
+function isSafeHtml(value: unknown): value is SafeHtml {
+    return typeof value === 'object' && value !== null && SAFE_HTML in value;
+}
+
+function toMarkup(value: HtmlValue): string {
+    if (Array.isArray(value)) return value.map(toMarkup).join('');
+    if (isSafeHtml(value)) return value[SAFE_HTML];
+    if (value === null || value === undefined || typeof value === 'boolean') return '';
+    return escapeHtml(String(value));
+}
+
+// The literal text before an interpolation tells which attribute, if any, it lands in.
+const URL_ATTRIBUTE = /\s(?:href|src|action|formaction)=["']?$/i;
+const EVENT_ATTRIBUTE = /\son[a-z]+=["']?$/i;
+
+/** Template tag that escapes each interpolated value for its context. */
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+    let markup = strings[0];
+    values.forEach((value, index) => {
+        if (EVENT_ATTRIBUTE.test(markup)) {
+            throw new Error('Interpolating into an event handler attribute is not allowed.');
+        }
+        if (URL_ATTRIBUTE.test(markup)) {
+            const url = typeof value === 'string' ? safeUrl(value) : null;
+            markup += escapeHtml(url ?? BLOCKED_URL);
+        } else {
+            markup += toMarkup(value);
+        }
+        markup += strings[index + 1];
+    });
+    return { [SAFE_HTML]: markup };
+}
+
+export function toFragment(content: SafeHtml): DocumentFragment {
+    const template = document.createElement('template');
+    template.innerHTML = content[SAFE_HTML];
+    return template.content;
+}
+
+/** Replaces the container's children with the rendered content. */
+export function setHtml(container: Element, content: SafeHtml) {
+    container.replaceChildren(toFragment(content));
+}
+
+/** Adds the rendered content after the container's children, leaving them and their listeners intact. */
+export function appendHtml(container: Element, content: SafeHtml) {
+    container.append(toFragment(content));
+}
+
+export function prependHtml(container: Element, content: SafeHtml) {
+    container.prepend(toFragment(content));
+}
@@ -0,0 +1,496 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { MessageKey } from './en';
+
+// --- Arabic Messages ---
+// Plural messages use a counted-noun phrasing ("عدد الدورات: 5") in `.other`,
+// which reads correctly for every Arabic plural category.
+
+export const ar: Partial<Record<MessageKey, string>> = {
+    'app.title': 'Chevening Course Matchmaker',
+    'app.tagline': 'اعثر على برنامج الماجستير البريطاني المؤهل لمنحة تشيفنينغ الأنسب لك استنادًا إلى سيرتك الذاتية.',
+    'language.label': 'اللغة',
+    'footer.rights': 'جميع الحقوق محفوظة.',
+
+    'deadline.label': 'المحطة التالية في تشيفنينغ',
+    'deadline.verify': '(تحقق من التاريخ الرسمي)',
+    'deadline.none.label': 'دورة التقديم لمنحة تشيفنينغ',
+    'deadline.none.text': 'لم تُحدَّد أي مواعيد قادمة بعد.',
+    'deadline.upcoming': '{milestone} ({cycle}) بعد',
+    'deadline.upcomingProvisional': '{milestone} ({cycle}، مبدئي) بعد',
+    'deadline.ending': '{milestone} ({cycle}) ينتهي بعد',
+    'deadline.endingProvisional': '{milestone} ({cycle}، مبدئي) ينتهي بعد',
+    'milestone.applications_open': 'فتح باب التقديم',
+    'milestone.application_deadline': 'الموعد النهائي للتقديم',
+    'milestone.references_deadline': 'الموعد النهائي للتوصيات',
+    'milestone.interviews': 'المقابلات',
+    'milestone.offer_deadline': 'الموعد النهائي للقبول غير المشروط',
+    'milestone.course_start': 'بدء الدراسة',
+    'timeline.title': 'دورة تشيفنينغ {cycle} (برامج تبدأ في {year})',
+    'timeline.unpublished': 'دورة تشيفنينغ للبرامج التي تبدأ في {year}',
+    'timeline.now': 'الآن',
+    'timeline.next': 'التالي',
+    'timeline.provisional': 'مواعيد مبدئية مبنية على الدورات السابقة. تحقق منها في الجدول الزمني الرسمي لتشيفنينغ.',
+
+    'form.cv.label': 'ارفع سيرتك الذاتية',
+    'form.cv.choose': 'انقر لاختيار ملف',
+    'form.cv.change': 'تغيير الملف',
+    'form.cv.selected': 'الملف المختار: {fileName}',
+    'form.cv.formats': 'الصيغ المدعومة: PDF وDOCX',
+    'form.cv.privacy': 'تُقرأ سيرتك الذاتية أولًا في متصفحك لتتمكن من مراجعتها. لا يُرسل الملف للتحليل إلا عند البحث، ولا يُحفظ ما لم تختر حفظه أدناه. تبقى التحليلات المحفوظة في هذا المتصفح.',
+    'form.fields.label': 'المجالات المستهدفة (مفصولة بفواصل)',
+    'form.fields.placeholder': 'مثال: الإعلام الرقمي، سياسات الصناعات الإبداعية',
+    'form.fields.aria': 'المجالات المستهدفة',
+    'form.locations.label': 'المواقع المفضلة في المملكة المتحدة (اختياري)',
+    'form.locations.placeholder': 'مثال: London، Midlands، Scotland',
+    'form.locations.aria': 'المواقع المفضلة في المملكة المتحدة',
+    'form.impact.label': 'أثر دراستك على بلدك في جملة واحدة',
+    'form.impact.placeholder': 'كيف ستخدم دراستك بلدك',
+    'form.year.label': 'سنة البدء المستهدفة',
+    'form.saveCv': 'احتفظ بنسخة من سيرتي الذاتية مع هذا التحليل (في هذا المتصفح فقط)',
+    'form.modelLanguage': 'اكتب المبررات ونقاط الحديث باللغة {language} (تبقى أسماء البرامج بالإنجليزية)',
+    'form.submit': 'ابحث عن برامجي',
+    'form.pitfalls': 'عرض الأخطاء الشائعة',
+    'form.experienceConfirm': '{message}\n\nهل تريد البحث عن البرامج على أي حال؟',
+
+    'cv.heading': 'راجع ما قُرئ من سيرتك الذاتية',
+    'cv.help': 'قُرئت في متصفحك ولم يُرسل شيء بعد. صحّح أي خطأ، وستُرسل تصحيحاتك مع السيرة الذاتية.',
+    'cv.roles': 'الوظائف',
+    'cv.addRole': '+ إضافة وظيفة',
+    'cv.education': 'التعليم',
+    'cv.addEducation': '+ إضافة مؤهل',
+    'cv.leadership': 'القيادة والتأثير',
+    'cv.leadershipLabel': 'عناصر القيادة، عنصر في كل سطر',
+    'cv.leadershipPlaceholder': 'عنصر واحد في كل سطر',
+    'cv.showText': 'عرض النص المستخرج',
+    'cv.reading': 'جارٍ قراءة سيرتك الذاتية…',
+    'cv.read': 'عدد الكلمات المقروءة من ملف {format}: {words}.',
+    'cv.unreadable': 'تعذّرت قراءة هذا الملف في المتصفح، لذا لا يمكن مراجعة شيء قبل الإرسال. سيحاول الذكاء الاصطناعي قراءة الملف بنفسه.',
+    'cv.warning.scanned': 'لم يُعثر على نص يُذكر في ملف PDF هذا. قد يكون صورة ممسوحة ضوئيًا، لذا قد تكون التفاصيل أدناه ناقصة. سيقرأ الذكاء الاصطناعي الملف بنفسه على أي حال.',
+    'cv.warning.emptyDocx': 'لم يُعثر على أي نص في ملف DOCX هذا.',
+    'cv.noRoles': 'لم يُعثر على وظائف.',
+    'cv.noEducation': 'لم يُعثر على مؤهلات.',
+    'cv.jobTitle': 'المسمى الوظيفي',
+    'cv.organisation': 'الجهة',
+    'cv.startMonth': 'شهر البدء',
+    'cv.endMonth': 'شهر الانتهاء',
+    'cv.current': 'حالية',
+    'cv.removeRole': 'حذف الوظيفة',
+    'cv.qualification': 'المؤهل',
+    'cv.institution': 'المؤسسة',
+    'cv.year': 'السنة',
+    'cv.removeEducation': 'حذف المؤهل',
+    'cv.experience.unknown': 'لم يُعثر على وظائف مؤرخة. أضف وظائفك للتحقق من شرط الخبرة العملية لمدة سنتين.',
+    'cv.experience.pass': 'الخبرة العملية المكتشفة: {duration}؛ تشترط تشيفنينغ سنتين على الأقل.',
+    'cv.experience.fail': 'الخبرة العملية المكتشفة {duration} فقط؛ تشترط تشيفنينغ سنتين على الأقل (2800 ساعة) بحلول الموعد النهائي للتقديم. يمكن احتساب العمل بدوام جزئي والعمل التطوعي والتدريب، فأضف أي وظائف ناقصة.',
+    'cv.years.one': 'سنة واحدة',
+    'cv.years.other': '{count} سنوات',
+    'cv.months.one': 'شهر واحد',
+    'cv.months.other': '{count} أشهر',
+
+    'catalogue.summary': 'تصفح فهرس البرامج (يعمل دون اتصال)',
+    'catalogue.search': 'ابحث عن جامعة أو برنامج',
+    'catalogue.searchAria': 'البحث في فهرس البرامج',
+    'catalogue.city': 'المدينة',
+    'catalogue.cityAria': 'التصفية حسب المدينة',
+    'catalogue.awardAria': 'التصفية حسب الدرجة',
+    'catalogue.anyAward': 'أي درجة',
+    'catalogue.rulesOnly': 'يستوفي شروط تشيفنينغ',
+    'catalogue.mbaOnly': 'ماجستير إدارة الأعمال فقط',
+    'catalogue.meta': 'فهرس البرامج v{version} · عدد البرامج: {count} · {source}',
+    'catalogue.showing': 'عرض {shown} من أصل {count} برنامجًا',
+    'catalogue.count.one': 'برنامج واحد',
+    'catalogue.count.other': 'عدد البرامج: {count}',
+    'catalogue.feeUnknown': 'تحقق من موقع الجامعة',
+    'catalogue.coursePage': 'صفحة البرنامج ←',
+
+    'history.heading': 'التحليلات المحفوظة',
+    'history.help': 'تُحفظ النتائج السابقة في هذا المتصفح لتتمكن من فتحها مجددًا دون تحليل جديد.',
+    'history.compareSelected': 'مقارنة المحدد',
+    'history.selectTwo': 'اختر تحليلين للمقارنة ({selected}/2)',
+    'history.selectForComparison': 'تحديد للمقارنة',
+    'history.courses.one': 'برنامج واحد',
+    'history.courses.other': 'عدد البرامج: {count}',
+    'history.open': 'فتح',
+    'history.rename': 'إعادة تسمية',
+    'history.delete': 'حذف',
+    'history.nameLabel': 'اسم التحليل',
+    'history.confirmDelete': 'هل تريد حذف «{name}»؟ لا يمكن التراجع عن ذلك.',
+    'history.openFailed': 'تعذّر فتح التحليل المحفوظ. قد تكون مساحة التخزين في هذا المتصفح ممتلئة أو محظورة.',
+    'history.renameFailed': 'تعذّرت إعادة تسمية التحليل. قد تكون مساحة التخزين في هذا المتصفح ممتلئة أو محظورة.',
+    'history.deleteFailed': 'تعذّر حذف «{name}». قد تكون مساحة التخزين في هذا المتصفح ممتلئة أو محظورة.',
+    'history.saveFailed': 'تعذّرت إضافة هذا التحليل إلى التحليلات المحفوظة. قد تكون مساحة التخزين في هذا المتصفح ممتلئة أو محظورة.',
+    'history.trioFailed': 'تعذّر حفظ اختياراتك الثلاثة مع التحليل. قد تكون مساحة التخزين في هذا المتصفح ممتلئة أو محظورة.',
+    'history.compareHeading': 'مقارنة التحليلات المحفوظة',
+    'history.compareHelp': 'العناصر المميزة تظهر في أحد التحليلين فقط.',
+    'history.row.date': 'التاريخ',
+    'history.row.fields': 'المجالات المستهدفة',
+    'history.row.locations': 'المواقع',
+    'history.row.year': 'سنة البدء',
+    'history.row.cv': 'السيرة الذاتية',
+    'history.row.model': 'النموذج',
+    'history.row.prompt': 'إصدار الموجّه',
+    'history.row.trio': 'الخيارات الثلاثة',
+    'history.row.ranked': 'البرامج المرتبة',
+    'history.closeComparison': 'إغلاق المقارنة',
+
+    'progress.preparing': 'جارٍ تجهيز سيرتك الذاتية…',
+    'progress.waiting': 'بانتظار بدء استجابة الذكاء الاصطناعي…',
+    'progress.profile': 'جارٍ تحليل سيرتك الذاتية وفق معايير تشيفنينغ…',
+    'progress.trio': 'جارٍ اختيار خياراتك الثلاثة لتشيفنينغ…',
+    'progress.bullets': 'جارٍ كتابة نقاط الحديث للمقالات…',
+    'progress.alternatives': 'جارٍ إضافة برامج بديلة…',
+    'progress.notes': 'جارٍ إضافة الملاحظات الأخيرة…',
+    'progress.ranking': 'جارٍ ترتيب البرامج: عدد ما وُجد حتى الآن {count}…',
+    'progress.receiving': 'جارٍ استلام النتائج…',
+    'progress.retrying': 'فشل طلب الذكاء الاصطناعي؛ إعادة المحاولة بعد {seconds} ث (المحاولة {attempt} من {max})…',
+    'progress.cancel': 'إلغاء',
+
+    'error.attempts': 'عدد المحاولات قبل التوقف: {attempts}.',
+    'error.retry': 'حاول مجددًا',
+    'error.showDiagnostics': 'عرض التشخيص',
+    'error.noFile': 'لم يُختر ملف سيرة ذاتية.',
+    'error.fileType': 'نوع الملف غير صالح. يُرجى رفع ملف PDF أو DOCX.',
+    'error.invalidFile.title': 'ملف سيرة ذاتية غير مدعوم',
+    'error.invalidFile.guidance': 'ارفع سيرتك الذاتية بصيغة PDF أو DOCX. إذا كانت بصيغة أخرى، فصدّرها أو احفظها بصيغة PDF أولًا.',
+    'error.network.title': 'تعذّر الوصول إلى خدمة الذكاء الاصطناعي',
+    'error.network.message': 'فشل الطلب قبل وصول أي استجابة.',
+    'error.network.guidance': 'تحقق من اتصالك بالإنترنت ثم حاول مجددًا. قد تحجب الشبكات الافتراضية الخاصة وجدران الحماية في أماكن العمل خدمة الذكاء الاصطناعي.',
+    'error.rateLimit.title': 'خدمة الذكاء الاصطناعي مشغولة',
+    'error.rateLimit.message': 'رُفض الطلب لبلوغ حصة الاستخدام أو حد المعدل (HTTP 429).',
+    'error.rateLimit.guidance': 'انتظر دقيقة ثم حاول مجددًا. إذا تكرر ذلك، فالأرجح أن مفتاح API استنفد حصته اليومية.',
+    'error.auth.title': 'رفضت خدمة الذكاء الاصطناعي مفتاح API',
+    'error.auth.message': 'مفتاح API مفقود أو غير صالح أو غير مسموح له باستخدام هذا النموذج.',
+    'error.auth.guidance': 'إذا كنت المطوّر، فتحقق من GEMINI_API_KEY وGEMINI_MODEL في ملف .env.local. وإلا فتواصل مع من شارك هذا التطبيق.',
+    'error.server.title': 'واجهت خدمة الذكاء الاصطناعي مشكلة',
+    'error.server.message': 'أعادت خدمة الذكاء الاصطناعي الرمز HTTP {status}.',
+    'error.server.guidance': 'هذا مؤقت عادةً. حاول مجددًا بعد بضع دقائق.',
+    'error.safety.title': 'امتنع الذكاء الاصطناعي عن الإجابة',
+    'error.safety.message': 'حُجبت الاستجابة ({reason}).',
+    'error.safety.guidance': 'قد يحدث هذا عندما تحتوي السيرة الذاتية على بيانات شخصية مثل أرقام الهوية، أو نص يعترض عليه النموذج. احذفها من السيرة الذاتية، أو أعد صياغة مجالاتك المستهدفة وجملة الأثر، ثم حاول مجددًا.',
+    'error.emptyResponse.title': 'لم يُعِد الذكاء الاصطناعي شيئًا',
+    'error.emptyResponse.message': 'لم تحتوِ الاستجابة على أي نص.',
+    'error.emptyResponse.guidance': 'حاول مجددًا. إذا تكرر ذلك، فجرّب سيرة ذاتية أقصر أو مجالات مستهدفة أقل.',
+    'error.invalidJson.title': 'استجابة الذكاء الاصطناعي مشوّهة',
+    'error.invalidJson.truncated': 'انقطعت الاستجابة قبل اكتمالها.',
+    'error.invalidJson.message': 'الاستجابة ليست JSON صالحًا.',
+    'error.invalidJson.guidance': 'حاول مجددًا. تقليل المجالات أو المواقع يجعل الاستجابة أقصر وأقل عرضة للانقطاع.',
+    'error.emptyResult.title': 'لا توجد نتائج قابلة للاستخدام',
+    'error.emptyResult.message': 'لم تتضمن استجابة الذكاء الاصطناعي أي نتائج قابلة للاستخدام.',
+    'error.emptyResult.guidance': 'وسّع مجالاتك المستهدفة أو المواقع، ثم ابحث مجددًا.',
+    'error.unknown.title': 'حدث خطأ ما',
+    'error.unknown.message': 'حدث خطأ غير معروف.',
+    'error.unknown.guidance': 'حاول مجددًا. إذا استمر الفشل، فانسخ التشخيص أدناه في بلاغ عن الخطأ.',
+    'error.config.title': 'خطأ في إعداد التطبيق',
+    'error.config.message': 'هذا التطبيق غير مُعدّ للاتصال بخدمة الذكاء الاصطناعي لعدم توفير مفتاح API. إذا كنت مستخدمًا، فتواصل مع من شارك التطبيق معك. وإذا كنت المطوّر، فتأكد من ضبط مفتاح API في بيئتك، أو اضبط AI_PROVIDER=mock للتشغيل ببيانات تجريبية.',
+
+    'diagnostics.help': 'المحاولات الفاشلة للوصول إلى الذكاء الاصطناعي في هذه الجلسة. انسخها في بلاغ عن الخطأ؛ فهي لا تحتوي على شيء من سيرتك الذاتية.',
+    'diagnostics.copy': 'نسخ التقرير',
+    'diagnostics.clear': 'مسح',
+    'diagnostics.summary.one': 'التشخيص (محاولة فاشلة واحدة في هذه الجلسة)',
+    'diagnostics.summary.other': 'التشخيص (عدد المحاولات الفاشلة في هذه الجلسة: {count})',
+    'diagnostics.copied': 'تم النسخ. الصقه في بلاغ الخطأ.',
+    'diagnostics.copyFailed': 'تعذّر النسخ؛ حدّد الإدخالات أعلاه بدلًا من ذلك.',
+
+    'results.export': 'تصدير النتائج',
+    'results.exportLabel': 'تصدير:',
+    'results.exportPdf': 'PDF / طباعة',
+    'results.exportMarkdown': 'Markdown',
+    'results.exportCopy': 'نسخ Markdown',
+    'results.exportJson': 'JSON',
+    'results.copied': 'تم النسخ إلى الحافظة.',
+    'results.copyFailed': 'تعذّر النسخ؛ نزّل ملف Markdown بدلًا من ذلك.',
+    'results.partialTitle': 'نتيجة جزئية:',
+    'results.partialBody': 'كانت استجابة الذكاء الاصطناعي غير مكتملة، لذا قد تكون بعض الأقسام ناقصة أو مختصرة. كل ما يظهر أدناه اجتاز التحقق.',
+    'results.showIssues.one': 'عرض مشكلة واحدة',
+    'results.showIssues.other': 'عرض المشكلات ({count})',
+    'results.repaired': 'كانت الاستجابة مشوّهة واحتاجت إلى إصلاح؛ قد تكون بعض الأقسام ناقصة.',
+    'validation.notJson': 'الاستجابة ليست كائن JSON.',
+    'validation.missing': '{path} مفقود.',
+    'validation.notObject': '{path} ليس كائنًا.',
+    'validation.notObjectSkipped': '{path} ليس كائنًا وتم تخطيه.',
+    'validation.invalidItems.one': 'يحتوي {path} على عنصر واحد غير صالح.',
+    'validation.invalidItems.other': 'يحتوي {path} على {count} عناصر غير صالحة.',
+    'validation.noIdentity': 'لا يحتوي {path} على جامعة أو برنامج وتم تخطيه.',
+    'validation.noVerdict': 'لا يحتوي {path} على حكم is_eligible.',
+    'validation.noScores': 'لا يحتوي {path} على درجات فرعية.',
+    'validation.missingScores': 'ينقص {path} {criteria}؛ احتُسبت الدرجة 0.',
+    'validation.duplicateRank': 'يكرر {programme} الترتيب {rank}؛ نُقل إلى الترتيب {newRank}.',
+    'validation.badRating': '{path} ليس من بين {ratings}؛ عومل على أنه adequate.',
+    'validation.noFeedback': 'لا توجد ملاحظات على: {criteria}.',
+    'results.savedRun': 'يُعرض التحليل المحفوظ {name} بتاريخ {date}. أعد رفع {fileName} لتشغيله مجددًا.',
+    'results.profile': 'تحليل السيرة الذاتية وفق معايير تشيفنينغ',
+    'results.strengths': 'نقاط القوة',
+    'results.gaps': 'الثغرات المحتملة',
+    'results.trio': 'خياراتك الثلاثة الموصى بها لتشيفنينغ',
+    'results.noteLabel': 'ملاحظة:',
+    'results.sameUniversity': 'الخيارات الثلاثة كلها من الجامعة نفسها. هذا مسموح، لكن تشيفنينغ توصي غالبًا بتنويع الخيارات لتوزيع المخاطر.',
+    'results.mbaLabel': 'سقف رسوم ماجستير إدارة الأعمال:',
+    'results.mbaWarning': 'تحدد تشيفنينغ سقفًا لرسوم ماجستير إدارة الأعمال قدره {cap}. عليك تمويل أي فرق.',
+    'results.ranked': 'البرامج الأعلى ترتيبًا',
+    'results.rankedPreview': 'البرامج المرتبة',
+    'results.soFar': '(حتى الآن: {count})',
+    'results.aiRank': 'ترتيب الذكاء الاصطناعي #{rank}',
+    'results.months': '{months} شهرًا',
+    'results.feeNA': 'غير متاح',
+    'results.whyRank': 'لماذا هذا الترتيب؟',
+    'results.rationale': 'مبررات تشيفنينغ:',
+    'results.coursePage': 'زيارة صفحة البرنامج ←',
+    'results.alternatives': 'خيارات بديلة',
+    'results.notes': 'ملاحظات مهمة',
+    'results.talkingPoints': 'نقاط الحديث للبيان الشخصي',
+    'results.leadership': 'القيادة',
+    'results.networking': 'بناء العلاقات',
+    'results.careerPlan': 'الخطة المهنية',
+
+    'eligibility.eligible': 'مؤهل لتشيفنينغ ✅',
+    'eligibility.ineligible': 'غير مؤهل ❌',
+    'eligibility.unverified': 'الأهلية غير مؤكدة ⚠️',
+    'eligibility.checkLabel': 'راجع هذا البرنامج:',
+    'eligibility.disagreeEligible': 'صنّفه الذكاء الاصطناعي مؤهلًا، لكن فحص الشروط لدينا يقول: {status}.',
+    'eligibility.disagreeIneligible': 'صنّفه الذكاء الاصطناعي غير مؤهل، لكن فحص الشروط لدينا يقول: {status}.',
+    'eligibility.status.eligible': 'مؤهل',
+    'eligibility.status.ineligible': 'غير مؤهل',
+    'eligibility.status.unverified': 'غير مؤكد',
+    'eligibility.checks': 'فحوص الأهلية',
+    'eligibility.aiVerdict': 'حكم الذكاء الاصطناعي: {reason}',
+    'rule.fullTime': 'دوام كامل',
+    'rule.fullTime.pass': 'مُدرج بدوام كامل.',
+    'rule.fullTime.fail': 'نمط الدراسة: «{mode}».',
+    'rule.fullTime.unknown': 'نمط الدراسة غير مذكور.',
+    'rule.ukBased': 'داخل المملكة المتحدة',
+    'rule.ukBased.pass': 'يُدرَّس في {city}.',
+    'rule.ukBased.fail': 'يُقدَّم خارج المملكة المتحدة أو عن بُعد ({place}).',
+    'rule.ukBased.ukDomain': 'نطاق جامعة بريطانية، لكن المدينة غير مذكورة.',
+    'rule.ukBased.unconfirmed': 'تعذّر التأكد من أن «{city}» في المملكة المتحدة.',
+    'rule.ukBased.noCity': 'المدينة غير مذكورة.',
+    'rule.taught': 'ماجستير تدريسي',
+    'rule.taught.pass': '{award} درجة تدريسية.',
+    'rule.taught.research': '{award} درجة بحثية.',
+    'rule.taught.either': 'قد تكون {award} تدريسية أو بحثية؛ راجع صفحة البرنامج.',
+    'rule.taught.unknown': 'نوع الدرجة غير مذكور.',
+    'rule.autumnStart': 'يبدأ في سبتمبر/أكتوبر {year}',
+    'rule.autumnStart.pass': 'يبدأ: «{start}».',
+    'rule.autumnStart.unconfirmed': 'تاريخ البدء غير مؤكد.',
+    'rule.autumnStart.notAutumn': 'يبدأ: «{start}»، وليس في سبتمبر أو أكتوبر.',
+    'rule.autumnStart.unreadable': 'تعذّرت قراءة شهر البدء من «{start}».',
+    'rule.autumnStart.noYear': 'يبدأ في الخريف، لكن السنة غير مذكورة.',
+    'rule.autumnStart.wrongYear': 'يبدأ في {years}، وليس في {year}.',
+    'rule.duration': 'من {min} إلى {max} شهرًا',
+    'rule.duration.pass': '{months} شهرًا.',
+    'rule.duration.fail': 'مدة {months} شهرًا خارج الحد المسموح (من {min} إلى {max} شهرًا).',
+    'rule.duration.unknown': 'المدة غير مذكورة.',
+    'rule.mbaFeeCap': 'سقف رسوم ماجستير إدارة الأعمال',
+    'rule.mbaFeeCap.pass': 'الرسوم ضمن سقف ماجستير إدارة الأعمال.',
+    'rule.mbaFeeCap.notMba': 'ليس ماجستير إدارة أعمال.',
+    'rule.mbaFeeCap.unknown': 'رسوم ماجستير إدارة الأعمال غير مذكورة؛ تغطي تشيفنينغ حتى {cap}.',
+    'rule.mbaFeeCap.fail': 'تتجاوز الرسوم سقف {cap}؛ عليك تمويل {gap}.',
+
+    'index.notFound': 'غير موجود في الفهرس',
+    'index.notFoundTitle': 'غير موجود في فهرس البرامج v{version}. قد يكون مختلقًا أو خارج فهرس تشيفنينغ.',
+    'index.verified': 'تم التحقق في الفهرس ✓',
+    'index.verifiedTitle': 'مطابق في فهرس البرامج v{version}',
+    'index.filled': 'حُدّث من فهرس البرامج: {fields}.',
+    'index.field.duration_months': 'المدة',
+    'index.field.fee_gbp': 'الرسوم',
+    'index.field.study_mode': 'نمط الدراسة',
+    'index.field.award': 'الدرجة',
+    'index.field.city': 'المدينة',
+    'index.field.url': 'رابط البرنامج',
+    'index.field.start_cycle': 'تاريخ البدء',
+
+    'criterion.gap_fit': 'الملاءمة مع السيرة الذاتية',
+    'criterion.chevening_relevance': 'الصلة بتشيفنينغ',
+    'criterion.uk_linkage': 'الارتباط بالمملكة المتحدة والمصداقية',
+    'criterion.feasibility': 'قابلية التحقيق',
+    'criterion.portfolio': 'الحصيلة والمخرجات',
+    'criterion.networking': 'فرص بناء العلاقات',
+    'scoring.adjust': 'تعديل أوزان التقييم',
+    'scoring.help': 'أعد ترتيب البرامج حسب ما يهمك أكثر. تبقى المجاميع على مقياس من 0 إلى {max}.',
+    'scoring.weightAria': 'وزن {criterion}',
+    'scoring.reset': 'استعادة الإعدادات الافتراضية',
+    'scoring.breakdown': 'تفصيل الدرجة',
+    'scoring.total': 'الدرجة: {total}',
+    'scoring.points': '{points} نقطة',
+
+    'cost.summary': 'التكلفة المتوقعة على نفقتك:',
+    'cost.tuition': 'الرسوم الدراسية',
+    'cost.unknown': 'غير معروفة',
+    'cost.cheveningPays': 'تدفع تشيفنينغ',
+    'cost.fullFee': 'الرسوم كاملة (بسقف لماجستير إدارة الأعمال)',
+    'cost.living': 'تكاليف المعيشة ({months} شهرًا، {place})',
+    'cost.ukAverage': 'متوسط المملكة المتحدة',
+    'cost.stipend': 'مخصص تشيفنينغ',
+    'cost.youFund': 'على نفقتك',
+    'cost.footnote': 'تقديرات مبنية على تكاليف الطلاب ومعدلات المخصصات المعتادة لعام {year}؛ لا تشمل تذاكر الطيران ورسوم التأشيرة التي تغطيها تشيفنينغ أيضًا.',
+    'cost.atLeast': '{amount} على الأقل (رسوم ماجستير إدارة الأعمال غير معروفة)',
+    'cost.assumeMbaFee': 'رسوم ماجستير إدارة الأعمال غير معروفة؛ تغطي تشيفنينغ حتى {cap} وتدفع أنت الباقي.',
+    'cost.assumeDuration': 'المدة غير معروفة؛ افترضنا {months} شهرًا.',
+    'cost.assumeCity': 'لم يُتعرّف على المدينة؛ استُخدمت التكاليف المعتادة خارج لندن.',
+    'region.london': 'لندن',
+    'region.southEast': 'جنوب شرق إنجلترا',
+    'region.southWest': 'جنوب غرب إنجلترا',
+    'region.east': 'شرق إنجلترا',
+    'region.midlands': 'ميدلاندز',
+    'region.north': 'شمال إنجلترا',
+    'region.scotland': 'اسكتلندا',
+    'region.wales': 'ويلز',
+    'region.northernIreland': 'أيرلندا الشمالية',
+
+    'compare.toggle': 'مقارنة',
+    'compare.toolbar': 'مقارنة البرامج',
+    'compare.hint': 'حدّد من {min} إلى {max} برامج لمقارنتها جنبًا إلى جنب.',
+    'compare.selected': 'تم تحديد {count} من {max} برامج.',
+    'compare.open': 'مقارنة المحدد',
+    'compare.clear': 'مسح التحديد',
+    'compare.heading': 'مقارنة البرامج ({count})',
+    'compare.close': 'إغلاق المقارنة',
+    'compare.help': 'الصفوف المميزة تختلف بين البرامج. صدّر النتائج أو اطبعها لمشاركة هذه المقارنة.',
+    'compare.criterion': 'المعيار',
+    'compare.row.city': 'المدينة',
+    'compare.row.start': 'البدء',
+    'compare.row.duration': 'المدة',
+    'compare.row.fee': 'الرسوم',
+    'compare.row.eligibility': 'الأهلية',
+    'compare.row.mba': 'سقف رسوم ماجستير إدارة الأعمال',
+    'compare.row.cost_gap': 'على نفقتك (تقديري)',
+    'compare.row.score': 'الدرجة',
+    'compare.row.rationale': 'مبررات تشيفنينغ',
+    'compare.eligible': 'مؤهل',
+    'compare.ineligible': 'غير مؤهل',
+    'compare.unverified': 'غير مؤكد',
+    'compare.notMba': 'ليس ماجستير إدارة أعمال',
+    'compare.mbaFeeUnknown': 'الرسوم غير معروفة؛ تدفع تشيفنينغ حتى {cap}',
+    'compare.mbaAboveCap': 'تموّل {amount} فوق سقف {cap}',
+    'compare.mbaWithinCap': 'ضمن سقف {cap}',
+
+    'trio.heading': 'كوّن خياراتك الثلاثة بنفسك',
+    'trio.help': 'ابدأ من اقتراح الذكاء الاصطناعي، ثم أضف البرامج واحذفها واسحبها لترتيبها حسب أفضليتك.',
+    'trio.yourChoices': 'خياراتك',
+    'trio.available': 'البرامج المتاحة',
+    'trio.reset': 'العودة إلى اقتراح الذكاء الاصطناعي',
+    'trio.choice': 'الخيار {number}:',
+    'trio.emptySlot': 'أضف برنامجًا من القائمة',
+    'trio.youFund': 'على نفقتك {amount}',
+    'trio.passes': 'يستوفي شروط الأهلية',
+    'trio.fails': 'لا يستوفي شروط الأهلية',
+    'trio.unconfirmed': 'الأهلية غير مؤكدة',
+    'trio.moveUp': 'نقل للأعلى',
+    'trio.moveDown': 'نقل للأسفل',
+    'trio.remove': 'حذف',
+    'trio.rankedOrigin': 'المرتبة #{rank}',
+    'trio.alternativeOrigin': 'بديل',
+    'trio.cityUnknown': 'المدينة غير معروفة',
+    'trio.add': 'إضافة',
+    'trio.added': 'مُضاف',
+    'trio.costRange': 'من {low} إلى {high} بحسب العرض الذي تقبله',
+    'trio.unknownFees.one': 'رسوم أحد برامج ماجستير إدارة الأعمال غير معروفة، لذا لم يُحتسب فرقها.',
+    'trio.unknownFees.other': 'عدد برامج ماجستير إدارة الأعمال غير معروفة الرسوم: {count}، لذا لم تُحتسب فروقها.',
+    'trio.summaryHeading': 'خياراتك في طلب تشيفنينغ',
+    'trio.summaryHelp': 'أدخلها في نموذج تشيفنينغ بهذا الترتيب.',
+    'trio.copy': 'نسخ الخيارات',
+    'trio.copied': 'تم النسخ.',
+    'trio.copyFailed': 'تعذّر النسخ؛ حدّد النص بدلًا من ذلك.',
+    'trio.check.count': 'تم اختيار ثلاثة برامج.',
+    'trio.check.missing.one': 'اختر برنامجًا واحدًا آخر؛ يطلب نموذج تشيفنينغ ثلاثة برامج.',
+    'trio.check.missing.other': 'اختر {count} برامج أخرى؛ يطلب نموذج تشيفنينغ ثلاثة برامج.',
+    'trio.check.ineligible': 'غير مؤهلة: {courses}. استبدلها قبل التقديم.',
+    'trio.check.unverified': 'الأهلية غير مؤكدة لـ {courses}. تحقّق من موقع الجامعة.',
+    'trio.check.eligible': 'جميع الخيارات تستوفي شروط الأهلية.',
+    'trio.check.sameUniversity': 'أكثر من خيار في {universities}. هذا مسموح، لكن توزيع الخيارات على جامعات مختلفة يقلل خطر عدم الحصول على أي عرض.',
+    'trio.check.differentUniversities': 'كل خيار في جامعة مختلفة.',
+    'trio.check.sameRegion': 'البرامج الثلاثة كلها في {region}. فكّر في خيار في مكان آخر من المملكة المتحدة لتنويع التكاليف والعروض.',
+    'trio.check.spread': 'موزعة على {regions}.',
+    'trio.check.mbaFeeCap': 'سقف رسوم ماجستير إدارة الأعمال {cap}: {courses}.',
+    'trio.check.mbaFeeUnknown': '{programme} ({university}): الرسوم غير معروفة',
+    'trio.check.mbaTopUp': '{programme} ({university}): على نفقتك {amount}',
+    'trio.check.mixedFields': 'تمتد خياراتك عبر {fields}. تبحث لجان الاختيار عن خطة دراسية متماسكة؛ أبقِ خياراتك الثلاثة ضمن مجال أو مجالين مترابطين.',
+    'trio.check.oneField': 'مجال دراسة متسق: {fields}.',
+    'field.media': 'الإعلام والاتصال',
+    'field.policy': 'السياسات العامة والحوكمة',
+    'field.development': 'دراسات التنمية',
+    'field.business': 'الأعمال والإدارة',
+    'field.law': 'القانون',
+    'field.health': 'الصحة',
+    'field.data': 'البيانات والحوسبة',
+    'field.environment': 'البيئة والاستدامة',
+    'field.education': 'التعليم',
+    'field.engineering': 'الهندسة',
+
+    'essay.heading': 'مساحة كتابة البيان الشخصي',
+    'essay.help': 'اكتب مسودات مقالات تشيفنينغ الأربع هنا. لكل مقال حد أقصى {limit} كلمة. تُحفظ المسودات في هذا المتصفح أثناء الكتابة. تُكتب مقالات تشيفنينغ باللغة الإنجليزية.',
+    'essay.talkingPoints': 'نقاط الحديث',
+    'essay.insert': 'إدراج',
+    'essay.insertImpact': 'أدرج جملة أثر دراستك على بلدك',
+    'essay.draftLabel': 'مسودة {title}',
+    'essay.placeholder': 'اكتب مقال {title} هنا…',
+    'essay.review': 'مراجعة هذه المسودة',
+    'essay.reviewing': 'جارٍ المراجعة…',
+    'essay.words': '{words} / {limit} كلمة',
+    'essay.saved': 'تم الحفظ',
+    'essay.notSaved': 'لم يُحفظ: تخزين المتصفح غير متاح',
+    'essay.feedbackHeading': 'مراجعة المسودة',
+    'essay.rating.strong': 'قوي',
+    'essay.rating.adequate': 'مقبول',
+    'essay.rating.weak': 'ضعيف',
+    'essay.incomplete': 'وصلت المراجعة ناقصة (عدد المشكلات: {count})؛ قد تكون بعض المعايير مفقودة.',
+    'essay.failed': 'فشلت المراجعة. يُرجى المحاولة مجددًا.',
+
+    'batch.summary': 'وضع المستشار: تحليل عدة سير ذاتية',
+    'batch.help': 'أضف عدة سير ذاتية واملأ بيانات كل مرشح، أو استوردها من ملف CSV بالأعمدة file وname وfields وlocations وimpact وyear. تُطابَق صفوف الملف مع السير الذاتية حسب اسم الملف. تُكتب النتائج بالإنجليزية ولا تُحفظ.',
+    'batch.addCvs': 'إضافة سير ذاتية',
+    'batch.importManifest': 'استيراد ملف CSV',
+    'batch.empty': 'لا يوجد مرشحون بعد.',
+    'batch.manifestFailed': 'تعذّرت قراءة الملف {fileName}.',
+    'batch.noFileColumn': 'لم يُعثر على عمود الملف. المتوقع أحد الأعمدة: {columns}.',
+    'batch.rowNoFile': 'الصف {row}: لا يوجد اسم ملف للسيرة الذاتية، تم تخطيه.',
+    'batch.rowBadYear': 'الصف {row}: سنة البدء «{year}» غير مفهومة؛ تُستخدم السنة الافتراضية.',
+    'batch.unsupportedFile': '{fileName}: ليس ملف PDF أو DOCX، تم تخطيه.',
+    'batch.col.candidate': 'المرشح',
+    'batch.col.cv': 'ملف السيرة الذاتية',
+    'batch.col.fields': 'المجالات المستهدفة',
+    'batch.col.locations': 'المواقع',
+    'batch.col.impact': 'الأثر على البلد',
+    'batch.col.year': 'سنة البدء',
+    'batch.col.status': 'الحالة',
+    'batch.col.trio': 'ثلاثية تشيفنينغ',
+    'batch.col.issues': 'مشكلات الأهلية',
+    'batch.col.gaps': 'أبرز الثغرات',
+    'batch.remove': 'إزالة {name}',
+    'batch.missing': 'ناقص: {details}',
+    'batch.missing.file': 'ملف السيرة الذاتية',
+    'batch.missing.fields': 'المجالات المستهدفة',
+    'batch.missing.impact': 'الأثر على البلد',
+    'batch.ready': 'جاهز',
+    'batch.status.queued': 'في الانتظار',
+    'batch.status.running': 'جارٍ التحليل…',
+    'batch.status.done': 'تم',
+    'batch.status.failed': 'فشل: {error}',
+    'batch.status.cancelled': 'أُلغي',
+    'batch.run.one': 'تحليل سيرة ذاتية واحدة',
+    'batch.run.other': 'تحليل السير الذاتية (العدد: {count})',
+    'batch.progress': 'تم تحليل {finished} من {total}…',
+    'batch.finished': 'انتهى: تم تحليل {done}، وفشل {failed}.',
+    'batch.cancelled': 'أُلغي بعد {finished} من {total}.',
+    'batch.cohortHeading': 'تقرير الدفعة',
+    'batch.noIssues': 'لا شيء',
+    'batch.open': 'فتح',
+    'batch.exportCsv': 'تصدير CSV',
+
+    'pitfalls.heading': 'أخطاء شائعة في طلبات تشيفنينغ',
+    'pitfalls.close': 'إغلاق النافذة',
+    'pitfalls.duration.title': 'مدة البرنامج:',
+    'pitfalls.duration.body': 'يجب أن تتراوح مدة البرنامج بين 9 و12 شهرًا. أي برنامج أطول غير مؤهل.',
+    'pitfalls.type.title': 'نوع البرنامج:',
+    'pitfalls.type.body': 'برامج الماجستير التدريسية بدوام كامل فقط هي المؤهلة. برامج MRes والدكتوراه والدوام الجزئي غير مؤهلة.',
+    'pitfalls.location.title': 'الموقع:',
+    'pitfalls.location.body': 'يجب أن يكون البرنامج في المملكة المتحدة. برامج التعليم عن بُعد غير مؤهلة حتى لو قدّمتها جامعة بريطانية.',
+    'pitfalls.branch.title': 'فروع الجامعات في لندن:',
+    'pitfalls.branch.body': 'احذر من فروع لندن لجامعات مقرها في مكان آخر. تأكد من أنها مدمجة بالكامل ومؤهلة.',
+    'pitfalls.presessional.title': 'البرامج التحضيرية:',
+    'pitfalls.presessional.body': 'لا تُغطّى تكاليف دورات اللغة الإنجليزية التحضيرية.',
+    'pitfalls.offer.title': 'الموعد النهائي للقبول:',
+    'pitfalls.offer.body': 'يجب أن ترفع عرض قبول غير مشروط واحدًا على الأقل إلى بوابة تشيفنينغ قبل الموعد النهائي الرسمي.',
+};
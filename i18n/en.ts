@@ -0,0 +1,518 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- English Messages ---
+// The reference catalogue: every key must exist here, and other languages fall
+// back to it. `{name}` placeholders are filled in by `t`. Keys ending in
+// `.one`/`.other` are plural forms chosen by `tPlural`; a language's other
+// plural categories (Arabic "few", "many") use `.other`, so phrase it to suit.
+
+export const en = {
+    'app.title': 'Chevening Course Matchmaker',
+    'app.tagline': "Find your ideal Chevening-eligible UK master's course based on your CV.",
+    'language.label': 'Language',
+    'footer.rights': 'All rights reserved.',
+
+    // Milestone countdown and timeline
+    'deadline.label': 'Next Chevening milestone',
+    'deadline.verify': '(Verify Official Date)',
+    'deadline.none.label': 'Chevening application cycle',
+    'deadline.none.text': 'No upcoming dates are configured yet.',
+    'deadline.upcoming': '{milestone} ({cycle}) in',
+    'deadline.upcomingProvisional': '{milestone} ({cycle}, provisional) in',
+    'deadline.ending': '{milestone} ({cycle}) ends in',
+    'deadline.endingProvisional': '{milestone} ({cycle}, provisional) ends in',
+    'milestone.applications_open': 'Applications open',
+    'milestone.application_deadline': 'Application deadline',
+    'milestone.references_deadline': 'References deadline',
+    'milestone.interviews': 'Interviews',
+    'milestone.offer_deadline': 'Unconditional offer deadline',
+    'milestone.course_start': 'Course start',
+    'timeline.title': 'Chevening {cycle} cycle (courses starting {year})',
+    'timeline.unpublished': 'Chevening cycle for courses starting {year}',
+    'timeline.now': 'Now',
+    'timeline.next': 'Next',
+    'timeline.provisional': 'Provisional dates based on previous cycles. Verify them on the official Chevening timeline.',
+
+    // Form
+    'form.cv.label': 'Upload your CV',
+    'form.cv.choose': 'Click to select a file',
+    'form.cv.change': 'Change file',
+    'form.cv.selected': 'Selected: {fileName}',
+    'form.cv.formats': 'Supported formats: PDF, DOCX',
+    'form.cv.privacy': 'Your CV is first read in your browser so you can check it. The file is only sent for analysis when you search, and is not stored unless you choose to save it below. Saved analyses stay in this browser.',
+    'form.fields.label': 'Target fields (comma-separated)',
+    'form.fields.placeholder': 'e.g., Digital Media, Creative Industries Policy',
+    'form.fields.aria': 'Target fields',
+    'form.locations.label': 'Preferred UK locations (optional)',
+    'form.locations.placeholder': 'e.g., London, Midlands, Scotland',
+    'form.locations.aria': 'Preferred UK locations',
+    'form.impact.label': 'Country-impact one-liner',
+    'form.impact.placeholder': 'How your study will support your home country',
+    'form.year.label': 'Target Start Year',
+    'form.saveCv': 'Keep a copy of my CV with this saved analysis (this browser only)',
+    'form.modelLanguage': 'Write rationales and talking points in {language} (course names stay in English)',
+    'form.submit': 'Find My Courses',
+    'form.pitfalls': 'View Common Pitfalls',
+    'form.experienceConfirm': '{message}\n\nSearch for courses anyway?',
+
+    // CV review
+    'cv.heading': 'Check what was read from your CV',
+    'cv.help': 'Read in your browser; nothing has been sent yet. Correct anything that is wrong, and your corrections are sent with the CV.',
+    'cv.roles': 'Roles',
+    'cv.addRole': '+ Add role',
+    'cv.education': 'Education',
+    'cv.addEducation': '+ Add qualification',
+    'cv.leadership': 'Leadership and influence',
+    'cv.leadershipLabel': 'Leadership items, one per line',
+    'cv.leadershipPlaceholder': 'One item per line',
+    'cv.showText': 'Show extracted text',
+    'cv.reading': 'Reading your CV…',
+    'cv.read': 'Read {words} words from your {format}.',
+    'cv.unreadable': 'This file could not be read in the browser, so nothing can be checked before sending. The AI will still try to read the file itself.',
+    'cv.warning.scanned': 'Little or no text was found in this PDF. It may be a scanned image, so the details below could be incomplete. The AI will still read the file itself.',
+    'cv.warning.emptyDocx': 'No text was found in this DOCX file.',
+    'cv.noRoles': 'No roles found.',
+    'cv.noEducation': 'No qualifications found.',
+    'cv.jobTitle': 'Job title',
+    'cv.organisation': 'Organisation',
+    'cv.startMonth': 'Start month',
+    'cv.endMonth': 'End month',
+    'cv.current': 'Current',
+    'cv.removeRole': 'Remove role',
+    'cv.qualification': 'Qualification',
+    'cv.institution': 'Institution',
+    'cv.year': 'Year',
+    'cv.removeEducation': 'Remove qualification',
+    'cv.experience.unknown': 'No dated roles found. Add your roles to check the two-year work experience requirement.',
+    'cv.experience.pass': '{duration} of work experience found; Chevening requires at least 2 years.',
+    'cv.experience.fail': 'Only {duration} of work experience found; Chevening requires at least 2 years (2,800 hours) by the application deadline. Part-time, voluntary and internship work can count, so add any roles that are missing.',
+    'cv.years.one': '{count} year',
+    'cv.years.other': '{count} years',
+    'cv.months.one': '{count} month',
+    'cv.months.other': '{count} months',
+
+    // Course index
+    'catalogue.summary': 'Browse the course index (works offline)',
+    'catalogue.search': 'Search university or programme',
+    'catalogue.searchAria': 'Search the course index',
+    'catalogue.city': 'City',
+    'catalogue.cityAria': 'Filter by city',
+    'catalogue.awardAria': 'Filter by award',
+    'catalogue.anyAward': 'Any award',
+    'catalogue.rulesOnly': 'Meets Chevening rules',
+    'catalogue.mbaOnly': 'MBA only',
+    'catalogue.meta': 'Course index v{version} · {count} courses · {source}',
+    'catalogue.showing': 'Showing {shown} of {count} courses',
+    'catalogue.count.one': '{count} course',
+    'catalogue.count.other': '{count} courses',
+    'catalogue.feeUnknown': 'Verify on university site',
+    'catalogue.coursePage': 'Course page →',
+
+    // Saved analyses
+    'history.heading': 'Saved Analyses',
+    'history.help': 'Past results are stored in this browser so you can reopen them without another analysis.',
+    'history.compareSelected': 'Compare selected',
+    'history.selectTwo': 'Select two runs to compare ({selected}/2)',
+    'history.selectForComparison': 'Select for comparison',
+    'history.courses.one': '{count} course',
+    'history.courses.other': '{count} courses',
+    'history.open': 'Open',
+    'history.rename': 'Rename',
+    'history.delete': 'Delete',
+    'history.nameLabel': 'Analysis name',
+    'history.confirmDelete': 'Delete "{name}"? This cannot be undone.',
+    'history.openFailed': 'Could not open the saved analysis. Storage in this browser may be full or blocked.',
+    'history.renameFailed': 'Could not rename the analysis. Storage in this browser may be full or blocked.',
+    'history.deleteFailed': 'Could not delete "{name}". Storage in this browser may be full or blocked.',
+    'history.saveFailed': 'This analysis could not be added to Saved Analyses. Storage in this browser may be full or blocked.',
+    'history.trioFailed': 'Your trio could not be saved with the analysis. Storage in this browser may be full or blocked.',
+    'history.compareHeading': 'Comparing saved analyses',
+    'history.compareHelp': 'Highlighted entries appear in only one of the two runs.',
+    'history.row.date': 'Date',
+    'history.row.fields': 'Target fields',
+    'history.row.locations': 'Locations',
+    'history.row.year': 'Start year',
+    'history.row.cv': 'CV',
+    'history.row.model': 'Model',
+    'history.row.prompt': 'Prompt version',
+    'history.row.trio': 'Trio',
+    'history.row.ranked': 'Ranked courses',
+    'history.closeComparison': 'Close comparison',
+
+    // Progress
+    'progress.preparing': 'Preparing your CV…',
+    'progress.waiting': 'Waiting for the AI to start responding…',
+    'progress.profile': 'Analysing your CV against Chevening criteria…',
+    'progress.trio': 'Choosing your Chevening trio…',
+    'progress.bullets': 'Writing essay talking points…',
+    'progress.alternatives': 'Adding alternative courses…',
+    'progress.notes': 'Adding final notes…',
+    'progress.ranking': 'Ranking courses: {count} found so far…',
+    'progress.receiving': 'Receiving results…',
+    'progress.retrying': 'The AI request failed; retrying in {seconds}s (attempt {attempt} of {max})…',
+    'progress.cancel': 'Cancel',
+
+    // Errors
+    'error.attempts': 'Tried {attempts} times before giving up.',
+    'error.retry': 'Try again',
+    'error.showDiagnostics': 'Show diagnostics',
+    'error.noFile': 'No CV file was selected.',
+    'error.fileType': 'Invalid file type. Please upload a PDF or DOCX file.',
+    'error.invalidFile.title': 'Unsupported CV file',
+    'error.invalidFile.guidance': 'Upload your CV as a PDF or DOCX file. If it is in another format, export or "Save as" PDF first.',
+    'error.network.title': 'Could not reach the AI service',
+    'error.network.message': 'The request failed before a response arrived.',
+    'error.network.guidance': 'Check your internet connection, then try again. VPNs and office firewalls sometimes block the AI service.',
+    'error.rateLimit.title': 'The AI service is busy',
+    'error.rateLimit.message': 'The request was rejected because the usage quota or rate limit was reached (HTTP 429).',
+    'error.rateLimit.guidance': 'Wait a minute and try again. If this keeps happening, the API key has probably used up its daily quota.',
+    'error.auth.title': 'The AI service rejected the API key',
+    'error.auth.message': 'The API key is missing, invalid or not allowed to use this model.',
+    'error.auth.guidance': 'If you are the developer, check GEMINI_API_KEY and GEMINI_MODEL in .env.local. Otherwise, contact the person who shared this app.',
+    'error.server.title': 'The AI service had a problem',
+    'error.server.message': 'The AI service returned HTTP {status}.',
+    'error.server.guidance': 'This is usually temporary. Try again in a few minutes.',
+    'error.safety.title': 'The AI declined to answer',
+    'error.safety.message': 'The response was blocked ({reason}).',
+    'error.safety.guidance': 'This can happen when a CV contains personal details such as ID numbers, or text the model flags. Remove them from the CV, or rephrase your target fields and impact statement, then try again.',
+    'error.emptyResponse.title': 'The AI returned nothing',
+    'error.emptyResponse.message': 'The response contained no text.',
+    'error.emptyResponse.guidance': 'Try again. If it keeps happening, try a shorter CV or fewer target fields.',
+    'error.invalidJson.title': 'The AI response was malformed',
+    'error.invalidJson.truncated': 'The response was cut off before it finished.',
+    'error.invalidJson.message': 'The response was not valid JSON.',
+    'error.invalidJson.guidance': 'Try again. Fewer target fields or locations make the response shorter and less likely to be cut off.',
+    'error.emptyResult.title': 'No usable results',
+    'error.emptyResult.message': 'The AI response did not contain any usable results.',
+    'error.emptyResult.guidance': 'Try broadening your target fields or locations, then search again.',
+    'error.unknown.title': 'Something went wrong',
+    'error.unknown.message': 'An unknown error occurred.',
+    'error.unknown.guidance': 'Try again. If it keeps failing, copy the diagnostics below into a bug report.',
+    'error.config.title': 'Application Configuration Error',
+    'error.config.message': 'This application is not properly configured to connect to the AI service because an API key has not been provided. If you are a user, please contact the person who shared this with you. If you are the developer, please ensure the API key is correctly set up in your environment, or set AI_PROVIDER=mock to run with sample data.',
+
+    // Diagnostics
+    'diagnostics.help': 'Failed attempts to reach the AI this session. Copy this into a bug report; it contains no CV content.',
+    'diagnostics.copy': 'Copy report',
+    'diagnostics.clear': 'Clear',
+    'diagnostics.summary.one': 'Diagnostics ({count} failed attempt this session)',
+    'diagnostics.summary.other': 'Diagnostics ({count} failed attempts this session)',
+    'diagnostics.copied': 'Copied. Paste it into your bug report.',
+    'diagnostics.copyFailed': 'Could not copy; select the entries above instead.',
+
+    // Results
+    'results.export': 'Export results',
+    'results.exportLabel': 'Export:',
+    'results.exportPdf': 'PDF / Print',
+    'results.exportMarkdown': 'Markdown',
+    'results.exportCopy': 'Copy Markdown',
+    'results.exportJson': 'JSON',
+    'results.copied': 'Copied to clipboard.',
+    'results.copyFailed': 'Could not copy; use the Markdown download instead.',
+    'results.partialTitle': 'Partial result:',
+    'results.partialBody': 'the AI response was incomplete, so some sections may be missing or shortened. Everything shown below passed validation.',
+    'results.showIssues.one': 'Show {count} issue',
+    'results.showIssues.other': 'Show {count} issues',
+    'results.repaired': 'The response was malformed and had to be repaired; some sections may be missing.',
+    'validation.notJson': 'The response is not a JSON object.',
+    'validation.missing': '{path} is missing.',
+    'validation.notObject': '{path} is not an object.',
+    'validation.notObjectSkipped': '{path} is not an object and was skipped.',
+    'validation.invalidItems.one': '{path} contains {count} invalid item.',
+    'validation.invalidItems.other': '{path} contains {count} invalid items.',
+    'validation.noIdentity': '{path} has no university or programme and was skipped.',
+    'validation.noVerdict': '{path} has no is_eligible verdict.',
+    'validation.noScores': '{path} has no sub-scores.',
+    'validation.missingScores': '{path} is missing {criteria}; scored as 0.',
+    'validation.duplicateRank': '{programme} repeats rank {rank}; moved to rank {newRank}.',
+    'validation.badRating': '{path} is not one of {ratings}; treated as adequate.',
+    'validation.noFeedback': 'No feedback for: {criteria}.',
+    'validation.saved': '{issue}',
+    'results.savedRun': 'Showing saved analysis {name} from {date}. Re-upload {fileName} to run it again.',
+    'results.profile': 'CV Analysis vs. Chevening Criteria',
+    'results.strengths': 'Strengths',
+    'results.gaps': 'Potential Gaps',
+    'results.trio': 'Your Recommended Chevening Trio',
+    'results.noteLabel': 'Note:',
+    'results.sameUniversity': 'All three choices are from the same university. This is permitted, but Chevening often recommends diversifying your choices to spread risk.',
+    'results.mbaLabel': 'MBA Fee Cap:',
+    'results.mbaWarning': 'Chevening caps MBA tuition at {cap}. You must fund any difference.',
+    'results.ranked': 'Top Ranked Courses',
+    'results.rankedPreview': 'Ranked Courses',
+    'results.soFar': '({count} so far)',
+    'results.aiRank': 'AI rank #{rank}',
+    'results.months': '{months} months',
+    'results.feeNA': 'N/A',
+    'results.whyRank': 'Why this rank?',
+    'results.rationale': 'Chevening Rationale:',
+    'results.coursePage': 'Visit course page →',
+    'results.alternatives': 'Alternative Options',
+    'results.notes': 'Important Notes',
+    'results.talkingPoints': 'Personal Statement Talking Points',
+    'results.leadership': 'Leadership',
+    'results.networking': 'Networking',
+    'results.careerPlan': 'Career Plan',
+
+    // Eligibility
+    'eligibility.eligible': 'Chevening-eligible ✅',
+    'eligibility.ineligible': 'Ineligible ❌',
+    'eligibility.unverified': 'Eligibility unverified ⚠️',
+    'eligibility.checkLabel': 'Check this course:',
+    'eligibility.disagreeEligible': 'the AI marked it eligible, but our rules check says {status}.',
+    'eligibility.disagreeIneligible': 'the AI marked it ineligible, but our rules check says {status}.',
+    'eligibility.status.eligible': 'eligible',
+    'eligibility.status.ineligible': 'ineligible',
+    'eligibility.status.unverified': 'unverified',
+    'eligibility.checks': 'Eligibility checks',
+    'eligibility.aiVerdict': 'AI verdict: {reason}',
+    'rule.fullTime': 'Full-time',
+    'rule.fullTime.pass': 'Listed as full-time.',
+    'rule.fullTime.fail': 'Study mode is "{mode}".',
+    'rule.fullTime.unknown': 'Study mode not stated.',
+    'rule.ukBased': 'UK-based',
+    'rule.ukBased.pass': 'Taught in {city}.',
+    'rule.ukBased.fail': 'Delivered outside the UK or remotely ({place}).',
+    'rule.ukBased.ukDomain': 'UK university domain, but no city given.',
+    'rule.ukBased.unconfirmed': 'Could not confirm "{city}" is in the UK.',
+    'rule.ukBased.noCity': 'City not stated.',
+    'rule.taught': "Taught master's",
+    'rule.taught.pass': '{award} is a taught award.',
+    'rule.taught.research': '{award} is a research degree.',
+    'rule.taught.either': '{award} can be taught or by research; check the course page.',
+    'rule.taught.unknown': 'Award type not stated.',
+    'rule.autumnStart': 'Starts Sep/Oct {year}',
+    'rule.autumnStart.pass': 'Starts "{start}".',
+    'rule.autumnStart.unconfirmed': 'Start date not confirmed.',
+    'rule.autumnStart.notAutumn': 'Starts "{start}", not September/October.',
+    'rule.autumnStart.unreadable': 'Could not read a start month from "{start}".',
+    'rule.autumnStart.noYear': 'Autumn start, but the year is not stated.',
+    'rule.autumnStart.wrongYear': 'Starts in {years}, not {year}.',
+    'rule.duration': '{min}–{max} months',
+    'rule.duration.pass': '{months} months.',
+    'rule.duration.fail': '{months} months is outside the {min}–{max} month limit.',
+    'rule.duration.unknown': 'Duration not stated.',
+    'rule.mbaFeeCap': 'MBA fee cap',
+    'rule.mbaFeeCap.pass': 'Fee is within the MBA cap.',
+    'rule.mbaFeeCap.notMba': 'Not an MBA.',
+    'rule.mbaFeeCap.unknown': 'MBA fee not stated; Chevening covers up to {cap}.',
+    'rule.mbaFeeCap.fail': 'Fee exceeds the {cap} cap; you must fund {gap}.',
+
+    // Course index chip
+    'index.notFound': 'Not found in index',
+    'index.notFoundTitle': 'Not in course index v{version}. It may be invented or outside the Chevening index.',
+    'index.verified': 'Verified in index ✓',
+    'index.verifiedTitle': 'Matched in course index v{version}',
+    'index.filled': 'Updated from the course index: {fields}.',
+    'index.field.duration_months': 'duration',
+    'index.field.fee_gbp': 'fee',
+    'index.field.study_mode': 'study mode',
+    'index.field.award': 'award',
+    'index.field.city': 'city',
+    'index.field.url': 'course link',
+    'index.field.start_cycle': 'start date',
+
+    // Scoring
+    'criterion.gap_fit': 'Gap fit vs CV',
+    'criterion.chevening_relevance': 'Chevening relevance',
+    'criterion.uk_linkage': 'UK linkage/credibility',
+    'criterion.feasibility': 'Feasibility',
+    'criterion.portfolio': 'Portfolio/outcomes',
+    'criterion.networking': 'Networking exposure',
+    'scoring.adjust': 'Adjust scoring weights',
+    'scoring.help': 'Re-rank the courses by what matters most to you. Totals stay on the 0–{max} scale.',
+    'scoring.weightAria': '{criterion} weight',
+    'scoring.reset': 'Reset to default',
+    'scoring.breakdown': 'Score breakdown',
+    'scoring.total': 'Score: {total}',
+    'scoring.points': '{points} pts',
+
+    // Cost estimate
+    'cost.summary': 'Expected out-of-pocket:',
+    'cost.tuition': 'Tuition fee',
+    'cost.unknown': 'Unknown',
+    'cost.cheveningPays': 'Chevening pays',
+    'cost.fullFee': 'Full fee (MBAs capped)',
+    'cost.living': 'Living costs ({months} months, {place})',
+    'cost.ukAverage': 'UK average',
+    'cost.stipend': 'Chevening stipend',
+    'cost.youFund': 'You fund',
+    'cost.footnote': 'Estimates based on typical {year} student costs and stipend rates; excludes flights and visa fees, which Chevening also covers.',
+    'cost.atLeast': 'at least {amount} (MBA fee unknown)',
+    'cost.assumeMbaFee': 'MBA fee unknown; Chevening covers up to {cap} and you pay the rest.',
+    'cost.assumeDuration': 'Duration unknown; assumed {months} months.',
+    'cost.assumeCity': 'City not recognised; used typical costs outside London.',
+    'region.london': 'London',
+    'region.southEast': 'South East England',
+    'region.southWest': 'South West England',
+    'region.east': 'East of England',
+    'region.midlands': 'the Midlands',
+    'region.north': 'the North of England',
+    'region.scotland': 'Scotland',
+    'region.wales': 'Wales',
+    'region.northernIreland': 'Northern Ireland',
+
+    // Course comparison
+    'compare.toggle': 'Compare',
+    'compare.toolbar': 'Compare courses',
+    'compare.hint': 'Tick {min}–{max} courses to compare them side by side.',
+    'compare.selected': '{count} of {max} courses selected.',
+    'compare.open': 'Compare selected',
+    'compare.clear': 'Clear selection',
+    'compare.heading': 'Comparing {count} courses',
+    'compare.close': 'Close comparison',
+    'compare.help': 'Highlighted rows differ between the courses. Export or print the results to share this comparison.',
+    'compare.criterion': 'Criterion',
+    'compare.row.city': 'City',
+    'compare.row.start': 'Start',
+    'compare.row.duration': 'Duration',
+    'compare.row.fee': 'Fee',
+    'compare.row.eligibility': 'Eligibility',
+    'compare.row.mba': 'MBA fee cap',
+    'compare.row.cost_gap': 'You fund (estimate)',
+    'compare.row.score': 'Score',
+    'compare.row.rationale': 'Chevening rationale',
+    'compare.eligible': 'Eligible',
+    'compare.ineligible': 'Ineligible',
+    'compare.unverified': 'Unverified',
+    'compare.notMba': 'Not an MBA',
+    'compare.mbaFeeUnknown': 'Fee unknown; Chevening pays up to {cap}',
+    'compare.mbaAboveCap': 'You fund {amount} above the {cap} cap',
+    'compare.mbaWithinCap': 'Within the {cap} cap',
+
+    // Trio builder
+    'trio.heading': 'Build Your Own Trio',
+    'trio.help': "Start from the AI's suggestion, then add, remove and drag courses into your order of preference.",
+    'trio.yourChoices': 'Your choices',
+    'trio.available': 'Available courses',
+    'trio.reset': 'Reset to AI trio',
+    'trio.choice': 'Choice {number}:',
+    'trio.emptySlot': 'add a course from the list',
+    'trio.youFund': 'you fund {amount}',
+    'trio.passes': 'Passes the eligibility rules',
+    'trio.fails': 'Fails the eligibility rules',
+    'trio.unconfirmed': 'Eligibility not confirmed',
+    'trio.moveUp': 'Move up',
+    'trio.moveDown': 'Move down',
+    'trio.remove': 'Remove',
+    'trio.rankedOrigin': 'Ranked #{rank}',
+    'trio.alternativeOrigin': 'Alternative',
+    'trio.cityUnknown': 'city unknown',
+    'trio.add': 'Add',
+    'trio.added': 'Added',
+    'trio.costRange': '{low}–{high}, depending on which offer you accept',
+    'trio.unknownFees.one': '{count} MBA fee is unknown, so its top-up is not included.',
+    'trio.unknownFees.other': '{count} MBA fees are unknown, so their top-up is not included.',
+    'trio.summaryHeading': 'Your Chevening application choices',
+    'trio.summaryHelp': 'Enter these on the Chevening form in this order.',
+    'trio.copy': 'Copy choices',
+    'trio.copied': 'Copied.',
+    'trio.copyFailed': 'Could not copy; select the text instead.',
+    'trio.check.count': 'Three courses chosen.',
+    'trio.check.missing.one': 'Choose {count} more course; the Chevening form asks for three.',
+    'trio.check.missing.other': 'Choose {count} more courses; the Chevening form asks for three.',
+    'trio.check.ineligible': 'Ineligible: {courses}. Replace before applying.',
+    'trio.check.unverified': 'Eligibility not confirmed for {courses}. Verify on the university site.',
+    'trio.check.eligible': 'All choices pass the eligibility rules.',
+    'trio.check.sameUniversity': 'More than one choice at {universities}. This is permitted, but spreading universities lowers the risk of having no offer.',
+    'trio.check.differentUniversities': 'Each choice is at a different university.',
+    'trio.check.sameRegion': 'All three courses are in {region}. Consider one option elsewhere in the UK for a wider spread of costs and offers.',
+    'trio.check.spread': 'Spread across {regions}.',
+    'trio.check.mbaFeeCap': 'MBA fee cap of {cap}: {courses}.',
+    'trio.check.mbaFeeUnknown': '{programme} ({university}): fee unknown',
+    'trio.check.mbaTopUp': '{programme} ({university}): you fund {amount}',
+    'trio.check.mixedFields': 'Your choices span {fields}. Selection panels look for one coherent study plan; keep the trio within one or two related fields.',
+    'trio.check.oneField': 'Consistent field of study: {fields}.',
+    'field.media': 'media and communications',
+    'field.policy': 'public policy and governance',
+    'field.development': 'development studies',
+    'field.business': 'business and management',
+    'field.law': 'law',
+    'field.health': 'health',
+    'field.data': 'data and computing',
+    'field.environment': 'environment and sustainability',
+    'field.education': 'education',
+    'field.engineering': 'engineering',
+
+    // Essay workspace
+    'essay.heading': 'Personal Statement Workspace',
+    'essay.help': 'Draft your four Chevening essays here. Each has a {limit}-word limit. Drafts are saved in this browser as you type. Chevening essays are written in English.',
+    'essay.talkingPoints': 'Talking points',
+    'essay.insert': 'Insert',
+    'essay.insertImpact': 'Insert your country-impact one-liner',
+    'essay.draftLabel': '{title} draft',
+    'essay.placeholder': 'Write your {title} essay here…',
+    'essay.review': 'Review this draft',
+    'essay.reviewing': 'Reviewing…',
+    'essay.words': '{words} / {limit} words',
+    'essay.saved': 'Saved',
+    'essay.notSaved': 'Not saved: browser storage is unavailable',
+    'essay.feedbackHeading': 'Draft review',
+    'essay.rating.strong': 'Strong',
+    'essay.rating.adequate': 'Adequate',
+    'essay.rating.weak': 'Weak',
+    'essay.incomplete': 'The review came back incomplete ({count} issue(s)); some criteria may be missing.',
+    'essay.failed': 'The review failed. Please try again.',
+
+    // Adviser batch mode
+    'batch.summary': 'Adviser batch mode: analyse several CVs',
+    'batch.help': "Add several CVs and fill in each candidate's details, or import them from a CSV manifest with the columns file, name, fields, locations, impact and year. Manifest rows are matched to CVs by file name. Results are written in English and are not saved.",
+    'batch.addCvs': 'Add CVs',
+    'batch.importManifest': 'Import CSV manifest',
+    'batch.empty': 'No candidates yet.',
+    'batch.manifestFailed': 'The manifest {fileName} could not be read.',
+    'batch.noFileColumn': 'No file column found. Expected one of: {columns}.',
+    'batch.rowNoFile': 'Row {row}: no CV file name, skipped.',
+    'batch.rowBadYear': 'Row {row}: start year "{year}" not understood; using the default.',
+    'batch.unsupportedFile': '{fileName}: not a PDF or DOCX file, skipped.',
+    'batch.col.candidate': 'Candidate',
+    'batch.col.cv': 'CV file',
+    'batch.col.fields': 'Target fields',
+    'batch.col.locations': 'Locations',
+    'batch.col.impact': 'Country impact',
+    'batch.col.year': 'Start year',
+    'batch.col.status': 'Status',
+    'batch.col.trio': 'Chevening trio',
+    'batch.col.issues': 'Eligibility issues',
+    'batch.col.gaps': 'Top gaps',
+    'batch.remove': 'Remove {name}',
+    'batch.missing': 'Missing: {details}',
+    'batch.missing.file': 'CV file',
+    'batch.missing.fields': 'target fields',
+    'batch.missing.impact': 'country impact',
+    'batch.ready': 'Ready',
+    'batch.status.queued': 'Queued',
+    'batch.status.running': 'Analysing…',
+    'batch.status.done': 'Done',
+    'batch.status.failed': 'Failed: {error}',
+    'batch.status.cancelled': 'Cancelled',
+    'batch.run.one': 'Analyse {count} CV',
+    'batch.run.other': 'Analyse {count} CVs',
+    'batch.progress': '{finished} of {total} analysed…',
+    'batch.finished': 'Finished: {done} analysed, {failed} failed.',
+    'batch.cancelled': 'Cancelled after {finished} of {total}.',
+    'batch.cohortHeading': 'Cohort report',
+    'batch.noIssues': 'None found',
+    'batch.open': 'Open',
+    'batch.exportCsv': 'Export CSV',
+
+    // Pitfalls modal
+    'pitfalls.heading': 'Common Chevening Application Pitfalls',
+    'pitfalls.close': 'Close modal',
+    'pitfalls.duration.title': 'Course Duration:',
+    'pitfalls.duration.body': 'Courses must be 9-12 months long. Anything longer is ineligible.',
+    'pitfalls.type.title': 'Course Type:',
+    'pitfalls.type.body': "Only full-time, taught Master's degrees are eligible. MRes, PhDs, and part-time courses are not.",
+    'pitfalls.location.title': 'Location:',
+    'pitfalls.location.body': 'The course must be based in the UK. Distance learning courses are not eligible, even if offered by a UK university.',
+    'pitfalls.branch.title': 'London Branch Campuses:',
+    'pitfalls.branch.body': 'Be cautious with London branch campuses of universities based elsewhere. Ensure they are fully integrated and eligible.',
+    'pitfalls.presessional.title': 'Pre-sessional Courses:',
+    'pitfalls.presessional.body': 'Costs for pre-sessional English courses are not covered.',
+    'pitfalls.offer.title': 'Offer Deadline:',
+    'pitfalls.offer.body': 'You must have at least one unconditional offer uploaded to the Chevening portal by the official deadline.',
+};
+
+export type MessageKey = keyof typeof en;
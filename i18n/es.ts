@@ -0,0 +1,494 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { MessageKey } from './en';
+
+// --- Spanish Messages ---
+
+export const es: Partial<Record<MessageKey, string>> = {
+    'app.title': 'Chevening Course Matchmaker',
+    'app.tagline': 'Encuentra, a partir de tu CV, el máster británico elegible para Chevening que mejor se adapta a ti.',
+    'language.label': 'Idioma',
+    'footer.rights': 'Todos los derechos reservados.',
+
+    'deadline.label': 'Próximo hito de Chevening',
+    'deadline.verify': '(Verificar fecha oficial)',
+    'deadline.none.label': 'Ciclo de solicitud de Chevening',
+    'deadline.none.text': 'Todavía no hay fechas próximas configuradas.',
+    'deadline.upcoming': '{milestone} ({cycle}) en',
+    'deadline.upcomingProvisional': '{milestone} ({cycle}, provisional) en',
+    'deadline.ending': '{milestone} ({cycle}) termina en',
+    'deadline.endingProvisional': '{milestone} ({cycle}, provisional) termina en',
+    'milestone.applications_open': 'Apertura de solicitudes',
+    'milestone.application_deadline': 'Fecha límite de solicitud',
+    'milestone.references_deadline': 'Fecha límite de referencias',
+    'milestone.interviews': 'Entrevistas',
+    'milestone.offer_deadline': 'Fecha límite de ofertas incondicionales',
+    'milestone.course_start': 'Inicio de los cursos',
+    'timeline.title': 'Ciclo Chevening {cycle} (cursos que empiezan en {year})',
+    'timeline.unpublished': 'Ciclo Chevening para cursos que empiezan en {year}',
+    'timeline.now': 'Ahora',
+    'timeline.next': 'Siguiente',
+    'timeline.provisional': 'Fechas provisionales basadas en ciclos anteriores. Verifícalas en el calendario oficial de Chevening.',
+
+    'form.cv.label': 'Sube tu CV',
+    'form.cv.choose': 'Haz clic para elegir un archivo',
+    'form.cv.change': 'Cambiar archivo',
+    'form.cv.selected': 'Seleccionado: {fileName}',
+    'form.cv.formats': 'Formatos admitidos: PDF, DOCX',
+    'form.cv.privacy': 'Primero leemos tu CV en tu navegador para que puedas revisarlo. El archivo solo se envía para el análisis cuando buscas, y no se guarda a menos que elijas guardarlo abajo. Los análisis guardados se quedan en este navegador.',
+    'form.fields.label': 'Áreas de interés (separadas por comas)',
+    'form.fields.placeholder': 'p. ej., medios digitales, política de industrias creativas',
+    'form.fields.aria': 'Áreas de interés',
+    'form.locations.label': 'Ubicaciones preferidas en el Reino Unido (opcional)',
+    'form.locations.placeholder': 'p. ej., London, Midlands, Scotland',
+    'form.locations.aria': 'Ubicaciones preferidas en el Reino Unido',
+    'form.impact.label': 'Impacto en tu país, en una frase',
+    'form.impact.placeholder': 'Cómo beneficiarán tus estudios a tu país',
+    'form.year.label': 'Año de inicio previsto',
+    'form.saveCv': 'Guardar una copia de mi CV con este análisis (solo en este navegador)',
+    'form.modelLanguage': 'Redactar las justificaciones y los puntos clave en {language} (los nombres de los cursos siguen en inglés)',
+    'form.submit': 'Buscar mis cursos',
+    'form.pitfalls': 'Ver errores frecuentes',
+    'form.experienceConfirm': '{message}\n\n¿Buscar cursos de todos modos?',
+
+    'cv.heading': 'Revisa lo que se ha leído de tu CV',
+    'cv.help': 'Leído en tu navegador; todavía no se ha enviado nada. Corrige lo que esté mal: tus correcciones se envían junto con el CV.',
+    'cv.roles': 'Puestos',
+    'cv.addRole': '+ Añadir puesto',
+    'cv.education': 'Formación',
+    'cv.addEducation': '+ Añadir titulación',
+    'cv.leadership': 'Liderazgo e influencia',
+    'cv.leadershipLabel': 'Elementos de liderazgo, uno por línea',
+    'cv.leadershipPlaceholder': 'Un elemento por línea',
+    'cv.showText': 'Mostrar el texto extraído',
+    'cv.reading': 'Leyendo tu CV…',
+    'cv.read': 'Se leyeron {words} palabras de tu {format}.',
+    'cv.unreadable': 'No se pudo leer este archivo en el navegador, así que no se puede revisar nada antes del envío. La IA intentará leer el archivo igualmente.',
+    'cv.warning.scanned': 'Se encontró poco o ningún texto en este PDF. Puede ser una imagen escaneada, así que los datos de abajo podrían estar incompletos. La IA leerá el archivo igualmente.',
+    'cv.warning.emptyDocx': 'No se encontró texto en este archivo DOCX.',
+    'cv.noRoles': 'No se encontraron puestos.',
+    'cv.noEducation': 'No se encontraron titulaciones.',
+    'cv.jobTitle': 'Puesto',
+    'cv.organisation': 'Organización',
+    'cv.startMonth': 'Mes de inicio',
+    'cv.endMonth': 'Mes de fin',
+    'cv.current': 'Actual',
+    'cv.removeRole': 'Eliminar puesto',
+    'cv.qualification': 'Titulación',
+    'cv.institution': 'Institución',
+    'cv.year': 'Año',
+    'cv.removeEducation': 'Eliminar titulación',
+    'cv.experience.unknown': 'No se encontraron puestos con fechas. Añade tus puestos para comprobar el requisito de dos años de experiencia laboral.',
+    'cv.experience.pass': 'Experiencia laboral encontrada: {duration}; Chevening exige al menos 2 años.',
+    'cv.experience.fail': 'Experiencia laboral encontrada: solo {duration}; Chevening exige al menos 2 años (2800 horas) antes del cierre de la convocatoria. El trabajo a tiempo parcial, voluntario y en prácticas puede contar, así que añade los puestos que falten.',
+    'cv.years.one': '{count} año',
+    'cv.years.other': '{count} años',
+    'cv.months.one': '{count} mes',
+    'cv.months.other': '{count} meses',
+
+    'catalogue.summary': 'Explorar el índice de cursos (funciona sin conexión)',
+    'catalogue.search': 'Buscar universidad o programa',
+    'catalogue.searchAria': 'Buscar en el índice de cursos',
+    'catalogue.city': 'Ciudad',
+    'catalogue.cityAria': 'Filtrar por ciudad',
+    'catalogue.awardAria': 'Filtrar por titulación',
+    'catalogue.anyAward': 'Cualquier titulación',
+    'catalogue.rulesOnly': 'Cumple las reglas de Chevening',
+    'catalogue.mbaOnly': 'Solo MBA',
+    'catalogue.meta': 'Índice de cursos v{version} · {count} cursos · {source}',
+    'catalogue.showing': 'Mostrando {shown} de {count} cursos',
+    'catalogue.count.one': '{count} curso',
+    'catalogue.count.other': '{count} cursos',
+    'catalogue.feeUnknown': 'Verificar en la web de la universidad',
+    'catalogue.coursePage': 'Página del curso →',
+
+    'history.heading': 'Análisis guardados',
+    'history.help': 'Los resultados anteriores se guardan en este navegador para que puedas abrirlos de nuevo sin otro análisis.',
+    'history.compareSelected': 'Comparar selección',
+    'history.selectTwo': 'Selecciona dos análisis para comparar ({selected}/2)',
+    'history.selectForComparison': 'Seleccionar para comparar',
+    'history.courses.one': '{count} curso',
+    'history.courses.other': '{count} cursos',
+    'history.open': 'Abrir',
+    'history.rename': 'Renombrar',
+    'history.delete': 'Eliminar',
+    'history.nameLabel': 'Nombre del análisis',
+    'history.confirmDelete': '¿Eliminar «{name}»? Esta acción no se puede deshacer.',
+    'history.openFailed': 'No se pudo abrir el análisis guardado. Es posible que el almacenamiento de este navegador esté lleno o bloqueado.',
+    'history.renameFailed': 'No se pudo cambiar el nombre del análisis. Es posible que el almacenamiento de este navegador esté lleno o bloqueado.',
+    'history.deleteFailed': 'No se pudo eliminar «{name}». Es posible que el almacenamiento de este navegador esté lleno o bloqueado.',
+    'history.saveFailed': 'No se pudo añadir este análisis a los análisis guardados. Es posible que el almacenamiento de este navegador esté lleno o bloqueado.',
+    'history.trioFailed': 'No se pudo guardar tu trío con el análisis. Es posible que el almacenamiento de este navegador esté lleno o bloqueado.',
+    'history.compareHeading': 'Comparación de análisis guardados',
+    'history.compareHelp': 'Los elementos resaltados aparecen solo en uno de los dos análisis.',
+    'history.row.date': 'Fecha',
+    'history.row.fields': 'Áreas de interés',
+    'history.row.locations': 'Ubicaciones',
+    'history.row.year': 'Año de inicio',
+    'history.row.cv': 'CV',
+    'history.row.model': 'Modelo',
+    'history.row.prompt': 'Versión del prompt',
+    'history.row.trio': 'Trío',
+    'history.row.ranked': 'Cursos clasificados',
+    'history.closeComparison': 'Cerrar comparación',
+
+    'progress.preparing': 'Preparando tu CV…',
+    'progress.waiting': 'Esperando a que la IA empiece a responder…',
+    'progress.profile': 'Analizando tu CV según los criterios de Chevening…',
+    'progress.trio': 'Eligiendo tu trío Chevening…',
+    'progress.bullets': 'Redactando los puntos clave de los ensayos…',
+    'progress.alternatives': 'Añadiendo cursos alternativos…',
+    'progress.notes': 'Añadiendo notas finales…',
+    'progress.ranking': 'Clasificando cursos: {count} encontrados hasta ahora…',
+    'progress.receiving': 'Recibiendo resultados…',
+    'progress.retrying': 'La solicitud a la IA falló; se reintentará en {seconds} s (intento {attempt} de {max})…',
+    'progress.cancel': 'Cancelar',
+
+    'error.attempts': 'Se intentó {attempts} veces antes de desistir.',
+    'error.retry': 'Reintentar',
+    'error.showDiagnostics': 'Mostrar diagnóstico',
+    'error.noFile': 'No se seleccionó ningún archivo de CV.',
+    'error.fileType': 'Tipo de archivo no válido. Sube un archivo PDF o DOCX.',
+    'error.invalidFile.title': 'Archivo de CV no admitido',
+    'error.invalidFile.guidance': 'Sube tu CV como archivo PDF o DOCX. Si está en otro formato, expórtalo o usa «Guardar como» PDF primero.',
+    'error.network.title': 'No se pudo conectar con el servicio de IA',
+    'error.network.message': 'La solicitud falló antes de recibir una respuesta.',
+    'error.network.guidance': 'Comprueba tu conexión a Internet y vuelve a intentarlo. Las VPN y los cortafuegos de oficina a veces bloquean el servicio de IA.',
+    'error.rateLimit.title': 'El servicio de IA está saturado',
+    'error.rateLimit.message': 'La solicitud se rechazó porque se alcanzó la cuota de uso o el límite de frecuencia (HTTP 429).',
+    'error.rateLimit.guidance': 'Espera un minuto y vuelve a intentarlo. Si sigue ocurriendo, probablemente la clave de API agotó su cuota diaria.',
+    'error.auth.title': 'El servicio de IA rechazó la clave de API',
+    'error.auth.message': 'La clave de API falta, no es válida o no tiene permiso para usar este modelo.',
+    'error.auth.guidance': 'Si eres quien desarrolla la aplicación, revisa GEMINI_API_KEY y GEMINI_MODEL en .env.local. Si no, contacta con quien compartió esta aplicación.',
+    'error.server.title': 'El servicio de IA tuvo un problema',
+    'error.server.message': 'El servicio de IA devolvió HTTP {status}.',
+    'error.server.guidance': 'Suele ser temporal. Vuelve a intentarlo en unos minutos.',
+    'error.safety.title': 'La IA se negó a responder',
+    'error.safety.message': 'La respuesta se bloqueó ({reason}).',
+    'error.safety.guidance': 'Puede ocurrir cuando un CV contiene datos personales, como números de identificación, o texto que el modelo marca. Elimínalos del CV o reformula tus áreas de interés y tu frase de impacto, y vuelve a intentarlo.',
+    'error.emptyResponse.title': 'La IA no devolvió nada',
+    'error.emptyResponse.message': 'La respuesta no contenía texto.',
+    'error.emptyResponse.guidance': 'Vuelve a intentarlo. Si sigue ocurriendo, prueba con un CV más corto o menos áreas de interés.',
+    'error.invalidJson.title': 'La respuesta de la IA estaba mal formada',
+    'error.invalidJson.truncated': 'La respuesta se cortó antes de terminar.',
+    'error.invalidJson.message': 'La respuesta no era JSON válido.',
+    'error.invalidJson.guidance': 'Vuelve a intentarlo. Con menos áreas o ubicaciones la respuesta es más corta y es menos probable que se corte.',
+    'error.emptyResult.title': 'No hay resultados utilizables',
+    'error.emptyResult.message': 'La respuesta de la IA no contenía resultados utilizables.',
+    'error.emptyResult.guidance': 'Amplía tus áreas de interés o ubicaciones y vuelve a buscar.',
+    'error.unknown.title': 'Algo salió mal',
+    'error.unknown.message': 'Se produjo un error desconocido.',
+    'error.unknown.guidance': 'Vuelve a intentarlo. Si sigue fallando, copia el diagnóstico de abajo en un informe de errores.',
+    'error.config.title': 'Error de configuración de la aplicación',
+    'error.config.message': 'Esta aplicación no está configurada para conectarse al servicio de IA porque no se ha proporcionado una clave de API. Si eres usuario, contacta con quien la compartió contigo. Si eres quien la desarrolla, asegúrate de que la clave de API esté bien configurada en tu entorno, o define AI_PROVIDER=mock para usar datos de ejemplo.',
+
+    'diagnostics.help': 'Intentos fallidos de conectar con la IA en esta sesión. Cópialos en un informe de errores; no contienen nada de tu CV.',
+    'diagnostics.copy': 'Copiar informe',
+    'diagnostics.clear': 'Borrar',
+    'diagnostics.summary.one': 'Diagnóstico ({count} intento fallido en esta sesión)',
+    'diagnostics.summary.other': 'Diagnóstico ({count} intentos fallidos en esta sesión)',
+    'diagnostics.copied': 'Copiado. Pégalo en tu informe de errores.',
+    'diagnostics.copyFailed': 'No se pudo copiar; selecciona las entradas de arriba.',
+
+    'results.export': 'Exportar resultados',
+    'results.exportLabel': 'Exportar:',
+    'results.exportPdf': 'PDF / Imprimir',
+    'results.exportMarkdown': 'Markdown',
+    'results.exportCopy': 'Copiar Markdown',
+    'results.exportJson': 'JSON',
+    'results.copied': 'Copiado al portapapeles.',
+    'results.copyFailed': 'No se pudo copiar; descarga el archivo Markdown.',
+    'results.partialTitle': 'Resultado parcial:',
+    'results.partialBody': 'la respuesta de la IA estaba incompleta, así que pueden faltar secciones o estar abreviadas. Todo lo que se muestra abajo superó la validación.',
+    'results.showIssues.one': 'Mostrar {count} problema',
+    'results.showIssues.other': 'Mostrar {count} problemas',
+    'results.repaired': 'La respuesta estaba mal formada y hubo que repararla; pueden faltar secciones.',
+    'validation.notJson': 'La respuesta no es un objeto JSON.',
+    'validation.missing': 'Falta {path}.',
+    'validation.notObject': '{path} no es un objeto.',
+    'validation.notObjectSkipped': '{path} no es un objeto y se omitió.',
+    'validation.invalidItems.one': '{path} contiene {count} elemento no válido.',
+    'validation.invalidItems.other': '{path} contiene {count} elementos no válidos.',
+    'validation.noIdentity': '{path} no tiene universidad ni programa y se omitió.',
+    'validation.noVerdict': '{path} no tiene veredicto is_eligible.',
+    'validation.noScores': '{path} no tiene puntuaciones parciales.',
+    'validation.missingScores': 'A {path} le falta {criteria}; se puntúa con 0.',
+    'validation.duplicateRank': '{programme} repite el puesto {rank}; se movió al puesto {newRank}.',
+    'validation.badRating': '{path} no es ninguno de {ratings}; se trata como adequate.',
+    'validation.noFeedback': 'Sin comentarios para: {criteria}.',
+    'results.savedRun': 'Análisis guardado {name} del {date}. Vuelve a subir {fileName} para repetirlo.',
+    'results.profile': 'Análisis del CV según los criterios de Chevening',
+    'results.strengths': 'Fortalezas',
+    'results.gaps': 'Posibles carencias',
+    'results.trio': 'Tu trío Chevening recomendado',
+    'results.noteLabel': 'Nota:',
+    'results.sameUniversity': 'Las tres opciones son de la misma universidad. Está permitido, pero Chevening suele recomendar diversificar las opciones para repartir el riesgo.',
+    'results.mbaLabel': 'Tope de matrícula del MBA:',
+    'results.mbaWarning': 'Chevening limita la matrícula de los MBA a {cap}. La diferencia corre por tu cuenta.',
+    'results.ranked': 'Cursos mejor clasificados',
+    'results.rankedPreview': 'Cursos clasificados',
+    'results.soFar': '({count} hasta ahora)',
+    'results.aiRank': 'Puesto IA n.º {rank}',
+    'results.months': '{months} meses',
+    'results.feeNA': 'N/D',
+    'results.whyRank': '¿Por qué este puesto?',
+    'results.rationale': 'Justificación Chevening:',
+    'results.coursePage': 'Ver la página del curso →',
+    'results.alternatives': 'Otras opciones',
+    'results.notes': 'Notas importantes',
+    'results.talkingPoints': 'Puntos clave para la declaración personal',
+    'results.leadership': 'Liderazgo',
+    'results.networking': 'Networking',
+    'results.careerPlan': 'Plan profesional',
+
+    'eligibility.eligible': 'Elegible para Chevening ✅',
+    'eligibility.ineligible': 'No elegible ❌',
+    'eligibility.unverified': 'Elegibilidad sin verificar ⚠️',
+    'eligibility.checkLabel': 'Revisa este curso:',
+    'eligibility.disagreeEligible': 'la IA lo marcó como elegible, pero nuestra comprobación de reglas indica: {status}.',
+    'eligibility.disagreeIneligible': 'la IA lo marcó como no elegible, pero nuestra comprobación de reglas indica: {status}.',
+    'eligibility.status.eligible': 'elegible',
+    'eligibility.status.ineligible': 'no elegible',
+    'eligibility.status.unverified': 'sin verificar',
+    'eligibility.checks': 'Comprobaciones de elegibilidad',
+    'eligibility.aiVerdict': 'Veredicto de la IA: {reason}',
+    'rule.fullTime': 'Tiempo completo',
+    'rule.fullTime.pass': 'Se ofrece a tiempo completo.',
+    'rule.fullTime.fail': 'Modalidad de estudio: «{mode}».',
+    'rule.fullTime.unknown': 'Modalidad de estudio no indicada.',
+    'rule.ukBased': 'En el Reino Unido',
+    'rule.ukBased.pass': 'Se imparte en {city}.',
+    'rule.ukBased.fail': 'Se imparte fuera del Reino Unido o a distancia ({place}).',
+    'rule.ukBased.ukDomain': 'Dominio universitario británico, pero no se indica la ciudad.',
+    'rule.ukBased.unconfirmed': 'No se pudo confirmar que «{city}» esté en el Reino Unido.',
+    'rule.ukBased.noCity': 'Ciudad no indicada.',
+    'rule.taught': 'Máster de docencia',
+    'rule.taught.pass': '{award} es un título de docencia.',
+    'rule.taught.research': '{award} es un título de investigación.',
+    'rule.taught.either': '{award} puede ser de docencia o de investigación; consulta la página del curso.',
+    'rule.taught.unknown': 'Tipo de título no indicado.',
+    'rule.autumnStart': 'Empieza en sep./oct. de {year}',
+    'rule.autumnStart.pass': 'Empieza: «{start}».',
+    'rule.autumnStart.unconfirmed': 'Fecha de inicio no confirmada.',
+    'rule.autumnStart.notAutumn': 'Empieza: «{start}», no en septiembre ni en octubre.',
+    'rule.autumnStart.unreadable': 'No se pudo leer un mes de inicio en «{start}».',
+    'rule.autumnStart.noYear': 'Empieza en otoño, pero no se indica el año.',
+    'rule.autumnStart.wrongYear': 'Empieza en {years}, no en {year}.',
+    'rule.duration': '{min}–{max} meses',
+    'rule.duration.pass': '{months} meses.',
+    'rule.duration.fail': '{months} meses queda fuera del límite de {min}–{max} meses.',
+    'rule.duration.unknown': 'Duración no indicada.',
+    'rule.mbaFeeCap': 'Límite de matrícula del MBA',
+    'rule.mbaFeeCap.pass': 'La matrícula está dentro del límite del MBA.',
+    'rule.mbaFeeCap.notMba': 'No es un MBA.',
+    'rule.mbaFeeCap.unknown': 'Matrícula del MBA no indicada; Chevening cubre hasta {cap}.',
+    'rule.mbaFeeCap.fail': 'La matrícula supera el límite de {cap}; debes financiar {gap}.',
+
+    'index.notFound': 'No está en el índice',
+    'index.notFoundTitle': 'No está en el índice de cursos v{version}. Puede ser inventado o estar fuera del índice de Chevening.',
+    'index.verified': 'Verificado en el índice ✓',
+    'index.verifiedTitle': 'Encontrado en el índice de cursos v{version}',
+    'index.filled': 'Actualizado desde el índice de cursos: {fields}.',
+    'index.field.duration_months': 'duración',
+    'index.field.fee_gbp': 'matrícula',
+    'index.field.study_mode': 'modalidad',
+    'index.field.award': 'titulación',
+    'index.field.city': 'ciudad',
+    'index.field.url': 'enlace del curso',
+    'index.field.start_cycle': 'fecha de inicio',
+
+    'criterion.gap_fit': 'Encaje con el CV',
+    'criterion.chevening_relevance': 'Relevancia para Chevening',
+    'criterion.uk_linkage': 'Vínculo/credibilidad en el Reino Unido',
+    'criterion.feasibility': 'Viabilidad',
+    'criterion.portfolio': 'Portafolio/resultados',
+    'criterion.networking': 'Oportunidades de networking',
+    'scoring.adjust': 'Ajustar las ponderaciones',
+    'scoring.help': 'Reordena los cursos según lo que más te importa. Los totales siguen en la escala de 0 a {max}.',
+    'scoring.weightAria': 'Ponderación: {criterion}',
+    'scoring.reset': 'Restablecer valores predeterminados',
+    'scoring.breakdown': 'Desglose de la puntuación',
+    'scoring.total': 'Puntuación: {total}',
+    'scoring.points': '{points} pts',
+
+    'cost.summary': 'Gasto propio estimado:',
+    'cost.tuition': 'Matrícula',
+    'cost.unknown': 'Desconocida',
+    'cost.cheveningPays': 'Paga Chevening',
+    'cost.fullFee': 'Matrícula completa (MBA con tope)',
+    'cost.living': 'Costes de vida ({months} meses, {place})',
+    'cost.ukAverage': 'media del Reino Unido',
+    'cost.stipend': 'Asignación de Chevening',
+    'cost.youFund': 'Pagas tú',
+    'cost.footnote': 'Estimaciones basadas en costes estudiantiles y asignaciones habituales de {year}; no incluyen vuelos ni visados, que Chevening también cubre.',
+    'cost.atLeast': 'al menos {amount} (matrícula del MBA desconocida)',
+    'cost.assumeMbaFee': 'Matrícula del MBA desconocida; Chevening cubre hasta {cap} y tú pagas el resto.',
+    'cost.assumeDuration': 'Duración desconocida; se suponen {months} meses.',
+    'cost.assumeCity': 'Ciudad no reconocida; se usaron costes habituales fuera de Londres.',
+    'region.london': 'Londres',
+    'region.southEast': 'sureste de Inglaterra',
+    'region.southWest': 'suroeste de Inglaterra',
+    'region.east': 'este de Inglaterra',
+    'region.midlands': 'Midlands',
+    'region.north': 'norte de Inglaterra',
+    'region.scotland': 'Escocia',
+    'region.wales': 'Gales',
+    'region.northernIreland': 'Irlanda del Norte',
+
+    'compare.toggle': 'Comparar',
+    'compare.toolbar': 'Comparar cursos',
+    'compare.hint': 'Marca de {min} a {max} cursos para compararlos lado a lado.',
+    'compare.selected': '{count} de {max} cursos seleccionados.',
+    'compare.open': 'Comparar selección',
+    'compare.clear': 'Borrar selección',
+    'compare.heading': 'Comparando {count} cursos',
+    'compare.close': 'Cerrar comparación',
+    'compare.help': 'Las filas resaltadas difieren entre los cursos. Exporta o imprime los resultados para compartir esta comparación.',
+    'compare.criterion': 'Criterio',
+    'compare.row.city': 'Ciudad',
+    'compare.row.start': 'Inicio',
+    'compare.row.duration': 'Duración',
+    'compare.row.fee': 'Matrícula',
+    'compare.row.eligibility': 'Elegibilidad',
+    'compare.row.mba': 'Tope del MBA',
+    'compare.row.cost_gap': 'Pagas tú (estimación)',
+    'compare.row.score': 'Puntuación',
+    'compare.row.rationale': 'Justificación Chevening',
+    'compare.eligible': 'Elegible',
+    'compare.ineligible': 'No elegible',
+    'compare.unverified': 'Sin verificar',
+    'compare.notMba': 'No es un MBA',
+    'compare.mbaFeeUnknown': 'Matrícula desconocida; Chevening paga hasta {cap}',
+    'compare.mbaAboveCap': 'Pagas {amount} por encima del tope de {cap}',
+    'compare.mbaWithinCap': 'Dentro del tope de {cap}',
+
+    'trio.heading': 'Arma tu propio trío',
+    'trio.help': 'Parte de la sugerencia de la IA y luego añade, quita y arrastra cursos según tu orden de preferencia.',
+    'trio.yourChoices': 'Tus opciones',
+    'trio.available': 'Cursos disponibles',
+    'trio.reset': 'Volver al trío de la IA',
+    'trio.choice': 'Opción {number}:',
+    'trio.emptySlot': 'añade un curso de la lista',
+    'trio.youFund': 'pagas {amount}',
+    'trio.passes': 'Cumple las reglas de elegibilidad',
+    'trio.fails': 'No cumple las reglas de elegibilidad',
+    'trio.unconfirmed': 'Elegibilidad sin confirmar',
+    'trio.moveUp': 'Subir',
+    'trio.moveDown': 'Bajar',
+    'trio.remove': 'Quitar',
+    'trio.rankedOrigin': 'Puesto n.º {rank}',
+    'trio.alternativeOrigin': 'Alternativa',
+    'trio.cityUnknown': 'ciudad desconocida',
+    'trio.add': 'Añadir',
+    'trio.added': 'Añadido',
+    'trio.costRange': 'De {low} a {high}, según la oferta que aceptes',
+    'trio.unknownFees.one': 'Se desconoce la matrícula de {count} MBA, así que su diferencia no está incluida.',
+    'trio.unknownFees.other': 'Se desconoce la matrícula de {count} MBA, así que sus diferencias no están incluidas.',
+    'trio.summaryHeading': 'Tus opciones para la solicitud Chevening',
+    'trio.summaryHelp': 'Introdúcelas en este orden en el formulario de Chevening.',
+    'trio.copy': 'Copiar opciones',
+    'trio.copied': 'Copiado.',
+    'trio.copyFailed': 'No se pudo copiar; selecciona el texto.',
+    'trio.check.count': 'Tres cursos elegidos.',
+    'trio.check.missing.one': 'Elige {count} curso más; el formulario de Chevening pide tres.',
+    'trio.check.missing.other': 'Elige {count} cursos más; el formulario de Chevening pide tres.',
+    'trio.check.ineligible': 'No elegibles: {courses}. Sustitúyelos antes de presentar la solicitud.',
+    'trio.check.unverified': 'Elegibilidad no confirmada para {courses}. Compruébalo en la web de la universidad.',
+    'trio.check.eligible': 'Todas las opciones cumplen las reglas de elegibilidad.',
+    'trio.check.sameUniversity': 'Más de una opción en {universities}. Está permitido, pero repartir las universidades reduce el riesgo de quedarte sin ninguna oferta.',
+    'trio.check.differentUniversities': 'Cada opción está en una universidad distinta.',
+    'trio.check.sameRegion': 'Los tres cursos están en {region}. Considera una opción en otra parte del Reino Unido para diversificar costes y ofertas.',
+    'trio.check.spread': 'Repartidos entre {regions}.',
+    'trio.check.mbaFeeCap': 'Límite de matrícula del MBA de {cap}: {courses}.',
+    'trio.check.mbaFeeUnknown': '{programme} ({university}): matrícula desconocida',
+    'trio.check.mbaTopUp': '{programme} ({university}): financias {amount}',
+    'trio.check.mixedFields': 'Tus opciones abarcan {fields}. Los comités buscan un plan de estudios coherente; mantén el trío dentro de uno o dos campos relacionados.',
+    'trio.check.oneField': 'Campo de estudio coherente: {fields}.',
+    'field.media': 'medios y comunicación',
+    'field.policy': 'políticas públicas y gobernanza',
+    'field.development': 'estudios de desarrollo',
+    'field.business': 'empresa y gestión',
+    'field.law': 'derecho',
+    'field.health': 'salud',
+    'field.data': 'datos e informática',
+    'field.environment': 'medio ambiente y sostenibilidad',
+    'field.education': 'educación',
+    'field.engineering': 'ingeniería',
+
+    'essay.heading': 'Espacio de redacción',
+    'essay.help': 'Redacta aquí tus cuatro ensayos Chevening. Cada uno tiene un límite de {limit} palabras. Los borradores se guardan en este navegador mientras escribes. Los ensayos Chevening se escriben en inglés.',
+    'essay.talkingPoints': 'Puntos clave',
+    'essay.insert': 'Insertar',
+    'essay.insertImpact': 'Insertar tu frase de impacto en tu país',
+    'essay.draftLabel': 'Borrador: {title}',
+    'essay.placeholder': 'Escribe aquí tu ensayo «{title}»…',
+    'essay.review': 'Revisar este borrador',
+    'essay.reviewing': 'Revisando…',
+    'essay.words': '{words} / {limit} palabras',
+    'essay.saved': 'Guardado',
+    'essay.notSaved': 'No guardado: el almacenamiento del navegador no está disponible',
+    'essay.feedbackHeading': 'Revisión del borrador',
+    'essay.rating.strong': 'Sólido',
+    'essay.rating.adequate': 'Adecuado',
+    'essay.rating.weak': 'Débil',
+    'essay.incomplete': 'La revisión llegó incompleta ({count} problema(s)); pueden faltar criterios.',
+    'essay.failed': 'La revisión falló. Vuelve a intentarlo.',
+
+    'batch.summary': 'Modo asesor: analizar varios CV',
+    'batch.help': 'Añade varios CV y completa los datos de cada candidato, o impórtalos desde un manifiesto CSV con las columnas file, name, fields, locations, impact y year. Las filas del manifiesto se asocian a los CV por nombre de archivo. Los resultados se redactan en inglés y no se guardan.',
+    'batch.addCvs': 'Añadir CV',
+    'batch.importManifest': 'Importar manifiesto CSV',
+    'batch.empty': 'Todavía no hay candidatos.',
+    'batch.manifestFailed': 'No se pudo leer el manifiesto {fileName}.',
+    'batch.noFileColumn': 'No se encontró la columna de archivo. Se esperaba una de: {columns}.',
+    'batch.rowNoFile': 'Fila {row}: sin nombre de archivo de CV, omitida.',
+    'batch.rowBadYear': 'Fila {row}: no se entiende el año de inicio «{year}»; se usa el predeterminado.',
+    'batch.unsupportedFile': '{fileName}: no es un archivo PDF ni DOCX, omitido.',
+    'batch.col.candidate': 'Candidato',
+    'batch.col.cv': 'Archivo del CV',
+    'batch.col.fields': 'Áreas de interés',
+    'batch.col.locations': 'Ubicaciones',
+    'batch.col.impact': 'Impacto en el país',
+    'batch.col.year': 'Año de inicio',
+    'batch.col.status': 'Estado',
+    'batch.col.trio': 'Trío Chevening',
+    'batch.col.issues': 'Problemas de elegibilidad',
+    'batch.col.gaps': 'Principales carencias',
+    'batch.remove': 'Quitar {name}',
+    'batch.missing': 'Falta: {details}',
+    'batch.missing.file': 'archivo del CV',
+    'batch.missing.fields': 'áreas de interés',
+    'batch.missing.impact': 'impacto en el país',
+    'batch.ready': 'Listo',
+    'batch.status.queued': 'En cola',
+    'batch.status.running': 'Analizando…',
+    'batch.status.done': 'Hecho',
+    'batch.status.failed': 'Error: {error}',
+    'batch.status.cancelled': 'Cancelado',
+    'batch.run.one': 'Analizar {count} CV',
+    'batch.run.other': 'Analizar {count} CV',
+    'batch.progress': '{finished} de {total} analizados…',
+    'batch.finished': 'Terminado: {done} analizados, {failed} con error.',
+    'batch.cancelled': 'Cancelado tras {finished} de {total}.',
+    'batch.cohortHeading': 'Informe de la cohorte',
+    'batch.noIssues': 'Ninguno',
+    'batch.open': 'Abrir',
+    'batch.exportCsv': 'Exportar CSV',
+
+    'pitfalls.heading': 'Errores frecuentes en las solicitudes Chevening',
+    'pitfalls.close': 'Cerrar ventana',
+    'pitfalls.duration.title': 'Duración del curso:',
+    'pitfalls.duration.body': 'Los cursos deben durar entre 9 y 12 meses. Si duran más, no son elegibles.',
+    'pitfalls.type.title': 'Tipo de curso:',
+    'pitfalls.type.body': 'Solo son elegibles los másteres presenciales a tiempo completo. Los MRes, los doctorados y los cursos a tiempo parcial no lo son.',
+    'pitfalls.location.title': 'Ubicación:',
+    'pitfalls.location.body': 'El curso debe impartirse en el Reino Unido. Los cursos a distancia no son elegibles, aunque los ofrezca una universidad británica.',
+    'pitfalls.branch.title': 'Campus en Londres:',
+    'pitfalls.branch.body': 'Ten cuidado con los campus londinenses de universidades con sede en otro lugar. Asegúrate de que estén plenamente integrados y sean elegibles.',
+    'pitfalls.presessional.title': 'Cursos preparatorios:',
+    'pitfalls.presessional.body': 'No se cubren los costes de los cursos preparatorios de inglés.',
+    'pitfalls.offer.title': 'Fecha límite de ofertas:',
+    'pitfalls.offer.body': 'Debes subir al menos una oferta incondicional al portal de Chevening antes de la fecha límite oficial.',
+};
@@ -0,0 +1,494 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { MessageKey } from './en';
+
+// --- French Messages ---
+
+export const fr: Partial<Record<MessageKey, string>> = {
+    'app.title': 'Chevening Course Matchmaker',
+    'app.tagline': 'Trouvez, à partir de votre CV, le master britannique éligible à Chevening qui vous correspond.',
+    'language.label': 'Langue',
+    'footer.rights': 'Tous droits réservés.',
+
+    'deadline.label': 'Prochaine étape Chevening',
+    'deadline.verify': '(Vérifier la date officielle)',
+    'deadline.none.label': 'Cycle de candidature Chevening',
+    'deadline.none.text': 'Aucune date à venir n’est encore configurée.',
+    'deadline.upcoming': '{milestone} ({cycle}) dans',
+    'deadline.upcomingProvisional': '{milestone} ({cycle}, provisoire) dans',
+    'deadline.ending': '{milestone} ({cycle}) se termine dans',
+    'deadline.endingProvisional': '{milestone} ({cycle}, provisoire) se termine dans',
+    'milestone.applications_open': 'Ouverture des candidatures',
+    'milestone.application_deadline': 'Date limite de candidature',
+    'milestone.references_deadline': 'Date limite des références',
+    'milestone.interviews': 'Entretiens',
+    'milestone.offer_deadline': 'Date limite des offres inconditionnelles',
+    'milestone.course_start': 'Début des cours',
+    'timeline.title': 'Cycle Chevening {cycle} (cours débutant en {year})',
+    'timeline.unpublished': 'Cycle Chevening pour les cours débutant en {year}',
+    'timeline.now': 'En cours',
+    'timeline.next': 'À venir',
+    'timeline.provisional': 'Dates provisoires fondées sur les cycles précédents. Vérifiez-les sur le calendrier officiel de Chevening.',
+
+    'form.cv.label': 'Téléversez votre CV',
+    'form.cv.choose': 'Cliquez pour choisir un fichier',
+    'form.cv.change': 'Changer de fichier',
+    'form.cv.selected': 'Sélectionné : {fileName}',
+    'form.cv.formats': 'Formats acceptés : PDF, DOCX',
+    'form.cv.privacy': 'Votre CV est d’abord lu dans votre navigateur pour que vous puissiez le vérifier. Le fichier n’est envoyé pour analyse qu’au moment de la recherche et n’est conservé que si vous choisissez de l’enregistrer ci-dessous. Les analyses enregistrées restent dans ce navigateur.',
+    'form.fields.label': 'Domaines visés (séparés par des virgules)',
+    'form.fields.placeholder': 'ex. : médias numériques, politique des industries créatives',
+    'form.fields.aria': 'Domaines visés',
+    'form.locations.label': 'Lieux préférés au Royaume-Uni (facultatif)',
+    'form.locations.placeholder': 'ex. : London, Midlands, Scotland',
+    'form.locations.aria': 'Lieux préférés au Royaume-Uni',
+    'form.impact.label': 'Impact pour votre pays, en une phrase',
+    'form.impact.placeholder': 'Comment vos études profiteront à votre pays',
+    'form.year.label': 'Année de début visée',
+    'form.saveCv': 'Conserver une copie de mon CV avec cette analyse (dans ce navigateur uniquement)',
+    'form.modelLanguage': 'Rédiger les justifications et les points clés en {language} (les noms des cours restent en anglais)',
+    'form.submit': 'Trouver mes cours',
+    'form.pitfalls': 'Voir les pièges courants',
+    'form.experienceConfirm': '{message}\n\nRechercher des cours malgré tout ?',
+
+    'cv.heading': 'Vérifiez ce qui a été lu dans votre CV',
+    'cv.help': 'Lu dans votre navigateur ; rien n’a encore été envoyé. Corrigez ce qui est erroné : vos corrections seront envoyées avec le CV.',
+    'cv.roles': 'Postes',
+    'cv.addRole': '+ Ajouter un poste',
+    'cv.education': 'Formation',
+    'cv.addEducation': '+ Ajouter un diplôme',
+    'cv.leadership': 'Leadership et influence',
+    'cv.leadershipLabel': 'Éléments de leadership, un par ligne',
+    'cv.leadershipPlaceholder': 'Un élément par ligne',
+    'cv.showText': 'Afficher le texte extrait',
+    'cv.reading': 'Lecture de votre CV…',
+    'cv.read': '{words} mots lus dans votre {format}.',
+    'cv.unreadable': 'Ce fichier n’a pas pu être lu dans le navigateur ; rien ne peut donc être vérifié avant l’envoi. L’IA essaiera tout de même de lire le fichier.',
+    'cv.warning.scanned': 'Peu ou pas de texte trouvé dans ce PDF. Il s’agit peut-être d’une image numérisée ; les informations ci-dessous peuvent donc être incomplètes. L’IA lira tout de même le fichier.',
+    'cv.warning.emptyDocx': 'Aucun texte trouvé dans ce fichier DOCX.',
+    'cv.noRoles': 'Aucun poste trouvé.',
+    'cv.noEducation': 'Aucun diplôme trouvé.',
+    'cv.jobTitle': 'Intitulé du poste',
+    'cv.organisation': 'Organisation',
+    'cv.startMonth': 'Mois de début',
+    'cv.endMonth': 'Mois de fin',
+    'cv.current': 'Actuel',
+    'cv.removeRole': 'Supprimer le poste',
+    'cv.qualification': 'Diplôme',
+    'cv.institution': 'Établissement',
+    'cv.year': 'Année',
+    'cv.removeEducation': 'Supprimer le diplôme',
+    'cv.experience.unknown': 'Aucun poste daté trouvé. Ajoutez vos postes pour vérifier l’exigence de deux ans d’expérience professionnelle.',
+    'cv.experience.pass': 'Expérience professionnelle trouvée : {duration} ; Chevening exige au moins 2 ans.',
+    'cv.experience.fail': 'Expérience professionnelle trouvée : seulement {duration} ; Chevening exige au moins 2 ans (2 800 heures) à la date limite de candidature. Le temps partiel, le bénévolat et les stages peuvent compter : ajoutez les postes manquants.',
+    'cv.years.one': '{count} an',
+    'cv.years.other': '{count} ans',
+    'cv.months.one': '{count} mois',
+    'cv.months.other': '{count} mois',
+
+    'catalogue.summary': 'Parcourir l’index des cours (fonctionne hors ligne)',
+    'catalogue.search': 'Rechercher une université ou un programme',
+    'catalogue.searchAria': 'Rechercher dans l’index des cours',
+    'catalogue.city': 'Ville',
+    'catalogue.cityAria': 'Filtrer par ville',
+    'catalogue.awardAria': 'Filtrer par diplôme',
+    'catalogue.anyAward': 'Tous les diplômes',
+    'catalogue.rulesOnly': 'Conforme aux règles Chevening',
+    'catalogue.mbaOnly': 'MBA uniquement',
+    'catalogue.meta': 'Index des cours v{version} · {count} cours · {source}',
+    'catalogue.showing': '{shown} cours affichés sur {count}',
+    'catalogue.count.one': '{count} cours',
+    'catalogue.count.other': '{count} cours',
+    'catalogue.feeUnknown': 'À vérifier sur le site de l’université',
+    'catalogue.coursePage': 'Page du cours →',
+
+    'history.heading': 'Analyses enregistrées',
+    'history.help': 'Les résultats précédents sont conservés dans ce navigateur pour que vous puissiez les rouvrir sans nouvelle analyse.',
+    'history.compareSelected': 'Comparer la sélection',
+    'history.selectTwo': 'Sélectionnez deux analyses à comparer ({selected}/2)',
+    'history.selectForComparison': 'Sélectionner pour comparer',
+    'history.courses.one': '{count} cours',
+    'history.courses.other': '{count} cours',
+    'history.open': 'Ouvrir',
+    'history.rename': 'Renommer',
+    'history.delete': 'Supprimer',
+    'history.nameLabel': 'Nom de l’analyse',
+    'history.confirmDelete': 'Supprimer « {name} » ? Cette action est irréversible.',
+    'history.openFailed': 'Impossible d’ouvrir l’analyse enregistrée. Le stockage de ce navigateur est peut-être plein ou bloqué.',
+    'history.renameFailed': 'Impossible de renommer l’analyse. Le stockage de ce navigateur est peut-être plein ou bloqué.',
+    'history.deleteFailed': 'Impossible de supprimer « {name} ». Le stockage de ce navigateur est peut-être plein ou bloqué.',
+    'history.saveFailed': 'Cette analyse n’a pas pu être ajoutée aux analyses enregistrées. Le stockage de ce navigateur est peut-être plein ou bloqué.',
+    'history.trioFailed': 'Votre trio n’a pas pu être enregistré avec l’analyse. Le stockage de ce navigateur est peut-être plein ou bloqué.',
+    'history.compareHeading': 'Comparaison des analyses enregistrées',
+    'history.compareHelp': 'Les éléments surlignés n’apparaissent que dans l’une des deux analyses.',
+    'history.row.date': 'Date',
+    'history.row.fields': 'Domaines visés',
+    'history.row.locations': 'Lieux',
+    'history.row.year': 'Année de début',
+    'history.row.cv': 'CV',
+    'history.row.model': 'Modèle',
+    'history.row.prompt': 'Version du prompt',
+    'history.row.trio': 'Trio',
+    'history.row.ranked': 'Cours classés',
+    'history.closeComparison': 'Fermer la comparaison',
+
+    'progress.preparing': 'Préparation de votre CV…',
+    'progress.waiting': 'En attente de la réponse de l’IA…',
+    'progress.profile': 'Analyse de votre CV au regard des critères Chevening…',
+    'progress.trio': 'Choix de votre trio Chevening…',
+    'progress.bullets': 'Rédaction des points clés pour les essais…',
+    'progress.alternatives': 'Ajout de cours alternatifs…',
+    'progress.notes': 'Ajout des dernières remarques…',
+    'progress.ranking': 'Classement des cours : {count} trouvés jusqu’ici…',
+    'progress.receiving': 'Réception des résultats…',
+    'progress.retrying': 'La requête à l’IA a échoué ; nouvel essai dans {seconds} s (tentative {attempt} sur {max})…',
+    'progress.cancel': 'Annuler',
+
+    'error.attempts': '{attempts} tentatives avant abandon.',
+    'error.retry': 'Réessayer',
+    'error.showDiagnostics': 'Afficher les diagnostics',
+    'error.noFile': 'Aucun fichier de CV n’a été sélectionné.',
+    'error.fileType': 'Type de fichier non valide. Téléversez un fichier PDF ou DOCX.',
+    'error.invalidFile.title': 'Fichier de CV non pris en charge',
+    'error.invalidFile.guidance': 'Téléversez votre CV au format PDF ou DOCX. S’il est dans un autre format, exportez-le ou enregistrez-le d’abord en PDF.',
+    'error.network.title': 'Impossible de joindre le service d’IA',
+    'error.network.message': 'La requête a échoué avant de recevoir une réponse.',
+    'error.network.guidance': 'Vérifiez votre connexion Internet, puis réessayez. Les VPN et les pare-feu d’entreprise bloquent parfois le service d’IA.',
+    'error.rateLimit.title': 'Le service d’IA est saturé',
+    'error.rateLimit.message': 'La requête a été refusée car le quota ou la limite de débit a été atteint (HTTP 429).',
+    'error.rateLimit.guidance': 'Patientez une minute puis réessayez. Si le problème persiste, la clé d’API a sans doute épuisé son quota quotidien.',
+    'error.auth.title': 'Le service d’IA a refusé la clé d’API',
+    'error.auth.message': 'La clé d’API est absente, non valide ou non autorisée pour ce modèle.',
+    'error.auth.guidance': 'Si vous êtes le développeur, vérifiez GEMINI_API_KEY et GEMINI_MODEL dans .env.local. Sinon, contactez la personne qui a partagé cette application.',
+    'error.server.title': 'Le service d’IA a rencontré un problème',
+    'error.server.message': 'Le service d’IA a renvoyé HTTP {status}.',
+    'error.server.guidance': 'C’est généralement temporaire. Réessayez dans quelques minutes.',
+    'error.safety.title': 'L’IA a refusé de répondre',
+    'error.safety.message': 'La réponse a été bloquée ({reason}).',
+    'error.safety.guidance': 'Cela peut arriver lorsqu’un CV contient des données personnelles, comme des numéros d’identité, ou un texte signalé par le modèle. Retirez-les du CV ou reformulez vos domaines visés et votre phrase d’impact, puis réessayez.',
+    'error.emptyResponse.title': 'L’IA n’a rien renvoyé',
+    'error.emptyResponse.message': 'La réponse ne contenait aucun texte.',
+    'error.emptyResponse.guidance': 'Réessayez. Si le problème persiste, essayez un CV plus court ou moins de domaines visés.',
+    'error.invalidJson.title': 'La réponse de l’IA était mal formée',
+    'error.invalidJson.truncated': 'La réponse a été interrompue avant la fin.',
+    'error.invalidJson.message': 'La réponse n’était pas du JSON valide.',
+    'error.invalidJson.guidance': 'Réessayez. Moins de domaines ou de lieux raccourcissent la réponse et réduisent le risque de coupure.',
+    'error.emptyResult.title': 'Aucun résultat exploitable',
+    'error.emptyResult.message': 'La réponse de l’IA ne contenait aucun résultat exploitable.',
+    'error.emptyResult.guidance': 'Élargissez vos domaines ou vos lieux, puis relancez la recherche.',
+    'error.unknown.title': 'Une erreur s’est produite',
+    'error.unknown.message': 'Une erreur inconnue s’est produite.',
+    'error.unknown.guidance': 'Réessayez. Si l’échec persiste, copiez les diagnostics ci-dessous dans un rapport de bogue.',
+    'error.config.title': 'Erreur de configuration de l’application',
+    'error.config.message': 'Cette application n’est pas configurée pour se connecter au service d’IA, car aucune clé d’API n’a été fournie. Si vous êtes utilisateur, contactez la personne qui vous l’a partagée. Si vous êtes le développeur, vérifiez que la clé d’API est bien définie dans votre environnement, ou définissez AI_PROVIDER=mock pour utiliser des données d’exemple.',
+
+    'diagnostics.help': 'Tentatives échouées pour joindre l’IA pendant cette session. Copiez-les dans un rapport de bogue ; elles ne contiennent rien de votre CV.',
+    'diagnostics.copy': 'Copier le rapport',
+    'diagnostics.clear': 'Effacer',
+    'diagnostics.summary.one': 'Diagnostics ({count} tentative échouée pendant cette session)',
+    'diagnostics.summary.other': 'Diagnostics ({count} tentatives échouées pendant cette session)',
+    'diagnostics.copied': 'Copié. Collez-le dans votre rapport de bogue.',
+    'diagnostics.copyFailed': 'Copie impossible ; sélectionnez plutôt les entrées ci-dessus.',
+
+    'results.export': 'Exporter les résultats',
+    'results.exportLabel': 'Exporter :',
+    'results.exportPdf': 'PDF / Imprimer',
+    'results.exportMarkdown': 'Markdown',
+    'results.exportCopy': 'Copier le Markdown',
+    'results.exportJson': 'JSON',
+    'results.copied': 'Copié dans le presse-papiers.',
+    'results.copyFailed': 'Copie impossible ; téléchargez plutôt le fichier Markdown.',
+    'results.partialTitle': 'Résultat partiel :',
+    'results.partialBody': 'la réponse de l’IA était incomplète, certaines sections peuvent donc manquer ou être abrégées. Tout ce qui s’affiche ci-dessous a passé la validation.',
+    'results.showIssues.one': 'Afficher {count} problème',
+    'results.showIssues.other': 'Afficher {count} problèmes',
+    'results.repaired': 'La réponse était mal formée et a dû être réparée ; certaines sections peuvent manquer.',
+    'validation.notJson': 'La réponse n’est pas un objet JSON.',
+    'validation.missing': '{path} est absent.',
+    'validation.notObject': '{path} n’est pas un objet.',
+    'validation.notObjectSkipped': '{path} n’est pas un objet et a été ignoré.',
+    'validation.invalidItems.one': '{path} contient {count} élément non valide.',
+    'validation.invalidItems.other': '{path} contient {count} éléments non valides.',
+    'validation.noIdentity': '{path} n’a ni université ni programme et a été ignoré.',
+    'validation.noVerdict': '{path} n’a pas de verdict is_eligible.',
+    'validation.noScores': '{path} n’a aucune note détaillée.',
+    'validation.missingScores': '{path} ne contient pas {criteria} ; noté 0.',
+    'validation.duplicateRank': '{programme} reprend le rang {rank} ; déplacé au rang {newRank}.',
+    'validation.badRating': '{path} ne fait pas partie de {ratings} ; traité comme adequate.',
+    'validation.noFeedback': 'Aucun retour pour : {criteria}.',
+    'results.savedRun': 'Analyse enregistrée {name} du {date}. Téléversez de nouveau {fileName} pour la relancer.',
+    'results.profile': 'Analyse du CV au regard des critères Chevening',
+    'results.strengths': 'Points forts',
+    'results.gaps': 'Lacunes possibles',
+    'results.trio': 'Votre trio Chevening recommandé',
+    'results.noteLabel': 'Remarque :',
+    'results.sameUniversity': 'Les trois choix relèvent de la même université. C’est autorisé, mais Chevening recommande souvent de diversifier vos choix pour répartir le risque.',
+    'results.mbaLabel': 'Plafond des frais de MBA :',
+    'results.mbaWarning': 'Chevening plafonne les frais de scolarité des MBA à {cap}. La différence est à votre charge.',
+    'results.ranked': 'Cours les mieux classés',
+    'results.rankedPreview': 'Cours classés',
+    'results.soFar': '({count} jusqu’ici)',
+    'results.aiRank': 'Rang IA n° {rank}',
+    'results.months': '{months} mois',
+    'results.feeNA': 'N. D.',
+    'results.whyRank': 'Pourquoi ce rang ?',
+    'results.rationale': 'Justification Chevening :',
+    'results.coursePage': 'Voir la page du cours →',
+    'results.alternatives': 'Autres options',
+    'results.notes': 'Remarques importantes',
+    'results.talkingPoints': 'Points clés pour la lettre de motivation',
+    'results.leadership': 'Leadership',
+    'results.networking': 'Réseautage',
+    'results.careerPlan': 'Projet professionnel',
+
+    'eligibility.eligible': 'Éligible à Chevening ✅',
+    'eligibility.ineligible': 'Non éligible ❌',
+    'eligibility.unverified': 'Éligibilité non vérifiée ⚠️',
+    'eligibility.checkLabel': 'Vérifiez ce cours :',
+    'eligibility.disagreeEligible': 'l’IA l’a jugé éligible, mais notre vérification des règles indique : {status}.',
+    'eligibility.disagreeIneligible': 'l’IA l’a jugé non éligible, mais notre vérification des règles indique : {status}.',
+    'eligibility.status.eligible': 'éligible',
+    'eligibility.status.ineligible': 'non éligible',
+    'eligibility.status.unverified': 'non vérifié',
+    'eligibility.checks': 'Contrôles d’éligibilité',
+    'eligibility.aiVerdict': 'Avis de l’IA : {reason}',
+    'rule.fullTime': 'Temps plein',
+    'rule.fullTime.pass': 'Proposé à temps plein.',
+    'rule.fullTime.fail': 'Mode d’études : « {mode} ».',
+    'rule.fullTime.unknown': 'Mode d’études non précisé.',
+    'rule.ukBased': 'Au Royaume-Uni',
+    'rule.ukBased.pass': 'Enseigné à {city}.',
+    'rule.ukBased.fail': 'Dispensé hors du Royaume-Uni ou à distance ({place}).',
+    'rule.ukBased.ukDomain': 'Domaine universitaire britannique, mais aucune ville indiquée.',
+    'rule.ukBased.unconfirmed': 'Impossible de confirmer que « {city} » se trouve au Royaume-Uni.',
+    'rule.ukBased.noCity': 'Ville non précisée.',
+    'rule.taught': 'Master enseigné',
+    'rule.taught.pass': '{award} est un diplôme enseigné.',
+    'rule.taught.research': '{award} est un diplôme de recherche.',
+    'rule.taught.either': '{award} peut être enseigné ou par la recherche ; vérifiez la page du cours.',
+    'rule.taught.unknown': 'Type de diplôme non précisé.',
+    'rule.autumnStart': 'Début en sept./oct. {year}',
+    'rule.autumnStart.pass': 'Début : « {start} ».',
+    'rule.autumnStart.unconfirmed': 'Date de début non confirmée.',
+    'rule.autumnStart.notAutumn': 'Début : « {start} », pas en septembre ni en octobre.',
+    'rule.autumnStart.unreadable': 'Impossible de lire un mois de début dans « {start} ».',
+    'rule.autumnStart.noYear': 'Début à l’automne, mais l’année n’est pas précisée.',
+    'rule.autumnStart.wrongYear': 'Début en {years}, pas en {year}.',
+    'rule.duration': '{min} à {max} mois',
+    'rule.duration.pass': '{months} mois.',
+    'rule.duration.fail': '{months} mois, hors de la limite de {min} à {max} mois.',
+    'rule.duration.unknown': 'Durée non précisée.',
+    'rule.mbaFeeCap': 'Plafond des frais de MBA',
+    'rule.mbaFeeCap.pass': 'Frais dans la limite du plafond des MBA.',
+    'rule.mbaFeeCap.notMba': 'Pas un MBA.',
+    'rule.mbaFeeCap.unknown': 'Frais du MBA non précisés ; Chevening couvre jusqu’à {cap}.',
+    'rule.mbaFeeCap.fail': 'Les frais dépassent le plafond de {cap} ; vous devez financer {gap}.',
+
+    'index.notFound': 'Absent de l’index',
+    'index.notFoundTitle': 'Absent de l’index des cours v{version}. Il peut être inventé ou hors de l’index Chevening.',
+    'index.verified': 'Vérifié dans l’index ✓',
+    'index.verifiedTitle': 'Trouvé dans l’index des cours v{version}',
+    'index.filled': 'Complété depuis l’index des cours : {fields}.',
+    'index.field.duration_months': 'durée',
+    'index.field.fee_gbp': 'frais',
+    'index.field.study_mode': 'mode d’études',
+    'index.field.award': 'diplôme',
+    'index.field.city': 'ville',
+    'index.field.url': 'lien du cours',
+    'index.field.start_cycle': 'date de début',
+
+    'criterion.gap_fit': 'Adéquation au CV',
+    'criterion.chevening_relevance': 'Pertinence pour Chevening',
+    'criterion.uk_linkage': 'Liens/crédibilité au Royaume-Uni',
+    'criterion.feasibility': 'Faisabilité',
+    'criterion.portfolio': 'Portfolio/débouchés',
+    'criterion.networking': 'Occasions de réseautage',
+    'scoring.adjust': 'Ajuster les pondérations',
+    'scoring.help': 'Reclassez les cours selon ce qui compte le plus pour vous. Les totaux restent sur l’échelle de 0 à {max}.',
+    'scoring.weightAria': 'Pondération : {criterion}',
+    'scoring.reset': 'Rétablir les valeurs par défaut',
+    'scoring.breakdown': 'Détail du score',
+    'scoring.total': 'Score : {total}',
+    'scoring.points': '{points} pts',
+
+    'cost.summary': 'Reste à votre charge estimé :',
+    'cost.tuition': 'Frais de scolarité',
+    'cost.unknown': 'Inconnu',
+    'cost.cheveningPays': 'Pris en charge par Chevening',
+    'cost.fullFee': 'Totalité des frais (MBA plafonnés)',
+    'cost.living': 'Coût de la vie ({months} mois, {place})',
+    'cost.ukAverage': 'moyenne britannique',
+    'cost.stipend': 'Allocation Chevening',
+    'cost.youFund': 'À votre charge',
+    'cost.footnote': 'Estimations fondées sur les coûts étudiants et les allocations habituels de {year} ; hors billets d’avion et frais de visa, également pris en charge par Chevening.',
+    'cost.atLeast': 'au moins {amount} (frais du MBA inconnus)',
+    'cost.assumeMbaFee': 'Frais du MBA inconnus ; Chevening prend en charge jusqu’à {cap} et le reste est à votre charge.',
+    'cost.assumeDuration': 'Durée inconnue ; {months} mois supposés.',
+    'cost.assumeCity': 'Ville non reconnue ; coûts habituels hors de Londres utilisés.',
+    'region.london': 'Londres',
+    'region.southEast': 'Sud-Est de l’Angleterre',
+    'region.southWest': 'Sud-Ouest de l’Angleterre',
+    'region.east': 'Est de l’Angleterre',
+    'region.midlands': 'Midlands',
+    'region.north': 'Nord de l’Angleterre',
+    'region.scotland': 'Écosse',
+    'region.wales': 'Pays de Galles',
+    'region.northernIreland': 'Irlande du Nord',
+
+    'compare.toggle': 'Comparer',
+    'compare.toolbar': 'Comparer des cours',
+    'compare.hint': 'Cochez {min} à {max} cours pour les comparer côte à côte.',
+    'compare.selected': '{count} cours sélectionnés sur {max}.',
+    'compare.open': 'Comparer la sélection',
+    'compare.clear': 'Effacer la sélection',
+    'compare.heading': 'Comparaison de {count} cours',
+    'compare.close': 'Fermer la comparaison',
+    'compare.help': 'Les lignes surlignées diffèrent d’un cours à l’autre. Exportez ou imprimez les résultats pour partager cette comparaison.',
+    'compare.criterion': 'Critère',
+    'compare.row.city': 'Ville',
+    'compare.row.start': 'Début',
+    'compare.row.duration': 'Durée',
+    'compare.row.fee': 'Frais',
+    'compare.row.eligibility': 'Éligibilité',
+    'compare.row.mba': 'Plafond MBA',
+    'compare.row.cost_gap': 'À votre charge (estimation)',
+    'compare.row.score': 'Score',
+    'compare.row.rationale': 'Justification Chevening',
+    'compare.eligible': 'Éligible',
+    'compare.ineligible': 'Non éligible',
+    'compare.unverified': 'Non vérifié',
+    'compare.notMba': 'Pas un MBA',
+    'compare.mbaFeeUnknown': 'Frais inconnus ; Chevening paie jusqu’à {cap}',
+    'compare.mbaAboveCap': '{amount} à votre charge au-delà du plafond de {cap}',
+    'compare.mbaWithinCap': 'Dans le plafond de {cap}',
+
+    'trio.heading': 'Composez votre propre trio',
+    'trio.help': 'Partez de la suggestion de l’IA, puis ajoutez, retirez et faites glisser les cours dans votre ordre de préférence.',
+    'trio.yourChoices': 'Vos choix',
+    'trio.available': 'Cours disponibles',
+    'trio.reset': 'Revenir au trio de l’IA',
+    'trio.choice': 'Choix {number} :',
+    'trio.emptySlot': 'ajoutez un cours depuis la liste',
+    'trio.youFund': '{amount} à votre charge',
+    'trio.passes': 'Conforme aux règles d’éligibilité',
+    'trio.fails': 'Non conforme aux règles d’éligibilité',
+    'trio.unconfirmed': 'Éligibilité non confirmée',
+    'trio.moveUp': 'Monter',
+    'trio.moveDown': 'Descendre',
+    'trio.remove': 'Retirer',
+    'trio.rankedOrigin': 'Classé n° {rank}',
+    'trio.alternativeOrigin': 'Alternative',
+    'trio.cityUnknown': 'ville inconnue',
+    'trio.add': 'Ajouter',
+    'trio.added': 'Ajouté',
+    'trio.costRange': '{low} à {high}, selon l’offre que vous acceptez',
+    'trio.unknownFees.one': 'Frais inconnus pour {count} MBA ; le complément n’est pas inclus.',
+    'trio.unknownFees.other': 'Frais inconnus pour {count} MBA ; les compléments ne sont pas inclus.',
+    'trio.summaryHeading': 'Vos choix pour la candidature Chevening',
+    'trio.summaryHelp': 'Saisissez-les dans cet ordre sur le formulaire Chevening.',
+    'trio.copy': 'Copier les choix',
+    'trio.copied': 'Copié.',
+    'trio.copyFailed': 'Copie impossible ; sélectionnez plutôt le texte.',
+    'trio.check.count': 'Trois cours choisis.',
+    'trio.check.missing.one': 'Choisissez encore {count} cours ; le formulaire Chevening en demande trois.',
+    'trio.check.missing.other': 'Choisissez encore {count} cours ; le formulaire Chevening en demande trois.',
+    'trio.check.ineligible': 'Non éligibles : {courses}. Remplacez-les avant de candidater.',
+    'trio.check.unverified': 'Éligibilité non confirmée pour {courses}. Vérifiez sur le site de l’université.',
+    'trio.check.eligible': 'Tous les choix respectent les règles d’éligibilité.',
+    'trio.check.sameUniversity': 'Plusieurs choix à {universities}. C’est permis, mais varier les universités réduit le risque de n’obtenir aucune offre.',
+    'trio.check.differentUniversities': 'Chaque choix est dans une université différente.',
+    'trio.check.sameRegion': 'Les trois cours sont dans la même région : {region}. Envisagez une option ailleurs au Royaume-Uni pour diversifier les coûts et les offres.',
+    'trio.check.spread': 'Répartis entre : {regions}.',
+    'trio.check.mbaFeeCap': 'Plafond des frais de MBA de {cap} : {courses}.',
+    'trio.check.mbaFeeUnknown': '{programme} ({university}) : frais inconnus',
+    'trio.check.mbaTopUp': '{programme} ({university}) : vous financez {amount}',
+    'trio.check.mixedFields': 'Vos choix couvrent : {fields}. Les jurys attendent un projet d’études cohérent ; gardez le trio dans un ou deux domaines proches.',
+    'trio.check.oneField': 'Domaine d’études cohérent : {fields}.',
+    'field.media': 'médias et communication',
+    'field.policy': 'politiques publiques et gouvernance',
+    'field.development': 'études du développement',
+    'field.business': 'commerce et management',
+    'field.law': 'droit',
+    'field.health': 'santé',
+    'field.data': 'données et informatique',
+    'field.environment': 'environnement et durabilité',
+    'field.education': 'éducation',
+    'field.engineering': 'ingénierie',
+
+    'essay.heading': 'Atelier de rédaction',
+    'essay.help': 'Rédigez ici vos quatre essais Chevening. Chacun est limité à {limit} mots. Les brouillons sont enregistrés dans ce navigateur au fil de la saisie. Les essais Chevening se rédigent en anglais.',
+    'essay.talkingPoints': 'Points clés',
+    'essay.insert': 'Insérer',
+    'essay.insertImpact': 'Insérer votre phrase d’impact pour votre pays',
+    'essay.draftLabel': 'Brouillon : {title}',
+    'essay.placeholder': 'Rédigez ici votre essai « {title} »…',
+    'essay.review': 'Relire ce brouillon',
+    'essay.reviewing': 'Relecture…',
+    'essay.words': '{words} / {limit} mots',
+    'essay.saved': 'Enregistré',
+    'essay.notSaved': 'Non enregistré : le stockage du navigateur est indisponible',
+    'essay.feedbackHeading': 'Relecture du brouillon',
+    'essay.rating.strong': 'Solide',
+    'essay.rating.adequate': 'Correct',
+    'essay.rating.weak': 'Faible',
+    'essay.incomplete': 'La relecture est incomplète ({count} problème(s)) ; certains critères peuvent manquer.',
+    'essay.failed': 'La relecture a échoué. Veuillez réessayer.',
+
+    'batch.summary': 'Mode conseiller : analyser plusieurs CV',
+    'batch.help': 'Ajoutez plusieurs CV et renseignez les informations de chaque candidat, ou importez-les depuis un manifeste CSV avec les colonnes file, name, fields, locations, impact et year. Les lignes du manifeste sont associées aux CV par nom de fichier. Les résultats sont rédigés en anglais et ne sont pas enregistrés.',
+    'batch.addCvs': 'Ajouter des CV',
+    'batch.importManifest': 'Importer un manifeste CSV',
+    'batch.empty': 'Aucun candidat pour l’instant.',
+    'batch.manifestFailed': 'Impossible de lire le manifeste {fileName}.',
+    'batch.noFileColumn': 'Aucune colonne de fichier trouvée. Noms attendus : {columns}.',
+    'batch.rowNoFile': 'Ligne {row} : aucun nom de fichier CV, ignorée.',
+    'batch.rowBadYear': 'Ligne {row} : année de début « {year} » non comprise ; l’année par défaut est utilisée.',
+    'batch.unsupportedFile': '{fileName} : ni PDF ni DOCX, ignoré.',
+    'batch.col.candidate': 'Candidat',
+    'batch.col.cv': 'Fichier CV',
+    'batch.col.fields': 'Domaines visés',
+    'batch.col.locations': 'Lieux',
+    'batch.col.impact': 'Impact pour le pays',
+    'batch.col.year': 'Année de début',
+    'batch.col.status': 'Statut',
+    'batch.col.trio': 'Trio Chevening',
+    'batch.col.issues': 'Problèmes d’éligibilité',
+    'batch.col.gaps': 'Principales lacunes',
+    'batch.remove': 'Retirer {name}',
+    'batch.missing': 'Manquant : {details}',
+    'batch.missing.file': 'fichier CV',
+    'batch.missing.fields': 'domaines visés',
+    'batch.missing.impact': 'impact pour le pays',
+    'batch.ready': 'Prêt',
+    'batch.status.queued': 'En attente',
+    'batch.status.running': 'Analyse en cours…',
+    'batch.status.done': 'Terminé',
+    'batch.status.failed': 'Échec : {error}',
+    'batch.status.cancelled': 'Annulé',
+    'batch.run.one': 'Analyser {count} CV',
+    'batch.run.other': 'Analyser {count} CV',
+    'batch.progress': '{finished} sur {total} analysés…',
+    'batch.finished': 'Terminé : {done} analysés, {failed} en échec.',
+    'batch.cancelled': 'Annulé après {finished} sur {total}.',
+    'batch.cohortHeading': 'Rapport de cohorte',
+    'batch.noIssues': 'Aucun',
+    'batch.open': 'Ouvrir',
+    'batch.exportCsv': 'Exporter en CSV',
+
+    'pitfalls.heading': 'Pièges courants des candidatures Chevening',
+    'pitfalls.close': 'Fermer la fenêtre',
+    'pitfalls.duration.title': 'Durée du cours :',
+    'pitfalls.duration.body': 'Les cours doivent durer de 9 à 12 mois. Au-delà, ils ne sont pas éligibles.',
+    'pitfalls.type.title': 'Type de cours :',
+    'pitfalls.type.body': 'Seuls les masters à temps plein avec enseignement sont éligibles. Les MRes, les doctorats et les cours à temps partiel ne le sont pas.',
+    'pitfalls.location.title': 'Lieu :',
+    'pitfalls.location.body': 'Le cours doit se dérouler au Royaume-Uni. Les formations à distance ne sont pas éligibles, même proposées par une université britannique.',
+    'pitfalls.branch.title': 'Campus londoniens :',
+    'pitfalls.branch.body': 'Méfiez-vous des campus londoniens d’universités basées ailleurs. Assurez-vous qu’ils sont pleinement intégrés et éligibles.',
+    'pitfalls.presessional.title': 'Cours préparatoires :',
+    'pitfalls.presessional.body': 'Les frais des cours d’anglais préparatoires ne sont pas couverts.',
+    'pitfalls.offer.title': 'Date limite des offres :',
+    'pitfalls.offer.body': 'Vous devez avoir téléversé au moins une offre inconditionnelle sur le portail Chevening avant la date limite officielle.',
+};
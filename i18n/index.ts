@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { html } from '../html';
+import type { HtmlValue, SafeHtml } from '../html';
+import { ar } from './ar';
+import { en } from './en';
+import type { MessageKey } from './en';
+import { es } from './es';
+import { fr } from './fr';
+
+// --- Internationalisation ---
+// Message catalogues per language with English as the fallback for any key a
+// catalogue lacks. Static markup names its keys in `data-i18n*` attributes;
+// code calls `t`. Course data and model output are never translated here.
+
+export type { MessageKey } from './en';
+
+export type Locale = 'en' | 'ar' | 'fr' | 'es';
+
+export interface LocaleInfo {
+    id: Locale;
+    /** Name in the language itself, for the switcher. */
+    name: string;
+    dir: 'ltr' | 'rtl';
+    /** English name, used when asking the model to answer in this language. */
+    modelLanguage: string;
+}
+
+export const LOCALES: LocaleInfo[] = [
+    { id: 'en', name: 'English', dir: 'ltr', modelLanguage: 'English' },
+    { id: 'ar', name: 'العربية', dir: 'rtl', modelLanguage: 'Arabic' },
+    { id: 'fr', name: 'Français', dir: 'ltr', modelLanguage: 'French' },
+    { id: 'es', name: 'Español', dir: 'ltr', modelLanguage: 'Spanish' },
+];
+
+const CATALOGUES: Record<Locale, Partial<Record<MessageKey, string>>> = { en, ar, fr, es };
+
+const LOCALE_STORAGE_KEY = 'chevening-matchmaker:locale';
+
+let current: Locale = 'en';
+const listeners: (() => void)[] = [];
+
+function isLocale(value: unknown): value is Locale {
+    return LOCALES.some(locale => locale.id === value);
+}
+
+export function getLocale(): Locale {
+    return current;
+}
+
+export function localeInfo(locale: Locale = current): LocaleInfo {
+    return LOCALES.find(info => info.id === locale) as LocaleInfo;
+}
+
+export type MessageParams = Record<string, string | number>;
+
+/** The message for `key` in the current language, with `{name}` placeholders filled in. */
+export function t(key: MessageKey, params: MessageParams = {}): string {
+    const message = CATALOGUES[current][key] ?? en[key];
+    return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        const value = params[name];
+        return value === undefined ? placeholder : typeof value === 'number' ? formatNumber(value) : value;
+    });
+}
+
+/** Message families with plural forms, named without the `.one`/`.other` suffix. */
+export type PluralKey = MessageKey extends infer Key ? (Key extends `${infer Base}.other` ? Base : never) : never;
+
+/** The plural form of `key` that suits `count` in the current language; `{count}` is filled in. */
+export function tPlural(key: PluralKey, count: number, params: MessageParams = {}): string {
+    const form = `${key}.${new Intl.PluralRules(current).select(count)}`;
+    const known = form in CATALOGUES[current] || form in en;
+    return t((known ? form : `${key}.other`) as MessageKey, { count, ...params });
+}
+
+/** Like `t`, but parameters may be markup, e.g. a name in <strong>. The message text is escaped. */
+export function tHtml(key: MessageKey, params: Record<string, HtmlValue> = {}): SafeHtml {
+    const message = CATALOGUES[current][key] ?? en[key];
+    const parts = message.split(/\{(\w+)\}/).map((part, index) => (index % 2 === 1 ? params[part] ?? `{${part}}` : part));
+    return html`${parts}`;
+}
+
+// --- Deferred Messages ---
+// Rules engines and checks return messages as keys and parameters rather than
+// text, so results computed once still show in whatever language is current
+// when they are rendered, and in English inside exports.
+
+/** Plain values, amounts in pounds, lists joined with "and", or nested messages. */
+export type MessageParam = string | number | { gbp: number } | Message | (string | Message)[];
+
+export type Message =
+    | { key: MessageKey; params?: Record<string, MessageParam> }
+    | { pluralKey: PluralKey; count: number; params?: Record<string, MessageParam> };
+
+function resolveParam(value: MessageParam): string | number {
+    if (Array.isArray(value)) return formatList(value.map(item => (typeof item === 'string' ? item : tMessage(item))));
+    if (typeof value !== 'object') return value;
+    return 'gbp' in value ? formatGbp(value.gbp) : tMessage(value);
+}
+
+/** Translates a deferred message into the current language. */
+export function tMessage(message: Message): string {
+    const params = Object.fromEntries(Object.entries(message.params ?? {}).map(([name, value]) => [name, resolveParam(value)]));
+    return 'pluralKey' in message ? tPlural(message.pluralKey, message.count, params) : t(message.key, params);
+}
+
+// --- Formatting ---
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+    return new Intl.NumberFormat(current, options).format(value);
+}
+
+export function formatGbp(amount: number): string {
+    return formatNumber(Math.round(amount), { style: 'currency', currency: 'GBP', maximumFractionDigits: 0 });
+}
+
+/** e.g. "A, B and C", with the conjunction of the current language. */
+export function formatList(items: string[]): string {
+    return new Intl.ListFormat(current, { type: 'conjunction' }).format(items);
+}
+
+export function formatDate(iso: string, options: Intl.DateTimeFormatOptions): string {
+    return new Date(iso).toLocaleString(current, options);
+}
+
+/** e.g. "12d 4h 5m 6s" in English, with the narrow unit symbols of each language. */
+export function formatCountdown(milliseconds: number): string {
+    const units: [Intl.NumberFormatOptions['unit'], number][] = [
+        ['day', 1000 * 60 * 60 * 24],
+        ['hour', 1000 * 60 * 60],
+        ['minute', 1000 * 60],
+        ['second', 1000],
+    ];
+    let remaining = Math.max(0, milliseconds);
+    return units.map(([unit, size]) => {
+        const amount = Math.floor(remaining / size);
+        remaining -= amount * size;
+        return formatNumber(amount, { style: 'unit', unit, unitDisplay: 'narrow' });
+    }).join(' ');
+}
+
+// --- Static Markup ---
+
+const ATTRIBUTE_BINDINGS: [string, string][] = [
+    ['data-i18n-placeholder', 'placeholder'],
+    ['data-i18n-aria-label', 'aria-label'],
+    ['data-i18n-title', 'title'],
+];
+
+/** Fills every element under `root` that names a message key. */
+export function applyTranslations(root: ParentNode = document) {
+    root.querySelectorAll<HTMLElement>('[data-i18n]').forEach(element => {
+        element.textContent = t(element.dataset.i18n as MessageKey);
+    });
+    ATTRIBUTE_BINDINGS.forEach(([source, target]) => {
+        root.querySelectorAll<HTMLElement>(`[${source}]`).forEach(element => {
+            element.setAttribute(target, t(element.getAttribute(source) as MessageKey));
+        });
+    });
+}
+
+// --- Switching ---
+
+/** Runs after every language change, so components can re-render their text. */
+export function onLocaleChange(listener: () => void) {
+    listeners.push(listener);
+}
+
+/**
+ * Runs `render` with another language, e.g. English for exports, which sit
+ * alongside the English course data and essays they are shared with.
+ */
+export function withLocale<T>(locale: Locale, render: () => T): T {
+    const previous = current;
+    current = locale;
+    try {
+        return render();
+    } finally {
+        current = previous;
+    }
+}
+
+export function setLocale(locale: Locale) {
+    current = locale;
+    try {
+        localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    } catch {
+        // Storage may be unavailable (e.g. private mode); the choice lasts for this page only.
+    }
+    document.documentElement.lang = locale;
+    document.documentElement.dir = localeInfo(locale).dir;
+    document.title = t('app.title');
+    applyTranslations();
+    listeners.forEach(listener => listener());
+}
+
+/** The saved choice, else the browser's language when supported, else English. */
+export function initialLocale(): Locale {
+    try {
+        const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+        if (isLocale(stored)) return stored;
+    } catch {
+        // Fall through to the browser's language.
+    }
+    const browser = navigator.languages?.map(language => language.slice(0, 2).toLowerCase()).find(isLocale);
+    return browser ?? 'en';
+}
@@ -2,15 +2,58 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { GoogleGenAI, Type } from "@google/genai";
-
-let ai: GoogleGenAI | null = null;
-try {
-  ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-} catch (error) {
-  console.error("API Key initialization error:", error);
-  // ai will remain null, handled below
-}
+import {
+    DEFAULT_WEIGHTS,
+    SCORING_CRITERIA,
+    loadWeights,
+    saveWeights,
+} from './scoring';
+import type { CriterionId, ScoreWeights } from './scoring';
+import { MAX_ATTEMPTS, analyseCv } from './analysis';
+import { MAX_COMPARED, compareCourses, normaliseSelection } from './comparison';
+import { targetStartYear } from './cycles';
+import { initBatchPanel } from './components/batchPanel';
+import { initCatalogueBrowser } from './components/catalogueBrowser';
+import { initCycleTimeline } from './components/cycleTimeline';
+import { initDeadlineCountdown } from './components/deadlineCountdown';
+import { initDiagnosticsPanel } from './components/diagnosticsPanel';
+import { initCvReview } from './components/cvReview';
+import { mountEssayWorkspace } from './components/essayWorkspace';
+import { initHistoryPanel } from './components/historyPanel';
+import { initLanguageSwitcher } from './components/languageSwitcher';
+import {
+    renderAlternatives,
+    renderCompareBar,
+    renderCourseComparison,
+    renderExportToolbar,
+    renderNotes,
+    renderPartialResultBanner,
+    renderProfileAnalysis,
+    renderRankedCourseCards,
+    renderRankedCourses,
+    renderTalkingPointsPreview,
+    renderTrio,
+} from './components/results';
+import { mountTrioBuilder } from './components/trioBuilder';
+import { InvalidFileError, classifyError } from './errors';
+import type { AnalysisError } from './errors';
+import { downloadFile, exportFileName, toJson, toMarkdown, toPrintHtml } from './export';
+import { defaultRunName, getRun, hashFile, saveRun, saveRunTrio } from './history';
+import type { SavedRun } from './history';
+import { parsePartialJson } from './partialJson';
+import type { PartialJson } from './partialJson';
+import { promptInputsFromForm } from './prompt';
+import type { PromptInputs } from './prompt';
+import { CURRENT_PROMPT } from './prompts';
+import { html, prependHtml, setHtml } from './html';
+import { formatDate, getLocale, initialLocale, localeInfo, onLocaleChange, setLocale, t, tHtml, tMessage } from './i18n';
+import type { Message, MessageKey } from './i18n';
+import { createProviderFromEnv, CvPart, fileToGenerativePart } from './providers';
+import { validateAnalysis } from './validation';
+import type { AnalysisRun } from './types';
+import { readViewState, writeViewState } from './urlState';
+
+const provider = createProviderFromEnv();
 
 
 // --- DOM Elements ---
@@ -19,365 +62,430 @@ const submitButton = document.getElementById('submit-button') as HTMLButtonEleme
 const inputSection = document.getElementById('input-section') as HTMLElement;
 const loadingSection = document.getElementById('loading-section') as HTMLElement;
 const loadingMessage = document.getElementById('loading-message') as HTMLParagraphElement;
+const cancelButton = document.getElementById('cancel-button') as HTMLButtonElement;
 const resultsSection = document.getElementById('results-section') as HTMLElement;
 const errorSection = document.getElementById('error-section') as HTMLElement;
 const cvFileInput = document.getElementById('cv-file-input') as HTMLInputElement;
 const fileNameDisplay = document.getElementById('file-name-display') as HTMLSpanElement;
 const fileUploadLabel = document.querySelector('.file-upload-label') as HTMLLabelElement;
-const deadlineCountdown = document.getElementById('deadline-countdown') as HTMLSpanElement;
 const pitfallsButton = document.getElementById('pitfalls-button') as HTMLButtonElement;
 const pitfallsModal = document.getElementById('pitfalls-modal') as HTMLElement;
 const closeModalButton = document.getElementById('close-modal-button') as HTMLButtonElement;
-
-
-// --- System Prompt and Schema Definition ---
-const systemInstruction = `
-Role: You analyze a user’s CV and recommend UK master’s courses that are Chevening-eligible, using only the Postgrad/Chevening course index. Then you explain how each choice strengthens a Chevening application (leadership, networking, impact, UK fit), and you produce application-ready talking points.
-
-Hard data constraints:
-Search scope: Restrict course discovery to the Chevening-eligible index powered by Postgrad Solutions: the Postgrad Chevening search endpoint (https://www.postgrad.com/search/chevening/) and the official Chevening “Find a course”. Do not invent courses or scrape other sites. If a course isn’t in this index, say so and suggest close in-index substitutes. 
-Eligibility rules (must pass all): full-time; UK-based; taught master’s (not MRes); starts autumn (Sep/Oct); 9–12 months duration. Flag MBA fee-cap notes. Reject anything outside these rules. 
-
-Pipeline:
-1. Parse CV → strengths & gaps relevant to Chevening criteria (leadership, networking, clear country impact, academic readiness, UK/sector linkage).
-2. Query Postgrad/Chevening index with the user’s target fields and UK locations.
-3. Eligibility filter using the rules above; drop non-conforming items. For each recommended course, explicitly return an eligibility check object. If it fails, state why.
-4. Scoring (0–30): Gap fit vs CV (×3), Chevening relevance (×3), UK linkage/credibility (×2), Feasibility (×2), Portfolio/outcomes (×1), Networking exposure (×1).
-5. For each course, provide a short, expandable note explaining the rank, referencing the scoring criteria (e.g., "Ranked #1 due to strong alignment with your CV's leadership experience (gap-fit) and direct relevance to your country-impact goal (Chevening relevance).").
-6. Return a ranked Top-9 with Chevening-specific rationales + 3 close alternates, a 3-course strategy (the trio you’d actually list on the form), and brief talking points for each essay section.
-7. Truthfulness: If fees/start cycles are unclear in the index, mark them “Verify on university site.” No guesses.
-8. MBA Alert: If a programme is an MBA, include a note in the Chevening rationale about the £22,000 fee cap.
-
-Tone: crisp, factual, zero fluff. No marketing language.
-`;
-
-const responseSchema = {
-  type: Type.OBJECT,
-  properties: {
-    profile: {
-      type: Type.OBJECT,
-      description: "Analysis of the user's CV against Chevening criteria.",
-      properties: {
-        strengths: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Key strengths from the CV." },
-        gaps: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Areas for development or focus." },
-      }
-    },
-    ranked_courses: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          rank: { type: Type.INTEGER },
-          university: { type: Type.STRING },
-          programme: { type: Type.STRING },
-          city: { type: Type.STRING },
-          url: { type: Type.STRING },
-          start_cycle: { type: Type.STRING },
-          duration_months: { type: Type.INTEGER },
-          fee_gbp: { type: Type.STRING },
-          chevening_rationale: { type: Type.ARRAY, items: { type: Type.STRING } },
-          eligibility_check: {
-            type: Type.OBJECT,
-            description: "A check against key Chevening eligibility criteria.",
-            properties: {
-              is_eligible: { type: Type.BOOLEAN },
-              reason: { type: Type.STRING, description: "Reason for eligibility status, e.g., 'Passes all checks' or 'Ineligible: duration is over 12 months'."}
-            }
-          },
-          score_breakdown: {
-            type: Type.STRING,
-            description: "A short explanation of why the course received its rank, based on scoring criteria."
-          }
-        }
-      }
-    },
-    chevening_trio: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          university: { type: Type.STRING },
-          programme: { type: Type.STRING },
-          why_this_trio: { type: Type.STRING }
-        }
-      }
-    },
-    personal_statement_bullets: {
-      type: Type.OBJECT,
-      properties: {
-        leadership: { type: Type.ARRAY, items: { type: Type.STRING } },
-        networking: { type: Type.ARRAY, items: { type: Type.STRING } },
-        career_plan: { type: Type.ARRAY, items: { type: Type.STRING } }
-      }
-    },
-    alternatives: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          university: { type: Type.STRING },
-          programme: { type: Type.STRING },
-          url: { type: Type.STRING },
-          why_consider: { type: Type.STRING }
-        }
-      }
-    },
-    notes: { type: Type.ARRAY, items: { type: Type.STRING } }
-  }
-};
+const printView = document.getElementById('print-view') as HTMLElement;
+const modelLanguageGroup = document.getElementById('model-language-group') as HTMLElement;
+const modelLanguageCheckbox = document.getElementById('model-language-checkbox') as HTMLInputElement;
+const modelLanguageText = document.getElementById('model-language-text') as HTMLSpanElement;
 
 
 // --- App Logic ---
-const loadingMessages = [
-    "Analyzing your CV against Chevening criteria...",
-    "Searching the official course database...",
-    "Scoring and ranking top matches...",
-    "Compiling your personalized strategy...",
-    "This may take a moment. Great recommendations are on their way!"
-];
-let messageInterval: ReturnType<typeof setInterval>;
-let countdownInterval: ReturnType<typeof setInterval>;
-
-// --- Deadline Countdown ---
-function setDeadline() {
-    // Deadline: 7 October 2025 at 12:00 UTC
-    const deadline = new Date('2025-10-07T12:00:00Z');
-
-    function updateCountdown() {
-        const now = new Date();
-        const diff = deadline.getTime() - now.getTime();
-
-        if (diff <= 0) {
-            deadlineCountdown.textContent = "The deadline has passed.";
-            if(countdownInterval) clearInterval(countdownInterval);
-            return;
-        }
-
-        const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-        const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-        const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-        const seconds = Math.floor((diff % (1000 * 60)) / 1000);
-
-        deadlineCountdown.textContent = `${days}d ${hours}h ${minutes}m ${seconds}s`;
-    }
-    
-    if (countdownInterval) clearInterval(countdownInterval);
-    countdownInterval = setInterval(updateCountdown, 1000);
-    updateCountdown(); // Initial call
-}
-
-// Helper to convert a File object to a GoogleGenerativeAI.Part object.
-async function fileToGenerativePart(file: File) {
-    const base64EncodedDataPromise = new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            const dataUrl = reader.result as string;
-            const base64Data = dataUrl.split(',')[1];
-            resolve(base64Data);
-        };
-        reader.readAsDataURL(file);
-    });
-    return {
-        inlineData: {
-            data: await base64EncodedDataPromise,
-            mimeType: file.type
-        },
-    };
-}
-
+// Aborts the analysis in flight; null when idle.
+let activeRequest: AbortController | null = null;
+let scoreWeights = loadWeights();
+// The run currently on screen, kept so views can re-render without another API call.
+let currentRun: AnalysisRun | null = null;
+// Its id in saved analyses, once stored; goes into the URL with the comparison.
+let currentRunId: string | null = null;
+// Model ranks of the courses ticked for comparison, in the order they were ticked.
+let compareSelection: number[] = [];
+let comparisonOpen = false;
+// Set while a saved run is on screen, so its banner survives a language change.
+let openedRun: SavedRun | null = null;
 
 function showLoading(show: boolean) {
     if (show) {
         inputSection.classList.add('hidden');
-        resultsSection.innerHTML = '';
+        resultsSection.replaceChildren();
         errorSection.classList.add('hidden');
         loadingSection.classList.remove('hidden');
         submitButton.disabled = true;
-
-        let messageIndex = 0;
-        loadingMessage.textContent = loadingMessages[messageIndex];
-        messageInterval = setInterval(() => {
-            messageIndex = (messageIndex + 1) % loadingMessages.length;
-            loadingMessage.textContent = loadingMessages[messageIndex];
-        }, 3000);
-
+        setProgress(t('progress.preparing'));
     } else {
         loadingSection.classList.add('hidden');
         inputSection.classList.remove('hidden');
         submitButton.disabled = false;
-        clearInterval(messageInterval);
     }
 }
 
-function showError(message: string) {
-    resultsSection.innerHTML = '';
-    errorSection.innerHTML = `<p><strong>An error occurred:</strong> ${message}</p><p>Please try again.</p>`;
+function setProgress(message: string) {
+    loadingMessage.textContent = message;
+}
+
+function showError(error: AnalysisError, attempts = 1) {
+    resultsSection.replaceChildren();
+    setHtml(errorSection, html`
+      <p><strong>${error.title}</strong></p>
+      <p>${error.message}</p>
+      <p class="error-guidance">${error.guidance}</p>
+      ${attempts > 1 ? html`<p class="error-attempts">${t('error.attempts', { attempts })}</p>` : ''}
+      <div class="error-actions">
+        ${error.kind !== 'invalid_file' ? html`<button type="button" data-error-action="retry">${t('error.retry')}</button>` : ''}
+        ${diagnosticsPanel && error.kind !== 'invalid_file' && error.kind !== 'empty_result' ? html`<button type="button" class="button-secondary" data-error-action="diagnostics">${t('error.showDiagnostics')}</button>` : ''}
+      </div>
+    `);
     errorSection.classList.remove('hidden');
 }
 
 
-function renderResults(data: any) {
-    resultsSection.innerHTML = ''; // Clear previous results
+// --- Streaming Preview ---
+// Renders each section as soon as it has fully arrived. The final render in
+// `renderResults` replaces the preview once the response is validated.
 
-    if (data.profile) {
-        resultsSection.innerHTML += renderProfileAnalysis(data.profile);
-    }
-    if (data.chevening_trio) {
-        resultsSection.innerHTML += renderTrio(data.chevening_trio);
-    }
-    if (data.ranked_courses) {
-        resultsSection.innerHTML += renderRankedCourses(data.ranked_courses);
-    }
-    if (data.personal_statement_bullets) {
-        resultsSection.innerHTML += renderBullets(data.personal_statement_bullets);
-    }
-    if (data.alternatives) {
-        resultsSection.innerHTML += renderAlternatives(data.alternatives);
-    }
-     if (data.notes) {
-        resultsSection.innerHTML += renderNotes(data.notes);
+const SECTION_PROGRESS: Record<string, MessageKey> = {
+    profile: 'progress.profile',
+    chevening_trio: 'progress.trio',
+    personal_statement_bullets: 'progress.bullets',
+    alternatives: 'progress.alternatives',
+    notes: 'progress.notes',
+};
+
+
+/** Returns an `onText` callback that parses the partial response and updates the preview. */
+function createStreamingPreview(targetYear: number) {
+    let rendered = '';
+    return (text: string) => {
+        let partial: PartialJson;
+        try {
+            partial = parsePartialJson(text);
+        } catch {
+            // Not valid JSON so far; the final parse reports the error.
+            return;
+        }
+        const root = partial.value;
+        if (!root || typeof root !== 'object' || Array.isArray(root)) return;
+        const raw = root as Record<string, unknown>;
+        const complete = (key: string) => raw[key] !== undefined && partial.isComplete(raw[key]);
+        const courses = Array.isArray(raw.ranked_courses) ? raw.ranked_courses.filter(partial.isComplete) : [];
+
+        const keys = Object.keys(raw);
+        const current = keys[keys.length - 1];
+        setProgress(current === 'ranked_courses'
+            ? t('progress.ranking', { count: courses.length })
+            : t(SECTION_PROGRESS[current] ?? 'progress.receiving'));
+
+        // Only touch the DOM when another section or course has completed.
+        const signature = [complete('profile'), courses.length, complete('chevening_trio'), complete('personal_statement_bullets')].join('|');
+        if (signature === rendered) return;
+        rendered = signature;
+
+        const { data } = validateAnalysis({
+            profile: complete('profile') ? raw.profile : undefined,
+            ranked_courses: courses,
+            chevening_trio: complete('chevening_trio') ? raw.chevening_trio : [],
+            personal_statement_bullets: complete('personal_statement_bullets') ? raw.personal_statement_bullets : undefined,
+            alternatives: [],
+            notes: [],
+        });
+
+        const { profile, ranked_courses: ranked, chevening_trio: trio, personal_statement_bullets: bullets } = data;
+        setHtml(resultsSection, html`
+          <div class="streaming-preview" aria-busy="true">
+            ${complete('profile') ? renderProfileAnalysis(profile) : ''}
+            ${trio.length > 0 ? renderTrio(trio) : ''}
+            ${ranked.length > 0 ? html`
+              <div class="result-category">
+                <h2>${t('results.rankedPreview')} <small class="streaming-count">${t('results.soFar', { count: ranked.length })}</small></h2>
+                ${renderRankedCourseCards(ranked, targetYear, scoreWeights)}
+              </div>
+            ` : ''}
+            ${complete('personal_statement_bullets') ? renderTalkingPointsPreview(bullets) : ''}
+          </div>
+        `);
+    };
+}
+
+function renderResults(run: AnalysisRun) {
+    const { result: data, issues, inputs: { year: targetYear } } = run;
+    currentRun = run;
+    currentRunId = null;
+    compareSelection = [];
+    comparisonOpen = false;
+    openedRun = null;
+    writeViewState({ runId: null, compare: [] });
+
+    setHtml(resultsSection, html`
+      ${renderExportToolbar()}
+      ${issues.length > 0 ? renderPartialResultBanner(issues) : ''}
+      ${renderProfileAnalysis(data.profile)}
+      ${data.chevening_trio.length > 0 ? renderTrio(data.chevening_trio) : ''}
+      ${data.ranked_courses.length > 0 ? renderRankedCourses(data.ranked_courses, targetYear, scoreWeights, compareSelection) : ''}
+      <div id="trio-builder" class="result-category"></div>
+      <div id="essay-workspace" class="result-category"></div>
+      ${data.alternatives.length > 0 ? renderAlternatives(data.alternatives) : ''}
+      ${data.notes.length > 0 ? renderNotes(data.notes) : ''}
+    `);
+
+    mountTrioBuilder(document.getElementById('trio-builder') as HTMLElement, run, saveTrioChange);
+    mountEssayWorkspace(document.getElementById('essay-workspace') as HTMLElement, run, provider);
+}
+
+
+async function exportCurrentRun(format: string) {
+    if (!currentRun) return;
+    const status = document.getElementById('export-status');
+    if (format === 'pdf') {
+        window.print(); // the beforeprint listener fills in the print layout
+    } else if (format === 'markdown') {
+        downloadFile(exportFileName(currentRun, 'md'), toMarkdown(currentRun, scoreWeights, compareSelection), 'text/markdown');
+    } else if (format === 'copy-markdown') {
+        try {
+            await navigator.clipboard.writeText(toMarkdown(currentRun, scoreWeights, compareSelection));
+            if (status) status.textContent = t('results.copied');
+        } catch (error) {
+            console.warn("Clipboard write failed:", error);
+            if (status) status.textContent = t('results.copyFailed');
+        }
+    } else if (format === 'json') {
+        downloadFile(exportFileName(currentRun, 'json'), toJson(currentRun, scoreWeights, compareSelection), 'application/json');
     }
 }
 
-function renderProfileAnalysis(profile: any) {
-    if (!profile.strengths || !profile.gaps) return '';
-    return `
-      <div id="profile-analysis-section" class="result-category">
-        <h2>CV Analysis vs. Chevening Criteria</h2>
-        <div class="profile-columns">
-            <div class="profile-column">
-                <h3>Strengths</h3>
-                <ul>${profile.strengths.map((s: string) => `<li>${s}</li>`).join('')}</ul>
-            </div>
-            <div class="profile-column">
-                <h3>Potential Gaps</h3>
-                <ul>${profile.gaps.map((g: string) => `<li>${g}</li>`).join('')}</ul>
-            </div>
-        </div>
-      </div>
-    `;
+
+// --- Course Comparison ---
+
+/** Applies a new selection to the checkboxes, bar, table and URL without re-rendering the cards. */
+function setComparison(selection: number[], open: boolean) {
+    if (!currentRun) return;
+    const { result, inputs } = currentRun;
+    compareSelection = normaliseSelection(result.ranked_courses, selection);
+    const comparison = open ? compareCourses(result.ranked_courses, compareSelection, inputs.year, scoreWeights) : null;
+    comparisonOpen = comparison !== null;
+
+    resultsSection.querySelectorAll<HTMLInputElement>('.compare-checkbox').forEach(checkbox => {
+        checkbox.checked = compareSelection.includes(Number(checkbox.dataset.rank));
+        checkbox.disabled = !checkbox.checked && compareSelection.length >= MAX_COMPARED;
+    });
+    const bar = document.getElementById('compare-bar');
+    if (bar) setHtml(bar, renderCompareBar(compareSelection));
+    const container = document.getElementById('course-comparison');
+    if (container) {
+        if (comparison) {
+            setHtml(container, renderCourseComparison(comparison));
+        } else {
+            container.replaceChildren();
+        }
+        container.classList.toggle('hidden', !comparison);
+    }
+    writeViewState({ runId: currentRunId, compare: comparisonOpen ? compareSelection : [] });
 }
 
-function renderTrio(trio: any[]) {
-    const universities = new Set(trio.map(course => course.university));
-    const singleUniversityWarning = universities.size === 1 && trio.length > 1 ?
-        `<p class="trio-warning"><strong>Note:</strong> All three choices are from the same university. This is permitted, but Chevening often recommends diversifying your choices to spread risk.</p>` : '';
-
-    return `
-      <div class="result-category">
-        <h2>Your Recommended Chevening Trio</h2>
-        ${singleUniversityWarning}
-        ${trio.map(course => {
-          const isMBA = course.programme.toLowerCase().includes('mba');
-          const mbaWarning = isMBA ? `<p class="mba-warning"><strong>MBA Fee Cap:</strong> Chevening caps MBA tuition at £22,000. You must fund any difference.</p>` : '';
-          return `
-            <div class="trio-card">
-              <h3>${course.programme}</h3>
-              <p class="university">${course.university}</p>
-              <p>${course.why_this_trio}</p>
-              ${mbaWarning}
-            </div>
-          `
-        }).join('')}
-      </div>
-    `;
+// Re-ranks in place when a weight slider moves; no new API call is needed.
+function updateScoreWeights(weights: ScoreWeights) {
+    scoreWeights = weights;
+    saveWeights(weights);
+    SCORING_CRITERIA.forEach(({ id }) => {
+        const slider = resultsSection.querySelector<HTMLInputElement>(`.weight-slider[data-criterion="${id}"]`);
+        const output = resultsSection.querySelector<HTMLOutputElement>(`.weight-value[data-criterion="${id}"]`);
+        if (slider) slider.value = String(weights[id]);
+        if (output) output.textContent = `×${weights[id]}`;
+    });
+    const list = document.getElementById('ranked-courses-list');
+    if (list && currentRun) {
+        setHtml(list, renderRankedCourseCards(currentRun.result.ranked_courses, currentRun.inputs.year, weights, compareSelection));
+        // Scores and ranks in an open comparison depend on the weights too.
+        if (comparisonOpen) setComparison(compareSelection, true);
+    }
 }
 
-function renderRankedCourses(courses: any[]) {
-    return `
-      <div class="result-category">
-        <h2>Top Ranked Courses</h2>
-        ${courses.map(course => {
-          const { eligibility_check, score_breakdown, programme, fee_gbp } = course;
-          
-          const eligibilityBadge = eligibility_check ? 
-              (eligibility_check.is_eligible ? 
-                  `<span class="eligibility-badge">Chevening-eligible ✅</span>` : 
-                  `<span class="eligibility-badge ineligible">Ineligible ❌</span>`
-              ) : '';
-          const eligibilityReason = eligibility_check && !eligibility_check.is_eligible ? `<p class="ineligible-reason">${eligibility_check.reason}</p>` : '';
-          const isMBA = programme.toLowerCase().includes('mba');
-          const mbaWarning = isMBA ? `<p class="mba-warning"><strong>MBA Fee Cap:</strong> Chevening caps MBA tuition at £22,000. You must fund any difference.</p>` : '';
-      
-          const feeDisplay = fee_gbp && fee_gbp.toLowerCase().includes('verify') ? `<span class="verify-chip">${fee_gbp}</span>` : `💷 ${fee_gbp || 'N/A'}`;
-
-          return `
-            <div class="course-card">
-              <h3>${course.rank}. ${course.programme}</h3>
-              <p class="university">${course.university}</p>
-              ${eligibilityBadge}
-              ${eligibilityReason}
-              ${mbaWarning}
-              <div class="details">
-                <span>📍 ${course.city}</span>
-                <span>🗓️ ${course.start_cycle}</span>
-                <span>⏳ ${course.duration_months} months</span>
-                <span>${feeDisplay}</span>
-              </div>
-              ${score_breakdown ? `
-              <details class="score-breakdown">
-                  <summary>Why this rank?</summary>
-                  <p>${score_breakdown}</p>
-              </details>
-              ` : ''}
-              <div class="chevening-rationale">
-                <strong>Chevening Rationale:</strong>
-                <ul>
-                  ${course.chevening_rationale.map((r: string) => `<li>${r}</li>`).join('')}
-                </ul>
-              </div>
-              <p><a href="${course.url}" target="_blank" rel="noopener noreferrer">Visit course page →</a></p>
-            </div>
-          `
-        }).join('')}
-      </div>
-    `;
+
+// --- Language ---
+
+function languageOptionText() {
+    const language = new Intl.DisplayNames([getLocale()], { type: 'language' }).of(getLocale()) ?? localeInfo().name;
+    return t('form.modelLanguage', { language });
 }
 
-function renderBullets(bullets: any) {
-    return `
-        <div class="result-category personal-statement-bullets">
-            <h2>Personal Statement Talking Points</h2>
-            <h4>Leadership</h4>
-            <ul>${bullets.leadership.map((b: string) => `<li>${b}</li>`).join('')}</ul>
-            <h4>Networking</h4>
-            <ul>${bullets.networking.map((b: string) => `<li>${b}</li>`).join('')}</ul>
-            <h4>Career Plan</h4>
-            <ul>${bullets.career_plan.map((b: string) => `<li>${b}</li>`).join('')}</ul>
-        </div>
-    `;
+function updateModelLanguageOption() {
+    modelLanguageGroup.classList.toggle('hidden', getLocale() === 'en');
+    modelLanguageText.textContent = languageOptionText();
 }
 
-function renderAlternatives(alternatives: any[]) {
-    return `
-      <div class="result-category">
-        <h2>Alternative Options</h2>
-        ${alternatives.map(alt => `
-          <div class="course-card">
-             <h3>${alt.programme}</h3>
-             <p class="university">${alt.university}</p>
-             <p>${alt.why_consider}</p>
-             <p><a href="${alt.url}" target="_blank" rel="noopener noreferrer">Visit course page →</a></p>
-          </div>
-        }).join('')}
-      </div>
-    `;
+function showSelectedFile() {
+    const file = cvFileInput.files?.[0];
+    fileNameDisplay.textContent = file ? t('form.cv.selected', { fileName: file.name }) : '';
+    fileUploadLabel.dataset.i18n = file ? 'form.cv.change' : 'form.cv.choose';
+    fileUploadLabel.textContent = t(fileUploadLabel.dataset.i18n as MessageKey);
 }
-function renderNotes(notes: string[]) {
-    return `
-        <div class="result-category">
-            <h2>Important Notes</h2>
-            <ul>
-                ${notes.map(note => `<li>${note}</li>`).join('')}
-            </ul>
-        </div>
-    `;
+
+/** Re-renders the run on screen in the new language, keeping its saved id and comparison. */
+function rerenderCurrentRun() {
+    if (!currentRun) return;
+    const [runId, selection, open, saved] = [currentRunId, compareSelection, comparisonOpen, openedRun];
+    renderResults(currentRun);
+    currentRunId = runId;
+    setComparison(selection, open);
+    if (saved) showSavedRunBanner(saved);
 }
 
 // --- App Start ---
 
+// Applied first so everything below renders in the saved or browser language.
+setLocale(initialLocale());
+initLanguageSwitcher();
+updateModelLanguageOption();
+
 // Set deadline countdown regardless of API key status
-setDeadline();
+initDeadlineCountdown();
+initCycleTimeline();
+const yearInput = document.getElementById('year-input') as HTMLInputElement;
+yearInput.value = String(targetStartYear());
+yearInput.min = String(new Date().getFullYear());
+(document.getElementById('footer-year') as HTMLElement).textContent = String(new Date().getFullYear());
+
+// The course index is bundled, so it can be browsed without an API key.
+initCatalogueBrowser();
+
+// Also covers Ctrl+P, so a printout is never a blank page or a copy of the form.
+window.addEventListener('beforeprint', () => {
+    if (currentRun) {
+        setHtml(printView, toPrintHtml(currentRun, scoreWeights, compareSelection));
+    } else {
+        printView.replaceChildren();
+    }
+});
+
+onLocaleChange(() => {
+    initDeadlineCountdown();
+    initCycleTimeline();
+    updateModelLanguageOption();
+    showSelectedFile();
+    rerenderCurrentRun();
+});
+
+const historyPanel = initHistoryPanel({ onOpen: openSavedRun });
+const diagnosticsPanel = provider ? initDiagnosticsPanel({ provider: provider.id, model: provider.model, promptVersion: CURRENT_PROMPT.version }) : null;
+
+// Reopens the saved run and comparison named in the URL, e.g. after a reload.
+const initialView = readViewState();
+if (initialView.runId) {
+    getRun(initialView.runId)
+        .then(run => {
+            if (run) {
+                openSavedRun(run, initialView.compare);
+            } else {
+                writeViewState({ runId: null, compare: [] });
+            }
+        })
+        .catch(error => historyPanel.reportFailure(t('history.openFailed'), error));
+}
+
+function fillFormInputs(inputs: PromptInputs) {
+    const values: Record<string, string> = {
+        'fields-input': inputs.fields,
+        'locations-input': inputs.locations,
+        'impact-input': inputs.impact,
+        'year-input': String(inputs.year),
+    };
+    Object.entries(values).forEach(([id, value]) => {
+        const input = document.getElementById(id) as HTMLInputElement | null;
+        if (input) input.value = value;
+    });
+}
+
+function openSavedRun(run: SavedRun, compare: number[] = []) {
+    errorSection.classList.add('hidden');
+    fillFormInputs(run.inputs);
+    renderResults({
+        result: run.result,
+        issues: run.issues.map((issue): Message => (typeof issue === 'string' ? { key: 'validation.saved', params: { issue } } : issue)),
+        inputs: run.inputs,
+        generatedAt: run.createdAt,
+        provider: run.provider,
+        model: run.model,
+        promptVersion: run.promptVersion,
+        trio: run.trio,
+    });
+    currentRunId = run.id;
+    setComparison(compare, compare.length > 0);
+    showSavedRunBanner(run);
+    resultsSection.scrollIntoView({ behavior: 'smooth' });
+}
+
+function showSavedRunBanner(run: SavedRun) {
+    openedRun = run;
+    const params = {
+        name: html`<strong>${run.name}</strong>`,
+        date: formatDate(run.createdAt, { dateStyle: 'medium', timeStyle: 'short' }),
+        fileName: run.cv.fileName,
+    };
+    prependHtml(resultsSection, html`<p class="saved-run-banner">${tHtml('results.savedRun', params)}</p>`);
+}
+
+async function saveCompletedRun(cvFile: File, cv: CvPart, run: AnalysisRun) {
+    const { inputs, generatedAt, provider, model, promptVersion, result, issues, trio } = run;
+    const keepCv = (document.getElementById('save-cv-checkbox') as HTMLInputElement).checked;
+    try {
+        const saved = await saveRun({
+            name: defaultRunName(inputs),
+            createdAt: generatedAt,
+            inputs,
+            cv: {
+                fileName: cvFile.name,
+                mimeType: cvFile.type,
+                size: cvFile.size,
+                sha256: await hashFile(cvFile),
+                ...(keepCv ? { content: cv.inlineData.data } : {}),
+            },
+            provider,
+            model,
+            promptVersion,
+            result,
+            issues,
+            trio,
+        });
+        // The trio may have been edited while the run was being stored.
+        if (run.trio !== trio) await saveRunTrio(saved.id, run.trio);
+        if (currentRun === run) {
+            currentRunId = saved.id;
+            writeViewState({ runId: saved.id, compare: comparisonOpen ? compareSelection : [] });
+        }
+        await historyPanel.refresh();
+    } catch (error) {
+        // Saving is a convenience; never let it break the results view, but say it did not happen.
+        historyPanel.reportFailure(t('history.saveFailed'), error);
+    }
+}
+
+/** Keeps the saved copy of the run on screen in step with the trio builder. */
+function saveTrioChange(run: AnalysisRun) {
+    if (currentRun !== run || !currentRunId) return;
+    saveRunTrio(currentRunId, run.trio)
+        .catch(error => historyPanel.reportFailure(t('history.trioFailed'), error));
+}
+
+resultsSection.addEventListener('input', (e) => {
+    const slider = e.target as HTMLElement;
+    if (slider instanceof HTMLInputElement && slider.classList.contains('weight-slider')) {
+        const criterion = slider.dataset.criterion as CriterionId;
+        updateScoreWeights({ ...scoreWeights, [criterion]: Number(slider.value) });
+    }
+});
+resultsSection.addEventListener('change', (e) => {
+    const checkbox = e.target as HTMLElement;
+    if (checkbox instanceof HTMLInputElement && checkbox.classList.contains('compare-checkbox')) {
+        const rank = Number(checkbox.dataset.rank);
+        const selection = checkbox.checked ? [...compareSelection, rank] : compareSelection.filter(selected => selected !== rank);
+        setComparison(selection, comparisonOpen);
+    }
+});
+resultsSection.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.id === 'reset-weights-button') {
+        updateScoreWeights({ ...DEFAULT_WEIGHTS });
+    }
+    if (target.dataset.compare === 'open') {
+        setComparison(compareSelection, true);
+        document.getElementById('course-comparison')?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+    if (target.dataset.compare === 'close') {
+        setComparison(compareSelection, false);
+    }
+    if (target.dataset.compare === 'clear') {
+        setComparison([], false);
+    }
+    if (target.dataset.export) {
+        exportCurrentRun(target.dataset.export);
+    }
+});
 
 // Modal logic doesn't depend on the API, but its trigger button does.
 // We set up listeners for elements outside the form.
@@ -392,8 +500,9 @@ pitfallsModal.addEventListener('click', (e) => {
 });
 
 
-if (ai) {
+if (provider) {
     // --- API is available, set up the form listeners ---
+    const cvReview = initCvReview();
 
     pitfallsButton.addEventListener('click', () => {
         pitfallsModal.classList.remove('hidden');
@@ -401,13 +510,11 @@ if (ai) {
 
     // Add event listener for file input to display the selected file name
     cvFileInput.addEventListener('change', () => {
+        showSelectedFile();
         if (cvFileInput.files && cvFileInput.files.length > 0) {
-            const fileName = cvFileInput.files[0].name;
-            fileNameDisplay.textContent = `Selected: ${fileName}`;
-            fileUploadLabel.textContent = 'Change file';
+            cvReview.load(cvFileInput.files[0]);
         } else {
-            fileNameDisplay.textContent = '';
-            fileUploadLabel.textContent = 'Click to select a file';
+            cvReview.clear();
         }
     });
 
@@ -416,72 +523,107 @@ if (ai) {
         
         const cvFile = cvFileInput.files?.[0];
         if (!cvFile) {
-            showError("Please upload your CV file.");
+            showError(new InvalidFileError(t('error.noFile')));
             return;
         }
         
         const allowedTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
         if (!allowedTypes.includes(cvFile.type)) {
-            showError("Invalid file type. Please upload a PDF or DOCX file.");
+            showError(new InvalidFileError(t('error.fileType')));
+            return;
+        }
+
+        // Pre-check before any API call; the user may still have unlisted experience.
+        const experience = cvReview.experience();
+        if (experience?.status === 'fail' && !confirm(t('form.experienceConfirm', { message: tMessage(experience.message) }))) {
             return;
         }
         
         showLoading(true);
-
-        const fields = (document.getElementById('fields-input') as HTMLInputElement).value;
-        const locations = (document.getElementById('locations-input') as HTMLInputElement).value;
-        const impact = (document.getElementById('impact-input') as HTMLInputElement).value;
-        const year = (document.getElementById('year-input') as HTMLInputElement).value;
-
-        const userPromptText = `
-          Task: Pick Chevening-eligible UK master’s courses that best match my CV and career plan. The CV is provided in the attached file.
-          
-          Inputs:
-          Target fields: "${fields}"
-          Preferred UK locations: "${locations}"
-          Timeline: must start Sep/Oct ${year}
-          Country-impact one-liner: "${impact}"
-    
-          Return JSON output per the required schema. Analyze the CV file to extract the candidate's profile, skills, and experience to inform the course matching.
-        `;
+        const controller = new AbortController();
+        activeRequest = controller;
+        let attempts = 1;
+
+        const inputs = promptInputsFromForm({
+            fields: (document.getElementById('fields-input') as HTMLInputElement).value,
+            locations: (document.getElementById('locations-input') as HTMLInputElement).value,
+            impact: (document.getElementById('impact-input') as HTMLInputElement).value,
+            year: (document.getElementById('year-input') as HTMLInputElement).value,
+            // Course names stay in English either way; see the prompt.
+            language: getLocale() !== 'en' && modelLanguageCheckbox.checked ? localeInfo().modelLanguage : undefined,
+        }, targetStartYear());
+        const { year } = inputs;
 
         try {
-            const filePart = await fileToGenerativePart(cvFile);
-            const textPart = { text: userPromptText };
-
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash",
-                contents: { parts: [filePart, textPart] },
-                config: {
-                    systemInstruction: systemInstruction,
-                    responseMimeType: "application/json",
-                    responseSchema: responseSchema,
+            const cv = await fileToGenerativePart(cvFile);
+            setProgress(t('progress.waiting'));
+            let preview = createStreamingPreview(year);
+            const run = await analyseCv(provider, {
+                cv,
+                cvProfile: cvReview.profile() ?? undefined,
+                inputs,
+                prompt: CURRENT_PROMPT,
+            }, {
+                signal: controller.signal,
+                onText: text => preview(text),
+                onFailure: failure => {
+                    attempts = failure.attempt;
+                    diagnosticsPanel?.record(failure);
+                },
+                onRetry: (attempt, delayMs) => {
+                    resultsSection.replaceChildren();
+                    preview = createStreamingPreview(year);
+                    setProgress(t('progress.retrying', { seconds: Math.ceil(delayMs / 1000), attempt, max: MAX_ATTEMPTS }));
                 },
             });
-
-            const jsonText = response.text.trim();
-            const data = JSON.parse(jsonText);
-            renderResults(data);
+            renderResults(run);
+            saveCompletedRun(cvFile, cv, run);
 
         } catch (error)
          {
+            if (controller.signal.aborted) {
+                resultsSection.replaceChildren();
+                return;
+            }
             console.error(error);
-            showError(error instanceof Error ? error.message : "Could not process the file or parse the response from the model.");
+            showError(classifyError(error), attempts);
         } finally {
+            activeRequest = null;
             showLoading(false);
-            setTimeout(() => resultsSection.scrollIntoView({ behavior: 'smooth' }), 100);
+            const target = controller.signal.aborted ? inputSection : resultsSection;
+            setTimeout(() => target.scrollIntoView({ behavior: 'smooth' }), 100);
         }
     });
 
+    cancelButton.addEventListener('click', () => {
+        activeRequest?.abort();
+    });
+
+    initBatchPanel({
+        provider,
+        onOpen: run => {
+            errorSection.classList.add('hidden');
+            renderResults(run);
+            resultsSection.scrollIntoView({ behavior: 'smooth' });
+        },
+        onFailure: failure => diagnosticsPanel?.record(failure),
+    });
+
+    errorSection.addEventListener('click', (e) => {
+        const action = (e.target as HTMLElement).dataset.errorAction;
+        if (action === 'retry') form.requestSubmit();
+        if (action === 'diagnostics') diagnosticsPanel?.show();
+    });
+
 } else {
     // --- API is NOT available. Show an error message. ---
     
-    inputSection.innerHTML = `
+    setHtml(inputSection, html`
       <div id="config-error" role="alert">
-        <p><strong>Application Configuration Error</strong></p>
-        <p>This application is not properly configured to connect to the AI service because an API key has not been provided. If you are a user, please contact the person who shared this with you. If you are the developer, please ensure the API key is correctly set up in your environment.</p>
+        <p><strong data-i18n="error.config.title">${t('error.config.title')}</strong></p>
+        <p data-i18n="error.config.message">${t('error.config.message')}</p>
       </div>
-    `;
+    `);
     const style = document.createElement('style');
     style.textContent = `
       #config-error {
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Incremental JSON Parsing ---
+// Parses the prefix of a JSON document received so far. Objects and arrays
+// that have not closed yet are returned with the members read so far; a
+// trailing string, number or literal that may still grow is left out, so
+// every value present is final apart from the containers marked incomplete.
+
+export interface PartialJson {
+    /** Undefined until the first value starts arriving. */
+    value: unknown;
+    /** True once the whole document has been read. */
+    done: boolean;
+    /** Whether an object or array from `value` has been closed. */
+    isComplete: (container: unknown) => boolean;
+}
+
+const INCOMPLETE = Symbol('incomplete');
+type Parsed = unknown | typeof INCOMPLETE;
+
+/** Throws a SyntaxError when the text so far is not a valid JSON prefix. */
+export function parsePartialJson(text: string): PartialJson {
+    const incomplete = new WeakSet<object>();
+    let pos = 0;
+
+    const fail = (message: string): never => {
+        throw new SyntaxError(`${message} at position ${pos}`);
+    };
+    const skipWhitespace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) pos++;
+    };
+
+    function parseString(): Parsed {
+        let result = '';
+        pos++; // Opening quote.
+        while (pos < text.length) {
+            const char = text[pos];
+            if (char === '"') {
+                pos++;
+                return result;
+            }
+            if (char === '\\') {
+                if (pos + 1 >= text.length) break;
+                const escape = text[pos + 1];
+                if (escape === 'u') {
+                    const hex = text.slice(pos + 2, pos + 6);
+                    if (hex.length < 4) break;
+                    if (!/^[0-9a-f]{4}$/i.test(hex)) fail('Invalid unicode escape');
+                    result += String.fromCharCode(parseInt(hex, 16));
+                    pos += 6;
+                    continue;
+                }
+                const escapes: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+                if (!(escape in escapes)) fail('Invalid escape');
+                result += escapes[escape];
+                pos += 2;
+                continue;
+            }
+            result += char;
+            pos++;
+        }
+        pos = text.length;
+        return INCOMPLETE;
+    }
+
+    function parseLiteral(): Parsed {
+        const rest = text.slice(pos);
+        // A number or literal running to the end of the text may still grow,
+        // e.g. "12", "3.", "1e-" or "tr".
+        if (/^(-?(\d+(\.\d*)?([eE][+-]?\d*)?)?|t(r(u)?)?|f(a(l(s)?)?)?|n(u(l)?)?)$/.test(rest)) {
+            pos = text.length;
+            return INCOMPLETE;
+        }
+        const match = rest.match(/^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/);
+        if (!match) return fail('Unexpected token');
+        pos += match[0].length;
+        return JSON.parse(match[0]);
+    }
+
+    function parseArray(): unknown[] {
+        const array: unknown[] = [];
+        pos++;
+        while (true) {
+            skipWhitespace();
+            if (pos >= text.length) break;
+            if (text[pos] === ']') {
+                pos++;
+                return array;
+            }
+            if (array.length > 0) {
+                if (text[pos] !== ',') fail('Expected , or ]');
+                pos++;
+                skipWhitespace();
+                if (pos >= text.length) break;
+            }
+            const value = parseValue();
+            if (value === INCOMPLETE) break;
+            array.push(value);
+            if (typeof value === 'object' && value !== null && incomplete.has(value)) break;
+        }
+        incomplete.add(array);
+        return array;
+    }
+
+    function parseObject(): Record<string, unknown> {
+        const object: Record<string, unknown> = {};
+        let count = 0;
+        pos++;
+        while (true) {
+            skipWhitespace();
+            if (pos >= text.length) break;
+            if (text[pos] === '}') {
+                pos++;
+                return object;
+            }
+            if (count > 0) {
+                if (text[pos] !== ',') fail('Expected , or }');
+                pos++;
+                skipWhitespace();
+                if (pos >= text.length) break;
+            }
+            if (text[pos] !== '"') fail('Expected property name');
+            const key = parseString();
+            if (key === INCOMPLETE) break;
+            skipWhitespace();
+            if (pos >= text.length) break;
+            if (text[pos] !== ':') fail('Expected :');
+            pos++;
+            skipWhitespace();
+            if (pos >= text.length) break;
+            const value = parseValue();
+            if (value === INCOMPLETE) break;
+            object[key as string] = value;
+            count++;
+            if (typeof value === 'object' && value !== null && incomplete.has(value)) break;
+        }
+        incomplete.add(object);
+        return object;
+    }
+
+    function parseValue(): Parsed {
+        skipWhitespace();
+        if (pos >= text.length) return INCOMPLETE;
+        const char = text[pos];
+        if (char === '{') return parseObject();
+        if (char === '[') return parseArray();
+        if (char === '"') return parseString();
+        return parseLiteral();
+    }
+
+    const value = parseValue();
+    skipWhitespace();
+    if (pos < text.length) fail('Unexpected data after JSON');
+    const done = value !== INCOMPLETE && !(typeof value === 'object' && value !== null && incomplete.has(value));
+    return {
+        value: value === INCOMPLETE ? undefined : value,
+        done,
+        isComplete: container => typeof container === 'object' && container !== null && !incomplete.has(container),
+    };
+}
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Type } from "@google/genai";
+import type { Profile } from './types';
+
+// --- User Prompt ---
+export interface PromptInputs {
+    fields: string;
+    locations: string;
+    impact: string;
+    year: number;
+    /** English name of the language for the free-text explanations; omitted means English. */
+    language?: string;
+}
+
+/** The form as typed; the year is still text and may be blank or invalid. */
+export interface FormValues {
+    fields: string;
+    locations: string;
+    impact: string;
+    year: string;
+    /** Set when the user asked for explanations in their interface language. */
+    language?: string;
+}
+
+/** Falls back to `defaultYear` when the year field does not hold a number. */
+export function promptInputsFromForm({ fields, locations, impact, year, language }: FormValues, defaultYear: number): PromptInputs {
+    return { fields, locations, impact, year: parseInt(year, 10) || defaultYear, ...(language ? { language } : {}) };
+}
+
+/** `cvSummary` is the candidate-checked CV model; it overrides the file where they disagree. */
+export function buildUserPrompt({ fields, locations, impact, year, language }: PromptInputs, cvSummary?: string): string {
+    return `
+          Task: Pick Chevening-eligible UK master’s courses that best match my CV and career plan. The CV is provided in the attached file.
+          
+          Inputs:
+          Target fields: "${fields}"
+          Preferred UK locations: "${locations}"
+          Timeline: must start Sep/Oct ${year}
+          Country-impact one-liner: "${impact}"
+          ${cvSummary ? `
+          CV summary checked and corrected by the candidate (trust it over the file where they differ):
+          ${cvSummary.split('\n').join('\n          ')}
+          ` : ''}${language ? `
+          Language: write the profile strengths and gaps, chevening_rationale, score_breakdown explanations, why_this_trio, why_consider, personal_statement_bullets and notes in ${language}. Keep university and programme names, cities, fees, JSON keys and enum values exactly as they would be in English.
+          ` : ''}
+          Return JSON output per the required schema. Analyze the CV file to extract the candidate's profile, skills, and experience to inform the course matching.
+        `;
+}
+
+
+// --- Essay Review ---
+export const essayReviewInstruction = `
+Role: You review a draft Chevening scholarship essay. Assess it against each listed criterion the way a Chevening selection panel would, using the candidate's CV strengths and gaps as context.
+
+Rules:
+- Rate every listed criterion as "strong", "adequate" or "weak", in the order given, using the criterion names exactly as written.
+- Comments quote or point to specific sentences in the draft. Do not rewrite the essay.
+- Suggestions are concrete edits the candidate can make, drawing on CV strengths the draft does not yet use.
+- Note if the draft is under or over the word limit.
+
+Tone: crisp, factual, zero fluff.
+`;
+
+export const essayReviewSchema = {
+  type: Type.OBJECT,
+  properties: {
+    overall: { type: Type.STRING, description: "Two or three sentences on the draft as a whole." },
+    criteria: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          criterion: { type: Type.STRING },
+          rating: { type: Type.STRING, enum: ['strong', 'adequate', 'weak'] },
+          comment: { type: Type.STRING },
+          suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
+        }
+      }
+    }
+  }
+};
+
+export interface EssayReviewInputs {
+    title: string;
+    question: string;
+    criteria: string[];
+    draft: string;
+    wordLimit: number;
+    profile: Profile;
+}
+
+export function buildEssayReviewPrompt({ title, question, criteria, draft, wordLimit, profile }: EssayReviewInputs): string {
+    return `
+          Essay: ${title}
+          Question: "${question}"
+          Word limit: ${wordLimit}
+          Criteria: ${criteria.map(criterion => `"${criterion}"`).join(', ')}
+
+          CV strengths: ${profile.strengths.join('; ') || 'none identified'}
+          CV gaps: ${profile.gaps.join('; ') || 'none identified'}
+
+          Draft:
+          """
+          ${draft}
+          """
+
+          Return JSON output per the required schema.
+        `;
+}
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Type } from "@google/genai";
+import type { PromptVersion } from './version';
+
+// --- Course Match Prompt 2026.1 ---
+// Released; do not edit. Copy this file to the next version instead.
+
+const systemInstruction = `
+Role: You analyze a user’s CV and recommend UK master’s courses that are Chevening-eligible, using only the Postgrad/Chevening course index. Then you explain how each choice strengthens a Chevening application (leadership, networking, impact, UK fit), and you produce application-ready talking points.
+
+Hard data constraints:
+Search scope: Restrict course discovery to the Chevening-eligible index powered by Postgrad Solutions: the Postgrad Chevening search endpoint (https://www.postgrad.com/search/chevening/) and the official Chevening “Find a course”. Do not invent courses or scrape other sites. If a course isn’t in this index, say so and suggest close in-index substitutes. 
+Eligibility rules (must pass all): full-time; UK-based; taught master’s (not MRes); starts autumn (Sep/Oct); 9–12 months duration. Flag MBA fee-cap notes. Reject anything outside these rules. 
+
+Pipeline:
+1. Parse CV → strengths & gaps relevant to Chevening criteria (leadership, networking, clear country impact, academic readiness, UK/sector linkage).
+2. Query Postgrad/Chevening index with the user’s target fields and UK locations.
+3. Eligibility filter using the rules above; drop non-conforming items. For each recommended course, explicitly return an eligibility check object. If it fails, state why.
+4. Scoring (0–30): Gap fit vs CV (×3), Chevening relevance (×3), UK linkage/credibility (×2), Feasibility (×2), Portfolio/outcomes (×1), Networking exposure (×1). Rate each criterion as a whole number from 0 to 5 in the "scores" object; the total is computed from these sub-scores, so do not return it. Rank courses by the weighted total.
+5. For each course, provide a short, expandable note explaining the rank, referencing the scoring criteria (e.g., "Ranked #1 due to strong alignment with your CV's leadership experience (gap-fit) and direct relevance to your country-impact goal (Chevening relevance).").
+6. Return a ranked Top-9 with Chevening-specific rationales + 3 close alternates, a 3-course strategy (the trio you’d actually list on the form), and brief talking points for each essay section.
+7. Truthfulness: If fees/start cycles are unclear in the index, mark them “Verify on university site.” No guesses.
+8. MBA Alert: If a programme is an MBA, include a note in the Chevening rationale about the £22,000 fee cap.
+
+Tone: crisp, factual, zero fluff. No marketing language.
+`;
+
+const responseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    profile: {
+      type: Type.OBJECT,
+      description: "Analysis of the user's CV against Chevening criteria.",
+      properties: {
+        strengths: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Key strengths from the CV." },
+        gaps: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Areas for development or focus." },
+      }
+    },
+    ranked_courses: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          rank: { type: Type.INTEGER },
+          university: { type: Type.STRING },
+          programme: { type: Type.STRING },
+          city: { type: Type.STRING },
+          url: { type: Type.STRING },
+          start_cycle: { type: Type.STRING },
+          duration_months: { type: Type.INTEGER },
+          fee_gbp: { type: Type.STRING },
+          study_mode: { type: Type.STRING, description: "Mode of study as listed, e.g. 'Full-time'." },
+          award: { type: Type.STRING, description: "Award type as listed, e.g. 'MSc', 'MA', 'LLM', 'MBA'." },
+          chevening_rationale: { type: Type.ARRAY, items: { type: Type.STRING } },
+          eligibility_check: {
+            type: Type.OBJECT,
+            description: "A check against key Chevening eligibility criteria.",
+            properties: {
+              is_eligible: { type: Type.BOOLEAN },
+              reason: { type: Type.STRING, description: "Reason for eligibility status, e.g., 'Passes all checks' or 'Ineligible: duration is over 12 months'."}
+            }
+          },
+          scores: {
+            type: Type.OBJECT,
+            description: "Sub-score per scoring criterion, each an integer from 0 to 5.",
+            properties: {
+              gap_fit: { type: Type.INTEGER, description: "Gap fit vs CV (weight 3)." },
+              chevening_relevance: { type: Type.INTEGER, description: "Chevening relevance (weight 3)." },
+              uk_linkage: { type: Type.INTEGER, description: "UK linkage/credibility (weight 2)." },
+              feasibility: { type: Type.INTEGER, description: "Feasibility (weight 2)." },
+              portfolio: { type: Type.INTEGER, description: "Portfolio/outcomes (weight 1)." },
+              networking: { type: Type.INTEGER, description: "Networking exposure (weight 1)." }
+            }
+          },
+          score_breakdown: {
+            type: Type.STRING,
+            description: "A short explanation of why the course received its rank, based on scoring criteria."
+          }
+        }
+      }
+    },
+    chevening_trio: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          university: { type: Type.STRING },
+          programme: { type: Type.STRING },
+          why_this_trio: { type: Type.STRING }
+        }
+      }
+    },
+    personal_statement_bullets: {
+      type: Type.OBJECT,
+      properties: {
+        leadership: { type: Type.ARRAY, items: { type: Type.STRING } },
+        networking: { type: Type.ARRAY, items: { type: Type.STRING } },
+        career_plan: { type: Type.ARRAY, items: { type: Type.STRING } }
+      }
+    },
+    alternatives: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          university: { type: Type.STRING },
+          programme: { type: Type.STRING },
+          url: { type: Type.STRING },
+          why_consider: { type: Type.STRING }
+        }
+      }
+    },
+    notes: { type: Type.ARRAY, items: { type: Type.STRING } }
+  }
+};
+
+export const prompt2026_1: PromptVersion = {
+    version: '2026.1',
+    released: '2026-10-19',
+    changes: 'The instruction and schema in use when prompts started being versioned.',
+    systemInstruction,
+    responseSchema,
+};
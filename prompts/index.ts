@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { prompt2026_1 } from './2026.1';
+import type { PromptVersion } from './version';
+
+// --- Prompt Versions ---
+// To change the prompt or schema, copy the latest file to the next version,
+// edit the copy, add it here and make it current. Record responses for the
+// evaluation cases and compare with `npm run eval -- --prompt <new> --baseline <old>`.
+
+export type { PromptVersion } from './version';
+
+/** Oldest first. */
+export const PROMPT_VERSIONS: PromptVersion[] = [prompt2026_1];
+
+export const CURRENT_PROMPT: PromptVersion = PROMPT_VERSIONS[PROMPT_VERSIONS.length - 1];
+
+export function findPromptVersion(version: string): PromptVersion | undefined {
+    return PROMPT_VERSIONS.find(prompt => prompt.version === version);
+}
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Prompt Version Interface ---
+// A system instruction and response schema released together. Every run
+// records the version that produced it, and `npm run eval` scores versions
+// against each other, so a released version must never change.
+
+export interface PromptVersion {
+    /** "2026.1", "2026.2", …; bumped on every change to the instruction or schema. */
+    version: string;
+    /** ISO date the version became current. */
+    released: string;
+    /** What changed from the previous version, in a sentence or two. */
+    changes: string;
+    systemInstruction: string;
+    responseSchema: object;
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GoogleGenAI } from "@google/genai";
+import { summariseCvProfile } from '../cv/profile';
+import { EmptyResponseError, InvalidJsonError, SafetyBlockError } from '../errors';
+import { buildEssayReviewPrompt, buildUserPrompt, essayReviewInstruction, essayReviewSchema } from '../prompt';
+import type { CourseMatchProvider } from './provider';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+const SAFETY_FINISH_REASONS = new Set(['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII']);
+
+/** Turns the response text into JSON, or the typed error explaining why it can't. */
+function parseResponse(text: string, finishReason: string | undefined, blockReason: string | undefined): unknown {
+    if (blockReason) throw new SafetyBlockError(blockReason);
+    if (finishReason && SAFETY_FINISH_REASONS.has(finishReason)) throw new SafetyBlockError(finishReason);
+    if (!text.trim()) throw new EmptyResponseError();
+    try {
+        return JSON.parse(text.trim());
+    } catch (error) {
+        throw new InvalidJsonError(text, finishReason === 'MAX_TOKENS', { cause: error });
+    }
+}
+
+export function createGeminiProvider(apiKey: string, model = DEFAULT_GEMINI_MODEL): CourseMatchProvider {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        id: 'gemini',
+        model,
+        async findCourses({ cv, cvProfile, inputs, prompt }, { signal, onText } = {}) {
+            const stream = await ai.models.generateContentStream({
+                model,
+                contents: { parts: [cv, { text: buildUserPrompt(inputs, cvProfile && summariseCvProfile(cvProfile)) }] },
+                config: {
+                    systemInstruction: prompt.systemInstruction,
+                    responseMimeType: "application/json",
+                    responseSchema: prompt.responseSchema,
+                    abortSignal: signal,
+                },
+            });
+            let text = '';
+            let finishReason: string | undefined;
+            let blockReason: string | undefined;
+            for await (const chunk of stream) {
+                // The SDK stops the request on abort but may still yield buffered chunks.
+                signal?.throwIfAborted();
+                blockReason = chunk.promptFeedback?.blockReason ?? blockReason;
+                finishReason = chunk.candidates?.[0]?.finishReason ?? finishReason;
+                text += chunk.text ?? '';
+                onText?.(text);
+            }
+            return parseResponse(text, finishReason, blockReason);
+        },
+        async reviewEssay(request) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: buildEssayReviewPrompt(request),
+                config: {
+                    systemInstruction: essayReviewInstruction,
+                    responseMimeType: "application/json",
+                    responseSchema: essayReviewSchema,
+                },
+            });
+            return parseResponse(response.text ?? '', response.candidates?.[0]?.finishReason, response.promptFeedback?.blockReason);
+        },
+    };
+}
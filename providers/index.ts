@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './gemini';
+import { createMockProvider } from './mock';
+import type { CourseMatchProvider, CvPart } from './provider';
+
+export type { CourseMatchProvider, CourseMatchRequest, CvPart, FindCoursesOptions } from './provider';
+
+/**
+ * Picks the provider from the build-time env (see vite.config.ts).
+ * Set AI_PROVIDER=mock in .env.local to run without a Gemini API key.
+ * Returns null when Gemini is selected but no key is configured.
+ */
+export function createProviderFromEnv(): CourseMatchProvider | null {
+    if (process.env.AI_PROVIDER === 'mock') {
+        return createMockProvider();
+    }
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+        return null;
+    }
+    try {
+        return createGeminiProvider(apiKey, process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL);
+    } catch (error) {
+        console.error("API Key initialization error:", error);
+        return null;
+    }
+}
+
+/** Converts a selected CV file to an inline part the providers can send. */
+export async function fileToGenerativePart(file: File): Promise<CvPart> {
+    const base64EncodedDataPromise = new Promise<string>((resolve) => {
+        const reader = new FileReader();
+        reader.onloadend = () => {
+            const dataUrl = reader.result as string;
+            const base64Data = dataUrl.split(',')[1];
+            resolve(base64Data);
+        };
+        reader.readAsDataURL(file);
+    });
+    return {
+        inlineData: {
+            data: await base64EncodedDataPromise,
+            mimeType: file.type
+        },
+    };
+}
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { countWords } from '../essays';
+import analysisFixture from '../fixtures/analysis.json';
+import { wait } from '../timing';
+import type { CourseMatchProvider } from './provider';
+
+// --- Offline Mock Provider ---
+// Serves a synthetic response so the UI can be developed and demoed without an
+// API key or network access. "{{year}}" in fixture strings becomes the
+// requested start year, keeping the eligibility checks meaningful. Responses
+// are streamed in chunks so the progressive rendering can be exercised too.
+
+export interface MockProviderOptions {
+    fixture?: unknown;
+    /** Simulated response time in milliseconds. */
+    delayMs?: number;
+}
+
+function fillYear(value: unknown, year: number): unknown {
+    if (typeof value === 'string') return value.replaceAll('{{year}}', String(year));
+    if (Array.isArray(value)) return value.map(item => fillYear(item, year));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillYear(item, year)]));
+    }
+    return value;
+}
+
+/** Number of chunks the response is streamed in. */
+const STREAM_CHUNKS = 40;
+
+export function createMockProvider({ fixture = analysisFixture, delayMs = 1500 }: MockProviderOptions = {}): CourseMatchProvider {
+    return {
+        id: 'mock',
+        model: 'mock-fixture',
+        async findCourses({ inputs }, { signal, onText } = {}) {
+            const text = JSON.stringify(fillYear(structuredClone(fixture), inputs.year), null, 2);
+            const chunkSize = Math.ceil(text.length / STREAM_CHUNKS);
+            for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+                await wait(delayMs / STREAM_CHUNKS, signal);
+                onText?.(text.slice(0, end));
+            }
+            return JSON.parse(text);
+        },
+        async reviewEssay({ criteria, draft, wordLimit, profile }) {
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+            const words = countWords(draft);
+            const ratings = ['adequate', 'weak', 'strong'];
+            return {
+                overall: `Mock review of a ${words}-word draft (limit ${wordLimit}). Replace AI_PROVIDER=mock with a real provider for genuine feedback.`,
+                criteria: criteria.map((criterion, index) => ({
+                    criterion,
+                    rating: ratings[index % ratings.length],
+                    comment: `Placeholder comment on "${criterion}".`,
+                    suggestions: profile.strengths.length > 0
+                        ? [`Tie this to a CV strength, e.g. "${profile.strengths[index % profile.strengths.length]}".`]
+                        : ['Add a specific, measurable example.'],
+                })),
+            };
+        },
+    };
+}
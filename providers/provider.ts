@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { CvProfile } from '../cv/profile';
+import type { EssayReviewInputs, PromptInputs } from '../prompt';
+import type { PromptVersion } from '../prompts';
+
+// --- Course Match Provider Interface ---
+// Everything the UI needs from an AI backend. Implementations return the parsed
+// JSON as-is; callers run it through `validateAnalysis` (or
+// `validateEssayFeedback` for reviews) before rendering.
+
+/** An inline file part, as produced by `fileToGenerativePart`. */
+export interface CvPart {
+    inlineData: {
+        data: string;
+        mimeType: string;
+    };
+}
+
+export interface CourseMatchRequest {
+    cv: CvPart;
+    /** The CV as read in the browser and corrected by the user, when extraction worked. */
+    cvProfile?: CvProfile;
+    inputs: PromptInputs;
+    /** The system instruction and response schema to send. */
+    prompt: PromptVersion;
+}
+
+export interface FindCoursesOptions {
+    /** Aborts the request; the returned promise then rejects with an AbortError. */
+    signal?: AbortSignal;
+    /** Called as the response streams in, with all the text received so far. */
+    onText?: (text: string) => void;
+}
+
+export interface CourseMatchProvider {
+    /** Short identifier shown in logs and stored with results, e.g. "gemini" or "mock". */
+    readonly id: string;
+    /** The model that produces results, e.g. "gemini-2.5-flash". */
+    readonly model: string;
+    findCourses(request: CourseMatchRequest, options?: FindCoursesOptions): Promise<unknown>;
+    reviewEssay(request: EssayReviewInputs): Promise<unknown>;
+}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { EmptyResponseError, InvalidJsonError } from '../errors';
+import type { CourseMatchProvider } from './provider';
+
+// --- Recorded Response Provider ---
+// Replays one response captured from a real provider, text and all, so the
+// evaluation script can score it again without an API call. Malformed and
+// cut-off responses fail exactly as they did when recorded.
+
+export interface Recording {
+    /** Evaluation case the response belongs to. */
+    case: string;
+    promptVersion: string;
+    provider: string;
+    model: string;
+    /** ISO timestamp; absent from hand-written synthetic responses. */
+    recordedAt?: string;
+    text: string;
+}
+
+export function createRecordedProvider(recording: Recording): CourseMatchProvider {
+    return {
+        id: 'recorded',
+        model: recording.model,
+        async findCourses(_request, { onText } = {}) {
+            const { text } = recording;
+            onText?.(text);
+            if (!text.trim()) throw new EmptyResponseError();
+            try {
+                return JSON.parse(text.trim());
+            } catch (error) {
+                throw new InvalidJsonError(text, false, { cause: error });
+            }
+        },
+        async reviewEssay() {
+            throw new Error('Essay reviews are not recorded.');
+        },
+    };
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { MessageKey } from './i18n';
+
+// --- UK Regions ---
+// Maps course cities to broad UK regions, used to check how spread out a trio
+// is and to pick living-cost estimates.
+
+export type UkRegion =
+    | 'London'
+    | 'South East'
+    | 'South West'
+    | 'East of England'
+    | 'Midlands'
+    | 'North'
+    | 'Scotland'
+    | 'Wales'
+    | 'Northern Ireland';
+
+const REGION_CITIES: Record<UkRegion, string[]> = {
+    'London': ['london', 'egham', 'uxbridge', 'greenwich', 'kingston'],
+    'South East': ['oxford', 'reading', 'brighton', 'falmer', 'sussex', 'southampton', 'portsmouth', 'guildford', 'surrey', 'canterbury', 'kent', 'winchester', 'chichester', 'milton keynes', 'cranfield'],
+    'South West': ['bristol', 'bath', 'exeter', 'plymouth', 'bournemouth', 'cheltenham', 'gloucester', 'falmouth'],
+    'East of England': ['cambridge', 'norwich', 'colchester', 'essex', 'hatfield', 'luton', 'chelmsford'],
+    'Midlands': ['birmingham', 'coventry', 'warwick', 'nottingham', 'leicester', 'loughborough', 'derby', 'lincoln', 'keele', 'stoke', 'wolverhampton', 'worcester', 'midlands'],
+    'North': ['manchester', 'liverpool', 'leeds', 'sheffield', 'newcastle', 'york', 'durham', 'lancaster', 'hull', 'bradford', 'huddersfield', 'salford', 'sunderland', 'middlesbrough', 'preston', 'chester', 'yorkshire'],
+    'Scotland': ['scotland', 'edinburgh', 'glasgow', 'aberdeen', 'dundee', 'st andrews', 'stirling', 'inverness', 'paisley'],
+    'Wales': ['wales', 'cardiff', 'swansea', 'bangor', 'aberystwyth', 'newport', 'wrexham'],
+    'Northern Ireland': ['northern ireland', 'belfast', 'coleraine', 'derry', 'londonderry'],
+};
+
+/** Message keys for showing a region in the interface language. */
+export const REGION_LABELS: Record<UkRegion, MessageKey> = {
+    'London': 'region.london',
+    'South East': 'region.southEast',
+    'South West': 'region.southWest',
+    'East of England': 'region.east',
+    'Midlands': 'region.midlands',
+    'North': 'region.north',
+    'Scotland': 'region.scotland',
+    'Wales': 'region.wales',
+    'Northern Ireland': 'region.northernIreland',
+};
+
+/** Returns null when the city is empty or not recognised. */
+export function regionForCity(city: string | undefined): UkRegion | null {
+    const text = (city ?? '').toLowerCase();
+    if (!text.trim()) return null;
+    for (const [region, cities] of Object.entries(REGION_CITIES) as [UkRegion, string[]][]) {
+        if (cities.some(name => new RegExp(`\\b${name}\\b`).test(text))) return region;
+    }
+    return null;
+}
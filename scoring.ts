@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { RankedCourse } from './types';
+
+// --- Scoring Rubric ---
+// The model rates each criterion 0–5; totals and ranking are computed here so
+// users can re-weight the rubric without another API call.
+
+export type CriterionId =
+    | 'gap_fit'
+    | 'chevening_relevance'
+    | 'uk_linkage'
+    | 'feasibility'
+    | 'portfolio'
+    | 'networking';
+
+export interface ScoringCriterion {
+    id: CriterionId;
+    label: string;
+    defaultWeight: number;
+}
+
+export type CriterionScores = Record<CriterionId, number>;
+export type ScoreWeights = Record<CriterionId, number>;
+
+export const SCORING_CRITERIA: ScoringCriterion[] = [
+    { id: 'gap_fit', label: 'Gap fit vs CV', defaultWeight: 3 },
+    { id: 'chevening_relevance', label: 'Chevening relevance', defaultWeight: 3 },
+    { id: 'uk_linkage', label: 'UK linkage/credibility', defaultWeight: 2 },
+    { id: 'feasibility', label: 'Feasibility', defaultWeight: 2 },
+    { id: 'portfolio', label: 'Portfolio/outcomes', defaultWeight: 1 },
+    { id: 'networking', label: 'Networking exposure', defaultWeight: 1 },
+];
+
+export const MAX_CRITERION_SCORE = 5;
+export const MAX_TOTAL_SCORE = 30;
+export const MAX_WEIGHT = 5;
+
+export const DEFAULT_WEIGHTS = Object.fromEntries(
+    SCORING_CRITERIA.map(criterion => [criterion.id, criterion.defaultWeight]),
+) as ScoreWeights;
+
+const WEIGHTS_STORAGE_KEY = 'chevening-matchmaker:score-weights';
+
+/**
+ * Weighted total on the 0–30 scale. With the default weights this is exactly
+ * the rubric in the system prompt.
+ */
+export function totalScore(scores: CriterionScores, weights: ScoreWeights = DEFAULT_WEIGHTS): number {
+    const weightSum = SCORING_CRITERIA.reduce((sum, { id }) => sum + weights[id], 0);
+    if (weightSum === 0) return 0;
+    const weighted = SCORING_CRITERIA.reduce((sum, { id }) => sum + weights[id] * scores[id], 0);
+    return Math.round((weighted / (weightSum * MAX_CRITERION_SCORE)) * MAX_TOTAL_SCORE * 10) / 10;
+}
+
+/** Each criterion's share of the total, in points, for the breakdown chart. */
+export function scoreContributions(scores: CriterionScores, weights: ScoreWeights = DEFAULT_WEIGHTS): Record<CriterionId, number> {
+    const weightSum = SCORING_CRITERIA.reduce((sum, { id }) => sum + weights[id], 0);
+    return Object.fromEntries(SCORING_CRITERIA.map(({ id }) => [
+        id,
+        weightSum === 0 ? 0 : (weights[id] * scores[id] / (weightSum * MAX_CRITERION_SCORE)) * MAX_TOTAL_SCORE,
+    ])) as Record<CriterionId, number>;
+}
+
+export interface ScoredCourse {
+    course: RankedCourse;
+    /** Null when the model returned no sub-scores for this course. */
+    total: number | null;
+    /** The rank the model originally gave. */
+    modelRank: number;
+}
+
+/**
+ * Orders courses by weighted total, highest first, and renumbers `rank`.
+ * Unscored courses keep their relative order after the scored ones.
+ */
+export function rankCourses(courses: RankedCourse[], weights: ScoreWeights): ScoredCourse[] {
+    return courses
+        .map(course => ({
+            course,
+            total: course.scores ? totalScore(course.scores, weights) : null,
+            modelRank: course.rank,
+        }))
+        .sort((a, b) => {
+            if (a.total === null || b.total === null) {
+                return a.total === b.total ? a.modelRank - b.modelRank : a.total === null ? 1 : -1;
+            }
+            return b.total - a.total || a.modelRank - b.modelRank;
+        })
+        .map((scored, index) => ({ ...scored, course: { ...scored.course, rank: index + 1 } }));
+}
+
+export function isDefaultWeights(weights: ScoreWeights): boolean {
+    return SCORING_CRITERIA.every(({ id }) => weights[id] === DEFAULT_WEIGHTS[id]);
+}
+
+export function loadWeights(): ScoreWeights {
+    try {
+        const stored = JSON.parse(localStorage.getItem(WEIGHTS_STORAGE_KEY) ?? 'null');
+        if (stored && typeof stored === 'object') {
+            return Object.fromEntries(SCORING_CRITERIA.map(({ id }) => {
+                const weight = stored[id];
+                return [id, typeof weight === 'number' && weight >= 0 && weight <= MAX_WEIGHT ? weight : DEFAULT_WEIGHTS[id]];
+            })) as ScoreWeights;
+        }
+    } catch (error) {
+        console.warn("Could not read saved score weights:", error);
+    }
+    return { ...DEFAULT_WEIGHTS };
+}
+
+export function saveWeights(weights: ScoreWeights) {
+    try {
+        localStorage.setItem(WEIGHTS_STORAGE_KEY, JSON.stringify(weights));
+    } catch (error) {
+        console.warn("Could not save score weights:", error);
+    }
+}
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { compareOutcomes, formatReport, runCase, scoreRun, summarise } from '../evals/evaluate';
+import type { BaselineComparison, CaseOutcome, EvalCase } from '../evals/evaluate';
+import { CURRENT_PROMPT, findPromptVersion } from '../prompts';
+import type { PromptVersion } from '../prompts';
+import type { CourseMatchProvider } from '../providers';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from '../providers/gemini';
+import { createMockProvider } from '../providers/mock';
+import { createRecordedProvider } from '../providers/recorded';
+import type { Recording } from '../providers/recorded';
+
+// Usage: npm run eval -- [--prompt 2026.1] [--provider recorded|synthetic|mock|gemini] [--baseline <version>] [--record] [--out report.json]
+//
+// recorded (default) replays evals/recordings/<prompt>/<case>.json, which must
+// first be recorded: gemini calls the API with GEMINI_API_KEY and, with
+// --record, saves what it got back for the next replay. The baseline is always
+// replayed from its recordings. synthetic replays the hand-written responses
+// in evals/synthetic/, which exercise the scoring but say nothing about how a
+// prompt performs. Exits with 1 when no case (or no baseline case) could be evaluated.
+
+const CASES_DIR = 'evals/cases';
+const RECORDINGS_DIR = 'evals/recordings';
+const SYNTHETIC_DIR = 'evals/synthetic';
+
+function readFlag(args: string[], name: string): string | undefined {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+}
+
+function fail(message: string): never {
+    console.error(message);
+    process.exit(1);
+}
+
+function promptVersion(version: string): PromptVersion {
+    return findPromptVersion(version) ?? fail(`Unknown prompt version "${version}". Known: ${CURRENT_PROMPT.version} and earlier in prompts/index.ts.`);
+}
+
+function loadCases(): EvalCase[] {
+    return readdirSync(CASES_DIR)
+        .filter(file => file.endsWith('.json'))
+        .sort()
+        .map(file => JSON.parse(readFileSync(path.join(CASES_DIR, file), 'utf8')) as EvalCase);
+}
+
+function recordingsDir(version: string): string {
+    return path.join(RECORDINGS_DIR, version);
+}
+
+function recordingPath(directory: string, caseId: string): string {
+    return path.join(directory, `${caseId}.json`);
+}
+
+function readRecording(directory: string, caseId: string): Recording | null {
+    const file = recordingPath(directory, caseId);
+    return existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) as Recording : null;
+}
+
+/** Replays the responses saved in `directory`, one file per case. */
+async function replay(directory: string, prompt: PromptVersion, cases: EvalCase[]): Promise<CaseOutcome[]> {
+    const outcomes: CaseOutcome[] = [];
+    for (const evalCase of cases) {
+        const recording = readRecording(directory, evalCase.id);
+        outcomes.push(recording
+            ? await runCase(createRecordedProvider(recording), prompt, evalCase)
+            : { caseId: evalCase.id, error: `No recording at ${recordingPath(directory, evalCase.id)}.` });
+    }
+    return outcomes;
+}
+
+/** Runs every case against a live provider, saving each response when `record` is set. */
+async function runLive(provider: CourseMatchProvider, prompt: PromptVersion, cases: EvalCase[], record: boolean): Promise<CaseOutcome[]> {
+    const outcomes: CaseOutcome[] = [];
+    for (const evalCase of cases) {
+        console.log(`Running ${evalCase.id}…`);
+        let text = '';
+        const outcome = await runCase(provider, prompt, evalCase, received => { text = received; });
+        outcomes.push(outcome);
+        if (record && text) {
+            const recording: Recording = {
+                case: evalCase.id,
+                promptVersion: prompt.version,
+                provider: provider.id,
+                model: provider.model,
+                recordedAt: new Date().toISOString(),
+                text,
+            };
+            mkdirSync(recordingsDir(prompt.version), { recursive: true });
+            writeFileSync(recordingPath(recordingsDir(prompt.version), evalCase.id), `${JSON.stringify(recording, null, 2)}\n`);
+        }
+    }
+    return outcomes;
+}
+
+const args = process.argv.slice(2);
+const prompt = promptVersion(readFlag(args, 'prompt') ?? CURRENT_PROMPT.version);
+const baselineVersion = readFlag(args, 'baseline');
+const providerName = readFlag(args, 'provider') ?? 'recorded';
+const record = args.includes('--record');
+const cases = loadCases();
+if (cases.length === 0) fail(`No cases in ${CASES_DIR}.`);
+
+let outcomes: CaseOutcome[];
+if (providerName === 'recorded') {
+    if (record) fail('--record needs a live provider: --provider gemini or mock.');
+    outcomes = await replay(recordingsDir(prompt.version), prompt, cases);
+} else if (providerName === 'synthetic') {
+    if (record) fail('--record needs a live provider: --provider gemini or mock.');
+    console.log(`Replaying the synthetic responses in ${SYNTHETIC_DIR}; they test the scoring, not prompt ${prompt.version}.\n`);
+    outcomes = await replay(SYNTHETIC_DIR, prompt, cases);
+} else if (providerName === 'mock') {
+    outcomes = await runLive(createMockProvider({ delayMs: 0 }), prompt, cases, record);
+} else if (providerName === 'gemini') {
+    const apiKey = process.env.GEMINI_API_KEY ?? fail('Set GEMINI_API_KEY to run against Gemini.');
+    outcomes = await runLive(createGeminiProvider(apiKey, process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL), prompt, cases, record);
+} else {
+    fail(`Unknown provider "${providerName}". Use recorded, synthetic, mock or gemini.`);
+}
+
+const metrics = outcomes.flatMap(outcome => (outcome.run ? [scoreRun(outcome.caseId, outcome.run)] : []));
+const summary = summarise(prompt.version, outcomes, metrics);
+let baseline: BaselineComparison | undefined;
+if (baselineVersion) {
+    const baselinePrompt = promptVersion(baselineVersion);
+    const baselineOutcomes = await replay(recordingsDir(baselinePrompt.version), baselinePrompt, cases);
+    const baselineMetrics = baselineOutcomes.flatMap(outcome => (outcome.run ? [scoreRun(outcome.caseId, outcome.run)] : []));
+    baseline = {
+        summary: summarise(baselinePrompt.version, baselineOutcomes, baselineMetrics),
+        stability: compareOutcomes(baselineOutcomes, outcomes),
+    };
+}
+
+console.log(formatReport(summary, metrics, baseline));
+
+const out = readFlag(args, 'out');
+if (out) {
+    writeFileSync(out, `${JSON.stringify({ generatedAt: new Date().toISOString(), provider: providerName, summary, cases: metrics, baseline }, null, 2)}\n`);
+    console.log(`\nWrote the report to ${out}.`);
+}
+
+if (summary.evaluated === 0) fail(`\nNo case was evaluated for prompt ${prompt.version}; see "Not evaluated" above.`);
+if (baseline && baseline.summary.evaluated === 0) fail(`\nNo case was evaluated for the baseline ${baseline.summary.promptVersion}; record its responses first.`);
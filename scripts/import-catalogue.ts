@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { buildCatalogue, importCatalogueCsv, importCatalogueJson } from '../catalogue/import';
+
+// Usage: npm run catalogue:import -- <export.csv|export.json> [--version 2026.1] [--source "..."] [--out path]
+
+const DEFAULT_OUT = 'catalogue/data/catalogue.json';
+
+function readFlag(args: string[], name: string): string | undefined {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+}
+
+const args = process.argv.slice(2);
+const input = args.find((arg, i) => !arg.startsWith('--') && !args[i - 1]?.startsWith('--'));
+if (!input) {
+    console.error('Usage: npm run catalogue:import -- <export.csv|export.json> [--version <v>] [--source <text>] [--out <path>]');
+    process.exit(1);
+}
+
+const text = readFileSync(input, 'utf8');
+const { courses, warnings } = path.extname(input).toLowerCase() === '.json'
+    ? importCatalogueJson(text)
+    : importCatalogueCsv(text);
+
+const today = new Date().toISOString().slice(0, 10).replace(/-/g, '.');
+const catalogue = buildCatalogue(
+    courses,
+    readFlag(args, 'version') ?? today,
+    readFlag(args, 'source') ?? `Imported from ${path.basename(input)}`,
+);
+const out = readFlag(args, 'out') ?? DEFAULT_OUT;
+writeFileSync(out, `${JSON.stringify(catalogue, null, 2)}\n`);
+
+warnings.forEach(warning => console.warn(`warning: ${warning}`));
+console.log(`Wrote ${courses.length} courses (version ${catalogue.version}) to ${out}.`);
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MAX_ATTEMPTS, analyseCv, repairJson, requestAnalysis } from '../analysis';
+import type { FailedAttempt } from '../analysis';
+import { EmptyResultError, InvalidJsonError, ServerError } from '../errors';
+import { CURRENT_PROMPT } from '../prompts';
+import type { CourseMatchProvider, CourseMatchRequest } from '../providers';
+import { fixtureProvider } from './helpers';
+import type { FixtureName } from './helpers';
+
+// Retries back off for seconds; skip the waiting.
+vi.mock('../timing', () => ({ wait: vi.fn(async () => {}) }));
+
+const request: CourseMatchRequest = {
+    cv: { inlineData: { data: '', mimeType: 'application/pdf' } },
+    inputs: { fields: 'Digital policy', locations: 'Anywhere', impact: 'Rural broadband', year: 2030 },
+    prompt: CURRENT_PROMPT,
+};
+
+function analyse(name: FixtureName, failures: FailedAttempt[] = []) {
+    return analyseCv(fixtureProvider(name), request, { onFailure: failure => failures.push(failure) });
+}
+
+beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('repairJson', () => {
+    it('strips markdown fences and trailing commas', () => {
+        expect(repairJson('```json\n{"notes": ["a", "b",],}\n```')).toEqual({ notes: ['a', 'b'] });
+    });
+
+    it('ignores text around the object', () => {
+        expect(repairJson('Here you go: {"notes": []} Hope this helps.')).toEqual({ notes: [] });
+    });
+
+    it('gives up on text that is still not JSON', () => {
+        expect(repairJson('{"notes": [')).toBeUndefined();
+        expect(repairJson('no JSON here')).toBeUndefined();
+    });
+});
+
+describe('requestAnalysis', () => {
+    it('retries transient failures and reports each one', async () => {
+        const findCourses = vi.fn()
+            .mockRejectedValueOnce(new ServerError(503))
+            .mockResolvedValueOnce({ notes: ['ok'] });
+        const provider = { findCourses } as unknown as CourseMatchProvider;
+        const failures: FailedAttempt[] = [];
+        const retries: number[] = [];
+
+        const response = await requestAnalysis(provider, request, {
+            onFailure: failure => failures.push(failure),
+            onRetry: attempt => retries.push(attempt),
+        });
+
+        expect(response).toEqual({ raw: { notes: ['ok'] }, repaired: false, attempts: 2 });
+        expect(failures.map(failure => [failure.kind, failure.outcome])).toEqual([['server', 'retried']]);
+        expect(retries).toEqual([2]);
+    });
+
+    it('stops after the last attempt', async () => {
+        const findCourses = vi.fn().mockRejectedValue(new ServerError(500));
+        const failures: FailedAttempt[] = [];
+
+        await expect(requestAnalysis({ findCourses } as unknown as CourseMatchProvider, request, {
+            onFailure: failure => failures.push(failure),
+        })).rejects.toBeInstanceOf(ServerError);
+        expect(findCourses).toHaveBeenCalledTimes(MAX_ATTEMPTS);
+        expect(failures.at(-1)?.outcome).toBe('gave_up');
+    });
+
+    it('does not retry once aborted', async () => {
+        const controller = new AbortController();
+        const findCourses = vi.fn(async () => {
+            controller.abort();
+            throw new DOMException('Aborted', 'AbortError');
+        });
+
+        await expect(requestAnalysis({ findCourses } as unknown as CourseMatchProvider, request, { signal: controller.signal })).rejects.toThrow('Aborted');
+        expect(findCourses).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('analyseCv with synthetic responses', () => {
+    it('returns an eligible response as a complete run', async () => {
+        const run = await analyse('analysis.json');
+        expect(run.issues).toEqual([]);
+        expect(run.result.ranked_courses).toHaveLength(6);
+        expect(run.result.chevening_trio).toHaveLength(3);
+        expect(run).toMatchObject({ provider: 'fixture', model: 'analysis.json', promptVersion: CURRENT_PROMPT.version, inputs: request.inputs });
+    });
+
+    it('keeps courses the model marked ineligible', async () => {
+        const run = await analyse('ineligible.json');
+        expect(run.result.ranked_courses.every(course => course.eligibility_check.is_eligible === false)).toBe(true);
+        expect(run.result.chevening_trio).toEqual([]);
+    });
+
+    it('repairs fenced JSON with trailing commas on the first attempt', async () => {
+        const failures: FailedAttempt[] = [];
+        const run = await analyse('malformed.txt', failures);
+        expect(run.result.ranked_courses[0].programme).toBe('MSc Coastal Engineering');
+        expect(run.issues[0]).toEqual({ key: 'results.repaired' });
+        expect(failures.map(failure => failure.outcome)).toEqual(['repaired']);
+    });
+
+    it('salvages the complete sections of a cut-off response after the last retry', async () => {
+        const failures: FailedAttempt[] = [];
+        const run = await analyse('partial.txt', failures);
+        expect(failures.map(failure => failure.outcome)).toEqual([...Array(MAX_ATTEMPTS - 1).fill('retried'), 'salvaged']);
+        expect(failures[0].kind).toBe('invalid_json');
+        expect(run.result.profile.strengths).toHaveLength(2);
+        expect(run.result.ranked_courses.map(course => course.programme)).toEqual(['MA Education Policy']);
+        expect(run.issues.length).toBeGreaterThan(0);
+    });
+
+    it('raises EmptyResultError when nothing usable came back', async () => {
+        const provider = { id: 'fixture', model: 'empty', findCourses: async () => ({ profile: {}, ranked_courses: [] }) } as unknown as CourseMatchProvider;
+        await expect(analyseCv(provider, request)).rejects.toBeInstanceOf(EmptyResultError);
+    });
+
+    it('surfaces text that cannot be parsed or salvaged', async () => {
+        const provider = {
+            findCourses: async () => {
+                throw new InvalidJsonError('I am sorry, I cannot help with that.', false);
+            },
+        } as unknown as CourseMatchProvider;
+        await expect(analyseCv(provider, request)).rejects.toBeInstanceOf(InvalidJsonError);
+    });
+});
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { readFileSync } from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CourseMatchProvider } from '../providers';
+import { fixtureProvider } from './helpers';
+import type { FixtureName } from './helpers';
+
+// --- Submit Flow ---
+// Loads the real page and app module with a fake provider serving synthetic
+// responses, then submits the form as a user would.
+
+let provider: CourseMatchProvider | null = null;
+
+vi.mock('../providers', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../providers')>(),
+    createProviderFromEnv: () => provider,
+}));
+vi.mock('../timing', () => ({ wait: vi.fn(async () => {}) }));
+
+const page = readFileSync(path.resolve(__dirname, '../index.html'), 'utf8');
+const body = page.slice(page.indexOf('<body>') + '<body>'.length, page.indexOf('<script type="module"'));
+
+const $ = <T extends Element = HTMLElement>(selector: string) => document.querySelector(selector) as T;
+
+async function startApp(next: CourseMatchProvider | null) {
+    provider = next;
+    document.body.innerHTML = body;
+    vi.resetModules();
+    await import('../index');
+}
+
+function fillForm(file: File | null) {
+    $<HTMLInputElement>('#fields-input').value = 'Digital policy';
+    $<HTMLInputElement>('#locations-input').value = 'Anywhere';
+    $<HTMLInputElement>('#impact-input').value = 'Rural broadband';
+    $<HTMLInputElement>('#year-input').value = '2030';
+    Object.defineProperty($('#cv-file-input'), 'files', { value: file ? [file] : [], configurable: true });
+}
+
+async function submit(name: FixtureName) {
+    await startApp(fixtureProvider(name));
+    fillForm(new File(['%PDF-1.7'], 'cv.pdf', { type: 'application/pdf' }));
+    $('#course-finder-form').dispatchEvent(new Event('submit', { cancelable: true }));
+    await vi.waitFor(() => expect($<HTMLButtonElement>('#submit-button').disabled).toBe(false));
+}
+
+const cards = () => [...document.querySelectorAll('#ranked-courses-list .course-card')];
+
+beforeEach(() => {
+    Element.prototype.scrollIntoView = vi.fn();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    localStorage.clear();
+});
+
+describe('submitting the form', () => {
+    it('renders an eligible response in full', async () => {
+        await submit('analysis.json');
+        expect($('#error-section').classList.contains('hidden')).toBe(true);
+        expect($('.partial-result-banner')).toBeNull();
+        expect(cards()).toHaveLength(6);
+        expect(document.querySelectorAll('.trio-card')).toHaveLength(3);
+        expect($('#essay-workspace').children.length).toBeGreaterThan(0);
+    });
+
+    it('marks every course of an ineligible response', async () => {
+        await submit('ineligible.json');
+        expect(cards()).toHaveLength(2);
+        expect(document.querySelectorAll('#ranked-courses-list .eligibility-badge.ineligible')).toHaveLength(2);
+        expect(document.querySelectorAll('.trio-card')).toHaveLength(0);
+    });
+
+    it('warns about the MBA fee cap', async () => {
+        await submit('mba.json');
+        expect($('.trio-card .mba-warning')).not.toBeNull();
+        expect($('#ranked-courses-list .mba-warning')).not.toBeNull();
+    });
+
+    it('shows what it could salvage from a cut-off response', async () => {
+        await submit('partial.txt');
+        expect($('.partial-result-banner')).not.toBeNull();
+        expect(cards()).toHaveLength(1);
+        expect($('#error-section').classList.contains('hidden')).toBe(true);
+    });
+
+    it('repairs malformed JSON and says so', async () => {
+        await submit('malformed.txt');
+        expect($('.partial-result-banner')?.textContent).toMatch(/repaired/i);
+        expect(cards()[0].querySelector('h3')?.textContent).toContain('MSc Coastal Engineering');
+    });
+
+    it('shows an error with a retry when nothing usable came back', async () => {
+        await startApp({ ...fixtureProvider('analysis.json'), findCourses: async () => ({}) });
+        fillForm(new File(['%PDF-1.7'], 'cv.pdf', { type: 'application/pdf' }));
+        $('#course-finder-form').dispatchEvent(new Event('submit', { cancelable: true }));
+        await vi.waitFor(() => expect($('#error-section').classList.contains('hidden')).toBe(false));
+        expect($('#results-section').children).toHaveLength(0);
+        expect($('[data-error-action="retry"]')).not.toBeNull();
+    });
+
+    it('asks for a CV before calling the provider', async () => {
+        const fake = fixtureProvider('analysis.json');
+        await startApp(fake);
+        fillForm(null);
+        $('#course-finder-form').dispatchEvent(new Event('submit', { cancelable: true }));
+        expect($('#error-section').classList.contains('hidden')).toBe(false);
+        expect($('[data-error-action="retry"]')).toBeNull();
+        expect(fake.requests).toHaveLength(0);
+    });
+
+    it('sends the form values to the provider', async () => {
+        const fake = fixtureProvider('analysis.json');
+        await startApp(fake);
+        fillForm(new File(['%PDF-1.7'], 'cv.pdf', { type: 'application/pdf' }));
+        $<HTMLInputElement>('#year-input').value = '';
+        $('#course-finder-form').dispatchEvent(new Event('submit', { cancelable: true }));
+        await vi.waitFor(() => expect($<HTMLButtonElement>('#submit-button').disabled).toBe(false));
+        expect(fake.requests[0].inputs).toMatchObject({ fields: 'Digital policy', impact: 'Rural broadband' });
+        expect(fake.requests[0].inputs.year).toBeGreaterThan(2000);
+        expect(fake.requests[0].cv.inlineData.mimeType).toBe('application/pdf');
+    });
+
+    it('says when the analysis could not be saved', async () => {
+        // jsdom has no IndexedDB, so saving fails as it does in some private windows.
+        await submit('analysis.json');
+        await vi.waitFor(() => expect($('#history-status').textContent).toMatch(/could not be added to Saved Analyses/));
+        expect($('#history-section').classList.contains('hidden')).toBe(false);
+        expect(cards()).toHaveLength(6);
+    });
+
+    it('keeps an edited trio when the language changes', async () => {
+        await submit('analysis.json');
+        const picks = () => [...document.querySelectorAll<HTMLElement>('#trio-builder .trio-pick[data-key]')].map(pick => pick.dataset.key);
+        const [, ...rest] = picks();
+        $('#trio-builder .trio-pick [data-action="remove"]').click();
+        expect(picks()).toEqual(rest);
+
+        const { setLocale } = await import('../i18n');
+        setLocale('fr');
+        expect(picks()).toEqual(rest);
+        setLocale('en');
+    });
+});
+
+describe('without a provider', () => {
+    it('replaces the form with the configuration message', async () => {
+        await startApp(null);
+        expect($('#config-error')).not.toBeNull();
+        expect($('#course-finder-form')).toBeNull();
+    });
+});
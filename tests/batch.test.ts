@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { addFiles, applyManifest, nameFromFileName, parseManifest, pendingCandidates, summariseCandidate } from '../batch';
+import type { BatchCandidate } from '../batch';
+import { toCohortCsv } from '../export';
+import { tMessage } from '../i18n';
+import type { AnalysisRun } from '../types';
+import { validateAnalysis } from '../validation';
+import { readFixture } from './helpers';
+
+const YEAR = 2030;
+
+function counter() {
+    let id = 0;
+    return () => ++id;
+}
+
+function pdf(name: string) {
+    return new File(['%PDF'], name, { type: 'application/pdf' });
+}
+
+function run(): AnalysisRun {
+    return {
+        result: validateAnalysis(JSON.parse(readFixture('analysis.json', YEAR))).data,
+        issues: [],
+        inputs: { fields: 'Digital policy', locations: '', impact: 'Rural broadband', year: YEAR },
+        generatedAt: '2030-01-01T00:00:00.000Z',
+        provider: 'fixture',
+        model: 'analysis.json',
+    };
+}
+
+describe('parseManifest', () => {
+    it('matches column names loosely and reads each row', () => {
+        const { rows, warnings } = parseManifest('\uFEFFCV File,Candidate,Target fields,Start year\r\nana.pdf,Ana,"Health, policy",2031\r\n');
+        expect(warnings).toEqual([]);
+        expect(rows).toEqual([{ file: 'ana.pdf', name: 'Ana', fields: 'Health, policy', locations: '', impact: '', year: 2031 }]);
+    });
+
+    it('warns about rows it cannot use', () => {
+        const { rows, warnings } = parseManifest('file,year\n,2030\nbo.pdf,soon\n');
+        expect(rows).toHaveLength(1);
+        expect(rows[0].year).toBeNull();
+        expect(warnings.map(tMessage)).toEqual(['Row 2: no CV file name, skipped.', 'Row 3: start year "soon" not understood; using the default.']);
+    });
+
+    it('rejects a manifest without a file column', () => {
+        expect(tMessage(parseManifest('name\nAna\n').warnings[0])).toMatch(/^No file column found/);
+    });
+});
+
+describe('addFiles and applyManifest', () => {
+    it('pairs manifest rows with uploads by file name', () => {
+        const candidates: BatchCandidate[] = [];
+        const nextId = counter();
+        applyManifest(candidates, parseManifest('file,name,fields,impact\nAna_CV.pdf,Ana,Health,Clinics\n').rows, YEAR, nextId);
+        expect(pendingCandidates(candidates)).toEqual([]);
+
+        const warnings = addFiles(candidates, [pdf('ana_cv.pdf'), pdf('bo-smith.pdf'), new File([''], 'notes.txt')], YEAR, nextId);
+        expect(warnings.map(tMessage)).toEqual(['notes.txt: not a PDF or DOCX file, skipped.']);
+        expect(candidates.map(candidate => candidate.name)).toEqual(['Ana', 'bo smith']);
+        expect(pendingCandidates(candidates).map(candidate => candidate.name)).toEqual(['Ana']);
+    });
+
+    it('derives names from file names', () => {
+        expect(nameFromFileName('jane_doe-cv.pdf')).toBe('jane doe cv');
+    });
+});
+
+describe('cohort report', () => {
+    it('summarises the trio, failed checks and top gaps', () => {
+        const summary = summariseCandidate(run());
+        expect(summary.trio).toHaveLength(3);
+        expect(summary.trio[0].eligibility).toBe('eligible');
+        expect(summary.gaps).toHaveLength(3);
+    });
+
+    it('exports one CSV row per candidate and neutralises formulas', () => {
+        const candidates: BatchCandidate[] = [
+            { id: 1, name: '=HYPERLINK("x")', fileName: 'a.pdf', file: null, inputs: run().inputs, status: 'done', run: run() },
+            { id: 2, name: 'Bo', fileName: 'b.pdf', file: null, inputs: run().inputs, status: null },
+        ];
+        const lines = toCohortCsv(candidates).split('\r\n');
+        expect(lines).toHaveLength(4);
+        expect(lines[1]).toMatch(/^"'=HYPERLINK\(""x""\)"/);
+        expect(lines[1]).toContain('MSc Media and Communications (Data and Society)');
+        expect(lines[2]).toContain('not run');
+        expect(lines[3]).toBe('');
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { matchCourse, similarity } from '../catalogue/catalogue';
+import { importCatalogueCsv, importCatalogueJson } from '../catalogue/import';
+import type { Catalogue, CatalogueCourse } from '../catalogue/catalogue';
+
+function course(university: string, programme: string, award: string): CatalogueCourse {
+    return {
+        id: `${university} ${programme}`,
+        university,
+        programme,
+        city: 'London',
+        url: '',
+        mode: 'full-time',
+        award,
+        duration_months: 12,
+        start_months: [9],
+        fee_gbp: null,
+        is_mba: award === 'MBA',
+    };
+}
+
+const catalogue: Catalogue = {
+    version: 'test',
+    source: 'Unit test',
+    generated_at: '2026-09-01T00:00:00.000Z',
+    courses: [
+        course('London School of Economics and Political Science', 'Public Policy and Administration', 'MSc'),
+        course('University of Edinburgh', 'Data Science', 'MSc'),
+        course('University of Edinburgh', 'Data Science, Technology and Innovation', 'MSc'),
+        course('University of Oxford', 'MBA', 'MBA'),
+    ],
+};
+
+function matchedProgramme(university: string, programme: string): string | undefined {
+    return matchCourse(catalogue, university, programme)?.course.programme;
+}
+
+describe('similarity', () => {
+    it('scores shared character bigrams from 0 to 1', () => {
+        expect(similarity('data science', 'data science')).toBe(1);
+        expect(similarity('night', 'nacht')).toBe(0.5);
+        expect(similarity('data science', '')).toBe(0);
+        expect(similarity('data science', 'science data')).toBeGreaterThan(0.8);
+    });
+});
+
+describe('matchCourse', () => {
+    it('matches exact names, aliases and award prefixes with full confidence', () => {
+        expect(matchCourse(catalogue, 'LSE', 'MSc Public Policy and Administration')?.score).toBe(1);
+        expect(matchCourse(catalogue, 'University of Oxford', 'MBA (Full-time)')?.score).toBe(1);
+    });
+
+    it('accepts small differences above the threshold', () => {
+        expect(matchedProgramme('Edinburgh University', 'Data Sciences')).toBe('Data Science');
+        expect(matchedProgramme('LSE', 'MSc Pubic Policy & Administration')).toBe('Public Policy and Administration');
+    });
+
+    it('prefers the closest of several courses at one university', () => {
+        expect(matchedProgramme('University of Edinburgh', 'MSc Data Science')).toBe('Data Science');
+        expect(matchedProgramme('University of Edinburgh', 'MSc Data Science, Technology & Innovation')).toBe('Data Science, Technology and Innovation');
+    });
+
+    it('lowers, but keeps, a match whose award differs', () => {
+        const match = matchCourse(catalogue, 'LSE', 'MA Public Policy and Administration');
+        expect(match?.course.award).toBe('MSc');
+        expect(match!.score).toBeLessThan(1);
+        expect(match!.score).toBeGreaterThanOrEqual(0.7);
+    });
+
+    it('rejects courses below the university or programme threshold', () => {
+        expect(matchCourse(catalogue, 'University of Exeter', 'MSc Data Science')).toBeNull();
+        expect(matchCourse(catalogue, 'LSE', 'MSc Public Health')).toBeNull();
+        // Too short to be read as the full LSE name.
+        expect(matchCourse(catalogue, 'London School of Economics', 'MSc Public Policy and Administration')).toBeNull();
+    });
+});
+
+describe('importCatalogueCsv', () => {
+    it('imports aliased columns, quoted fields and parsed values', () => {
+        const { courses, warnings } = importCatalogueCsv([
+            '\uFEFFInstitution,Course Name,Location,Attendance,Duration,Intake,Tuition',
+            'University of Leeds,"MA Law, Technology and Society",Leeds,Full-time / Part-time,1 year,"September, January","£24,500"',
+        ].join('\r\n'));
+        expect(warnings).toEqual([]);
+        expect(courses).toEqual([expect.objectContaining({
+            id: 'university-of-leeds-ma-law-technology-and-society',
+            programme: 'MA Law, Technology and Society',
+            award: 'MA',
+            mode: 'full-time',
+            duration_months: 12,
+            start_months: [1, 9],
+            fee_gbp: 24500,
+            is_mba: false,
+        })]);
+    });
+
+    it('skips or flags malformed rows with their line numbers', () => {
+        const { courses, warnings } = importCatalogueCsv([
+            'university,programme,mode,duration,fee',
+            'University of Leeds,,full-time,12,£20000',
+            'University of Bath,MSc Economics,,twelve,call us',
+            'University of Bath,MSc Economics,full-time,12,£21000',
+            'University of York,MSc Sociology',
+        ].join('\n'));
+        expect(warnings).toEqual([
+            'Row 2: missing university or programme, skipped.',
+            'Row 3: no study mode for MSc Economics.',
+            'Row 3: no duration for MSc Economics.',
+            'Row 3: could not read fee "call us" for MSc Economics.',
+            'Row 4: duplicate of University of Bath MSc Economics, skipped.',
+            'Row 5: no study mode for MSc Sociology.',
+            'Row 5: no duration for MSc Sociology.',
+        ]);
+        expect(courses.map(({ programme, mode, duration_months, fee_gbp }) => [programme, mode, duration_months, fee_gbp])).toEqual([
+            ['MSc Economics', 'unknown', null, null],
+            ['MSc Sociology', 'unknown', null, null],
+        ]);
+    });
+});
+
+describe('importCatalogueJson', () => {
+    it('accepts a courses object with arrays and nulls', () => {
+        const { courses, warnings } = importCatalogueJson(JSON.stringify({
+            courses: [{ University: 'University of Oxford', Programme: 'MBA', mode: 'full-time', duration: 12, start: [9], fee: null }],
+        }));
+        expect(warnings).toEqual([]);
+        expect(courses[0]).toMatchObject({ award: 'MBA', start_months: [9], fee_gbp: null, is_mba: true });
+    });
+
+    it('rejects JSON without a list of courses', () => {
+        expect(() => importCatalogueJson('{"items": []}')).toThrow('Expected a JSON array of courses');
+        expect(() => importCatalogueJson('[{"university": ')).toThrow(SyntaxError);
+    });
+});
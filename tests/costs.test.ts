@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { describeGap, estimateCosts, summariseTrioCosts } from '../costs';
+
+describe('estimateCosts', () => {
+    it('charges only living costs above the London stipend for a fully funded course', () => {
+        const estimate = estimateCosts({ programme: 'MSc Development Studies', fee_gbp: '£31,200', city: 'London', duration_months: 12 });
+        expect(estimate).toMatchObject({
+            feeGbp: 31200,
+            tuitionCoveredGbp: 31200,
+            tuitionGapGbp: 0,
+            region: 'London',
+            livingGapGbp: (1900 - 1652) * 12,
+            totalGapGbp: 2976,
+            assumptions: [],
+        });
+        expect(describeGap(estimate)).toBe('£2,976');
+    });
+
+    it('charges an MBA’s tuition above the cap', () => {
+        const estimate = estimateCosts({ programme: 'MBA', fee_gbp: '£30,000 (2025/26)', city: 'Manchester', duration_months: 12 });
+        expect(estimate).toMatchObject({ feeGbp: 30000, tuitionCoveredGbp: 22000, tuitionGapGbp: 8000, livingGapGbp: 0, totalGapGbp: 8000 });
+    });
+
+    it('still prices a non-MBA course whose fee is missing or unreadable', () => {
+        for (const fee_gbp of ['', 'Check the university website']) {
+            const estimate = estimateCosts({ programme: 'MA Law', fee_gbp, city: 'Cardiff', duration_months: 12 });
+            expect(estimate).toMatchObject({ feeGbp: null, tuitionCoveredGbp: null, tuitionGapGbp: 0, totalGapGbp: 0, assumptions: [] });
+        }
+    });
+
+    it('gives only a lower bound for an MBA whose fee cannot be read', () => {
+        const estimate = estimateCosts({ programme: 'Executive programme', award: 'MBA', fee_gbp: 'TBC', city: 'London', duration_months: 12 });
+        expect(estimate).toMatchObject({ feeGbp: null, tuitionGapGbp: null, totalGapGbp: null, livingGapGbp: 2976 });
+        expect(estimate.assumptions).toEqual(['MBA fee unknown; Chevening covers up to £22,000 and you pay the rest.']);
+        expect(describeGap(estimate)).toBe('at least £2,976 (MBA fee unknown)');
+    });
+
+    it('assumes a year and typical costs when the duration or city is missing', () => {
+        const estimate = estimateCosts({ programme: 'MSc Economics', fee_gbp: '£20,000', city: 'Atlantis', duration_months: 0 });
+        expect(estimate).toMatchObject({ months: 12, region: null, livingCostGbp: 1300 * 12, stipendGbp: 1347 * 12, totalGapGbp: 0 });
+        expect(estimate.assumptions).toEqual([
+            'Duration unknown; assumed 12 months.',
+            'City not recognised; used typical costs outside London.',
+        ]);
+    });
+
+    it('scales living costs with the course length', () => {
+        const estimate = estimateCosts({ programme: 'MSc Finance', fee_gbp: '£40k', city: 'London', duration_months: 9 });
+        expect(estimate.livingGapGbp).toBe((1900 - 1652) * 9);
+    });
+});
+
+describe('summariseTrioCosts', () => {
+    const london = estimateCosts({ programme: 'MSc Development Studies', fee_gbp: '£31,200', city: 'London', duration_months: 12 });
+    const mba = estimateCosts({ programme: 'MBA', fee_gbp: '£30,000', city: 'Manchester', duration_months: 12 });
+    const unknownMba = estimateCosts({ programme: 'MBA', fee_gbp: '', city: 'Leeds', duration_months: 12 });
+
+    it('gives the range of known gaps and counts unknown MBA fees', () => {
+        expect(summariseTrioCosts([london, mba, unknownMba])).toEqual({ lowestGapGbp: 2976, highestGapGbp: 8000, unknownFees: 1 });
+    });
+
+    it('treats equal gaps as a single amount', () => {
+        expect(summariseTrioCosts([mba, mba])).toEqual({ lowestGapGbp: 8000, highestGapGbp: 8000, unknownFees: 0 });
+    });
+
+    it('has no range when no fee is known', () => {
+        expect(summariseTrioCosts([unknownMba])).toEqual({ lowestGapGbp: null, highestGapGbp: null, unknownFees: 1 });
+        expect(summariseTrioCosts([])).toEqual({ lowestGapGbp: null, highestGapGbp: null, unknownFees: 0 });
+    });
+});
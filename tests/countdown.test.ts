@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { afterEach, describe, expect, it } from 'vitest';
+import { describeDeadline } from '../components/deadlineCountdown';
+import { CYCLES, currentCycle, targetStartYear, upcomingMilestone } from '../cycles';
+import type { CheveningCycle } from '../cycles';
+import { formatCountdown, setLocale } from '../i18n';
+
+const SECOND = 1000;
+const DAY = 24 * 60 * 60 * SECOND;
+
+const cycles: CheveningCycle[] = [{
+    id: '2030/31',
+    courseStartYear: 2030,
+    provisional: false,
+    milestones: [
+        { id: 'application_deadline', start: '2029-10-02T11:00:00Z' },
+        { id: 'interviews', start: '2030-02-11T00:00:00Z', end: '2030-04-30T23:59:00Z' },
+    ],
+}];
+
+afterEach(() => setLocale('en'));
+
+describe('formatCountdown', () => {
+    it('splits the time into days, hours, minutes and seconds', () => {
+        expect(formatCountdown(12 * DAY + 4 * 3600 * SECOND + 5 * 60 * SECOND + 6 * SECOND + 999)).toBe('12d 4h 5m 6s');
+    });
+
+    it('never counts below zero', () => {
+        expect(formatCountdown(-5 * SECOND)).toBe('0d 0h 0m 0s');
+    });
+});
+
+describe('upcomingMilestone', () => {
+    it('counts down to the start of the next milestone', () => {
+        const upcoming = upcomingMilestone(new Date('2029-10-01T11:00:00Z'), cycles);
+        expect(upcoming?.milestone.id).toBe('application_deadline');
+        expect(upcoming?.inProgress).toBe(false);
+    });
+
+    it('counts down to the end of a window in progress', () => {
+        const open: CheveningCycle[] = [{
+            ...cycles[0],
+            milestones: [{ id: 'applications_open', start: '2029-08-07T11:00:00Z', end: '2029-10-02T11:00:00Z' }, ...cycles[0].milestones],
+        }];
+        const upcoming = upcomingMilestone(new Date('2029-09-01T00:00:00Z'), open);
+        expect(upcoming?.inProgress).toBe(true);
+        expect(upcoming?.target.toISOString()).toBe('2029-10-02T11:00:00.000Z');
+    });
+
+    it('returns null once the last configured application deadline has passed', () => {
+        expect(upcomingMilestone(new Date('2029-10-03T00:00:00Z'), cycles)).toBeNull();
+        expect(upcomingMilestone(new Date('2031-01-01T00:00:00Z'), cycles)).toBeNull();
+    });
+});
+
+describe('targetStartYear', () => {
+    const twoCycles: CheveningCycle[] = [
+        {
+            id: '2029/30',
+            courseStartYear: 2029,
+            provisional: false,
+            milestones: [
+                { id: 'application_deadline', start: '2028-10-03T11:00:00Z' },
+                { id: 'course_start', start: '2029-09-01T00:00:00Z' },
+            ],
+        },
+        ...cycles,
+    ];
+
+    it('targets the cycle whose application deadline is still ahead', () => {
+        expect(targetStartYear(new Date('2028-06-01T00:00:00Z'), twoCycles)).toBe(2029);
+        // The 2029/30 course start is still to come, but its applications closed in October.
+        expect(targetStartYear(new Date('2029-08-20T00:00:00Z'), twoCycles)).toBe(2030);
+    });
+
+    it('matches the cycle the timeline and countdown show', () => {
+        const now = new Date('2029-08-20T00:00:00Z');
+        expect(currentCycle(now, twoCycles)?.courseStartYear).toBe(targetStartYear(now, twoCycles));
+        expect(upcomingMilestone(now, twoCycles)?.cycle.courseStartYear).toBe(targetStartYear(now, twoCycles));
+    });
+
+    it('has a configured cycle for the coming deadline', () => {
+        const now = new Date('2026-10-19T00:00:00Z');
+        expect(currentCycle(now, CYCLES)?.courseStartYear).toBe(2028);
+        expect(targetStartYear(now, CYCLES)).toBe(2028);
+    });
+
+    it('shows no cycle after the last configured deadline', () => {
+        const now = new Date('2029-10-03T00:00:00Z');
+        expect(currentCycle(now, twoCycles)).toBeNull();
+        expect(targetStartYear(now, twoCycles)).toBe(2031);
+    });
+
+    it('assumes an early-October deadline past the configured cycles', () => {
+        expect(targetStartYear(new Date('2030-09-01T00:00:00Z'), twoCycles)).toBe(2031);
+        expect(targetStartYear(new Date('2030-11-01T00:00:00Z'), twoCycles)).toBe(2032);
+    });
+});
+
+describe('describeDeadline', () => {
+    it('names the milestone and the time left', () => {
+        const text = describeDeadline(new Date('2029-10-01T10:59:59Z'), cycles);
+        expect(text.label).toContain('Application deadline');
+        expect(text.label).toContain('2030/31');
+        expect(text.countdown).toBe('1d 0h 0m 1s');
+        expect(text.ticking).toBe(true);
+    });
+
+    it('stops ticking when the configured cycles have run out', () => {
+        expect(describeDeadline(new Date('2031-01-01T00:00:00Z'), cycles).ticking).toBe(false);
+    });
+
+    it('follows the interface language', () => {
+        setLocale('fr');
+        expect(describeDeadline(new Date('2029-10-01T10:59:59Z'), cycles).label).toBe('Date limite de candidature (2030/31) dans');
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { afterEach, describe, expect, it } from 'vitest';
+import { checkEligibility } from '../eligibility';
+import type { EligibilityRuleId } from '../eligibility';
+import { setLocale, tMessage } from '../i18n';
+import type { RankedCourse } from '../types';
+
+const YEAR = 2030;
+
+function course(overrides: Partial<RankedCourse> = {}): RankedCourse {
+    return {
+        rank: 1,
+        university: 'London School of Economics and Political Science',
+        programme: 'MSc Development Studies',
+        city: 'London',
+        url: 'https://www.lse.ac.uk/study',
+        start_cycle: `September ${YEAR}`,
+        duration_months: 12,
+        fee_gbp: '£33,000',
+        study_mode: 'Full-time',
+        award: 'MSc',
+        chevening_rationale: [],
+        ...overrides,
+    };
+}
+
+function rule(overrides: Partial<RankedCourse>, id: EligibilityRuleId) {
+    return checkEligibility(course(overrides), YEAR).rules.find(result => result.id === id);
+}
+
+afterEach(() => setLocale('en'));
+
+describe('checkEligibility', () => {
+    it('passes a full-time, UK, taught, 12-month course starting in the target autumn', () => {
+        const report = checkEligibility(course(), YEAR);
+        expect(report.status).toBe('eligible');
+        expect(report.rules.every(result => result.status === 'pass')).toBe(true);
+    });
+
+    it('is ineligible when a blocking rule fails and unverified when one is unknown', () => {
+        expect(checkEligibility(course({ duration_months: 24 }), YEAR).status).toBe('ineligible');
+        expect(checkEligibility(course({ city: '', url: '' }), YEAR).status).toBe('unverified');
+    });
+
+    it('flags a model verdict that contradicts the rules', () => {
+        const report = checkEligibility(course({ study_mode: 'Part-time', eligibility_check: { is_eligible: true, reason: 'Full-time.' } }), YEAR);
+        expect(report.modelVerdict).toBe(true);
+        expect(report.disagreesWithModel).toBe(true);
+    });
+
+    it('keeps a failing MBA fee cap advisory', () => {
+        const report = checkEligibility(course({ programme: 'MBA', award: 'MBA', fee_gbp: '£60,000' }), YEAR);
+        expect(report.rules.find(result => result.id === 'mba_fee_cap')?.status).toBe('fail');
+        expect(report.status).toBe('eligible');
+    });
+
+    it('returns rule text as messages, translated when shown', () => {
+        const result = rule({ duration_months: 18 }, 'duration');
+        expect(result && tMessage(result.detail)).toBe('18 months is outside the 9–12 month limit.');
+        setLocale('fr');
+        expect(result && tMessage(result.label)).toBe('9 à 12 mois');
+    });
+});
+
+describe('full-time rule', () => {
+    it('passes listings that offer a full-time option among others', () => {
+        expect(rule({ study_mode: 'Full-time / Part-time' }, 'full_time')?.status).toBe('pass');
+        expect(rule({ study_mode: 'Part-time or full-time' }, 'full_time')?.status).toBe('pass');
+    });
+
+    it('fails when no full-time option is listed', () => {
+        expect(rule({ study_mode: 'Part-time' }, 'full_time')?.status).toBe('fail');
+        expect(rule({ study_mode: 'Distance learning' }, 'full_time')?.status).toBe('fail');
+        expect(rule({ study_mode: '', programme: 'MSc Finance (Part-time)' }, 'full_time')?.status).toBe('fail');
+    });
+
+    it('does not read the delivery mode from a programme name', () => {
+        expect(rule({ programme: 'MSc Online Safety' }, 'full_time')?.status).toBe('pass');
+        expect(rule({ programme: 'MSc Online Safety', study_mode: '' }, 'full_time')?.status).toBe('unknown');
+    });
+});
+
+describe('UK-based rule', () => {
+    it('fails campuses abroad and leaves unknown cities unconfirmed', () => {
+        expect(rule({ city: 'Dubai' }, 'uk_based')?.status).toBe('fail');
+        expect(rule({ city: 'Atlantis' }, 'uk_based')?.status).toBe('unknown');
+    });
+});
+
+describe("taught master's rule", () => {
+    it('fails research degrees', () => {
+        expect(rule({ award: 'MRes', programme: 'MRes Economics' }, 'taught')?.status).toBe('fail');
+        expect(rule({ award: 'MSc', programme: 'MSc by Research in Biology' }, 'taught')?.status).toBe('fail');
+    });
+
+    it('leaves MPhils unverified, since Cambridge and Oxford teach theirs', () => {
+        const report = checkEligibility(course({ award: 'MPhil', programme: 'MPhil Development Studies', university: 'University of Cambridge', city: 'Cambridge' }), YEAR);
+        expect(report.rules.find(result => result.id === 'taught')?.status).toBe('unknown');
+        expect(report.status).toBe('unverified');
+    });
+});
+
+describe('autumn start rule', () => {
+    it('needs September or October of the target year', () => {
+        expect(rule({ start_cycle: `October ${YEAR}` }, 'autumn_start')?.status).toBe('pass');
+        expect(rule({ start_cycle: `January ${YEAR}` }, 'autumn_start')?.status).toBe('fail');
+        expect(rule({ start_cycle: `September ${YEAR + 1}` }, 'autumn_start')?.status).toBe('fail');
+        expect(rule({ start_cycle: 'Verify start date' }, 'autumn_start')?.status).toBe('unknown');
+    });
+
+    it('does not read the verb "may" as a month', () => {
+        expect(rule({ start_cycle: 'Start date may vary' }, 'autumn_start')?.status).toBe('unknown');
+        expect(rule({ start_cycle: `September (may change) ${YEAR}` }, 'autumn_start')?.status).toBe('pass');
+        expect(rule({ start_cycle: `May ${YEAR}` }, 'autumn_start')?.status).toBe('fail');
+        expect(rule({ start_cycle: `Sept ${YEAR}` }, 'autumn_start')?.status).toBe('pass');
+    });
+});
+
+describe('duration rule', () => {
+    it('accepts 9 to 12 months', () => {
+        expect(rule({ duration_months: 9 }, 'duration')?.status).toBe('pass');
+        expect(rule({ duration_months: 18 }, 'duration')?.status).toBe('fail');
+        expect(rule({ duration_months: undefined }, 'duration')?.status).toBe('unknown');
+    });
+});
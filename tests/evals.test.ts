@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { compareRankings, formatReport, runCase, scoreRun, summarise } from '../evals/evaluate';
+import type { EvalCase } from '../evals/evaluate';
+import { bundledCatalogue } from '../catalogue/verify';
+import { CURRENT_PROMPT } from '../prompts';
+import { createRecordedProvider } from '../providers/recorded';
+import type { Recording } from '../providers/recorded';
+import type { RankedCourse } from '../types';
+import { readFixture } from './helpers';
+import type { FixtureName } from './helpers';
+
+vi.mock('../timing', () => ({ wait: vi.fn(async () => {}) }));
+
+const YEAR = 2030;
+
+const evalCase: EvalCase = {
+    id: 'digital-inclusion',
+    description: 'Test case.',
+    cv: 'EXPERIENCE\nProgramme Manager, [Agency], 2021 – present',
+    inputs: { fields: 'Digital policy', locations: '', impact: 'Rural broadband', year: YEAR },
+};
+
+function recording(name: FixtureName): Recording {
+    return {
+        case: evalCase.id,
+        promptVersion: CURRENT_PROMPT.version,
+        provider: 'fixture',
+        model: name,
+        text: readFixture(name, YEAR),
+    };
+}
+
+async function replay(name: FixtureName) {
+    return runCase(createRecordedProvider(recording(name)), CURRENT_PROMPT, evalCase);
+}
+
+function course(rank: number, programme: string): RankedCourse {
+    return { rank, university: 'University of Testing', programme, city: '', url: '', start_cycle: '', fee_gbp: '', chevening_rationale: [], eligibility_check: { is_eligible: true, reason: '' } } as RankedCourse;
+}
+
+beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('scoreRun', () => {
+    it('counts courses that break the eligibility rules', async () => {
+        const { run } = await replay('ineligible.json');
+        const metrics = scoreRun(evalCase.id, run!);
+        expect(metrics.courses).toBe(2);
+        expect(metrics.eligibilityViolations).toEqual(['MRes Clinical Pharmacology, University of Northbridge', 'MSc Health Policy, Southgate University']);
+        expect(metrics.schemaCompliant).toBe(true);
+    });
+
+    it('accepts links to the catalogue entry and flags the rest', async () => {
+        const { run } = await replay('analysis.json');
+        const [first] = run!.result.ranked_courses;
+        const entry = bundledCatalogue.courses.find(candidate => candidate.id === (first.catalogue?.status === 'verified' ? first.catalogue.course_id : ''));
+        const metrics = scoreRun(evalCase.id, {
+            ...run!,
+            result: {
+                ...run!.result,
+                ranked_courses: [{ ...first, url: entry?.url ?? '' }, { ...first, url: 'https://courses.example.com/made-up' }, { ...first, url: 'javascript:alert(1)' }],
+                alternatives: [],
+            },
+        });
+        expect(entry).toBeDefined();
+        expect(metrics.links).toBe(3);
+        expect(metrics.inventedUrls).toEqual(['https://courses.example.com/made-up', 'javascript:alert(1)']);
+    });
+
+    it('marks repaired responses as not schema-compliant', async () => {
+        const { run } = await replay('malformed.txt');
+        expect(scoreRun(evalCase.id, run!).schemaCompliant).toBe(false);
+    });
+});
+
+describe('summarise', () => {
+    it('turns counts into rates and lists cases without a run', async () => {
+        const outcomes = [await replay('ineligible.json'), await replay('mba.json'), { caseId: 'missing', error: 'No recording.' }];
+        const metrics = outcomes.flatMap(outcome => (outcome.run ? [scoreRun(outcome.caseId, outcome.run)] : []));
+        const summary = summarise(CURRENT_PROMPT.version, outcomes, metrics);
+        expect(summary).toMatchObject({ cases: 3, evaluated: 2, failed: [{ caseId: 'missing', error: 'No recording.' }] });
+        expect(summary.eligibilityViolationRate).toBe(2 / 4);
+        expect(summary.schemaComplianceRate).toBe(1);
+        expect(formatReport(summary, metrics)).toContain('50.0%');
+    });
+
+    it('reports nothing to measure as null', () => {
+        expect(summarise(CURRENT_PROMPT.version, [], []).inventedUrlRate).toBeNull();
+    });
+});
+
+describe('compareRankings', () => {
+    const ranking = ['MSc A', 'MSc B', 'MSc C', 'MSc D', 'MSc E', 'MSc F'].map((programme, index) => course(index + 1, programme));
+
+    it('is fully stable for the same ranking', () => {
+        expect(compareRankings('case', ranking, ranking)).toEqual({ caseId: 'case', topOverlap: 1, meanRankShift: 0 });
+    });
+
+    it('measures overlap of the top courses and how far shared courses moved', () => {
+        const swapped = [ranking[1], ranking[0], ranking[2], ranking[3], ranking[5], ranking[4]].map((entry, index) => ({ ...entry, rank: index + 1 }));
+        const stability = compareRankings('case', ranking, swapped);
+        expect(stability.topOverlap).toBe(4 / 5);
+        expect(stability.meanRankShift).toBeCloseTo(4 / 6);
+    });
+
+    it('has no rank shift when nothing is shared', () => {
+        expect(compareRankings('case', ranking.slice(0, 2), ranking.slice(2, 4))).toMatchObject({ topOverlap: 0, meanRankShift: null });
+    });
+});
+
+describe('runCase', () => {
+    it('tags the run with the prompt version and the recorded model', async () => {
+        const { run } = await replay('mba.json');
+        expect(run).toMatchObject({ provider: 'recorded', model: 'mba.json', promptVersion: CURRENT_PROMPT.version });
+    });
+
+    it('reports a failed analysis instead of rejecting', async () => {
+        const outcome = await runCase(createRecordedProvider({ ...recording('analysis.json'), text: '' }), CURRENT_PROMPT, evalCase);
+        expect(outcome.run).toBeUndefined();
+        expect(outcome.error).toBeTruthy();
+    });
+});
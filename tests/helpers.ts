@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { readFileSync } from 'fs';
+import path from 'path';
+import { setHtml } from '../html';
+import type { SafeHtml } from '../html';
+import type { CourseMatchProvider, CourseMatchRequest } from '../providers';
+
+// --- Test Helpers ---
+// Synthetic, hand-written model responses live in fixtures/. "{{year}}" in them becomes the
+// requested start year, as with the offline mock provider.
+
+export type FixtureName = 'analysis.json' | 'ineligible.json' | 'mba.json' | 'partial.txt' | 'malformed.txt';
+
+export function readFixture(name: FixtureName, year: number): string {
+    return readFileSync(path.resolve(__dirname, '../fixtures', name), 'utf8').replaceAll('{{year}}', String(year));
+}
+
+export interface FakeProvider extends CourseMatchProvider {
+    requests: CourseMatchRequest[];
+}
+
+/**
+ * Streams the recorded text and parses it the way the Gemini provider does:
+ * text that is not JSON becomes an InvalidJsonError carrying it, marked as
+ * truncated when it does not end in a closing brace.
+ */
+export function fixtureProvider(name: FixtureName): FakeProvider {
+    const requests: CourseMatchRequest[] = [];
+    return {
+        id: 'fixture',
+        model: name,
+        requests,
+        async findCourses(request, { onText } = {}) {
+            requests.push(request);
+            const text = readFixture(name, request.inputs.year);
+            onText?.(text.slice(0, text.length / 2));
+            onText?.(text);
+            try {
+                return JSON.parse(text.trim());
+            } catch (error) {
+                // Imported here so it is the same class as the app's after `vi.resetModules`.
+                const { InvalidJsonError } = await import('../errors');
+                throw new InvalidJsonError(text, !text.trim().endsWith('}') && !text.trim().endsWith('```'), { cause: error });
+            }
+        },
+        async reviewEssay() {
+            throw new Error('Not recorded.');
+        },
+    };
+}
+
+/** Renders markup into a detached element for querying. */
+export function render(content: SafeHtml): HTMLElement {
+    const container = document.createElement('div');
+    setHtml(container, content);
+    return container;
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, html, safeUrl } from '../html';
+import { render } from './helpers';
+
+describe('escapeHtml', () => {
+    it('escapes markup and both quote styles', () => {
+        expect(escapeHtml(`<a href="x" title='y'>&</a>`)).toBe('&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;&lt;/a&gt;');
+    });
+});
+
+describe('safeUrl', () => {
+    it('accepts absolute http and https links', () => {
+        expect(safeUrl('https://www.lse.ac.uk/study')).toBe('https://www.lse.ac.uk/study');
+        expect(safeUrl('  http://example.ac.uk ')).toBe('http://example.ac.uk/');
+    });
+
+    it('rejects other protocols, relative links and empty values', () => {
+        expect(safeUrl('javascript:alert(1)')).toBeNull();
+        expect(safeUrl(' JAVASCRIPT:alert(1)')).toBeNull();
+        expect(safeUrl('data:text/html,<script>alert(1)</script>')).toBeNull();
+        expect(safeUrl('/courses/msc')).toBeNull();
+        expect(safeUrl('')).toBeNull();
+        expect(safeUrl(undefined)).toBeNull();
+    });
+});
+
+describe('html', () => {
+    it('escapes interpolated text so it cannot add elements', () => {
+        const container = render(html`<p>${'<img src=x onerror=alert(1)>'}</p>`);
+        expect(container.querySelector('img')).toBeNull();
+        expect(container.textContent).toBe('<img src=x onerror=alert(1)>');
+    });
+
+    it('keeps quoted attribute values closed', () => {
+        const container = render(html`<span title="${'" onclick="alert(1)'}">x</span>`);
+        const span = container.querySelector('span') as HTMLElement;
+        expect(span.getAttribute('onclick')).toBeNull();
+        expect(span.title).toBe('" onclick="alert(1)');
+    });
+
+    it('concatenates arrays and nested markup without escaping it twice', () => {
+        const items = ['a & b', 'c'].map(item => html`<li>${item}</li>`);
+        const container = render(html`<ul>${items}</ul>`);
+        expect([...container.querySelectorAll('li')].map(li => li.textContent)).toEqual(['a & b', 'c']);
+    });
+
+    it('renders nothing for null, undefined and booleans', () => {
+        expect(render(html`<p>${null}${undefined}${false}${true}${0}</p>`).textContent).toBe('0');
+    });
+
+    it('replaces unsafe links with an inert one', () => {
+        const container = render(html`<a href="${'javascript:alert(1)'}">x</a><img src="${'https://example.ac.uk/logo.png'}">`);
+        expect(container.querySelector('a')?.getAttribute('href')).toBe('about:blank');
+        expect(container.querySelector('img')?.getAttribute('src')).toBe('https://example.ac.uk/logo.png');
+    });
+
+    it('refuses to interpolate into event handler attributes', () => {
+        expect(() => html`<button onclick="${'run()'}">x</button>`).toThrow();
+    });
+});
+
+describe('hostile payloads', () => {
+    it('keeps script tags as text', () => {
+        const container = render(html`<div>${'<script>alert(1)</script><svg onload=alert(1)>'}</div>`);
+        expect(container.querySelector('script, svg')).toBeNull();
+        expect(container.textContent).toBe('<script>alert(1)</script><svg onload=alert(1)>');
+    });
+
+    it('blocks javascript: URLs however they are disguised', () => {
+        const hrefs = ['javascript:alert(1)', 'java\tscript:alert(1)', '\njavascript:alert(1)', 'JaVaScRiPt:alert(1)', '&#106;avascript:alert(1)', 'vbscript:msgbox(1)']
+            .map(url => render(html`<a href="${url}">x</a>`).querySelector('a')?.getAttribute('href'));
+        expect(hrefs.every(href => href === 'about:blank')).toBe(true);
+    });
+
+    it('keeps single-quoted attributes closed', () => {
+        const span = render(html`<span title='${"' onmouseover='alert(1)"}'>x</span>`).querySelector('span') as HTMLElement;
+        expect(span.getAttribute('onmouseover')).toBeNull();
+        expect(span.title).toBe("' onmouseover='alert(1)");
+    });
+
+    it('cannot break out of a link through its URL', () => {
+        const link = render(html`<a href="${'https://example.ac.uk/"><script>alert(1)</script>'}">x</a>`);
+        expect(link.querySelector('script')).toBeNull();
+        expect(link.querySelectorAll('a')).toHaveLength(1);
+        expect(link.querySelector('a')?.getAttributeNames()).toEqual(['href']);
+    });
+
+    it('cannot close the surrounding element', () => {
+        const container = render(html`<textarea>${'</textarea><img src=x onerror=alert(1)>'}</textarea>`);
+        expect(container.querySelector('img')).toBeNull();
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from '../partialJson';
+
+const DOCUMENT = JSON.stringify({
+    profile: { strengths: ['Led a "digital" team', 'Café owner\nand mentor'], gaps: [] },
+    ranked_courses: [{ rank: 1, scores: [[4, 5], [3.5, -1e2]], eligible: true, note: null }],
+});
+
+describe('parsePartialJson', () => {
+    it('parses a whole document', () => {
+        const parsed = parsePartialJson(DOCUMENT);
+        expect(parsed.done).toBe(true);
+        expect(parsed.value).toEqual(JSON.parse(DOCUMENT));
+        expect(parsed.isComplete(parsed.value)).toBe(true);
+    });
+
+    it('reads every prefix without throwing and never shows a value that later changes', () => {
+        const full = JSON.parse(DOCUMENT);
+        for (let end = 0; end <= DOCUMENT.length; end++) {
+            const { value } = parsePartialJson(DOCUMENT.slice(0, end));
+            const strengths = (value as typeof full | undefined)?.profile?.strengths ?? [];
+            strengths.forEach((strength: string, index: number) => expect(strength).toBe(full.profile.strengths[index]));
+        }
+    });
+
+    it('leaves out a string that is cut off', () => {
+        const parsed = parsePartialJson('{"notes": ["Done", "Half wri');
+        expect(parsed.value).toEqual({ notes: ['Done'] });
+        expect(parsed.done).toBe(false);
+        expect(parsed.isComplete(parsed.value)).toBe(false);
+        expect(parsed.isComplete((parsed.value as { notes: string[] }).notes)).toBe(false);
+    });
+
+    it('waits for escape sequences split across chunks', () => {
+        expect(parsePartialJson('["line\\').value).toEqual([]);
+        expect(parsePartialJson('["line\\n"]').value).toEqual(['line\n']);
+        expect(parsePartialJson('["caf\\u00').value).toEqual([]);
+        expect(parsePartialJson('["caf\\u00e9"]').value).toEqual(['café']);
+    });
+
+    it('marks only the open containers of nested arrays as incomplete', () => {
+        const parsed = parsePartialJson('[[1, 2], [3, 4');
+        const value = parsed.value as number[][];
+        expect(value).toEqual([[1, 2], [3]]);
+        expect(parsed.isComplete(value[0])).toBe(true);
+        expect(parsed.isComplete(value[1])).toBe(false);
+    });
+
+    it('holds back numbers and literals that may still grow', () => {
+        expect(parsePartialJson('{"rank": 12').value).toEqual({});
+        expect(parsePartialJson('{"rank": 12,').value).toEqual({ rank: 12 });
+        expect(parsePartialJson('[true, nu').value).toEqual([true]);
+        expect(parsePartialJson('[-').value).toEqual([]);
+        expect(parsePartialJson('[3.').value).toEqual([]);
+        expect(parsePartialJson('[3.5, -1e').value).toEqual([3.5]);
+        expect(parsePartialJson('[3.5, -1e2]').value).toEqual([3.5, -100]);
+    });
+
+    it('has no value before the document starts', () => {
+        expect(parsePartialJson('  ')).toMatchObject({ value: undefined, done: false });
+    });
+
+    it('rejects text that cannot become JSON', () => {
+        expect(() => parsePartialJson('{"rank" 1}')).toThrow(SyntaxError);
+        expect(() => parsePartialJson('["a" "b"]')).toThrow(SyntaxError);
+        expect(() => parsePartialJson('["\\x"]')).toThrow(SyntaxError);
+        expect(() => parsePartialJson('{} trailing')).toThrow(SyntaxError);
+    });
+});
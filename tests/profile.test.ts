@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { checkWorkExperience, experienceMonths } from '../cv/profile';
+import type { CvRole } from '../cv/profile';
+import { nextApplicationDeadline } from '../cycles';
+import type { CheveningCycle } from '../cycles';
+import { tMessage } from '../i18n';
+
+const AS_OF = new Date('2029-10-02T11:00:00Z');
+
+function role(start: string, end: string, current = false): CvRole {
+    return { title: 'Analyst', organisation: 'Ministry', start, end, current };
+}
+
+describe('experienceMonths', () => {
+    it('counts the start and end month', () => {
+        expect(experienceMonths([role('2022-09', '2024-08')], AS_OF)).toBe(24);
+        expect(experienceMonths([role('2024-03', '2024-03')], AS_OF)).toBe(1);
+    });
+
+    it('counts overlapping roles once', () => {
+        expect(experienceMonths([role('2022-01', '2022-12'), role('2022-07', '2023-06')], AS_OF)).toBe(18);
+    });
+
+    it('runs current roles to the given date and skips undated ones', () => {
+        expect(experienceMonths([role('2028-11', '', true), role('', '2020-01')], AS_OF)).toBe(12);
+    });
+});
+
+describe('checkWorkExperience', () => {
+    it('passes exactly two years', () => {
+        const check = checkWorkExperience({ roles: [role('2022-09', '2024-08')], education: [], leadership: [] }, AS_OF);
+        expect(check.status).toBe('pass');
+        expect(check.months).toBe(24);
+    });
+
+    it('describes the total in years and months', () => {
+        const check = checkWorkExperience({ roles: [role('2023-01', '2024-02')], education: [], leadership: [] }, AS_OF);
+        expect(check.status).toBe('fail');
+        expect(tMessage(check.message)).toContain('Only 1 year and 2 months');
+    });
+
+    it('is unknown without dated roles', () => {
+        expect(checkWorkExperience({ roles: [role('', '')], education: [], leadership: [] }, AS_OF).status).toBe('unknown');
+    });
+});
+
+describe('nextApplicationDeadline', () => {
+    const cycles: CheveningCycle[] = [{
+        id: '2030/31',
+        courseStartYear: 2030,
+        provisional: false,
+        milestones: [{ id: 'application_deadline', start: '2029-10-02T11:00:00Z' }],
+    }];
+
+    it('is the deadline of the cycle still taking applications', () => {
+        expect(nextApplicationDeadline(new Date('2029-06-01T00:00:00Z'), cycles).toISOString()).toBe('2029-10-02T11:00:00.000Z');
+    });
+
+    it('falls back to now once the configured deadlines have passed', () => {
+        const now = new Date('2029-11-01T00:00:00Z');
+        expect(nextApplicationDeadline(now, cycles)).toBe(now);
+    });
+});
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { buildUserPrompt, promptInputsFromForm } from '../prompt';
+
+const form = { fields: 'Public health', locations: 'London', impact: 'Better rural clinics', year: '2027' };
+
+describe('promptInputsFromForm', () => {
+    it('reads the year as a number', () => {
+        expect(promptInputsFromForm(form, 2026)).toEqual({ fields: 'Public health', locations: 'London', impact: 'Better rural clinics', year: 2027 });
+    });
+
+    it('falls back to the default year when the field is blank or not a number', () => {
+        expect(promptInputsFromForm({ ...form, year: '' }, 2026).year).toBe(2026);
+        expect(promptInputsFromForm({ ...form, year: 'next' }, 2026).year).toBe(2026);
+    });
+
+    it('only includes the language when one is set', () => {
+        expect(promptInputsFromForm({ ...form, language: undefined }, 2026)).not.toHaveProperty('language');
+        expect(promptInputsFromForm({ ...form, language: 'French' }, 2026).language).toBe('French');
+    });
+});
+
+describe('buildUserPrompt', () => {
+    const inputs = promptInputsFromForm(form, 2026);
+
+    it('includes every form value', () => {
+        const prompt = buildUserPrompt(inputs);
+        expect(prompt).toContain('Target fields: "Public health"');
+        expect(prompt).toContain('Preferred UK locations: "London"');
+        expect(prompt).toContain('must start Sep/Oct 2027');
+        expect(prompt).toContain('Country-impact one-liner: "Better rural clinics"');
+    });
+
+    it('adds the checked CV summary only when given', () => {
+        expect(buildUserPrompt(inputs)).not.toContain('CV summary');
+        expect(buildUserPrompt(inputs, 'Education: BSc Nursing\nExperience: 5 years')).toContain('Experience: 5 years');
+    });
+
+    it('asks for explanations in the chosen language', () => {
+        expect(buildUserPrompt(inputs)).not.toContain('Language:');
+        expect(buildUserPrompt({ ...inputs, language: 'Arabic' })).toContain('notes in Arabic');
+    });
+});
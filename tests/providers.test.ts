@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { fileToGenerativePart } from '../providers';
+
+describe('fileToGenerativePart', () => {
+    it('encodes the file as base64 with its MIME type', async () => {
+        const file = new File(['%PDF-1.7 CV'], 'cv.pdf', { type: 'application/pdf' });
+        const part = await fileToGenerativePart(file);
+        expect(part.inlineData.mimeType).toBe('application/pdf');
+        expect(atob(part.inlineData.data)).toBe('%PDF-1.7 CV');
+    });
+
+    it('leaves the data URL prefix out', async () => {
+        const part = await fileToGenerativePart(new File(['x'], 'cv.docx', { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' }));
+        expect(part.inlineData.data).not.toContain('base64,');
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import {
+    renderAlternatives,
+    renderCompareBar,
+    renderNotes,
+    renderPartialResultBanner,
+    renderProfileAnalysis,
+    renderRankedCourseCards,
+    renderRankedCourses,
+    renderTrio,
+} from '../components/results';
+import { DEFAULT_WEIGHTS } from '../scoring';
+import type { AnalysisResult } from '../types';
+import { validateAnalysis } from '../validation';
+import { readFixture, render } from './helpers';
+import type { FixtureName } from './helpers';
+
+const YEAR = 2030;
+
+function result(name: FixtureName): AnalysisResult {
+    return validateAnalysis(JSON.parse(readFixture(name, YEAR))).data;
+}
+
+describe('renderProfileAnalysis', () => {
+    it('lists strengths and gaps as text', () => {
+        const { profile } = result('analysis.json');
+        const container = render(renderProfileAnalysis({ ...profile, gaps: ['<script>alert(1)</script>'] }));
+        expect(container.textContent).toContain(profile.strengths[0]);
+        expect(container.querySelector('script')).toBeNull();
+    });
+});
+
+describe('renderTrio', () => {
+    it('renders a card per pick', () => {
+        expect(render(renderTrio(result('analysis.json').chevening_trio)).querySelectorAll('.trio-card')).toHaveLength(3);
+    });
+
+    it('warns about the fee cap on an MBA pick only', () => {
+        const cards = render(renderTrio(result('mba.json').chevening_trio)).querySelectorAll('.trio-card');
+        expect(cards[0].querySelector('.mba-warning')).not.toBeNull();
+        expect(cards[1].querySelector('.mba-warning')).toBeNull();
+    });
+
+    it('warns when every pick is at the same university', () => {
+        const [first] = result('analysis.json').chevening_trio;
+        const container = render(renderTrio([first, { ...first, programme: 'MSc Another' }]));
+        expect(container.querySelector('.trio-warning')).not.toBeNull();
+    });
+});
+
+describe('renderRankedCourseCards', () => {
+    it('marks courses that fail the rules as ineligible', () => {
+        const container = render(renderRankedCourseCards(result('ineligible.json').ranked_courses, YEAR, DEFAULT_WEIGHTS));
+        expect(container.querySelectorAll('.course-card')).toHaveLength(2);
+        expect(container.querySelectorAll('.eligibility-badge.ineligible')).toHaveLength(2);
+        expect(container.querySelector('.ineligible-reason')?.textContent).not.toBe('');
+    });
+
+    it('flags the MBA and its fee gap', () => {
+        const container = render(renderRankedCourseCards(result('mba.json').ranked_courses, YEAR, DEFAULT_WEIGHTS));
+        const mba = [...container.querySelectorAll('.course-card')].find(card => card.querySelector('h3')?.textContent?.includes('MBA'));
+        expect(mba?.querySelector('.mba-warning')).not.toBeNull();
+        expect(mba?.querySelector('.cost-estimate')).not.toBeNull();
+    });
+
+    it('adds compare checkboxes only when given a selection', () => {
+        const courses = result('analysis.json').ranked_courses;
+        expect(render(renderRankedCourseCards(courses, YEAR, DEFAULT_WEIGHTS)).querySelector('.compare-checkbox')).toBeNull();
+        const checked = render(renderRankedCourseCards(courses, YEAR, DEFAULT_WEIGHTS, [2])).querySelectorAll<HTMLInputElement>('.compare-checkbox:checked');
+        expect([...checked].map(checkbox => checkbox.dataset.rank)).toEqual(['2']);
+    });
+
+    it('escapes hostile model output in every field', () => {
+        const [course] = result('analysis.json').ranked_courses;
+        const payload = '"><img src=x onerror=alert(1)><script>alert(1)</script>';
+        const container = render(renderRankedCourseCards([{
+            ...course,
+            programme: payload,
+            university: payload,
+            city: payload,
+            fee_gbp: payload,
+            chevening_rationale: [payload],
+            score_breakdown: payload,
+        }], YEAR, DEFAULT_WEIGHTS, [1]));
+        expect(container.querySelector('img, script')).toBeNull();
+        expect(container.querySelectorAll('[onerror]')).toHaveLength(0);
+        expect(container.querySelector('h3')?.textContent).toContain(payload);
+    });
+
+    it('leaves out links that are not http(s)', () => {
+        const [course] = result('analysis.json').ranked_courses;
+        const container = render(renderRankedCourseCards([{ ...course, url: 'javascript:alert(1)' }], YEAR, DEFAULT_WEIGHTS));
+        expect(container.querySelector('a')).toBeNull();
+    });
+});
+
+describe('renderRankedCourses', () => {
+    it('shows the weight controls and compare bar with the cards', () => {
+        const container = render(renderRankedCourses(result('analysis.json').ranked_courses, YEAR, DEFAULT_WEIGHTS, []));
+        expect(container.querySelectorAll('.weight-slider').length).toBeGreaterThan(0);
+        expect(container.querySelector('#compare-bar')).not.toBeNull();
+        expect(container.querySelectorAll('#ranked-courses-list .course-card')).toHaveLength(6);
+    });
+
+    it('enables the compare button once enough courses are ticked', () => {
+        const open = (selection: number[]) => render(renderCompareBar(selection)).querySelector<HTMLButtonElement>('[data-compare="open"]');
+        expect(open([1])?.disabled).toBe(true);
+        expect(open([1, 3])?.disabled).toBe(false);
+    });
+});
+
+describe('renderAlternatives', () => {
+    // It once shipped with a stray "}" in its template that nothing caught.
+    it('renders each alternative and nothing else', () => {
+        const { alternatives } = result('analysis.json');
+        const container = render(renderAlternatives(alternatives));
+        const cards = container.querySelectorAll('.course-card');
+        expect(cards).toHaveLength(3);
+        expect(cards[0].querySelector('h3')?.textContent).toBe(alternatives[0].programme);
+        expect(container.textContent).not.toContain('}');
+        expect(container.querySelectorAll('a')).toHaveLength(3);
+    });
+
+    it('drops unsafe links and escapes model text', () => {
+        const [alternative] = result('analysis.json').alternatives;
+        const container = render(renderAlternatives([{ ...alternative, url: 'data:text/html,hi', why_consider: '<b>bold</b>' }]));
+        expect(container.querySelector('a')).toBeNull();
+        expect(container.querySelector('b')).toBeNull();
+        expect(container.textContent).toContain('<b>bold</b>');
+    });
+});
+
+describe('renderNotes and renderPartialResultBanner', () => {
+    it('lists each entry', () => {
+        expect(render(renderNotes(['One', 'Two'])).querySelectorAll('li')).toHaveLength(2);
+        expect(render(renderPartialResultBanner([{ key: 'validation.missing', params: { path: 'profile' } }])).textContent).toContain('profile is missing.');
+    });
+});
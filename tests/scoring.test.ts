@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_WEIGHTS, MAX_TOTAL_SCORE, SCORING_CRITERIA, loadWeights, rankCourses, saveWeights, scoreContributions, totalScore } from '../scoring';
+import type { CriterionScores, ScoreWeights } from '../scoring';
+import type { RankedCourse } from '../types';
+
+/** The same value for every criterion; works for scores and weights alike. */
+function uniform(value: number): CriterionScores {
+    return Object.fromEntries(SCORING_CRITERIA.map(({ id }) => [id, value])) as CriterionScores;
+}
+
+function course(rank: number, scores?: Partial<CriterionScores>): RankedCourse {
+    return {
+        rank,
+        university: 'University of Testing',
+        programme: `MSc Course ${rank}`,
+        city: 'London',
+        url: '',
+        start_cycle: 'September',
+        fee_gbp: '',
+        chevening_rationale: [],
+        scores: scores && { ...uniform(0), ...scores },
+    };
+}
+
+afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+});
+
+describe('totalScore', () => {
+    it('keeps the 0–30 scale for any weights', () => {
+        expect(totalScore(uniform(5))).toBe(MAX_TOTAL_SCORE);
+        expect(totalScore(uniform(0))).toBe(0);
+        expect(totalScore(uniform(5), { ...uniform(0), networking: 1 })).toBe(MAX_TOTAL_SCORE);
+    });
+
+    it('normalises by the weight sum, so scaling every weight changes nothing', () => {
+        const scores: CriterionScores = { gap_fit: 5, chevening_relevance: 4, uk_linkage: 3, feasibility: 2, portfolio: 1, networking: 0 };
+        const doubled = Object.fromEntries(Object.entries(DEFAULT_WEIGHTS).map(([id, weight]) => [id, weight * 2])) as ScoreWeights;
+        expect(totalScore(scores)).toBe(19);
+        expect(totalScore(scores, doubled)).toBe(19);
+        expect(totalScore(scores, { ...uniform(0), gap_fit: 1 })).toBe(30);
+    });
+
+    it('scores zero rather than dividing by zero when every weight is off', () => {
+        expect(totalScore(uniform(5), uniform(0))).toBe(0);
+        expect(scoreContributions(uniform(5), uniform(0))).toEqual(uniform(0));
+    });
+
+    it('splits the total into contributions that add back up to it', () => {
+        const scores: CriterionScores = { gap_fit: 4, chevening_relevance: 5, uk_linkage: 2, feasibility: 3, portfolio: 1, networking: 4 };
+        const contributions = scoreContributions(scores);
+        const sum = Object.values(contributions).reduce((total, points) => total + points, 0);
+        expect(sum).toBeCloseTo(totalScore(scores), 1);
+        expect(contributions.gap_fit).toBeCloseTo(6);
+    });
+});
+
+describe('rankCourses', () => {
+    it('orders by weighted total and renumbers the ranks', () => {
+        const courses = [course(1, { portfolio: 5 }), course(2, { gap_fit: 5 })];
+        expect(rankCourses(courses, DEFAULT_WEIGHTS).map(({ course, modelRank, total }) => [course.rank, modelRank, total])).toEqual([
+            [1, 2, 7.5],
+            [2, 1, 2.5],
+        ]);
+        expect(courses[0].rank).toBe(1);
+    });
+
+    it('breaks ties by the model’s rank and puts unscored courses last', () => {
+        const courses = [course(1), course(2, { feasibility: 5 }), course(3, { uk_linkage: 5 }), course(4)];
+        expect(rankCourses(courses, DEFAULT_WEIGHTS).map(({ modelRank }) => modelRank)).toEqual([2, 3, 1, 4]);
+        const favouringLinkage = { ...DEFAULT_WEIGHTS, uk_linkage: 5 };
+        expect(rankCourses(courses, favouringLinkage).map(({ modelRank }) => modelRank)).toEqual([3, 2, 1, 4]);
+    });
+});
+
+describe('loadWeights', () => {
+    it('round-trips saved weights and replaces values out of range', () => {
+        saveWeights({ ...DEFAULT_WEIGHTS, networking: 4 });
+        expect(loadWeights()).toEqual({ ...DEFAULT_WEIGHTS, networking: 4 });
+        localStorage.setItem('chevening-matchmaker:score-weights', JSON.stringify({ gap_fit: 9, portfolio: '2', feasibility: 0 }));
+        expect(loadWeights()).toEqual({ ...DEFAULT_WEIGHTS, feasibility: 0 });
+    });
+
+    it('falls back to the defaults when the saved value is not JSON', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        localStorage.setItem('chevening-matchmaker:score-weights', '{');
+        expect(loadWeights()).toEqual(DEFAULT_WEIGHTS);
+        expect(warn).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { wait } from '../timing';
+
+afterEach(() => vi.useRealTimers());
+
+describe('wait', () => {
+    it('resolves after the delay and removes its abort listener', async () => {
+        vi.useFakeTimers();
+        const controller = new AbortController();
+        const remove = vi.spyOn(controller.signal, 'removeEventListener');
+        const waiting = wait(1000, controller.signal);
+        await vi.advanceTimersByTimeAsync(1000);
+        await expect(waiting).resolves.toBeUndefined();
+        expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+    });
+
+    it('rejects with the abort reason', async () => {
+        const controller = new AbortController();
+        const waiting = wait(60_000, controller.signal);
+        controller.abort(new Error('Cancelled'));
+        await expect(waiting).rejects.toThrow('Cancelled');
+    });
+});
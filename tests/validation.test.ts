@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { afterEach, describe, expect, it } from 'vitest';
+import { setLocale, tMessage } from '../i18n';
+import { validateAnalysis } from '../validation';
+
+afterEach(() => setLocale('en'));
+
+describe('validateAnalysis', () => {
+    it('reports schema issues as messages, translated when shown', () => {
+        const { issues } = validateAnalysis({ ranked_courses: [{ university: 'A', programme: 'MSc B', chevening_rationale: ['Fit', 3] }] });
+        const text = issues.map(tMessage);
+        expect(text).toContain('profile is missing.');
+        expect(text).toContain('ranked_courses[0].chevening_rationale contains 1 invalid item.');
+        setLocale('fr');
+        expect(issues.map(tMessage)).toContain('profile est absent.');
+    });
+
+    it('moves courses with a repeated rank to the end', () => {
+        const course = (rank: unknown, programme: string) => ({ rank, university: 'University of Testing', programme });
+        const { data, issues } = validateAnalysis({ ranked_courses: [course(1, 'MSc A'), course('1', 'MSc B'), course(2, 'MSc C')] });
+        expect(data.ranked_courses.map(({ rank, programme }) => [rank, programme])).toEqual([[1, 'MSc A'], [2, 'MSc C'], [3, 'MSc B']]);
+        expect(issues.map(tMessage)).toContain('MSc B repeats rank 1; moved to rank 3.');
+    });
+
+    it('describes a response that is not an object', () => {
+        expect(validateAnalysis('nope').issues.map(tMessage)[0]).toBe('The response is not a JSON object.');
+    });
+});
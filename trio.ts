@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { formatStartMonths, studyModeLabel } from './catalogue/catalogue';
+import { findCatalogueCourse } from './catalogue/verify';
+import { checkEligibility } from './eligibility';
+import { MBA_FEE_CAP_GBP, isMba, parseFeeGbp } from './fees';
+import { REGION_LABELS, regionForCity } from './regions';
+import type { EligibilityReport } from './eligibility';
+import type { Message, MessageKey } from './i18n';
+import type { AnalysisResult, AnalysisRun, RankedCourse } from './types';
+
+// --- Trio Builder Rules ---
+// Chevening applicants list three courses in order of preference. These checks
+// run live as the user builds their own trio from the recommendations.
+
+export const TRIO_SIZE = 3;
+
+export interface TrioCandidate {
+    key: string;
+    source: 'ranked' | 'alternative';
+    /** Course details; for alternatives these come from the course index where possible. */
+    course: RankedCourse;
+    eligibility: EligibilityReport;
+}
+
+export type TrioCheckSeverity = 'error' | 'warning' | 'ok';
+
+export interface TrioCheck {
+    id: 'count' | 'eligibility' | 'universities' | 'regions' | 'mba_fee_cap' | 'fields';
+    severity: TrioCheckSeverity;
+    message: Message;
+}
+
+const FIELD_FAMILIES: [MessageKey, RegExp][] = [
+    ['field.media', /\b(media|communications?|journalism|film|digital humanities)\b/i],
+    ['field.policy', /\b(public (policy|administration|management)|policy|governance|politics)\b/i],
+    ['field.development', /\b(development|humanitarian|poverty)\b/i],
+    ['field.business', /\b(mba|business|management|marketing|finance|accounting)\b/i],
+    ['field.law', /\b(law|llm|legal)\b/i],
+    ['field.health', /\b(health|medicine|epidemiology|nursing)\b/i],
+    ['field.data', /\b(data|computing|computer|artificial intelligence|analytics|software)\b/i],
+    ['field.environment', /\b(environment(al)?|climate|sustainab\w*|energy)\b/i],
+    ['field.education', /\b(education|teaching|pedagogy)\b/i],
+    ['field.engineering', /\b(engineering)\b/i],
+];
+
+export function candidateKey(course: { university: string; programme: string }): string {
+    return `${course.university}|${course.programme}`.toLowerCase().trim();
+}
+
+/** The message key of the first family a programme belongs to, or null if it fits none. */
+export function fieldFamily(programme: string): MessageKey | null {
+    return FIELD_FAMILIES.find(([, pattern]) => pattern.test(programme))?.[0] ?? null;
+}
+
+export function buildCandidates(result: AnalysisResult, targetYear: number): TrioCandidate[] {
+    const ranked = result.ranked_courses.map(course => ({
+        key: candidateKey(course),
+        source: 'ranked' as const,
+        course,
+        eligibility: checkEligibility(course, targetYear),
+    }));
+    const rankedKeys = new Set(ranked.map(candidate => candidate.key));
+    const alternatives = result.alternatives
+        .filter(alternative => !rankedKeys.has(candidateKey(alternative)))
+        .map((alternative, index) => {
+            const entry = findCatalogueCourse(alternative.catalogue?.course_id);
+            const course: RankedCourse = {
+                rank: result.ranked_courses.length + index + 1,
+                university: alternative.university,
+                programme: alternative.programme,
+                city: entry?.city ?? '',
+                url: alternative.url,
+                start_cycle: entry ? formatStartMonths(entry.start_months) : '',
+                duration_months: entry?.duration_months ?? undefined,
+                fee_gbp: entry?.fee_gbp ? `£${entry.fee_gbp.toLocaleString('en-GB')}` : 'Verify on university site',
+                study_mode: entry ? studyModeLabel(entry.mode) : undefined,
+                award: entry?.award,
+                chevening_rationale: [alternative.why_consider],
+                catalogue: alternative.catalogue,
+            };
+            return {
+                key: candidateKey(alternative),
+                source: 'alternative' as const,
+                course,
+                eligibility: checkEligibility(course, targetYear),
+            };
+        });
+    return [...ranked, ...alternatives];
+}
+
+/** Keys of the model's suggested trio that exist among the candidates, in order. */
+export function initialTrio(result: AnalysisResult, candidates: TrioCandidate[]): string[] {
+    const keys = new Set(candidates.map(candidate => candidate.key));
+    return result.chevening_trio
+        .map(candidateKey)
+        .filter(key => keys.has(key))
+        .slice(0, TRIO_SIZE);
+}
+
+/** The courses of the trio the user built, in order; null while they keep the model's. */
+export function editedTrio(run: AnalysisRun): TrioCandidate[] | null {
+    if (!run.trio) return null;
+    const byKey = new Map(buildCandidates(run.result, run.inputs.year).map(candidate => [candidate.key, candidate]));
+    return run.trio.map(key => byKey.get(key)).filter((pick): pick is TrioCandidate => !!pick);
+}
+
+export function checkTrio(picks: TrioCandidate[]): TrioCheck[] {
+    const checks: TrioCheck[] = [];
+    const programmes = (list: TrioCandidate[]) => list.map(pick => pick.course.programme);
+
+    checks.push(picks.length === TRIO_SIZE
+        ? { id: 'count', severity: 'ok', message: { key: 'trio.check.count' } }
+        : { id: 'count', severity: 'error', message: { pluralKey: 'trio.check.missing', count: TRIO_SIZE - picks.length } });
+
+    const ineligible = picks.filter(pick => pick.eligibility.status === 'ineligible');
+    const unverified = picks.filter(pick => pick.eligibility.status === 'unverified');
+    if (ineligible.length > 0) {
+        checks.push({ id: 'eligibility', severity: 'error', message: { key: 'trio.check.ineligible', params: { courses: programmes(ineligible) } } });
+    } else if (unverified.length > 0) {
+        checks.push({ id: 'eligibility', severity: 'warning', message: { key: 'trio.check.unverified', params: { courses: programmes(unverified) } } });
+    } else if (picks.length > 0) {
+        checks.push({ id: 'eligibility', severity: 'ok', message: { key: 'trio.check.eligible' } });
+    }
+
+    const universities = new Map<string, number>();
+    picks.forEach(pick => universities.set(pick.course.university, (universities.get(pick.course.university) ?? 0) + 1));
+    const repeated = [...universities].filter(([, count]) => count > 1).map(([university]) => university);
+    if (repeated.length > 0) {
+        checks.push({ id: 'universities', severity: 'warning', message: { key: 'trio.check.sameUniversity', params: { universities: repeated } } });
+    } else if (picks.length > 1) {
+        checks.push({ id: 'universities', severity: 'ok', message: { key: 'trio.check.differentUniversities' } });
+    }
+
+    const regions = picks.map(pick => regionForCity(pick.course.city));
+    const knownRegions = [...new Set(regions.filter(region => region !== null))].map(region => ({ key: REGION_LABELS[region] }));
+    if (picks.length === TRIO_SIZE && knownRegions.length === 1 && regions.every(region => region !== null)) {
+        checks.push({ id: 'regions', severity: 'warning', message: { key: 'trio.check.sameRegion', params: { region: knownRegions[0] } } });
+    } else if (knownRegions.length > 1) {
+        checks.push({ id: 'regions', severity: 'ok', message: { key: 'trio.check.spread', params: { regions: knownRegions } } });
+    }
+
+    const mbaPicks = picks.filter(pick => isMba(pick.course.programme) || isMba(pick.course.award));
+    const mbaMessages = mbaPicks.map((pick): Message | null => {
+        const course = { programme: pick.course.programme, university: pick.course.university };
+        const fee = parseFeeGbp(pick.course.fee_gbp);
+        if (fee === null) return { key: 'trio.check.mbaFeeUnknown', params: course };
+        return fee > MBA_FEE_CAP_GBP
+            ? { key: 'trio.check.mbaTopUp', params: { ...course, amount: { gbp: fee - MBA_FEE_CAP_GBP } } }
+            : null;
+    }).filter((message): message is Message => message !== null);
+    if (mbaMessages.length > 0) {
+        checks.push({ id: 'mba_fee_cap', severity: 'warning', message: { key: 'trio.check.mbaFeeCap', params: { cap: { gbp: MBA_FEE_CAP_GBP }, courses: mbaMessages } } });
+    }
+
+    const families = [...new Set(picks.map(pick => fieldFamily(pick.course.programme)).filter((family): family is MessageKey => family !== null))]
+        .map(key => ({ key }));
+    if (families.length >= TRIO_SIZE) {
+        checks.push({ id: 'fields', severity: 'warning', message: { key: 'trio.check.mixedFields', params: { fields: families } } });
+    } else if (families.length > 0 && picks.length > 1) {
+        checks.push({ id: 'fields', severity: 'ok', message: { key: 'trio.check.oneField', params: { fields: families } } });
+    }
+
+    return checks;
+}
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Message } from './i18n';
+import type { PromptInputs } from './prompt';
+import type { CriterionScores } from './scoring';
+
+// --- Domain Model ---
+// Mirrors the response schema of the current version in prompts/. Fields the
+// model may omit are optional; everything else is guaranteed by `validateAnalysis` in validation.ts.
+
+export interface Profile {
+    strengths: string[];
+    gaps: string[];
+}
+
+export interface EligibilityCheck {
+    is_eligible: boolean;
+    reason: string;
+}
+
+/** Set on the client after matching a recommendation against the bundled course catalogue. */
+export interface CatalogueVerification {
+    status: 'verified' | 'not_found';
+    course_id?: string;
+    catalogue_version: string;
+    /** Fields that were filled in or corrected from the catalogue entry. */
+    filled_fields: string[];
+}
+
+export interface RankedCourse {
+    rank: number;
+    university: string;
+    programme: string;
+    city: string;
+    url: string;
+    start_cycle: string;
+    duration_months?: number;
+    fee_gbp: string;
+    study_mode?: string;
+    award?: string;
+    chevening_rationale: string[];
+    eligibility_check?: EligibilityCheck;
+    score_breakdown?: string;
+    /** Per-criterion sub-scores (0–5); see scoring.ts for how totals are computed. */
+    scores?: CriterionScores;
+    catalogue?: CatalogueVerification;
+}
+
+export interface TrioEntry {
+    university: string;
+    programme: string;
+    why_this_trio: string;
+}
+
+export interface StatementBullets {
+    leadership: string[];
+    networking: string[];
+    career_plan: string[];
+}
+
+export interface Alternative {
+    university: string;
+    programme: string;
+    url: string;
+    why_consider: string;
+    catalogue?: CatalogueVerification;
+}
+
+export interface AnalysisResult {
+    profile: Profile;
+    ranked_courses: RankedCourse[];
+    chevening_trio: TrioEntry[];
+    personal_statement_bullets: StatementBullets;
+    alternatives: Alternative[];
+    notes: string[];
+}
+
+/** A result together with what produced it, so exports and saved copies can be traced back to their run. */
+export interface AnalysisRun {
+    result: AnalysisResult;
+    /** Schema issues from `validateAnalysis`, translated when shown. */
+    issues: Message[];
+    inputs: PromptInputs;
+    /** ISO timestamp of when the analysis finished. */
+    generatedAt: string;
+    provider: string;
+    model: string;
+    /** Version of the system instruction and schema; absent on runs saved before prompts were versioned. */
+    promptVersion?: string;
+    /** Candidate keys of the trio the user built, in order; absent while they keep the model's. */
+    trio?: string[];
+}
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- URL State ---
+// The saved run on screen and the open course comparison are kept in the URL
+// hash, e.g. `#run=<id>&compare=2,5`, so a reload or bookmark reopens the
+// same view. Runs live in this browser's storage; exports are for sharing.
+
+export interface ViewState {
+    runId: string | null;
+    /** Model ranks of the compared courses; empty when no comparison is open. */
+    compare: number[];
+}
+
+export function readViewState(hash: string = location.hash): ViewState {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const compare = (params.get('compare') ?? '')
+        .split(',')
+        .map(Number)
+        .filter(rank => Number.isInteger(rank) && rank > 0);
+    return { runId: params.get('run') || null, compare };
+}
+
+export function viewStateHash({ runId, compare }: ViewState): string {
+    const params = new URLSearchParams();
+    if (runId) params.set('run', runId);
+    if (compare.length > 0) params.set('compare', compare.join(','));
+    const query = params.toString().replace(/%2C/g, ',');
+    return query ? `#${query}` : '';
+}
+
+/** Updates the hash without adding a history entry or scrolling. */
+export function writeViewState(state: ViewState) {
+    const hash = viewStateHash(state);
+    if (hash === location.hash) return;
+    history.replaceState(null, '', `${location.pathname}${location.search}${hash}`);
+}
@@ -0,0 +1,280 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { MAX_CRITERION_SCORE, SCORING_CRITERIA } from './scoring';
+import type { CriterionFeedback, EssayFeedback, FeedbackRating } from './essays';
+import type { Message } from './i18n';
+import type { CriterionScores } from './scoring';
+import type {
+    Alternative,
+    AnalysisResult,
+    EligibilityCheck,
+    Profile,
+    RankedCourse,
+    StatementBullets,
+    TrioEntry,
+} from './types';
+
+// --- Response Validation ---
+// The model does not always honour the schema: fields go missing, numbers arrive
+// as strings and arrays come back as single values. `validateAnalysis` keeps
+// whatever is usable, fills safe defaults and records every deviation.
+
+export interface ValidationResult {
+    data: AnalysisResult;
+    /** Schema violations, translated when shown; empty when the response was complete. */
+    issues: Message[];
+}
+
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(value: unknown, path: string, issues: Message[], fallback = ''): string {
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number') return String(value);
+    issues.push({ key: 'validation.missing', params: { path } });
+    return fallback;
+}
+
+function readOptionalString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function readNumber(value: unknown): number | undefined {
+    const number = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function readStringList(value: unknown, path: string, issues: Message[]): string[] {
+    if (typeof value === 'string') {
+        return value.trim() ? [value.trim()] : [];
+    }
+    if (!Array.isArray(value)) {
+        issues.push({ key: 'validation.missing', params: { path } });
+        return [];
+    }
+    const strings = value.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+    if (strings.length !== value.length) {
+        issues.push({ pluralKey: 'validation.invalidItems', count: value.length - strings.length, params: { path } });
+    }
+    return strings.map(item => item.trim());
+}
+
+function readList<T>(value: unknown, path: string, issues: Message[], readItem: (item: Raw, itemPath: string, index: number) => T | null): T[] {
+    if (!Array.isArray(value)) {
+        issues.push({ key: 'validation.missing', params: { path } });
+        return [];
+    }
+    const items: T[] = [];
+    value.forEach((item, index) => {
+        const itemPath = `${path}[${index}]`;
+        if (!isObject(item)) {
+            issues.push({ key: 'validation.notObjectSkipped', params: { path: itemPath } });
+            return;
+        }
+        const parsed = readItem(item, itemPath, index);
+        if (parsed) items.push(parsed);
+    });
+    return items;
+}
+
+/** University and programme identify a course; without both the entry is dropped. */
+function hasCourseIdentity(item: Raw, path: string, issues: Message[]): boolean {
+    const ok = typeof item.university === 'string' && item.university.trim() !== ''
+        && typeof item.programme === 'string' && item.programme.trim() !== '';
+    if (!ok) issues.push({ key: 'validation.noIdentity', params: { path } });
+    return ok;
+}
+
+function readProfile(value: unknown, issues: Message[]): Profile {
+    if (!isObject(value)) {
+        issues.push({ key: 'validation.missing', params: { path: 'profile' } });
+        return { strengths: [], gaps: [] };
+    }
+    return {
+        strengths: readStringList(value.strengths, 'profile.strengths', issues),
+        gaps: readStringList(value.gaps, 'profile.gaps', issues),
+    };
+}
+
+function readEligibilityCheck(value: unknown, path: string, issues: Message[]): EligibilityCheck | undefined {
+    if (value === undefined) return undefined;
+    if (!isObject(value) || typeof value.is_eligible !== 'boolean') {
+        issues.push({ key: 'validation.noVerdict', params: { path } });
+        return undefined;
+    }
+    return { is_eligible: value.is_eligible, reason: readOptionalString(value.reason) ?? '' };
+}
+
+function readScores(value: unknown, path: string, issues: Message[]): CriterionScores | undefined {
+    if (value === undefined) {
+        issues.push({ key: 'validation.missing', params: { path } });
+        return undefined;
+    }
+    if (!isObject(value)) {
+        issues.push({ key: 'validation.notObject', params: { path } });
+        return undefined;
+    }
+    const missing: string[] = [];
+    const scores = Object.fromEntries(SCORING_CRITERIA.map(({ id }) => {
+        const score = readNumber(value[id]);
+        if (score === undefined) {
+            missing.push(id);
+            return [id, 0];
+        }
+        return [id, Math.min(MAX_CRITERION_SCORE, Math.max(0, score))];
+    })) as CriterionScores;
+    if (missing.length === SCORING_CRITERIA.length) {
+        issues.push({ key: 'validation.noScores', params: { path } });
+        return undefined;
+    }
+    if (missing.length > 0) {
+        issues.push({ key: 'validation.missingScores', params: { path, criteria: missing.join(', ') } });
+    }
+    return scores;
+}
+
+function readRankedCourse(item: Raw, path: string, issues: Message[], index: number): RankedCourse | null {
+    if (!hasCourseIdentity(item, path, issues)) return null;
+    return {
+        rank: readNumber(item.rank) ?? index + 1,
+        university: readString(item.university, `${path}.university`, issues),
+        programme: readString(item.programme, `${path}.programme`, issues),
+        city: readString(item.city, `${path}.city`, issues),
+        url: readString(item.url, `${path}.url`, issues),
+        start_cycle: readString(item.start_cycle, `${path}.start_cycle`, issues, 'Verify on university site'),
+        duration_months: readNumber(item.duration_months),
+        fee_gbp: readString(item.fee_gbp, `${path}.fee_gbp`, issues, 'Verify on university site'),
+        study_mode: readOptionalString(item.study_mode),
+        award: readOptionalString(item.award),
+        chevening_rationale: readStringList(item.chevening_rationale, `${path}.chevening_rationale`, issues),
+        eligibility_check: readEligibilityCheck(item.eligibility_check, `${path}.eligibility_check`, issues),
+        score_breakdown: readOptionalString(item.score_breakdown),
+        scores: readScores(item.scores, `${path}.scores`, issues),
+    };
+}
+
+function readTrioEntry(item: Raw, path: string, issues: Message[]): TrioEntry | null {
+    if (!hasCourseIdentity(item, path, issues)) return null;
+    return {
+        university: readString(item.university, `${path}.university`, issues),
+        programme: readString(item.programme, `${path}.programme`, issues),
+        why_this_trio: readString(item.why_this_trio, `${path}.why_this_trio`, issues),
+    };
+}
+
+function readAlternative(item: Raw, path: string, issues: Message[]): Alternative | null {
+    if (!hasCourseIdentity(item, path, issues)) return null;
+    return {
+        university: readString(item.university, `${path}.university`, issues),
+        programme: readString(item.programme, `${path}.programme`, issues),
+        url: readString(item.url, `${path}.url`, issues),
+        why_consider: readString(item.why_consider, `${path}.why_consider`, issues),
+    };
+}
+
+function readBullets(value: unknown, issues: Message[]): StatementBullets {
+    if (!isObject(value)) {
+        issues.push({ key: 'validation.missing', params: { path: 'personal_statement_bullets' } });
+        return { leadership: [], networking: [], career_plan: [] };
+    }
+    return {
+        leadership: readStringList(value.leadership, 'personal_statement_bullets.leadership', issues),
+        networking: readStringList(value.networking, 'personal_statement_bullets.networking', issues),
+        career_plan: readStringList(value.career_plan, 'personal_statement_bullets.career_plan', issues),
+    };
+}
+
+/**
+ * Comparison picks and shared links name courses by rank, so a rank the model
+ * repeats would select two courses at once. Later duplicates move to the end.
+ * Expects `courses` sorted by rank; leaves them sorted.
+ */
+function makeRanksUnique(courses: RankedCourse[], issues: Message[]) {
+    const used = new Set<number>();
+    let next = Math.max(0, ...courses.map(course => course.rank)) + 1;
+    courses.forEach(course => {
+        if (used.has(course.rank)) {
+            issues.push({ key: 'validation.duplicateRank', params: { programme: course.programme, rank: String(course.rank), newRank: String(next) } });
+            course.rank = next++;
+        }
+        used.add(course.rank);
+    });
+    courses.sort((a, b) => a.rank - b.rank);
+}
+
+/** Normalises parsed model JSON into an `AnalysisResult`. Never throws. */
+export function validateAnalysis(raw: unknown): ValidationResult {
+    const issues: Message[] = [];
+    const root: Raw = isObject(raw) ? raw : {};
+    if (!isObject(raw)) issues.push({ key: 'validation.notJson' });
+
+    const data: AnalysisResult = {
+        profile: readProfile(root.profile, issues),
+        ranked_courses: readList(root.ranked_courses, 'ranked_courses', issues, (item, path, index) => readRankedCourse(item, path, issues, index)),
+        chevening_trio: readList(root.chevening_trio, 'chevening_trio', issues, (item, path) => readTrioEntry(item, path, issues)),
+        personal_statement_bullets: readBullets(root.personal_statement_bullets, issues),
+        alternatives: readList(root.alternatives, 'alternatives', issues, (item, path) => readAlternative(item, path, issues)),
+        notes: readStringList(root.notes, 'notes', issues),
+    };
+    data.ranked_courses.sort((a, b) => a.rank - b.rank);
+    makeRanksUnique(data.ranked_courses, issues);
+
+    return { data, issues };
+}
+
+/** True when validation salvaged nothing worth rendering. */
+export function isEmptyAnalysis(data: AnalysisResult): boolean {
+    const { profile, personal_statement_bullets: bullets } = data;
+    return profile.strengths.length === 0 && profile.gaps.length === 0
+        && data.ranked_courses.length === 0 && data.chevening_trio.length === 0
+        && data.alternatives.length === 0 && data.notes.length === 0
+        && bullets.leadership.length === 0 && bullets.networking.length === 0 && bullets.career_plan.length === 0;
+}
+
+// --- Essay Review Validation ---
+
+const FEEDBACK_RATINGS: FeedbackRating[] = ['strong', 'adequate', 'weak'];
+
+function readCriterionFeedback(item: Raw, path: string, issues: Message[]): CriterionFeedback | null {
+    const criterion = readString(item.criterion, `${path}.criterion`, issues);
+    if (!criterion) return null;
+    const rating = typeof item.rating === 'string' ? item.rating.trim().toLowerCase() : '';
+    if (!FEEDBACK_RATINGS.includes(rating as FeedbackRating)) {
+        issues.push({ key: 'validation.badRating', params: { path: `${path}.rating`, ratings: FEEDBACK_RATINGS.join(', ') } });
+    }
+    return {
+        criterion,
+        rating: FEEDBACK_RATINGS.includes(rating as FeedbackRating) ? rating as FeedbackRating : 'adequate',
+        comment: readString(item.comment, `${path}.comment`, issues),
+        suggestions: item.suggestions === undefined ? [] : readStringList(item.suggestions, `${path}.suggestions`, issues),
+    };
+}
+
+/**
+ * Normalises a draft review. Feedback is returned in the order of `criteria`;
+ * criteria the model skipped are reported as issues, unknown ones kept at the end.
+ */
+export function validateEssayFeedback(raw: unknown, criteria: string[]): { data: EssayFeedback; issues: Message[] } {
+    const issues: Message[] = [];
+    const root: Raw = isObject(raw) ? raw : {};
+    if (!isObject(raw)) issues.push({ key: 'validation.notJson' });
+
+    const feedback = readList(root.criteria, 'criteria', issues, (item, path) => readCriterionFeedback(item, path, issues));
+    const byName = new Map(feedback.map(entry => [entry.criterion.toLowerCase(), entry]));
+    const ordered = criteria
+        .map(criterion => byName.get(criterion.toLowerCase()))
+        .filter((entry): entry is CriterionFeedback => !!entry);
+    const missing = criteria.filter(criterion => !byName.has(criterion.toLowerCase()));
+    if (missing.length > 0) issues.push({ key: 'validation.noFeedback', params: { criteria: missing } });
+    const extra = feedback.filter(entry => !ordered.includes(entry));
+
+    return {
+        data: { overall: readString(root.overall, 'overall', issues), criteria: [...ordered, ...extra] },
+        issues,
+    };
+}